@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server'
+import { SESSION_COOKIE, signSessionToken } from '@/lib/auth/session-token'
+import { middleware } from '@/middleware'
+
+function apiRequest(path: string, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`http://localhost${path}`, { headers })
+}
+
+// Next passes the rewritten request headers on to the route this way
+function forwardedUserId(response: Response): string | null {
+  return response.headers.get('x-middleware-request-x-user-id')
+}
+
+describe('middleware', () => {
+  it('passes the verified user on as x-user-id', async () => {
+    const token = await signSessionToken({ userId: 'user-1', isAnonymous: true })
+
+    const response = await middleware(apiRequest('/api/chat', { cookie: `${SESSION_COOKIE}=${token}` }))
+
+    expect(response.status).toBe(200)
+    expect(forwardedUserId(response)).toBe('user-1')
+  })
+
+  it('accepts bearer tokens', async () => {
+    const token = await signSessionToken({ userId: 'user-1', isAnonymous: false })
+
+    const response = await middleware(apiRequest('/api/chat', { authorization: `Bearer ${token}` }))
+
+    expect(forwardedUserId(response)).toBe('user-1')
+  })
+
+  it('overwrites a client-supplied x-user-id with the token user', async () => {
+    const token = await signSessionToken({ userId: 'user-1', isAnonymous: true })
+
+    const response = await middleware(apiRequest('/api/chat', { cookie: `${SESSION_COOKIE}=${token}`, 'x-user-id': 'user-2' }))
+
+    expect(forwardedUserId(response)).toBe('user-1')
+  })
+
+  it('refuses private routes without a valid token, whatever x-user-id says', async () => {
+    const missing = await middleware(apiRequest('/api/chat', { 'x-user-id': 'user-2' }))
+    const tampered = await middleware(apiRequest('/api/chat', { authorization: 'Bearer v1.e30.c2lnbmF0dXJl', 'x-user-id': 'user-2' }))
+
+    expect(missing.status).toBe(401)
+    expect(tampered.status).toBe(401)
+  })
+
+  it('lets public routes through without a user', async () => {
+    const response = await middleware(apiRequest('/api/auth/anonymous', { 'x-user-id': 'user-2' }))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('x-middleware-override-headers')).not.toContain('x-user-id')
+    expect(forwardedUserId(response)).toBeNull()
+  })
+})
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { entitlements } from '@/lib/ai/emma-instance'
+import { quotaPayload } from '@/lib/billing/quota-response'
+
+// The user's plan, what it includes and today's usage
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const status = await entitlements.status(userId)
+
+    return NextResponse.json({
+      tier: status.tier,
+      entitlements: status.entitlements,
+      quotas: {
+        messages: quotaPayload(status.quotas.messages),
+        voiceSeconds: quotaPayload(status.quotas.voice_seconds)
+      }
+    })
+  } catch (error) {
+    console.error('Entitlements fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load plan details. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
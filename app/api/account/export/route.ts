@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { userData } from '@/lib/ai/emma-instance'
+import { toArchiveFiles } from '@/lib/privacy/user-data-service'
+import { createZipArchive } from '@/lib/privacy/zip-archive'
+
+// Download everything stored for the user: ?format=json (default) or zip
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const format = new URL(request.url).searchParams.get('format') || 'json'
+  if (format !== 'json' && format !== 'zip') {
+    return NextResponse.json(
+      { error: 'Format must be "json" or "zip"' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const data = await userData.export(userId)
+    const filename = `emma-export-${data.exportedAt.slice(0, 10)}.${format}`
+    const headers = {
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store'
+    }
+
+    if (format === 'zip') {
+      return new Response(createZipArchive(toArchiveFiles(data)), {
+        headers: { ...headers, 'Content-Type': 'application/zip' }
+      })
+    }
+
+    return NextResponse.json(data, { headers })
+  } catch (error) {
+    console.error('Data export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export your data. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyDeletionReceipt, type DeletionReceipt } from '@/lib/privacy/deletion-receipt'
+
+// Check that a deletion receipt was issued by Emma and has not been altered
+export async function POST(request: NextRequest) {
+  try {
+    const { receipt } = await request.json() as { receipt?: DeletionReceipt }
+
+    if (!receipt || typeof receipt !== 'object') {
+      return NextResponse.json(
+        { error: 'Receipt is required' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ valid: verifyDeletionReceipt(receipt) })
+  } catch (error) {
+    console.error('Receipt verification error:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify receipt' },
+      { status: 500 }
+    )
+  }
+}
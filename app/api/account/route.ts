@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { userData } from '@/lib/ai/emma-instance'
+import { clearSession } from '@/lib/auth/session-response'
+
+// Erase all of the user's data and return a signed deletion receipt
+export async function DELETE(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const receipt = await userData.erase(userId)
+    // The session's profile is gone, so the session goes with it
+    return clearSession(NextResponse.json({ receipt }))
+  } catch (error) {
+    console.error('Data erasure error:', error)
+    return NextResponse.json(
+      { error: 'Failed to erase your data. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
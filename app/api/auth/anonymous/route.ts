@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { identity } from '@/lib/ai/emma-instance'
+import { identityPayload, respondWithSession } from '@/lib/auth/session-response'
+import { ratelimit } from '@/lib/ratelimit'
+
+// Start an anonymous identity, or return the current one while its session is valid
+export async function POST(request: NextRequest) {
+  try {
+    // Set by middleware only when the session token verified
+    const userId = request.headers.get('x-user-id')
+    const current = userId ? await identity.get(userId) : null
+    if (current) {
+      return NextResponse.json(identityPayload(current))
+    }
+
+    // Every new identity is a users row, so creation is rate limited
+    const clientIp = request.ip ?? 'anonymous'
+    const { success } = await ratelimit.limit(`identity:${clientIp}`)
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const user = await identity.createAnonymous()
+    return respondWithSession(user, { status: 201 })
+  } catch (error) {
+    console.error('Anonymous identity error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start your session. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
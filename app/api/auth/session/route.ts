@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { identity } from '@/lib/ai/emma-instance'
+import { clearSession, identityPayload } from '@/lib/auth/session-response'
+
+// The identity behind the current session
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const user = await identity.get(userId)
+
+    // A valid token for a profile that no longer exists, e.g. after erasure
+    if (!user) {
+      return clearSession(NextResponse.json(
+        { error: 'Session has ended' },
+        { status: 401 }
+      ))
+    }
+
+    return NextResponse.json(identityPayload(user))
+  } catch (error) {
+    console.error('Session lookup error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load your session. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
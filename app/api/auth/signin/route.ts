@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { identity } from '@/lib/ai/emma-instance'
+import { identityErrorResponse, respondWithSession } from '@/lib/auth/session-response'
+
+// Switch to the profile linked to a Supabase auth account, e.g. on a new device
+export async function POST(request: NextRequest) {
+  try {
+    const { accessToken } = await request.json().catch(() => ({})) as { accessToken?: unknown }
+
+    if (!accessToken || typeof accessToken !== 'string') {
+      return NextResponse.json(
+        { error: 'accessToken is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await identity.signIn(accessToken)
+    if (result.error) return identityErrorResponse(result.error)
+
+    return respondWithSession(result.user)
+  } catch (error) {
+    console.error('Sign-in error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
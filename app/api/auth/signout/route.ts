@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { clearSession } from '@/lib/auth/session-response'
+
+// Forget the session on this device; the profile and its history remain
+export async function POST() {
+  return clearSession(NextResponse.json({ signedOut: true }))
+}
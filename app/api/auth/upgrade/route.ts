@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { identity } from '@/lib/ai/emma-instance'
+import { identityErrorResponse, respondWithSession } from '@/lib/auth/session-response'
+
+// Link the anonymous profile to a Supabase auth account, keeping its history
+export async function POST(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { accessToken } = await request.json().catch(() => ({})) as { accessToken?: unknown }
+
+    if (!accessToken || typeof accessToken !== 'string') {
+      return NextResponse.json(
+        { error: 'accessToken is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await identity.upgrade(userId, accessToken)
+    if (result.error) return identityErrorResponse(result.error)
+
+    return respondWithSession(result.user)
+  } catch (error) {
+    console.error('Account upgrade error:', error)
+    return NextResponse.json(
+      { error: 'Failed to link your account. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/chat/route'
+import { entitlements } from '@/lib/ai/emma-instance'
+import type { ScriptedLLMProvider } from '@/lib/ai/llm-provider'
+import { silenceConsole } from '@/test/emma'
+
+jest.mock('@/lib/ratelimit', () => ({
+  ratelimit: { limit: async () => ({ success: true, limit: 10, reset: Date.now() + 60000, remaining: 9 }) }
+}))
+
+jest.mock('@/lib/ai/emma-instance', () => {
+  const { createEmma } = jest.requireActual('@/test/emma')
+  const { EntitlementService } = jest.requireActual('@/lib/billing/entitlement-service')
+  const { InMemoryUsageRepository } = jest.requireActual('@/lib/database/usage-repository')
+  const { InMemoryUserRepository } = jest.requireActual('@/lib/database/user-repository')
+  const { emma, provider } = createEmma()
+  return {
+    provider,
+    emma,
+    entitlements: new EntitlementService(new InMemoryUserRepository(), new InMemoryUsageRepository())
+  }
+})
+
+const provider: ScriptedLLMProvider = jest.requireMock('@/lib/ai/emma-instance').provider
+
+function chatRequest(userId: string, message: string, sessionId?: string): NextRequest {
+  return new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'x-user-id': userId, ...(sessionId ? { 'x-session-id': sessionId } : {}) },
+    body: JSON.stringify({ message })
+  })
+}
+
+async function messagesUsed(userId: string): Promise<number> {
+  return (await entitlements.check(userId, 'messages')).quota.used
+}
+
+async function useDailyQuota(userId: string): Promise<void> {
+  await entitlements.record(userId, 'messages', 20)
+}
+
+silenceConsole()
+
+beforeEach(() => {
+  provider.calls.length = 0
+})
+
+describe('POST /api/chat', () => {
+  it('counts a coached message against the daily quota', async () => {
+    const response = await POST(chatRequest('user-counted', 'We keep fighting about chores'))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).response).toContain('feel heard')
+    expect(await messagesUsed('user-counted')).toBe(1)
+  })
+
+  describe('over the daily message quota', () => {
+    it('refuses ordinary messages without asking the LLM', async () => {
+      await useDailyQuota('user-ordinary')
+
+      const response = await POST(chatRequest('user-ordinary', 'Can we talk about chores again?'))
+
+      expect(response.status).toBe(429)
+      expect((await response.json()).code).toBe('quota_exceeded')
+      expect(provider.calls).toHaveLength(0)
+    })
+
+    it('answers messages with crisis keywords without counting them', async () => {
+      await useDailyQuota('user-keywords')
+
+      const response = await POST(chatRequest('user-keywords', 'He said he would hit me'))
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).metadata.crisisDetected).toBe(true)
+      expect(await messagesUsed('user-keywords')).toBe(20)
+    })
+
+    it("does not mistake other languages' keywords in English for a crisis", async () => {
+      await useDailyQuota('user-menace')
+
+      const response = await POST(chatRequest('user-menace', 'She calls me a menace'))
+
+      expect(response.status).toBe(429)
+    })
+
+    it('answers later messages in a session for half an hour after a crisis', async () => {
+      const first = await POST(chatRequest('user-session', 'I want to kill myself'))
+      const sessionId = first.headers.get('X-Session-Id')!
+      await useDailyQuota('user-session')
+
+      const later = await POST(chatRequest('user-session', 'Thank you for staying with me', sessionId))
+      const fresh = await POST(chatRequest('user-session', 'Thank you for staying with me'))
+
+      expect(later.status).toBe(200)
+      expect(fresh.status).toBe(429)
+    })
+
+    it('counts messages again once the crisis is half an hour past', async () => {
+      const first = await POST(chatRequest('user-window', 'I want to kill myself'))
+      const sessionId = first.headers.get('X-Session-Id')!
+      await useDailyQuota('user-window')
+      const now = Date.now()
+      // Only the clock is faked; the route still awaits real timers
+      jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] })
+
+      try {
+        // A message inside the window keeps the conversation from going idle
+        jest.setSystemTime(now + 20 * 60 * 1000)
+        const within = await POST(chatRequest('user-window', 'I am calmer now', sessionId))
+        jest.setSystemTime(now + 35 * 60 * 1000)
+        const after = await POST(chatRequest('user-window', 'Can we talk about chores now?', sessionId))
+
+        expect(within.status).toBe(200)
+        expect(after.status).toBe(429)
+      } finally {
+        jest.useRealTimers()
+      }
+    })
+  })
+})
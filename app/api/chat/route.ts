@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { EmmaAI } from '@/lib/ai/emma-core'
+import { emma, entitlements } from '@/lib/ai/emma-instance'
+import type { EmmaInteractionResult, InteractionMetadata } from '@/lib/ai/emma-core'
+import { isPartnerId } from '@/lib/ai/couples-session'
+import { SUPPORTED_LANGUAGES, normalizeLanguage } from '@/lib/ai/languages'
+import type { Quota } from '@/lib/billing/entitlement-service'
+import { featureUnavailableResponse, quotaExceededResponse, quotaHeaders, quotaPayload } from '@/lib/billing/quota-response'
 import { ratelimit } from '@/lib/ratelimit'
-import type { EmotionData } from '@/types'
-
-// Initialize Emma AI instance
-const emma = new EmmaAI()
+import type { EmotionData, PartnerId } from '@/types'
 
 export async function POST(request: NextRequest) {
+  const receivedAt = Date.now()
+
   try {
     // Rate limiting
     const clientIp = request.ip ?? 'anonymous'
@@ -28,10 +32,14 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json()
-    const { message, emotion } = body as {
+    const { message, emotion, stream, partner } = body as {
       message: string
       emotion?: EmotionData
+      stream?: boolean
+      partner?: PartnerId // Couples sessions only
+      language?: string // Detected or chosen language of the message
     }
+    const language = normalizeLanguage(body.language)
 
     // Validate input
     if (!message || typeof message !== 'string') {
@@ -48,49 +56,99 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (partner !== undefined && !isPartnerId(partner)) {
+      return NextResponse.json(
+        { error: 'Partner must be "A" or "B"' },
+        { status: 400 }
+      )
+    }
+
+    if (body.language !== undefined && !language) {
+      return NextResponse.json(
+        { error: `Language must be one of: ${SUPPORTED_LANGUAGES.map(l => l.code).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
     // Process with Emma AI (with monitoring)
-    const sessionId = request.headers.get('x-session-id') || undefined
-    const userId = request.headers.get('x-user-id') || undefined
-    
-    const result = await emma.processUserInput(message, emotion, { userId, sessionId })
+    // Clients without a session get a new one and must echo it back on later turns
+    const requestedSessionId = request.headers.get('x-session-id')
+    const userId = request.headers.get('x-user-id')
 
-    // Log monitoring results
-    if (!result.monitoring.passed) {
-      console.warn('QUALITY GATES FAILED:', {
-        alerts: result.monitoring.alerts,
-        recommendations: result.monitoring.recommendations
-      })
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (requestedSessionId && !(await emma.ownsSession(requestedSessionId, userId))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
     }
 
-    // Crisis handling with enhanced monitoring
-    if (result.response.crisisDetected) {
-      console.error('CRISIS DETECTED WITH MONITORING:', {
-        timestamp: new Date().toISOString(),
-        message: message.substring(0, 100) + '...',
-        monitoring: result.monitoring,
-        requiresReview: result.response.requiresHumanReview
+    // Plan limits never stand between someone in crisis and support
+    const check = await entitlements.check(userId, 'messages')
+    const blocked = !check.allowed
+      ? quotaExceededResponse(check)
+      : partner !== undefined && !check.entitlements.couplesMode
+        ? featureUnavailableResponse('couplesMode', check.tier)
+        : null
+    const exempt = blocked !== null
+    if (blocked && !(await emma.isCrisisInteraction(message, requestedSessionId || undefined, language))) {
+      return blocked
+    }
+
+    const sessionId = requestedSessionId || await emma.openConversation(userId)
+
+    // Crisis and error responses are not counted
+    const recordUsage = async (result: EmmaInteractionResult): Promise<Quota> => {
+      if (exempt || !result.coaching || result.response.crisisDetected) return check.quota
+
+      return entitlements.record(userId, 'messages', 1).catch(error => {
+        console.error('Failed to record message usage:', error)
+        return check.quota
       })
     }
+    const metadata = { userId, sessionId, partner, language, receivedAt, longTermMemory: check.entitlements.longTermMemory }
+    
+    const responseHeaders = {
+      'X-Session-Id': sessionId,
+      'X-RateLimit-Limit': limit.toString(),
+      'X-RateLimit-Remaining': (remaining - 1).toString(),
+      'X-RateLimit-Reset': new Date(reset).toISOString(),
+    }
+
+    // Streaming mode: tokens as Server-Sent Events, metadata in the final event.
+    // Whether the turn counts is only known at the end, so the quota comes with it.
+    if (stream) {
+      return new Response(
+        createEventStream(message, emotion, metadata, recordUsage),
+        {
+          headers: {
+            ...responseHeaders,
+            'X-Subscription-Tier': check.tier,
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+          }
+        }
+      )
+    }
+    
+    const result = await emma.processUserInput(message, emotion, metadata)
+    logMonitoringOutcome(message, result)
+    const quota = await recordUsage(result)
 
     return NextResponse.json({
       response: result.response.data,
-      metadata: {
-        crisisDetected: result.response.crisisDetected,
-        confidence: result.response.confidence,
-        requiresHumanReview: result.response.requiresHumanReview,
-        timestamp: result.response.timestamp,
-        qualityGates: {
-          passed: result.monitoring.passed,
-          alertCount: result.monitoring.alerts.length,
-          recommendations: result.monitoring.recommendations.slice(0, 3) // Limit for API
-        }
-      }
+      coaching: buildCoachingPayload(result),
+      actions: result.actions ?? [],
+      metadata: buildResponseMetadata(result)
     }, {
-      headers: {
-        'X-RateLimit-Limit': limit.toString(),
-        'X-RateLimit-Remaining': (remaining - 1).toString(),
-        'X-RateLimit-Reset': new Date(reset).toISOString(),
-      }
+      headers: { ...responseHeaders, ...quotaHeaders(check.tier, quota) }
     })
 
   } catch (error) {
@@ -103,6 +161,138 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function createEventStream(
+  message: string,
+  emotion: EmotionData | undefined,
+  metadata: InteractionMetadata & { sessionId: string },
+  onComplete: (result: EmmaInteractionResult) => Promise<Quota>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const send = (event: string, data: unknown) =>
+    encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const event of emma.streamUserInput(message, emotion, metadata)) {
+          if (event.type === 'token') {
+            controller.enqueue(send('token', { text: event.text }))
+          } else {
+            logMonitoringOutcome(message, event.result)
+            const quota = await onComplete(event.result)
+            controller.enqueue(send('done', {
+              response: event.result.response.data,
+              coaching: buildCoachingPayload(event.result),
+              actions: event.result.actions ?? [],
+              metadata: buildResponseMetadata(event.result),
+              quota: quotaPayload(quota)
+            }))
+          }
+        }
+      } catch (error) {
+        console.error('Chat stream error:', error)
+        controller.enqueue(send('error', { error: 'Failed to process message. Please try again.' }))
+      } finally {
+        controller.close()
+      }
+    }
+  })
+}
+
+function buildCoachingPayload(result: EmmaInteractionResult) {
+  if (!result.coaching) return null
+
+  return {
+    skill: result.coaching.skill,
+    practiceExercise: result.coaching.practiceExercise ?? null,
+    followUpQuestion: result.coaching.followUpQuestion ?? null,
+    confidence: result.coaching.confidence,
+    templateId: result.templateId ?? null
+  }
+}
+
+function buildResponseMetadata(result: EmmaInteractionResult) {
+  return {
+    crisisDetected: result.response.crisisDetected,
+    confidence: result.response.confidence,
+    requiresHumanReview: result.response.requiresHumanReview,
+    timestamp: result.response.timestamp,
+    couples: result.couples ?? null,
+    conflict: result.conflict ?? null,
+    emotion: result.emotion ? summarizeEmotion(result.emotion) : null,
+    goal: result.goal ?? null,
+    qualityGates: {
+      passed: result.monitoring.passed,
+      alertCount: result.monitoring.alerts.length,
+      recommendations: result.monitoring.recommendations.slice(0, 3) // Limit for API
+    }
+  }
+}
+
+function summarizeEmotion(emotion: EmotionData) {
+  const [dominant] = Object.entries(emotion.emotions).sort(([, a], [, b]) => b - a)
+
+  return {
+    sentiment: emotion.sentiment,
+    magnitude: emotion.magnitude,
+    dominant: dominant?.[0] ?? null,
+    emotions: emotion.emotions,
+    confidence: emotion.confidence,
+    source: emotion.source ?? null,
+    prosody: emotion.prosody ?? null
+  }
+}
+
+function logMonitoringOutcome(message: string, result: EmmaInteractionResult) {
+  // Log monitoring results
+  if (!result.monitoring.passed) {
+    console.warn('QUALITY GATES FAILED:', {
+      alerts: result.monitoring.alerts,
+      recommendations: result.monitoring.recommendations
+    })
+  }
+
+  // Crisis handling with enhanced monitoring
+  if (result.response.crisisDetected) {
+    console.error('CRISIS DETECTED WITH MONITORING:', {
+      timestamp: new Date().toISOString(),
+      message: message.substring(0, 100) + '...',
+      monitoring: result.monitoring,
+      requiresReview: result.response.requiresHumanReview
+    })
+  }
+}
+
+// Clear the conversation history of a single session
+export async function DELETE(request: NextRequest) {
+  const sessionId = request.headers.get('x-session-id')
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: 'x-session-id header is required' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    if (!(await emma.ownsSession(sessionId, request.headers.get('x-user-id') || undefined))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    await emma.clearHistory(sessionId)
+    return NextResponse.json({ cleared: true, sessionId })
+  } catch (error) {
+    console.error('Chat history clear error:', error)
+    return NextResponse.json(
+      { error: 'Failed to clear conversation. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
 // Health check endpoint
 export async function GET() {
   return NextResponse.json({
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkInScheduler } from '@/lib/ai/emma-instance'
+
+type Params = { params: { checkInId: string } }
+
+// Cancel a check-in that hasn't been completed yet
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const checkIn = await checkInScheduler.cancel(userId, params.checkInId)
+
+    if (!checkIn) {
+      return NextResponse.json(
+        { error: 'Check-in not found or already closed' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ checkIn })
+  } catch (error) {
+    console.error('Check-in cancel error:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel check-in. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
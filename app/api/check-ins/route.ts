@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkInScheduler } from '@/lib/ai/emma-instance'
+import { validateNewCheckIn } from '@/lib/coaching/check-in-validation'
+
+// The user's check-ins, the follow-up their next session would open with,
+// and the reminder channels this server can deliver to
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const [checkIns, followUp] = await Promise.all([
+      checkInScheduler.list(userId),
+      checkInScheduler.pendingFollowUp(userId)
+    ])
+
+    return NextResponse.json({ checkIns, followUp, channels: checkInScheduler.availableChannels() })
+  } catch (error) {
+    console.error('Check-ins load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load check-ins. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+// Schedule a check-in: { prompt, dueAt, channels? }
+export async function POST(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { value, error } = validateNewCheckIn(body, checkInScheduler.availableChannels())
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const checkIn = await checkInScheduler.schedule(userId, value!)
+    return NextResponse.json({ checkIn }, { status: 201 })
+  } catch (error) {
+    console.error('Check-in create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to schedule check-in. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkInScheduler } from '@/lib/ai/emma-instance'
+import { isAuthorizedJob } from '@/lib/auth/cron-auth'
+
+// Deliver reminders for check-ins that have fallen due.
+// GET so Vercel Cron can call it (see vercel.json); `npm run check-ins` runs it locally.
+export async function GET(request: NextRequest) {
+  return runCheckIns(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runCheckIns(request)
+}
+
+async function runCheckIns(request: NextRequest) {
+  if (!isAuthorizedJob(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const report = await checkInScheduler.run()
+
+    if (report.errors.length > 0) {
+      console.warn('Check-in job finished with delivery errors:', report.errors)
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Check-in job error:', error)
+    return NextResponse.json(
+      { error: 'Check-in job failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+
+// Record how helpful a coaching template was (rating 0-1). Only templates
+// served in the caller's own session can be rated, once per session.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = request.headers.get('x-user-id')
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const rating = Number(body.rating)
+    const sessionId = body.sessionId
+
+    if (!Number.isFinite(rating) || rating < 0 || rating > 1) {
+      return NextResponse.json(
+        { error: 'Rating must be a number between 0 and 1' },
+        { status: 400 }
+      )
+    }
+
+    if (!sessionId || typeof sessionId !== 'string') {
+      return NextResponse.json(
+        { error: 'sessionId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await emma.ownsSession(sessionId, userId))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await emma.rateTemplate(sessionId, params.id, rating)
+
+    if (result.status === 'not_served') {
+      return NextResponse.json(
+        { error: 'Template was not used in this session' },
+        { status: 404 }
+      )
+    }
+
+    if (result.status === 'already_rated') {
+      return NextResponse.json(
+        { error: 'Template already rated in this session' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      templateId: params.id,
+      effectivenessRating: result.effectiveness,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Template rating error:', error)
+    return NextResponse.json(
+      { error: 'Failed to record rating' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validatePartnerLabels } from '@/lib/ai/couples-session'
+import { emma, entitlements } from '@/lib/ai/emma-instance'
+import { TIER_ENTITLEMENTS } from '@/lib/billing/entitlement-service'
+import { featureUnavailableResponse } from '@/lib/billing/quota-response'
+
+// Start a couples session; partners then send messages to /api/chat with
+// the returned session id and their partner id ("A" or "B")
+export async function POST(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const tier = await entitlements.getTier(userId)
+    if (!TIER_ENTITLEMENTS[tier].couplesMode) {
+      return featureUnavailableResponse('couplesMode', tier)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const labels = validatePartnerLabels(body.partners)
+
+    if (labels.error) {
+      return NextResponse.json(
+        { error: labels.error },
+        { status: 400 }
+      )
+    }
+
+    const session = await emma.startCouplesSession(labels.value, { userId })
+
+    return NextResponse.json(session, {
+      headers: { 'X-Session-Id': session.sessionId }
+    })
+
+  } catch (error) {
+    console.error('Couples session start error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start couples session. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
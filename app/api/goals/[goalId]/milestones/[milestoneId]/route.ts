@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import { validateMilestone } from '@/lib/coaching/goal-validation'
+
+type Params = { params: { goalId: string, milestoneId: string } }
+
+// Rename a milestone or mark it done / not done
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const changes: { title?: string, completed?: boolean } = {}
+
+    if (body.title !== undefined) {
+      const { value, error } = validateMilestone({ title: body.title })
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 })
+      }
+      changes.title = value!.title
+    }
+
+    if (body.completed !== undefined) {
+      if (typeof body.completed !== 'boolean') {
+        return NextResponse.json(
+          { error: 'completed must be true or false' },
+          { status: 400 }
+        )
+      }
+      changes.completed = body.completed
+    }
+
+    const goal = await emma.goals.updateMilestone(userId, params.goalId, params.milestoneId, changes)
+
+    if (!goal) {
+      return NextResponse.json(
+        { error: 'Milestone not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ goal })
+  } catch (error) {
+    console.error('Milestone update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update milestone. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const goal = await emma.goals.removeMilestone(userId, params.goalId, params.milestoneId)
+
+    if (!goal) {
+      return NextResponse.json(
+        { error: 'Milestone not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ goal })
+  } catch (error) {
+    console.error('Milestone delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove milestone. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
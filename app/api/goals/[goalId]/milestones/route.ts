@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import { MAX_MILESTONES, validateMilestone } from '@/lib/coaching/goal-validation'
+
+// Add a milestone to the end of a goal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { goalId: string } }
+) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { value, error } = validateMilestone(body)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const existing = await emma.goals.get(userId, params.goalId)
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Goal not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.milestones.length >= MAX_MILESTONES) {
+      return NextResponse.json(
+        { error: `A goal can have at most ${MAX_MILESTONES} milestones` },
+        { status: 400 }
+      )
+    }
+
+    const goal = await emma.goals.addMilestone(userId, params.goalId, value!)
+    return NextResponse.json({ goal }, { status: 201 })
+  } catch (error) {
+    console.error('Milestone create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to add milestone. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import { validateGoalChanges } from '@/lib/coaching/goal-validation'
+
+type Params = { params: { goalId: string } }
+
+// Get one goal with its milestones
+export async function GET(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const goal = await emma.goals.get(userId, params.goalId)
+
+    if (!goal) {
+      return NextResponse.json(
+        { error: 'Goal not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ goal })
+  } catch (error) {
+    console.error('Goal load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load goal. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+// Edit a goal, or pause, complete or abandon it
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { value, error } = validateGoalChanges(body)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const goal = await emma.goals.update(userId, params.goalId, value!)
+
+    if (!goal) {
+      return NextResponse.json(
+        { error: 'Goal not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ goal })
+  } catch (error) {
+    console.error('Goal update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update goal. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const deleted = await emma.goals.delete(userId, params.goalId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Goal not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('Goal delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete goal. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import { GOAL_STATUSES } from '@/lib/coaching/goal-tracker'
+import { validateNewGoal } from '@/lib/coaching/goal-validation'
+
+// List the user's relationship goals, optionally filtered by status
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const status = new URL(request.url).searchParams.get('status')
+  if (status && !GOAL_STATUSES.includes(status as any)) {
+    return NextResponse.json(
+      { error: `status must be one of: ${GOAL_STATUSES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const goals = await emma.goals.list(userId)
+    return NextResponse.json({ goals: status ? goals.filter(goal => goal.status === status) : goals })
+  } catch (error) {
+    console.error('Goals load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load goals. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a goal, optionally with its milestones
+export async function POST(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { value, error } = validateNewGoal(body)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const goal = await emma.goals.create(userId, value!)
+    return NextResponse.json({ goal }, { status: 201 })
+  } catch (error) {
+    console.error('Goal create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create goal. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+
+// Goal counts by status, completion rate and abandoned goals
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const summary = await emma.goals.summarize(userId)
+    return NextResponse.json({ summary })
+  } catch (error) {
+    console.error('Goal summary error:', error)
+    return NextResponse.json(
+      { error: 'Failed to summarize goals. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
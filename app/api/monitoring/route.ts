@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { EmmaAI } from '@/lib/ai/emma-core'
-
-// Initialize Emma AI instance for monitoring
-const emma = new EmmaAI()
+import { emma } from '@/lib/ai/emma-instance'
+import { isAuthorizedAdmin } from '@/lib/auth/cron-auth'
 
+// Operators only: send CRON_SECRET as x-admin-key
 export async function GET(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
   try {
     const { searchParams } = new URL(request.url)
     const action = searchParams.get('action') || 'health'
@@ -31,6 +37,14 @@ export async function GET(request: NextRequest) {
           timestamp: new Date().toISOString()
         })
         
+      case 'prompt-variants':
+        const experiment = await emma.getPromptExperiment()
+        return NextResponse.json({
+          status: 'success',
+          data: experiment,
+          timestamp: new Date().toISOString()
+        })
+        
       case 'analytics':
         const analytics = emma.exportAnalytics()
         return NextResponse.json({
@@ -41,7 +55,7 @@ export async function GET(request: NextRequest) {
         
       default:
         return NextResponse.json(
-          { error: 'Invalid action. Use: health, crisis-events, or analytics' },
+          { error: 'Invalid action. Use: health, crisis-events, prompt-variants, or analytics' },
           { status: 400 }
         )
     }
@@ -56,6 +70,13 @@ export async function GET(request: NextRequest) {
 
 // Validate message quality (for testing)
 export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
   try {
     const body = await request.json()
     const { message, emotion } = body
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pushSubscriptions } from '@/lib/ai/emma-instance'
+import type { WebPushSubscription } from '@/lib/database/push-subscription-repository'
+import { vapidKeysFromEnv } from '@/lib/notifications/web-push'
+
+// The VAPID public key browsers subscribe with; null when push isn't configured
+export async function GET() {
+  return NextResponse.json({ publicKey: vapidKeysFromEnv()?.publicKey ?? null })
+}
+
+// Receive check-in reminders on this device; the body is PushSubscription.toJSON()
+export async function POST(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  if (!vapidKeysFromEnv()) {
+    return NextResponse.json(
+      { error: 'Push notifications are not available' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const subscription = parseSubscription(await request.json())
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'A push subscription with an https endpoint and p256dh and auth keys is required' },
+        { status: 400 }
+      )
+    }
+
+    await pushSubscriptions.save(userId, subscription)
+    return NextResponse.json({ subscribed: true }, { status: 201 })
+  } catch (error) {
+    console.error('Push subscribe error:', error)
+    return NextResponse.json(
+      { error: 'Failed to enable notifications. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+// Stop reminders on a device: { endpoint }
+export async function DELETE(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { endpoint } = await request.json()
+
+    if (typeof endpoint !== 'string' || !endpoint) {
+      return NextResponse.json(
+        { error: 'endpoint is required' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await pushSubscriptions.delete(endpoint, userId)
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    console.error('Push unsubscribe error:', error)
+    return NextResponse.json(
+      { error: 'Failed to disable notifications. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+function parseSubscription(body: any): WebPushSubscription | null {
+  const endpoint = body?.endpoint
+  const p256dh = body?.keys?.p256dh
+  const auth = body?.keys?.auth
+
+  if (typeof endpoint !== 'string' || !isPushServiceUrl(endpoint)) return null
+  if (typeof p256dh !== 'string' || typeof auth !== 'string' || !p256dh || !auth) return null
+  return { endpoint, keys: { p256dh, auth } }
+}
+
+// The job posts to this URL from the server, so keep it off local and internal hosts
+function isPushServiceUrl(endpoint: string): boolean {
+  try {
+    const url = new URL(endpoint)
+    const host = url.hostname
+    return url.protocol === 'https:' && host.includes('.') && host !== 'localhost' && !/^[\d.]+$|:/.test(host)
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/practice/[sessionId]/route'
+import { emma, entitlements } from '@/lib/ai/emma-instance'
+import { silenceConsole } from '@/test/emma'
+
+jest.mock('@/lib/ratelimit', () => ({
+  ratelimit: { limit: async () => ({ success: true, limit: 10, reset: Date.now() + 60000, remaining: 9 }) }
+}))
+
+jest.mock('@/lib/ai/emma-instance', () => {
+  const { createEmma } = jest.requireActual('@/test/emma')
+  const { EntitlementService } = jest.requireActual('@/lib/billing/entitlement-service')
+  const { InMemoryUsageRepository } = jest.requireActual('@/lib/database/usage-repository')
+  const { InMemoryUserRepository } = jest.requireActual('@/lib/database/user-repository')
+  const { emma, provider } = createEmma()
+  return {
+    provider,
+    emma,
+    entitlements: new EntitlementService(new InMemoryUserRepository(), new InMemoryUsageRepository())
+  }
+})
+
+async function practiceTurn(userId: string, body: Record<string, unknown>): Promise<Response> {
+  const { sessionId } = (await emma.startPractice('chores', undefined, { userId }))!
+  const request = new NextRequest(`http://localhost/api/practice/${sessionId}`, {
+    method: 'POST',
+    headers: { 'x-user-id': userId },
+    body: JSON.stringify(body)
+  })
+  return POST(request, { params: { sessionId } })
+}
+
+silenceConsole()
+
+describe('POST /api/practice/[sessionId]', () => {
+  describe('over the daily message quota', () => {
+    beforeEach(async () => {
+      await entitlements.record('user-practice', 'messages', 20)
+    })
+
+    it("hears crisis keywords in the message's own language", async () => {
+      const response = await practiceTurn('user-practice', { message: 'Il me bat quand il a bu', language: 'fr' })
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).metadata.crisisDetected).toBe(true)
+    })
+
+    it('reads the message as English when no language is given', async () => {
+      const response = await practiceTurn('user-practice', { message: 'Il me bat quand il a bu' })
+
+      expect(response.status).toBe(429)
+    })
+  })
+
+  it('rejects languages Emma does not support', async () => {
+    const response = await practiceTurn('user-language', { message: 'Hallo', language: 'xx' })
+
+    expect(response.status).toBe(400)
+  })
+})
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+
+// End a practice session and return its rubric summary
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const userId = request.headers.get('x-user-id') || undefined
+    const rubric = await emma.ownsSession(params.sessionId, userId)
+      ? await emma.endPractice(params.sessionId)
+      : null
+
+    if (!rubric) {
+      return NextResponse.json(
+        { error: 'Practice session not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ sessionId: params.sessionId, rubric })
+
+  } catch (error) {
+    console.error('Practice end error:', error)
+    return NextResponse.json(
+      { error: 'Failed to end practice session. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma, entitlements } from '@/lib/ai/emma-instance'
+import { SUPPORTED_LANGUAGES, normalizeLanguage } from '@/lib/ai/languages'
+import { quotaExceededResponse, quotaHeaders } from '@/lib/billing/quota-response'
+import { ratelimit } from '@/lib/ratelimit'
+import type { EmotionData } from '@/types'
+
+// Send the user's reply to the role-played partner and get skill feedback
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const clientIp = request.ip ?? 'anonymous'
+    const { success, limit, reset, remaining } = await ratelimit.limit(clientIp)
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': limit.toString(),
+            'X-RateLimit-Remaining': remaining.toString(),
+            'X-RateLimit-Reset': new Date(reset).toISOString(),
+          }
+        }
+      )
+    }
+
+    const body = await request.json()
+    const { message, emotion } = body as {
+      message: string
+      emotion?: EmotionData
+      language?: string // Detected or chosen language of the message
+    }
+    const language = normalizeLanguage(body.language)
+
+    if (!message || typeof message !== 'string') {
+      return NextResponse.json(
+        { error: 'Message is required' },
+        { status: 400 }
+      )
+    }
+
+    if (message.length > 1000) {
+      return NextResponse.json(
+        { error: 'Message too long. Maximum 1000 characters.' },
+        { status: 400 }
+      )
+    }
+
+    if (body.language !== undefined && !language) {
+      return NextResponse.json(
+        { error: `Language must be one of: ${SUPPORTED_LANGUAGES.map(l => l.code).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const userId = request.headers.get('x-user-id')
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await emma.ownsSession(params.sessionId, userId))) {
+      return NextResponse.json(
+        { error: 'Practice session not found or already ended' },
+        { status: 404 }
+      )
+    }
+
+    // Practice turns count towards the daily messages, with the same crisis exemption as chat
+    const check = await entitlements.check(userId, 'messages')
+    const exempt = !check.allowed
+    if (exempt && !(await emma.isCrisisInteraction(message, params.sessionId, language))) {
+      return quotaExceededResponse(check)
+    }
+
+    const result = await emma.processPracticeTurn(message, emotion, { userId, sessionId: params.sessionId, language })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Practice session not found or already ended' },
+        { status: 404 }
+      )
+    }
+
+    if (result.response.crisisDetected) {
+      console.error('CRISIS DETECTED DURING PRACTICE:', {
+        timestamp: new Date().toISOString(),
+        sessionId: params.sessionId,
+        requiresReview: result.response.requiresHumanReview
+      })
+    }
+
+    // Crisis and error responses are not counted
+    const quota = exempt || !result.practiceFeedback || result.response.crisisDetected
+      ? check.quota
+      : await entitlements.record(userId, 'messages', 1).catch(error => {
+          console.error('Failed to record message usage:', error)
+          return check.quota
+        })
+
+    return NextResponse.json({
+      response: result.response.data,
+      feedback: result.practiceFeedback ?? null,
+      metadata: {
+        crisisDetected: result.response.crisisDetected,
+        requiresHumanReview: result.response.requiresHumanReview,
+        timestamp: result.response.timestamp
+      }
+    }, {
+      headers: {
+        'X-RateLimit-Limit': limit.toString(),
+        'X-RateLimit-Remaining': (remaining - 1).toString(),
+        'X-RateLimit-Reset': new Date(reset).toISOString(),
+        ...quotaHeaders(check.tier, quota),
+      }
+    })
+
+  } catch (error) {
+    console.error('Practice turn error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process message. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
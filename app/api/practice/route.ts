@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import { COACHING_SKILLS, isCoachingSkill } from '@/lib/ai/coaching-response'
+import { PRACTICE_SCENARIOS, SKILL_RUBRICS } from '@/lib/coaching/practice-scenarios'
+import type { CoachingSkill } from '@/types'
+
+// Available practice scenarios and the rubric for each skill
+export async function GET() {
+  return NextResponse.json({
+    scenarios: PRACTICE_SCENARIOS.map(({ partnerRole, ...scenario }) => scenario),
+    skills: COACHING_SKILLS.map(skill => ({
+      skill,
+      criteria: SKILL_RUBRICS[skill].map(({ id, description }) => ({ id, description }))
+    }))
+  })
+}
+
+// Start a practice session; Emma opens in character as the partner
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { scenarioId, skill } = body as { scenarioId?: string, skill?: string }
+
+    if (!scenarioId || typeof scenarioId !== 'string') {
+      return NextResponse.json(
+        { error: 'scenarioId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (skill !== undefined && !isCoachingSkill(skill)) {
+      return NextResponse.json(
+        { error: `skill must be one of: ${COACHING_SKILLS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const userId = request.headers.get('x-user-id') || undefined
+    const practice = await emma.startPractice(scenarioId, skill as CoachingSkill | undefined, { userId })
+
+    if (!practice) {
+      return NextResponse.json(
+        { error: 'Unknown practice scenario' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      sessionId: practice.sessionId,
+      scenario: {
+        id: practice.scenario.id,
+        title: practice.scenario.title,
+        description: practice.scenario.description
+      },
+      skill: practice.skill,
+      openingLine: practice.openingLine
+    }, {
+      headers: { 'X-Session-Id': practice.sessionId }
+    })
+
+  } catch (error) {
+    console.error('Practice start error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start practice session. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
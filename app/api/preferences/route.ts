@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import type { UserPreferences } from '@/types'
+
+const COMMUNICATION_STYLES: UserPreferences['communicationStyle'][] = ['direct', 'indirect', 'conflict_avoidant']
+const CULTURAL_CONTEXTS: UserPreferences['culturalContext'][] = ['individualist', 'collectivist', 'hierarchical']
+const MAX_GOALS = 10
+const MAX_GOAL_LENGTH = 200
+
+// Get the coaching preferences of an anonymous user
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const preferences = await emma.getPreferences(userId)
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    console.error('Preferences load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load preferences. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+// Update some or all coaching preferences
+export async function PUT(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { changes, error } = validatePreferences(body)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const preferences = await emma.updatePreferences(userId, changes)
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    console.error('Preferences update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save preferences. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+function validatePreferences(body: any): { changes: Partial<UserPreferences>, error?: string } {
+  const changes: Partial<UserPreferences> = {}
+
+  if (body.communicationStyle !== undefined) {
+    if (!COMMUNICATION_STYLES.includes(body.communicationStyle)) {
+      return { changes, error: `communicationStyle must be one of: ${COMMUNICATION_STYLES.join(', ')}` }
+    }
+    changes.communicationStyle = body.communicationStyle
+  }
+
+  if (body.culturalContext !== undefined) {
+    if (!CULTURAL_CONTEXTS.includes(body.culturalContext)) {
+      return { changes, error: `culturalContext must be one of: ${CULTURAL_CONTEXTS.join(', ')}` }
+    }
+    changes.culturalContext = body.culturalContext
+  }
+
+  if (body.relationshipGoals !== undefined) {
+    const goals = body.relationshipGoals
+    if (!Array.isArray(goals) || goals.length > MAX_GOALS || goals.some((g: unknown) => typeof g !== 'string' || g.length > MAX_GOAL_LENGTH)) {
+      return { changes, error: `relationshipGoals must be up to ${MAX_GOALS} strings of at most ${MAX_GOAL_LENGTH} characters` }
+    }
+    changes.relationshipGoals = goals.map((g: string) => g.trim()).filter(Boolean)
+  }
+
+  if (body.preferredLanguage !== undefined) {
+    if (typeof body.preferredLanguage !== 'string' || !/^[a-z]{2}(-[A-Z]{2})?$/.test(body.preferredLanguage)) {
+      return { changes, error: 'preferredLanguage must be a language code such as "en" or "es"' }
+    }
+    changes.preferredLanguage = body.preferredLanguage
+  }
+
+  return { changes }
+}
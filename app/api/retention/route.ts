@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { retention } from '@/lib/ai/emma-instance'
+import { isAuthorizedJob } from '@/lib/auth/cron-auth'
+
+// Run the data retention job; ?dryRun=true reports what would be purged.
+// GET so Vercel Cron can call it (see vercel.json), which sends CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  return runRetention(request)
+}
+
+export async function POST(request: NextRequest) {
+  return runRetention(request)
+}
+
+async function runRetention(request: NextRequest) {
+  if (!isAuthorizedJob(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true'
+    const report = await retention.run({ dryRun })
+
+    if (report.errors.length > 0) {
+      console.warn('Retention job finished with errors:', report.errors)
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Retention job error:', error)
+    return NextResponse.json(
+      { error: 'Retention job failed' },
+      { status: 500 }
+    )
+  }
+}
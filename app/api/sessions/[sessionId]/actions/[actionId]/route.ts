@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+
+// Confirm ({ "confirm": true }) or decline ({ "confirm": false }) an action
+// Emma proposed; it only runs once confirmed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string, actionId: string } }
+) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  if (typeof body?.confirm !== 'boolean') {
+    return NextResponse.json(
+      { error: 'confirm must be true or false' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    if (!(await emma.ownsSession(params.sessionId, userId))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const action = await emma.resolveAction(params.sessionId, params.actionId, body.confirm)
+    if (!action) {
+      return NextResponse.json(
+        { error: 'Action not found or already resolved' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ action })
+  } catch (error) {
+    console.error('Action resolution error:', error)
+    return NextResponse.json(
+      { error: 'Failed to complete the action. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+
+// Actions Emma proposed in the session that are waiting for the user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    if (!(await emma.ownsSession(params.sessionId, userId))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ actions: await emma.getPendingActions(params.sessionId) })
+  } catch (error) {
+    console.error('Pending actions fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load actions. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+
+// Close a session and return what was recorded for it. The summary is only
+// sent here; to keep it, the client encrypts and stores it like a transcript.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const ended = await emma.endSession(params.sessionId, userId)
+
+    if (!ended) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const { session, summary } = ended
+    return NextResponse.json({
+      sessionId: session.id,
+      session: {
+        type: session.session_type,
+        startedAt: session.created_at,
+        endedAt: session.updated_at,
+        durationSeconds: session.duration_seconds,
+        skillsPracticed: session.skills_practiced || [],
+        crisisLevel: session.crisis_level,
+        crisisIndicators: session.crisis_indicators || [],
+        humanEscalationTriggered: session.human_escalation_triggered,
+        responseTimeMs: session.response_time_ms,
+        apiCallsCount: session.api_calls_count,
+        errorCount: session.error_count
+      },
+      summary
+    })
+  } catch (error) {
+    console.error('Session end error:', error)
+    return NextResponse.json(
+      { error: 'Failed to end session. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+
+// Keep a session open while the user is still in it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const session = await emma.heartbeatSession(params.sessionId, userId)
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    if (session.completed) {
+      return NextResponse.json(
+        { error: 'Session has ended' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ sessionId: session.id, lastHeartbeat: session.updated_at })
+  } catch (error) {
+    console.error('Session heartbeat error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update session. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
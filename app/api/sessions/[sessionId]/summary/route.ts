@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import { MAX_ENVELOPE_LENGTH, isKeyHash, parseEnvelope } from '@/lib/privacy/transcript-crypto'
+
+type Params = { params: { sessionId: string } }
+
+// Encrypted end-of-session summary; decrypted and exported only on the client
+export async function GET(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const session = await emma.getSession(params.sessionId, userId)
+
+    if (!session?.encrypted_summary) {
+      return NextResponse.json(
+        { error: 'Summary not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      sessionId: session.id,
+      startedAt: session.created_at,
+      ciphertext: session.encrypted_summary,
+      keyHash: session.encryption_key_hash
+    })
+  } catch (error) {
+    console.error('Session summary error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load the session summary. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+// Store or replace a session's summary. Accepts ciphertext only.
+export async function PUT(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { ciphertext, keyHash } = body as { ciphertext?: unknown, keyHash?: unknown }
+
+    if (!parseEnvelope(ciphertext)) {
+      return NextResponse.json(
+        { error: `ciphertext must be an encrypted summary envelope of at most ${MAX_ENVELOPE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (!isKeyHash(keyHash)) {
+      return NextResponse.json(
+        { error: 'keyHash must be a 64-character hex SHA-256 digest' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await emma.getSession(params.sessionId, userId)
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    // The summary shares the transcript's key, so both open with one passphrase
+    if (existing.encryption_key_hash && existing.encryption_key_hash !== keyHash) {
+      return NextResponse.json(
+        { error: 'Session is encrypted with a different key' },
+        { status: 409 }
+      )
+    }
+
+    await emma.storeSummary(params.sessionId, userId, { ciphertext: ciphertext as string, keyHash })
+    return NextResponse.json({ sessionId: params.sessionId, stored: true })
+  } catch (error) {
+    console.error('Session summary store error:', error)
+    return NextResponse.json(
+      { error: 'Failed to store the session summary. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import { MAX_ENVELOPE_LENGTH, isKeyHash, parseEnvelope } from '@/lib/privacy/transcript-crypto'
+
+type Params = { params: { sessionId: string } }
+
+// Encrypted transcript of a session; decrypted only on the client
+export async function GET(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const session = await emma.getSession(params.sessionId, userId)
+
+    if (!session?.encrypted_transcript) {
+      return NextResponse.json(
+        { error: 'Transcript not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      sessionId: session.id,
+      ciphertext: session.encrypted_transcript,
+      keyHash: session.encryption_key_hash
+    })
+  } catch (error) {
+    console.error('Transcript load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load transcript. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+// Store or replace a session's transcript. Accepts ciphertext only.
+export async function PUT(request: NextRequest, { params }: Params) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { ciphertext, keyHash } = body as { ciphertext?: unknown, keyHash?: unknown }
+
+    if (!parseEnvelope(ciphertext)) {
+      return NextResponse.json(
+        { error: `ciphertext must be an encrypted transcript envelope of at most ${MAX_ENVELOPE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (!isKeyHash(keyHash)) {
+      return NextResponse.json(
+        { error: 'keyHash must be a 64-character hex SHA-256 digest' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await emma.getSession(params.sessionId, userId)
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    // Replacing with a different key would lock the user out of the old copy by mistake
+    if (existing.encryption_key_hash && existing.encryption_key_hash !== keyHash) {
+      return NextResponse.json(
+        { error: 'Transcript is encrypted with a different key' },
+        { status: 409 }
+      )
+    }
+
+    await emma.storeTranscript(params.sessionId, userId, { ciphertext: ciphertext as string, keyHash })
+    return NextResponse.json({ sessionId: params.sessionId, stored: true })
+  } catch (error) {
+    console.error('Transcript store error:', error)
+    return NextResponse.json(
+      { error: 'Failed to store transcript. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+
+// The user's sessions, newest first. Transcripts and summaries are fetched one at a time.
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const sessions = await emma.listSessions(userId)
+
+    return NextResponse.json({
+      sessions: sessions.map(session => ({
+        sessionId: session.id,
+        type: session.session_type,
+        startedAt: session.created_at,
+        completed: session.completed,
+        durationSeconds: session.duration_seconds,
+        hasTranscript: Boolean(session.encrypted_transcript),
+        hasSummary: Boolean(session.encrypted_summary),
+        keyHash: session.encryption_key_hash
+      }))
+    })
+  } catch (error) {
+    console.error('Session list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load sessions. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+// Start a coaching session; send its id as x-session-id on chat messages.
+// openingLine is set when Emma opens with a follow-up the user asked for.
+export async function POST(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { session, followUp, openingLine } = await emma.startSession(userId)
+
+    return NextResponse.json(
+      {
+        sessionId: session.id,
+        startedAt: session.created_at,
+        openingLine,
+        followUp: followUp && { checkInId: followUp.id, dueAt: followUp.dueAt }
+      },
+      { status: 201, headers: { 'X-Session-Id': session.id } }
+    )
+  } catch (error) {
+    console.error('Session start error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start session. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { emma } from '@/lib/ai/emma-instance'
+import { DEFAULT_TIMELINE_WEEKS, MAX_TIMELINE_WEEKS, buildMoodTimeline } from '@/lib/coaching/mood-timeline'
+
+// Mood and skills practiced per week across the user's sessions: ?weeks=12
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get('x-user-id')
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  const param = new URL(request.url).searchParams.get('weeks')
+  const weeks = param === null ? DEFAULT_TIMELINE_WEEKS : Number(param)
+  if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_TIMELINE_WEEKS) {
+    return NextResponse.json(
+      { error: `weeks must be a whole number from 1 to ${MAX_TIMELINE_WEEKS}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const timeline = buildMoodTimeline(await emma.listSessions(userId), weeks)
+    return NextResponse.json({ timeline })
+  } catch (error) {
+    console.error('Mood timeline error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load your mood timeline. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
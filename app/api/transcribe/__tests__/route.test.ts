@@ -0,0 +1,108 @@
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/transcribe/route'
+import { entitlements } from '@/lib/ai/emma-instance'
+import { silenceConsole } from '@/test/emma'
+import type { TranscriptionResult } from '@/types'
+
+const mockTranscribe = jest.fn<Promise<TranscriptionResult>, unknown[]>()
+
+jest.mock('@/lib/voice/transcription-service', () => ({
+  TranscriptionService: jest.fn().mockImplementation(() => ({ transcribe: (...args: unknown[]) => mockTranscribe(...args) }))
+}))
+
+jest.mock('@/lib/ratelimit', () => ({
+  ratelimit: { limit: async () => ({ success: true, limit: 10, reset: Date.now() + 60000, remaining: 9 }) }
+}))
+
+jest.mock('@/lib/ai/emma-instance', () => {
+  const { createEmma } = jest.requireActual('@/test/emma')
+  const { EntitlementService } = jest.requireActual('@/lib/billing/entitlement-service')
+  const { InMemoryUsageRepository } = jest.requireActual('@/lib/database/usage-repository')
+  const { InMemoryUserRepository } = jest.requireActual('@/lib/database/user-repository')
+  return {
+    emma: createEmma().emma,
+    entitlements: new EntitlementService(new InMemoryUserRepository(), new InMemoryUsageRepository())
+  }
+})
+
+const USER_ID = 'user-1'
+
+function transcription(text: string): TranscriptionResult {
+  return { text, confidence: 0.9, language: 'en', duration: 20, crisisDetected: false, requiresHumanReview: false, provider: 'openai' }
+}
+
+// About a quarter of a second at the bitrate the route assumes
+function transcribeRequest(userId: string, bytes: number = 1024): NextRequest {
+  const formData = new FormData()
+  formData.append('file', new File([new Uint8Array(bytes)], 'audio.webm', { type: 'audio/webm' }))
+  return new NextRequest('http://localhost/api/transcribe', {
+    method: 'POST',
+    headers: { 'x-user-id': userId },
+    body: formData
+  })
+}
+
+silenceConsole()
+
+beforeEach(() => {
+  mockTranscribe.mockReset()
+})
+
+describe('POST /api/transcribe', () => {
+  it('records the length of the recording against the voice quota', async () => {
+    mockTranscribe.mockResolvedValue(transcription('We had a good talk last night'))
+
+    const response = await POST(transcribeRequest('user-counted'))
+
+    expect(response.status).toBe(200)
+    expect((await entitlements.check('user-counted', 'voice_seconds')).quota.used).toBe(20)
+  })
+
+  describe('over the daily voice quota', () => {
+    async function voiceUsed(userId: string): Promise<number> {
+      return (await entitlements.check(userId, 'voice_seconds')).quota.used
+    }
+
+    beforeAll(async () => {
+      await entitlements.record(USER_ID, 'voice_seconds', 300)
+    })
+
+    it('screens ordinary audio, then refuses it and counts what was screened', async () => {
+      mockTranscribe.mockResolvedValue(transcription('Can we talk about chores again?'))
+      const before = await voiceUsed(USER_ID)
+
+      const response = await POST(transcribeRequest(USER_ID))
+
+      expect(response.status).toBe(429)
+      expect((await response.json()).code).toBe('quota_exceeded')
+      expect(await voiceUsed(USER_ID)).toBe(before + 20)
+    })
+
+    it('still transcribes crisis audio without counting it', async () => {
+      mockTranscribe.mockResolvedValue(transcription('He said he would hit me'))
+      const before = await voiceUsed(USER_ID)
+
+      const response = await POST(transcribeRequest(USER_ID))
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).text).toBe('He said he would hit me')
+      expect(await voiceUsed(USER_ID)).toBe(before)
+    })
+
+    it('refuses long clips without transcribing them', async () => {
+      const response = await POST(transcribeRequest(USER_ID, 4000 * 90))
+
+      expect(response.status).toBe(429)
+      expect(mockTranscribe).not.toHaveBeenCalled()
+    })
+
+    it('stops screening once the daily screening allowance is used', async () => {
+      await entitlements.record('user-screened', 'voice_seconds', 300 + 5 * 60)
+
+      const response = await POST(transcribeRequest('user-screened'))
+
+      expect(response.status).toBe(429)
+      expect(mockTranscribe).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -1,10 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { emma, entitlements } from '@/lib/ai/emma-instance'
+import { EmotionAnalyzer } from '@/lib/ai/emotion-analyzer'
+import { normalizeLanguage } from '@/lib/ai/languages'
+import type { QuotaCheck } from '@/lib/billing/entitlement-service'
+import { quotaExceededResponse, quotaHeaders } from '@/lib/billing/quota-response'
 import { ratelimit } from '@/lib/ratelimit'
+import { fuseEmotion, parseProsody } from '@/lib/voice/prosody'
 import { TranscriptionService } from '@/lib/voice/transcription-service'
 import { TranscriptionResult, VoiceProcessingError } from '@/types'
 
 // Initialize transcription service with fallback providers
 const transcriptionService = new TranscriptionService()
+const emotionAnalyzer = new EmotionAnalyzer()
+
+// Typical voice bitrate (~32 kbps), for estimating length from file size
+const VOICE_BYTES_PER_SECOND = 4000
+// Over-quota audio is screened for crisis only in clips this short...
+const SCREENING_MAX_CLIP_SECONDS = 60
+// ...and only until this much screened audio past the plan's daily limit
+const SCREENING_DAILY_SECONDS = 5 * 60
 
 export async function POST(request: NextRequest) {
   console.log('=== Transcription API called ===')
@@ -37,10 +51,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const userId = request.headers.get('x-user-id')
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
     // Get form data
     const formData = await request.formData()
     const file = formData.get('file') as File
-    const language = formData.get('language') as string || 'en'
+    // Missing or 'auto' lets Whisper detect the language
+    const language = normalizeLanguage(formData.get('language'))
+    // Optional voice features from the recorder; malformed values are ignored
+    const prosody = parseProsody(formData.get('prosody'))
     
     if (!file) {
       return NextResponse.json(
@@ -70,6 +95,26 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const sessionId = request.headers.get('x-session-id') || undefined
+    if (sessionId && !(await emma.ownsSession(sessionId, userId))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    // Plan limits never stand between someone in crisis and support, so
+    // over-quota audio is still transcribed and screened before refusing it.
+    // Screening pays for Whisper on audio we then refuse, so it is limited to
+    // short clips and a daily allowance counted in voice_seconds; past that,
+    // only sessions with a recent crisis are heard and typed messages
+    // about safety remain the way in.
+    const check = await entitlements.check(userId, 'voice_seconds')
+    const exempt = !check.allowed
+    if (exempt && !canScreen(check, file.size) && !(await emma.isCrisisInteraction('', sessionId))) {
+      return quotaExceededResponse(check)
+    }
+
     // Convert file to blob for transcription service
     const audioBuffer = Buffer.from(await file.arrayBuffer())
     const audioBlob = new Blob([audioBuffer], { type: file.type })
@@ -83,11 +128,31 @@ export async function POST(request: NextRequest) {
 
     console.log(`Transcription successful with provider: ${result.provider}`)
 
+    if (exempt && !result.crisisDetected && !(await emma.isCrisisInteraction(result.text, sessionId, result.language))) {
+      await entitlements.record(userId, 'voice_seconds', audioSeconds(result, file.size)).catch(error => {
+        console.error('Failed to record screened voice usage:', error)
+      })
+      return quotaExceededResponse(check)
+    }
+
+    // Crisis audio and over-quota audio let through for crisis aren't counted
+    const quota = exempt || result.crisisDetected
+      ? check.quota
+      : await entitlements.record(userId, 'voice_seconds', audioSeconds(result, file.size)).catch(error => {
+          console.error('Failed to record voice usage:', error)
+          return check.quota
+        })
+
+    if (prosody) {
+      result.emotion = fuseEmotion(await emotionAnalyzer.analyze(result.text, result.language), prosody)
+    }
+
     return NextResponse.json(result, {
       headers: {
         'X-RateLimit-Limit': limit.toString(),
         'X-RateLimit-Remaining': (remaining - 1).toString(),
         'X-RateLimit-Reset': new Date(reset).toISOString(),
+        ...quotaHeaders(check.tier, quota),
       }
     })
 
@@ -142,4 +207,18 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// Length of the recording as reported by the provider, otherwise estimated
+// from the file size
+function audioSeconds(result: TranscriptionResult, bytes: number): number {
+  const lastSegment = result.segments?.[result.segments.length - 1]
+  return result.duration || lastSegment?.end || bytes / VOICE_BYTES_PER_SECOND
+}
+
+function canScreen(check: QuotaCheck, bytes: number): boolean {
+  const { limit, used } = check.quota
+  return limit !== null
+    && used < limit + SCREENING_DAILY_SECONDS
+    && bytes / VOICE_BYTES_PER_SECOND <= SCREENING_MAX_CLIP_SECONDS
+}
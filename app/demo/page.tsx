@@ -1,16 +1,79 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState, useRef } from 'react'
 import { VoiceInterface } from '@/components/voice'
 import { Button } from '@/components/ui/Button'
-import type { VoiceMessage } from '@/types'
+import { ActionCards, CoachingCards } from '@/components/coaching'
+import { MAX_PARTNER_LABEL_LENGTH } from '@/lib/ai/couples-session'
+import { endSession, hasPendingFollowUp, resolveAction, startSession, streamChat } from '@/lib/ai/chat-client'
+import { apiFetch } from '@/lib/auth/identity-client'
+import { enablePushNotifications, isPushSupported } from '@/lib/notifications/push-client'
+import { createTranscriptKey, holdSummary, saveSummary, saveTranscript } from '@/lib/privacy/transcript-client'
+import type { TranscriptKey } from '@/lib/privacy/transcript-crypto'
+import { SUPPORTED_LANGUAGES, getLanguage } from '@/lib/ai/languages'
+import type { EmotionData, PartnerId, ToolAction, VoiceMessage } from '@/types'
+
+interface CouplesSession {
+  partners: Record<PartnerId, string>
+  currentSpeaker: PartnerId
+}
 
 export default function DemoPage() {
   const [messages, setMessages] = useState<VoiceMessage[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [streamingText, setStreamingText] = useState('')
+  // Server-issued conversation session, echoed back so Emma keeps our context
+  const sessionIdRef = useRef<string | null>(null)
+  const [couples, setCouples] = useState<CouplesSession | null>(null)
+  const [partnerNames, setPartnerNames] = useState<Record<PartnerId, string>>({ A: '', B: '' })
+  // 'auto' lets transcription detect the spoken language
+  const [language, setLanguage] = useState('auto')
+  const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null)
+  // Held only in memory; the passphrase and key never leave this page
+  const [transcriptKey, setTranscriptKey] = useState<TranscriptKey | null>(null)
+  const [showSaveTranscript, setShowSaveTranscript] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [transcriptStatus, setTranscriptStatus] = useState<string | null>(null)
+  // Set after mount so server and client render the same header
+  const [pushSupported, setPushSupported] = useState(false)
+  const [reminderStatus, setReminderStatus] = useState<string | null>(null)
+  const followUpCheckedRef = useRef(false)
+
+  const turnPrompt = couples ? `${couples.partners[couples.currentSpeaker]}, your turn` : null
+
+  const showOpeningLine = (openingLine: string) => {
+    const opening: VoiceMessage = { id: `opening-${Date.now()}`, text: openingLine, timestamp: new Date(), speaker: 'emma' }
+    setMessages(prev => [opening, ...prev])
+  }
+
+  useEffect(() => {
+    setPushSupported(isPushSupported())
+
+    // Returning with a check-in due: Emma opens a session with it right away
+    if (followUpCheckedRef.current) return
+    followUpCheckedRef.current = true
+    hasPendingFollowUp()
+      .then(async pending => {
+        if (!pending || sessionIdRef.current) return
+        const start = await startSession()
+        sessionIdRef.current = start.sessionId
+        if (start.openingLine) showOpeningLine(start.openingLine)
+      })
+      .catch(err => console.error('Failed to check for follow-ups:', err))
+  }, [])
 
-  const handleUserInput = async (text: string) => {
+  const enableReminders = async () => {
+    setReminderStatus('Enabling...')
+    try {
+      await enablePushNotifications()
+      setReminderStatus('Reminders on')
+    } catch (err) {
+      setReminderStatus(err instanceof Error ? err.message : 'Could not enable reminders')
+    }
+  }
+
+  const handleUserInput = async (text: string, spokenLanguage?: string, voiceEmotion?: EmotionData) => {
     // Prevent processing if already processing
     if (isProcessing) {
       return
@@ -23,58 +86,78 @@ export default function DemoPage() {
     }
     
     setError(null)
+
+    const messageLanguage = spokenLanguage || (language !== 'auto' ? language : undefined)
+    if (spokenLanguage) {
+      setDetectedLanguage(spokenLanguage)
+    }
     
     // Add user message
     const userMessage: VoiceMessage = {
       id: Date.now().toString(),
       text: text.trim(),
       timestamp: new Date(),
-      speaker: 'user'
+      speaker: 'user',
+      partner: couples?.currentSpeaker
     }
     
     setMessages(prev => [...prev, userMessage])
     setIsProcessing(true)
 
-    try {
-      // Call Emma AI API with timeout
-      const response = await Promise.race([
-        fetch('/api/chat', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            message: text.trim(),
-            // In production, would include emotion data from voice analysis
-          }),
-        }),
-        new Promise<Response>((_, reject) => 
-          setTimeout(() => reject(new Error('Request timeout')), 15000)
-        )
-      ])
+    const emmaMessageId = (Date.now() + 1).toString()
+    const controller = new AbortController()
+    let receivedFirstToken = false
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`)
-      }
+    // Abort only if Emma hasn't started answering in time
+    const timeout = setTimeout(() => controller.abort(), 15000)
 
-      const data = await response.json()
-      
-      // Validate response data
-      if (!data.response) {
-        throw new Error('Invalid response from server')
+    try {
+      // A session row lets the conversation be closed and archived later
+      if (!sessionIdRef.current) {
+        const start = await startSession().catch(err => {
+          console.error('Failed to start session:', err)
+          return null
+        })
+        sessionIdRef.current = start?.sessionId ?? null
+        if (start?.openingLine) showOpeningLine(start.openingLine)
       }
+
+      const data = await streamChat(
+        { message: text.trim(), emotion: voiceEmotion, partner: couples?.currentSpeaker, language: messageLanguage },
+        {
+          sessionId: sessionIdRef.current,
+          signal: controller.signal,
+          onToken: (token) => {
+            if (!receivedFirstToken) {
+              receivedFirstToken = true
+              clearTimeout(timeout)
+            }
+            setStreamingText(prev => prev + token)
+          }
+        }
+      )
+
+      sessionIdRef.current = data.sessionId || sessionIdRef.current
       
       // Add Emma's response
       const emmaMessage: VoiceMessage = {
-        id: (Date.now() + 1).toString(),
+        id: emmaMessageId,
         text: data.response,
         timestamp: new Date(),
-        speaker: 'emma'
+        speaker: 'emma',
+        coaching: data.coaching ? { ...data.coaching, message: data.response } : undefined,
+        actions: data.actions
       }
       
       setMessages(prev => [...prev, emmaMessage])
 
+      // Couples sessions: Emma hands the floor to the other partner
+      const nextSpeaker = data.metadata?.couples?.nextSpeaker as PartnerId | undefined
+      if (nextSpeaker) {
+        setCouples(prev => prev && { ...prev, currentSpeaker: nextSpeaker })
+        announceTurn(data.metadata.couples.turnPrompt)
+      }
+
       // Check for crisis
       if (data.metadata?.crisisDetected) {
         console.warn('Crisis detected - would trigger intervention workflow')
@@ -83,7 +166,7 @@ export default function DemoPage() {
     } catch (err) {
       console.error('Error:', err)
       if (err instanceof Error) {
-        if (err.message.includes('timeout')) {
+        if (err.name === 'AbortError' || err.message.includes('timeout')) {
           setError('Request timed out. Please check your connection and try again.')
         } else if (err.message.includes('Rate limit')) {
           setError('Too many requests. Please wait a moment and try again.')
@@ -94,10 +177,116 @@ export default function DemoPage() {
         setError('Sorry, I had trouble processing that. Please try again.')
       }
     } finally {
+      clearTimeout(timeout)
+      setStreamingText('')
       setIsProcessing(false)
     }
   }
 
+  // Actions only run once the user confirms them here
+  const resolveMessageAction = async (messageId: string, action: ToolAction, confirm: boolean) => {
+    const sessionId = sessionIdRef.current
+    if (!sessionId) return
+
+    try {
+      const resolved = await resolveAction(sessionId, action.id, confirm)
+      setMessages(prev => prev.map(message => message.id === messageId
+        ? { ...message, actions: message.actions?.map(a => a.id === resolved.id ? resolved : a) }
+        : message
+      ))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not complete that action.')
+    }
+  }
+
+  const announceTurn = (prompt: string) => {
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+      window.speechSynthesis.speak(new SpeechSynthesisUtterance(prompt))
+    }
+  }
+
+  const startCouplesSession = async () => {
+    setError(null)
+    try {
+      const response = await apiFetch('/api/couples', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ partners: partnerNames }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      sessionIdRef.current = data.sessionId
+      setCouples({ partners: data.partners, currentSpeaker: data.nextSpeaker })
+      announceTurn(data.turnPrompt)
+    } catch (err) {
+      setError(err instanceof Error ? `Error: ${err.message}` : 'Could not start couples session.')
+    }
+  }
+
+  const startNewConversation = () => {
+    const sessionId = sessionIdRef.current
+    sessionIdRef.current = null
+    setMessages([])
+    setError(null)
+    setCouples(null)
+    setShowSaveTranscript(false)
+    setTranscriptStatus(null)
+
+    if (sessionId) {
+      closeSession(sessionId)
+    }
+  }
+
+  // Ending reads the conversation to summarize it, so clear it only afterwards
+  const closeSession = async (sessionId: string) => {
+    const ended = await endSession(sessionId).catch(err => {
+      console.error('Failed to end session:', err)
+      return null
+    })
+    await apiFetch('/api/chat', {
+      method: 'DELETE',
+      headers: { 'x-session-id': sessionId },
+    }).catch(err => console.error('Failed to clear conversation:', err))
+    return ended
+  }
+
+  const endAndSummarize = async () => {
+    const sessionId = sessionIdRef.current
+    if (!sessionId) return
+
+    sessionIdRef.current = null
+    const ended = await closeSession(sessionId)
+    if (ended?.summary) {
+      holdSummary(sessionId, { startedAt: ended.startedAt, summary: ended.summary })
+      // Already unlocked for the transcript: keep the summary with the same key
+      if (transcriptKey) {
+        await saveSummary(sessionId, ended.summary, transcriptKey)
+          .catch(err => console.error('Failed to save summary:', err))
+      }
+    }
+    window.location.href = `/sessions/${sessionId}/summary`
+  }
+
+  const saveEncryptedTranscript = async () => {
+    const sessionId = sessionIdRef.current
+    if (!sessionId) return
+
+    setTranscriptStatus(transcriptKey ? 'Encrypting...' : 'Deriving your key...')
+    try {
+      const key = transcriptKey || await createTranscriptKey(passphrase)
+      setTranscriptKey(key)
+      setPassphrase('')
+      await saveTranscript(sessionId, messages, key)
+      setShowSaveTranscript(false)
+      setTranscriptStatus('Transcript encrypted and saved. Only your passphrase can open it.')
+    } catch (err) {
+      setTranscriptStatus(err instanceof Error ? err.message : 'Could not save transcript.')
+    }
+  }
+
   const handleError = (error: string) => {
     setError(error)
     console.error('Voice error:', error)
@@ -113,8 +302,34 @@ export default function DemoPage() {
               <h1 className="text-2xl font-bold text-trust-800">Emma AI</h1>
               <p className="text-sm text-neutral-600">Your relationship wellness companion</p>
             </div>
-            <div className="text-sm text-neutral-500">
-              Demo Mode
+            <div className="flex items-center gap-4 text-sm text-neutral-500">
+              <label className="flex items-center gap-2">
+                <span>Language</span>
+                <select
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  className="px-2 py-1 border border-neutral-300 rounded-lg bg-white text-neutral-700"
+                >
+                  <option value="auto">
+                    {detectedLanguage ? `Auto (${getLanguage(detectedLanguage).nativeName})` : 'Auto-detect'}
+                  </option>
+                  {SUPPORTED_LANGUAGES.map(l => (
+                    <option key={l.code} value={l.code}>{l.nativeName}</option>
+                  ))}
+                </select>
+              </label>
+              {pushSupported && (
+                <button
+                  type="button"
+                  onClick={enableReminders}
+                  disabled={reminderStatus === 'Enabling...' || reminderStatus === 'Reminders on'}
+                  className="px-2 py-1 border border-neutral-300 rounded-lg bg-white text-neutral-700 disabled:opacity-60"
+                  title="Get a notification when Emma has a check-in for you"
+                >
+                  {reminderStatus || '🔔 Reminders'}
+                </button>
+              )}
+              <span>Demo Mode</span>
             </div>
           </div>
         </div>
@@ -143,6 +358,36 @@ export default function DemoPage() {
                 <li>• Emotional well-being</li>
               </ul>
             </div>
+
+            {/* Couples Session Setup */}
+            {!couples ? (
+              <div className="bg-white/60 rounded-2xl p-6 max-w-md mx-auto mt-6">
+                <p className="text-neutral-600 mb-4">
+                  Here together? Start a couples session and take turns speaking.
+                </p>
+                <div className="flex gap-3 mb-4">
+                  {(['A', 'B'] as PartnerId[]).map(id => (
+                    <input
+                      key={id}
+                      type="text"
+                      value={partnerNames[id]}
+                      onChange={(e) => setPartnerNames(prev => ({ ...prev, [id]: e.target.value }))}
+                      maxLength={MAX_PARTNER_LABEL_LENGTH}
+                      placeholder={`Partner ${id} name (optional)`}
+                      aria-label={`Partner ${id} name`}
+                      className="flex-1 min-w-0 px-3 py-2 border border-neutral-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-trust-400"
+                    />
+                  ))}
+                </div>
+                <Button variant="outline" onClick={startCouplesSession}>
+                  Start couples session
+                </Button>
+              </div>
+            ) : (
+              <p className="mt-6 text-neutral-600">
+                Couples session with {couples.partners.A} and {couples.partners.B}. Emma will stay neutral and guide you in turns.
+              </p>
+            )}
           </div>
         )}
 
@@ -157,11 +402,21 @@ export default function DemoPage() {
                 <div
                   className={`max-w-[80%] p-4 rounded-2xl ${
                     message.speaker === 'user'
-                      ? 'bg-warm-100 text-neutral-800 rounded-br-sm'
+                      ? `${message.partner === 'B' ? 'bg-trust-100' : 'bg-warm-100'} text-neutral-800 rounded-br-sm`
                       : 'bg-white text-neutral-800 rounded-bl-sm shadow-sm'
                   }`}
                 >
+                  {message.partner && couples && (
+                    <p className="text-xs font-medium text-neutral-600 mb-1">{couples.partners[message.partner]}</p>
+                  )}
                   <p className="whitespace-pre-wrap">{message.text}</p>
+                  {message.coaching && <CoachingCards coaching={message.coaching} />}
+                  {message.actions && (
+                    <ActionCards
+                      actions={message.actions}
+                      onResolve={(action, confirm) => resolveMessageAction(message.id, action, confirm)}
+                    />
+                  )}
                   <p className="text-xs text-neutral-500 mt-2">
                     {new Date(message.timestamp).toLocaleTimeString()}
                   </p>
@@ -169,7 +424,15 @@ export default function DemoPage() {
               </div>
             ))}
             
-            {isProcessing && (
+            {isProcessing && streamingText && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] p-4 rounded-2xl bg-white text-neutral-800 rounded-bl-sm shadow-sm">
+                  <p className="whitespace-pre-wrap" aria-live="polite">{streamingText}</p>
+                </div>
+              </div>
+            )}
+
+            {isProcessing && !streamingText && (
               <div className="flex justify-start">
                 <div className="bg-white rounded-2xl rounded-bl-sm p-4 shadow-sm">
                   <div className="flex space-x-2">
@@ -185,11 +448,29 @@ export default function DemoPage() {
 
         {/* Voice Interface */}
         <div className="bg-white rounded-3xl shadow-xl p-8">
+          {/* Turn-taking for couples sessions */}
+          {couples && (
+            <div className="flex items-center justify-between mb-6 bg-trust-50 rounded-2xl px-4 py-3">
+              <p className="font-medium text-trust-800" aria-live="assertive">{turnPrompt}</p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setCouples(prev => prev && { ...prev, currentSpeaker: prev.currentSpeaker === 'A' ? 'B' : 'A' })}
+                disabled={isProcessing}
+              >
+                Switch speaker
+              </Button>
+            </div>
+          )}
+
           <VoiceInterface
             onUserInput={handleUserInput}
             onError={handleError}
+            language={language}
+            sessionId={sessionIdRef.current}
             disabled={isProcessing}
-            prompt={isProcessing ? "Emma is thinking..." : "Tap to share what's on your mind"}
+            partialResponse={isProcessing ? streamingText : undefined}
+            prompt={isProcessing ? "Emma is thinking..." : turnPrompt ? `${turnPrompt} - tap to speak` : "Tap to share what's on your mind"}
           />
           
           {/* Text Input Fallback */}
@@ -237,14 +518,55 @@ export default function DemoPage() {
           <div className="mt-6 text-center">
             <Button
               variant="outline"
-              onClick={() => {
-                setMessages([])
-                setError(null)
-              }}
+              onClick={startNewConversation}
               disabled={isProcessing}
             >
               Start New Conversation
             </Button>
+            <Button
+              variant="outline"
+              className="ml-2"
+              onClick={endAndSummarize}
+              disabled={isProcessing}
+            >
+              End &amp; see summary
+            </Button>
+            <Button
+              variant="ghost"
+              className="ml-2"
+              onClick={() => transcriptKey ? saveEncryptedTranscript() : setShowSaveTranscript(true)}
+              disabled={isProcessing}
+            >
+              Save encrypted transcript
+            </Button>
+
+            {showSaveTranscript && !transcriptKey && (
+              <form
+                className="mt-4 flex justify-center gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  saveEncryptedTranscript()
+                }}
+              >
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Transcript passphrase"
+                  minLength={8}
+                  required
+                  className="px-3 py-2 border border-neutral-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-trust-500"
+                />
+                <Button type="submit" size="sm">Encrypt &amp; save</Button>
+              </form>
+            )}
+
+            {transcriptStatus && (
+              <p className="mt-2 text-sm text-neutral-600">
+                {transcriptStatus}{' '}
+                <a href="/transcripts" className="text-trust-700 underline-offset-4 hover:underline">Past sessions</a>
+              </p>
+            )}
           </div>
         )}
 
@@ -2,6 +2,17 @@
 
 import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/Button'
+import { apiFetch } from '@/lib/auth/identity-client'
+
+// The monitoring API is operator-only; the key is kept for this tab only
+const ADMIN_KEY_STORAGE = 'emma-admin-key'
+
+function monitoringFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  return apiFetch(input, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), 'x-admin-key': sessionStorage.getItem(ADMIN_KEY_STORAGE) || '' }
+  })
+}
 
 interface SystemHealth {
   status: 'healthy' | 'degraded' | 'critical'
@@ -27,11 +38,18 @@ export default function MonitoringPage() {
   const [loading, setLoading] = useState(true)
   const [testMessage, setTestMessage] = useState('')
   const [testResults, setTestResults] = useState<ValidationTest[]>([])
+  const [needsKey, setNeedsKey] = useState(false)
+  const [adminKey, setAdminKey] = useState('')
 
   const fetchHealth = async () => {
     try {
-      const response = await fetch('/api/monitoring?action=health')
+      const response = await monitoringFetch('/api/monitoring?action=health')
+      if (response.status === 401) {
+        setNeedsKey(true)
+        return
+      }
       const data = await response.json()
+      setNeedsKey(false)
       setHealth(data.data)
     } catch (error) {
       console.error('Failed to fetch health:', error)
@@ -52,7 +70,7 @@ export default function MonitoringPage() {
     setTestResults(prev => [testEntry, ...prev.slice(0, 9)]) // Keep last 10
 
     try {
-      const response = await fetch('/api/monitoring', {
+      const response = await monitoringFetch('/api/monitoring', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ message })
@@ -92,6 +110,34 @@ export default function MonitoringPage() {
     )
   }
 
+  if (needsKey) {
+    return (
+      <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+        <form
+          className="bg-white rounded-xl shadow-sm p-6 space-y-3 w-full max-w-sm"
+          onSubmit={(e) => {
+            e.preventDefault()
+            sessionStorage.setItem(ADMIN_KEY_STORAGE, adminKey)
+            setAdminKey('')
+            fetchHealth()
+          }}
+        >
+          <h1 className="text-lg font-semibold text-neutral-900">Operator access</h1>
+          <p className="text-sm text-neutral-600">Monitoring shows data about everyone&apos;s sessions. Enter the admin key (CRON_SECRET) to continue.</p>
+          <input
+            type="password"
+            value={adminKey}
+            onChange={(e) => setAdminKey(e.target.value)}
+            placeholder="Admin key"
+            required
+            className="w-full px-3 py-2 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-trust-400"
+          />
+          <Button type="submit">Continue</Button>
+        </form>
+      </div>
+    )
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'healthy': return 'text-growth-600 bg-growth-100'
@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { apiFetch } from '@/lib/auth/identity-client'
+import { COACHING_SKILLS, SKILL_LABELS } from '@/lib/ai/coaching-response'
+import type { MoodTimeline } from '@/lib/coaching/mood-timeline'
+
+const WEEK_OPTIONS = [4, 12, 26, 52]
+
+const SKILL_COLORS: Record<string, string> = {
+  i_statements: 'bg-trust-500',
+  active_listening: 'bg-growth-500',
+  deescalation: 'bg-warm-500',
+  boundary_setting: 'bg-neutral-500',
+  empathy: 'bg-trust-300'
+}
+
+const TREND_TEXT: Record<NonNullable<MoodTimeline['trend']>, string> = {
+  improving: '📈 Your mood has been lifting',
+  declining: '📉 Things have felt heavier lately',
+  steady: '➡️ Your mood has been steady'
+}
+
+// Chart area in SVG units
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 200
+const CHART_PADDING = 16
+
+export default function MoodPage() {
+  const [weeks, setWeeks] = useState(12)
+  const [timeline, setTimeline] = useState<MoodTimeline | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setError(null)
+    apiFetch(`/api/sessions/timeline?weeks=${weeks}`)
+      .then(async response => {
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+        setTimeline(data.timeline)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load your mood timeline.'))
+  }, [weeks])
+
+  const hasMood = timeline?.weeks.some(week => week.mood !== null)
+  // A session can practice several skills, so bars scale to the busiest week's total
+  const maxPracticed = Math.max(1, ...(timeline?.weeks.map(week =>
+    Object.values(week.skillsPracticed).reduce((sum, count) => sum + (count || 0), 0)
+  ) || []))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-trust-50 via-neutral-50 to-warm-50">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-sm border-b border-neutral-200">
+        <div className="max-w-4xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-trust-800">Emma AI</h1>
+              <p className="text-sm text-neutral-600">Your mood over time</p>
+            </div>
+            <select
+              value={weeks}
+              onChange={(e) => setWeeks(Number(e.target.value))}
+              className="px-2 py-1 border border-neutral-300 rounded-lg bg-white text-sm text-neutral-700"
+            >
+              {WEEK_OPTIONS.map(option => (
+                <option key={option} value={option}>Last {option} weeks</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        {error && <p className="text-center text-crisis-600">{error}</p>}
+        {!timeline && !error && <p className="text-center text-neutral-600">Loading your timeline...</p>}
+
+        {timeline && !hasMood && (
+          <p className="text-center text-neutral-600">
+            Your mood will show here after a few sessions with Emma. <a href="/demo" className="text-trust-700 underline-offset-4 hover:underline">Start one</a>
+          </p>
+        )}
+
+        {timeline && hasMood && (
+          <>
+            {/* Mood trend */}
+            <div className="bg-white rounded-3xl shadow-xl p-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-trust-800">Mood</h2>
+                {timeline.trend && <p className="text-sm text-neutral-600">{TREND_TEXT[timeline.trend]}</p>}
+              </div>
+              <MoodChart timeline={timeline} />
+              <p className="text-xs text-neutral-500">
+                Weekly average of how your messages read, from low (bottom) to high (top). A reflection, not a diagnosis.
+              </p>
+            </div>
+
+            {/* Skills practiced */}
+            <div className="bg-white rounded-3xl shadow-xl p-6 space-y-4">
+              <h2 className="text-xl font-semibold text-trust-800">Skills practiced</h2>
+              <div className="flex items-end gap-1 h-32">
+                {timeline.weeks.map(week => (
+                  <div key={week.weekStart} className="flex-1 flex flex-col-reverse h-full" title={`Week of ${week.weekStart}: ${week.sessions} sessions`}>
+                    {COACHING_SKILLS.filter(skill => week.skillsPracticed[skill]).map(skill => (
+                      <div
+                        key={skill}
+                        className={`${SKILL_COLORS[skill]} w-full`}
+                        style={{ height: `${((week.skillsPracticed[skill] || 0) / maxPracticed) * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-3 text-xs text-neutral-600">
+                {COACHING_SKILLS.map(skill => (
+                  <span key={skill} className="flex items-center gap-1">
+                    <span className={`inline-block w-3 h-3 rounded-sm ${SKILL_COLORS[skill]}`} />
+                    {SKILL_LABELS[skill]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function MoodChart({ timeline }: { timeline: MoodTimeline }) {
+  const step = (CHART_WIDTH - 2 * CHART_PADDING) / Math.max(1, timeline.weeks.length - 1)
+  const x = (i: number) => CHART_PADDING + i * step
+  const y = (mood: number) => CHART_PADDING + ((1 - mood) / 2) * (CHART_HEIGHT - 2 * CHART_PADDING)
+
+  const points = timeline.weeks
+    .map((week, i) => ({ week, x: x(i) }))
+    .filter(point => point.week.mood !== null)
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Weekly mood">
+      <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(0)} y2={y(0)} className="stroke-neutral-200" strokeDasharray="4 4" />
+      <polyline
+        points={points.map(point => `${point.x},${y(point.week.mood as number)}`).join(' ')}
+        fill="none"
+        className="stroke-trust-500"
+        strokeWidth={3}
+        strokeLinejoin="round"
+      />
+      {points.map(point => (
+        <circle key={point.week.weekStart} cx={point.x} cy={y(point.week.mood as number)} r={5} className="fill-trust-600">
+          <title>
+            {`Week of ${point.week.weekStart}: ${point.week.dominant || 'neutral'}, ${point.week.sessions} ${point.week.sessions === 1 ? 'session' : 'sessions'}`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
@@ -15,6 +15,18 @@ export default function HomePage() {
           >
             Try Emma AI
           </a>
+          <a
+            href="/practice"
+            className="block text-trust-700 hover:text-trust-800 underline-offset-4 hover:underline font-medium"
+          >
+            Practice a difficult conversation
+          </a>
+          <a
+            href="/transcripts"
+            className="block text-trust-700 hover:text-trust-800 underline-offset-4 hover:underline font-medium"
+          >
+            Read your past sessions
+          </a>
           <p className="text-sm text-neutral-600">
             Development build - API keys configured 
           </p>
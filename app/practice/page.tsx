@@ -0,0 +1,286 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { PracticeFeedback, PracticeRubricCard, SKILL_LABELS } from '@/components/coaching'
+import { apiFetch } from '@/lib/auth/identity-client'
+import type { CoachingSkill, PracticeRubric, PracticeScenario, PracticeTurnFeedback } from '@/types'
+
+type ScenarioSummary = Omit<PracticeScenario, 'partnerRole'>
+
+interface SkillRubric {
+  skill: CoachingSkill
+  criteria: Array<{ id: string, description: string }>
+}
+
+interface PracticeMessage {
+  id: string
+  text: string
+  speaker: 'user' | 'partner'
+  feedback?: PracticeTurnFeedback
+}
+
+export default function PracticePage() {
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([])
+  const [skills, setSkills] = useState<SkillRubric[]>([])
+  const [scenarioId, setScenarioId] = useState<string | null>(null)
+  const [skill, setSkill] = useState<CoachingSkill | null>(null)
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [messages, setMessages] = useState<PracticeMessage[]>([])
+  const [draft, setDraft] = useState('')
+  const [rubric, setRubric] = useState<PracticeRubric | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    apiFetch('/api/practice')
+      .then(res => res.json())
+      .then(data => {
+        setScenarios(data.scenarios || [])
+        setSkills(data.skills || [])
+      })
+      .catch(() => setError('Could not load practice scenarios.'))
+  }, [])
+
+  const selectedScenario = scenarios.find(s => s.id === scenarioId)
+  const targetSkill = skill || selectedScenario?.suggestedSkill
+  const criterionLabels = Object.fromEntries(
+    (skills.find(s => s.skill === (rubric?.skill || targetSkill))?.criteria || []).map(c => [c.id, c.description])
+  )
+
+  const postJson = async (url: string, body: unknown) => {
+    const response = await apiFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+    }
+    return data
+  }
+
+  const startPractice = async () => {
+    if (!scenarioId || isProcessing) return
+
+    setError(null)
+    setIsProcessing(true)
+    try {
+      const data = await postJson('/api/practice', { scenarioId, skill: targetSkill })
+      setSessionId(data.sessionId)
+      setSkill(data.skill)
+      setRubric(null)
+      setMessages([{ id: Date.now().toString(), text: data.openingLine, speaker: 'partner' }])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start practice.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const sendReply = async () => {
+    const text = draft.trim()
+    if (!sessionId || !text || isProcessing) return
+
+    setError(null)
+    setDraft('')
+    setIsProcessing(true)
+
+    const userMessageId = Date.now().toString()
+    setMessages(prev => [...prev, { id: userMessageId, text, speaker: 'user' }])
+
+    try {
+      const data = await postJson(`/api/practice/${sessionId}`, { message: text })
+
+      // Feedback belongs to the user's reply; the partner answers below it
+      setMessages(prev => [
+        ...prev.map(m => m.id === userMessageId ? { ...m, feedback: data.feedback || undefined } : m),
+        { id: (Date.now() + 1).toString(), text: data.response, speaker: 'partner' }
+      ])
+
+      if (data.metadata?.crisisDetected) {
+        console.warn('Crisis detected during practice - would trigger intervention workflow')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send reply.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const endPractice = async () => {
+    if (!sessionId || isProcessing) return
+
+    setIsProcessing(true)
+    try {
+      const data = await postJson(`/api/practice/${sessionId}/end`, {})
+      setRubric(data.rubric)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end practice.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const resetPractice = () => {
+    setSessionId(null)
+    setMessages([])
+    setRubric(null)
+    setError(null)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-trust-50 via-neutral-50 to-warm-50">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-sm border-b border-neutral-200">
+        <div className="max-w-4xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-trust-800">Emma AI</h1>
+              <p className="text-sm text-neutral-600">Practice a difficult conversation</p>
+            </div>
+            <div className="text-sm text-neutral-500">
+              Practice Mode
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        {/* Scenario Picker */}
+        {!sessionId && (
+          <div className="bg-white rounded-3xl shadow-xl p-8 space-y-6">
+            <div>
+              <h2 className="text-xl font-semibold text-trust-800 mb-1">Choose a scenario</h2>
+              <p className="text-sm text-neutral-600">
+                Emma will play your partner. After each reply you&apos;ll get quick feedback on your skill.
+              </p>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              {scenarios.map(scenario => (
+                <button
+                  key={scenario.id}
+                  type="button"
+                  onClick={() => {
+                    setScenarioId(scenario.id)
+                    setSkill(null)
+                  }}
+                  className={`text-left p-4 rounded-2xl border-2 transition-colors ${
+                    scenario.id === scenarioId
+                      ? 'border-trust-400 bg-trust-50'
+                      : 'border-neutral-200 hover:border-trust-200'
+                  }`}
+                >
+                  <p className="font-medium text-neutral-800">{scenario.title}</p>
+                  <p className="text-sm text-neutral-600">{scenario.description}</p>
+                </button>
+              ))}
+            </div>
+
+            {selectedScenario && (
+              <div className="flex flex-wrap items-center gap-3">
+                <label htmlFor="practice-skill" className="text-sm text-neutral-700">Skill to practice</label>
+                <select
+                  id="practice-skill"
+                  value={targetSkill}
+                  onChange={(e) => setSkill(e.target.value as CoachingSkill)}
+                  className="px-3 py-2 border border-neutral-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-trust-400"
+                >
+                  {skills.map(({ skill }) => (
+                    <option key={skill} value={skill}>{SKILL_LABELS[skill] || skill}</option>
+                  ))}
+                </select>
+                <Button onClick={startPractice} disabled={isProcessing} className="ml-auto">
+                  {isProcessing ? 'Starting...' : 'Start practice'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Role-play */}
+        {sessionId && (
+          <div className="bg-white rounded-3xl shadow-xl p-8">
+            <p className="text-sm text-neutral-600 mb-4">
+              {selectedScenario?.title} · practicing {targetSkill ? SKILL_LABELS[targetSkill] : ''}
+            </p>
+
+            <div className="space-y-4 max-h-[480px] overflow-y-auto mb-6">
+              {messages.map(message => (
+                <div
+                  key={message.id}
+                  className={`flex ${message.speaker === 'user' ? 'justify-end' : 'justify-start'}`}
+                >
+                  <div className="max-w-[80%]">
+                    <div
+                      className={`p-4 rounded-2xl ${
+                        message.speaker === 'user'
+                          ? 'bg-warm-100 text-neutral-800 rounded-br-sm'
+                          : 'bg-neutral-100 text-neutral-800 rounded-bl-sm'
+                      }`}
+                    >
+                      {message.speaker === 'partner' && (
+                        <p className="text-xs text-neutral-500 mb-1">Your partner (played by Emma)</p>
+                      )}
+                      <p className="whitespace-pre-wrap">{message.text}</p>
+                    </div>
+                    {message.feedback && <PracticeFeedback feedback={message.feedback} />}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {!rubric && (
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault()
+                      sendReply()
+                    }
+                  }}
+                  placeholder="Reply to your partner..."
+                  className="flex-1 px-4 py-3 border border-neutral-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-trust-400 focus:border-transparent"
+                  disabled={isProcessing}
+                />
+                <Button onClick={sendReply} disabled={isProcessing || !draft.trim()}>
+                  {isProcessing ? 'Sending...' : 'Send'}
+                </Button>
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-center gap-3">
+              {!rubric ? (
+                <Button variant="outline" onClick={endPractice} disabled={isProcessing || messages.length < 2}>
+                  End practice
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={resetPractice}>
+                  Practice again
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {rubric && <PracticeRubricCard rubric={rubric} criterionLabels={criterionLabels} />}
+
+        {/* Error Display */}
+        {error && (
+          <div className="bg-crisis-50 border border-crisis-200 rounded-lg p-4">
+            <p className="text-crisis-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="text-center text-xs text-neutral-500">
+          <p>Practice is a safe space - if something real comes up, Emma will step out of the role-play to support you.</p>
+        </div>
+      </div>
+    </div>
+  )
+}
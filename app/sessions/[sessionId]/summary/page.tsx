@@ -0,0 +1,230 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { SKILL_LABELS } from '@/lib/ai/coaching-response'
+import { describeEmotions, summaryToMarkdown, summaryToPdf } from '@/lib/coaching/session-summary-export'
+import {
+  createTranscriptKey,
+  hasStoredSummary,
+  heldSummary,
+  saveSummary,
+  unlockSummary,
+  type UnlockedSummary
+} from '@/lib/privacy/transcript-client'
+
+export default function SessionSummaryPage({ params }: { params: { sessionId: string } }) {
+  // Decrypted, or just handed over by the session that ended; never stored in the clear
+  const [unlocked, setUnlocked] = useState<UnlockedSummary | null>(null)
+  const [stored, setStored] = useState<boolean | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setUnlocked(heldSummary(params.sessionId))
+    hasStoredSummary(params.sessionId)
+      .then(setStored)
+      .catch(() => setStored(false))
+  }, [params.sessionId])
+
+  const withPassphrase = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    setError(null)
+    try {
+      await action()
+      setPassphrase('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const unlock = () => withPassphrase(async () => {
+    const summary = await unlockSummary(params.sessionId, passphrase)
+    if (!summary) throw new Error('That passphrase does not open this summary.')
+    setUnlocked(summary)
+  })
+
+  const save = () => withPassphrase(async () => {
+    const key = await createTranscriptKey(passphrase)
+    await saveSummary(params.sessionId, unlocked!.summary, key)
+    setStored(true)
+  })
+
+  // Exports are built on this device from the decrypted summary
+  const download = (format: 'markdown' | 'pdf') => {
+    if (!unlocked) return
+    const blob = format === 'pdf'
+      ? new Blob([summaryToPdf(unlocked.summary, unlocked.startedAt)], { type: 'application/pdf' })
+      : new Blob([summaryToMarkdown(unlocked.summary, unlocked.startedAt)], { type: 'text/markdown' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `emma-session-${unlocked.startedAt.slice(0, 10)}.${format === 'pdf' ? 'pdf' : 'md'}`
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  const summary = unlocked?.summary
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-trust-50 via-neutral-50 to-warm-50">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-sm border-b border-neutral-200">
+        <div className="max-w-4xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-trust-800">Emma AI</h1>
+              <p className="text-sm text-neutral-600">Session summary</p>
+            </div>
+            <div className="flex gap-4 text-sm">
+              <a href="/mood" className="text-trust-700 underline-offset-4 hover:underline">Mood over time</a>
+              <a href="/demo" className="text-trust-700 underline-offset-4 hover:underline">New session</a>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        {!summary && stored === null && <p className="text-center text-neutral-600">Loading your summary...</p>}
+
+        {!summary && stored === false && (
+          <p className="text-center text-neutral-600">
+            No summary was saved for this session. Summaries are kept only when you save them encrypted with your passphrase.
+          </p>
+        )}
+
+        {/* Unlock a stored summary */}
+        {!summary && stored && (
+          <PassphraseForm
+            title="Unlock your summary"
+            description="Summaries are encrypted with your transcript passphrase before they leave your device. Emma can't read them or recover a lost passphrase."
+            action="Unlock"
+            passphrase={passphrase}
+            onPassphraseChange={setPassphrase}
+            onSubmit={unlock}
+            isWorking={isWorking}
+            error={error}
+          />
+        )}
+
+        {/* Keep a just-ended session's summary */}
+        {summary && stored === false && (
+          <PassphraseForm
+            title="Keep this summary"
+            description="It is shown here once. To read it later, encrypt it on this device with your transcript passphrase; Emma only stores the ciphertext."
+            action="Encrypt & save"
+            passphrase={passphrase}
+            onPassphraseChange={setPassphrase}
+            onSubmit={save}
+            isWorking={isWorking}
+            error={error}
+          />
+        )}
+
+        {summary && (
+          <div className="bg-white rounded-3xl shadow-xl p-8 space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-trust-800">Your session with Emma</h2>
+                <p className="text-sm text-neutral-500">{new Date(unlocked.startedAt).toLocaleString()}</p>
+              </div>
+              <div className="flex gap-2 text-sm">
+                <button onClick={() => download('pdf')} className="px-3 py-1 border border-neutral-300 rounded-lg text-neutral-700 hover:bg-neutral-50">PDF</button>
+                <button onClick={() => download('markdown')} className="px-3 py-1 border border-neutral-300 rounded-lg text-neutral-700 hover:bg-neutral-50">Markdown</button>
+              </div>
+            </div>
+
+            <section>
+              <h3 className="font-semibold text-trust-800 mb-2">What we talked about</h3>
+              <ul className="list-disc pl-5 text-neutral-700 space-y-1">
+                {summary.themes.map((theme, i) => <li key={i}>{theme}</li>)}
+              </ul>
+            </section>
+
+            {summary.emotions && (
+              <section>
+                <h3 className="font-semibold text-trust-800 mb-2">How you felt</h3>
+                <p className="text-neutral-700">{describeEmotions(summary)}</p>
+              </section>
+            )}
+
+            {summary.skillsPracticed.length > 0 && (
+              <section>
+                <h3 className="font-semibold text-trust-800 mb-2">Skills practiced</h3>
+                <div className="flex flex-wrap gap-2">
+                  {summary.skillsPracticed.map(skill => (
+                    <span key={skill} className="px-3 py-1 rounded-full bg-trust-50 text-trust-700 text-sm">
+                      {SKILL_LABELS[skill] || skill}
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h3 className="font-semibold text-trust-800 mb-2">Homework</h3>
+              <div className="space-y-3">
+                {summary.homework.map((exercise, i) => (
+                  <div key={i} className="rounded-2xl bg-warm-50 p-4">
+                    <p className="font-medium text-neutral-800">{exercise.title}</p>
+                    <p className="text-sm text-neutral-700">{exercise.instructions}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="font-semibold text-trust-800 mb-2">Next time</h3>
+              <p className="text-neutral-700">{summary.nextFocus}</p>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface PassphraseFormProps {
+  title: string
+  description: string
+  action: string
+  passphrase: string
+  onPassphraseChange: (passphrase: string) => void
+  onSubmit: () => void
+  isWorking: boolean
+  error: string | null
+}
+
+function PassphraseForm({ title, description, action, passphrase, onPassphraseChange, onSubmit, isWorking, error }: PassphraseFormProps) {
+  return (
+    <form
+      className="bg-white rounded-3xl shadow-xl p-8 space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSubmit()
+      }}
+    >
+      <div>
+        <h2 className="text-xl font-semibold text-trust-800 mb-1">{title}</h2>
+        <p className="text-sm text-neutral-600">{description}</p>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => onPassphraseChange(e.target.value)}
+          placeholder="Transcript passphrase"
+          minLength={8}
+          required
+          className="flex-1 px-3 py-2 border border-neutral-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-trust-400"
+        />
+        <Button type="submit" loading={isWorking} disabled={isWorking}>
+          {action}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-crisis-600">{error}</p>}
+    </form>
+  )
+}
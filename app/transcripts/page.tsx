@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { unlockTranscripts, type UnlockedTranscript } from '@/lib/privacy/transcript-client'
+
+export default function TranscriptsPage() {
+  const [passphrase, setPassphrase] = useState('')
+  const [transcripts, setTranscripts] = useState<UnlockedTranscript[] | null>(null)
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const unlock = async () => {
+    setIsUnlocking(true)
+    setError(null)
+
+    try {
+      const unlocked = await unlockTranscripts(passphrase)
+      if (unlocked.length > 0 && unlocked.every(t => !t.entries)) {
+        setError('That passphrase does not open any of your transcripts.')
+        return
+      }
+      setTranscripts(unlocked)
+      setPassphrase('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load transcripts.')
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-trust-50 via-neutral-50 to-warm-50">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-sm border-b border-neutral-200">
+        <div className="max-w-4xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-trust-800">Emma AI</h1>
+              <p className="text-sm text-neutral-600">Your past sessions</p>
+            </div>
+            <div className="text-sm text-neutral-500">
+              🔒 Decrypted on this device
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        {/* Unlock */}
+        {!transcripts && (
+          <form
+            className="bg-white rounded-3xl shadow-xl p-8 space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              unlock()
+            }}
+          >
+            <div>
+              <h2 className="text-xl font-semibold text-trust-800 mb-1">Unlock your transcripts</h2>
+              <p className="text-sm text-neutral-600">
+                Transcripts are encrypted with your passphrase before they leave your device. Emma can&apos;t read them or recover a lost passphrase.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Transcript passphrase"
+                required
+                className="flex-1 px-3 py-2 border border-neutral-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-trust-400"
+              />
+              <Button type="submit" loading={isUnlocking} disabled={isUnlocking}>
+                Unlock
+              </Button>
+            </div>
+            {error && <p className="text-sm text-crisis-600">{error}</p>}
+          </form>
+        )}
+
+        {/* Sessions */}
+        {transcripts && transcripts.length === 0 && (
+          <p className="text-center text-neutral-600">No saved transcripts yet.</p>
+        )}
+
+        {transcripts?.map(transcript => (
+          <div key={transcript.sessionId} className="bg-white rounded-3xl shadow-xl p-6 space-y-3">
+            <p className="text-sm text-neutral-500">{new Date(transcript.startedAt).toLocaleString()}</p>
+            {transcript.entries ? (
+              transcript.entries.map((entry, i) => (
+                <div key={i} className={entry.speaker === 'user' ? 'text-right' : 'text-left'}>
+                  <span className={`inline-block px-4 py-2 rounded-2xl text-sm ${
+                    entry.speaker === 'user' ? 'bg-trust-500 text-white' : 'bg-neutral-100 text-neutral-800'
+                  }`}>
+                    {entry.text}
+                  </span>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-neutral-500">Encrypted with a different passphrase.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
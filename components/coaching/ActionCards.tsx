@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckCircle2, Wind, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { cn } from '@/lib/utils'
+import type { ToolAction } from '@/types'
+
+interface BreathingExercise {
+  name: string
+  steps: { phase: string, seconds: number }[]
+  cycles: number
+}
+
+interface ActionCardsProps {
+  actions: ToolAction[]
+  // Confirm or decline a pending action; resolves with its outcome
+  onResolve: (action: ToolAction, confirm: boolean) => Promise<void>
+  className?: string
+}
+
+export default function ActionCards({ actions, onResolve, className }: ActionCardsProps) {
+  const visible = actions.filter(action => action.status !== 'invalid')
+  if (visible.length === 0) return null
+
+  return (
+    <div className={cn('mt-3 space-y-2', className)}>
+      {visible.map(action =>
+        action.tool === 'start_breathing_exercise' && action.status === 'completed'
+          ? <BreathingGuide key={action.id} exercise={action.result as BreathingExercise} />
+          : <ActionCard key={action.id} action={action} onResolve={onResolve} />
+      )}
+    </div>
+  )
+}
+
+function ActionCard({ action, onResolve }: { action: ToolAction, onResolve: ActionCardsProps['onResolve'] }) {
+  const [resolving, setResolving] = useState<boolean | null>(null)
+
+  const resolve = async (confirm: boolean) => {
+    setResolving(confirm)
+    try {
+      await onResolve(action, confirm)
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  if (action.status !== 'pending') {
+    const outcome = action.status === 'completed' ? 'Done' : action.status === 'declined' ? 'Skipped' : 'Couldn\'t complete'
+    return (
+      <div className="flex items-center gap-2 text-sm text-neutral-600">
+        {action.status === 'completed'
+          ? <CheckCircle2 size={16} className="text-growth-600" aria-hidden />
+          : <XCircle size={16} className="text-neutral-400" aria-hidden />}
+        <span>{outcome}: {action.summary}{action.error ? ` (${action.error})` : ''}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-trust-50 border border-trust-200 rounded-xl p-3 space-y-2">
+      <p className="text-xs font-semibold text-trust-700 uppercase tracking-wide">Emma suggests</p>
+      <p className="text-sm text-neutral-800">{action.summary}</p>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => resolve(true)} loading={resolving === true} disabled={resolving !== null}>
+          Yes, do it
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => resolve(false)} loading={resolving === false} disabled={resolving !== null}>
+          No thanks
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Paces the user through each phase of the exercise, cycle by cycle
+function BreathingGuide({ exercise }: { exercise: BreathingExercise }) {
+  const [running, setRunning] = useState(false)
+  const [step, setStep] = useState(0) // Across all cycles
+  const total = exercise.steps.length * exercise.cycles
+  const current = exercise.steps[step % exercise.steps.length]
+
+  useEffect(() => {
+    if (!running) return undefined
+    if (step >= total) {
+      setRunning(false)
+      return undefined
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), current.seconds * 1000)
+    return () => clearTimeout(timer)
+  }, [running, step, total, current])
+
+  const finished = step >= total
+
+  return (
+    <div className="flex items-start gap-3 bg-growth-50 border border-growth-200 rounded-xl p-3">
+      <Wind size={18} className="text-growth-600 mt-0.5 shrink-0" aria-hidden />
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-growth-700 uppercase tracking-wide">{exercise.name}</p>
+        <p className="text-sm text-neutral-800">
+          {exercise.steps.map(s => `${s.phase} ${s.seconds}s`).join(' · ')}, {exercise.cycles} rounds
+        </p>
+        {running && !finished && (
+          <p className="text-lg font-semibold text-growth-700 capitalize" aria-live="polite">
+            {current.phase} for {current.seconds}s · round {Math.floor(step / exercise.steps.length) + 1} of {exercise.cycles}
+          </p>
+        )}
+        {!running && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setStep(0)
+              setRunning(true)
+            }}
+          >
+            {finished ? 'Go again' : 'Start'}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { Dumbbell, MessageCircleQuestion } from 'lucide-react'
+import { SKILL_LABELS } from '@/lib/ai/coaching-response'
+import { cn } from '@/lib/utils'
+import type { CoachingResponse } from '@/types'
+
+export { SKILL_LABELS }
+
+interface CoachingCardsProps {
+  coaching: Omit<CoachingResponse, 'message'>
+  className?: string
+}
+
+export default function CoachingCards({ coaching, className }: CoachingCardsProps) {
+  if (!coaching.practiceExercise && !coaching.followUpQuestion) {
+    return null
+  }
+
+  return (
+    <div className={cn('mt-3 space-y-2', className)}>
+      <span className="inline-block text-xs font-medium text-trust-700 bg-trust-50 rounded-full px-3 py-1">
+        Skill: {SKILL_LABELS[coaching.skill] || coaching.skill}
+      </span>
+
+      {coaching.practiceExercise && (
+        <div className="flex items-start gap-3 bg-growth-50 border border-growth-200 rounded-xl p-3">
+          <Dumbbell size={18} className="text-growth-600 mt-0.5 shrink-0" aria-hidden />
+          <div>
+            <p className="text-xs font-semibold text-growth-700 uppercase tracking-wide">Try this</p>
+            <p className="text-sm text-neutral-800">{coaching.practiceExercise}</p>
+          </div>
+        </div>
+      )}
+
+      {coaching.followUpQuestion && (
+        <div className="flex items-start gap-3 bg-warm-50 border border-warm-200 rounded-xl p-3">
+          <MessageCircleQuestion size={18} className="text-warm-600 mt-0.5 shrink-0" aria-hidden />
+          <div>
+            <p className="text-xs font-semibold text-warm-700 uppercase tracking-wide">Reflect on</p>
+            <p className="text-sm text-neutral-800">{coaching.followUpQuestion}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
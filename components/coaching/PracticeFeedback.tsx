@@ -0,0 +1,34 @@
+'use client'
+
+import { Target } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { SKILL_LABELS } from './CoachingCards'
+import type { PracticeTurnFeedback } from '@/types'
+
+interface PracticeFeedbackProps {
+  feedback: PracticeTurnFeedback
+  className?: string
+}
+
+export function scoreTone(score: number) {
+  if (score >= 0.7) return 'text-growth-700 bg-growth-50 border-growth-200'
+  if (score >= 0.4) return 'text-warm-700 bg-warm-50 border-warm-200'
+  return 'text-crisis-700 bg-crisis-50 border-crisis-200'
+}
+
+export default function PracticeFeedback({ feedback, className }: PracticeFeedbackProps) {
+  return (
+    <div className={cn('mt-2 border rounded-xl p-3', scoreTone(feedback.score), className)}>
+      <div className="flex items-center gap-2">
+        <Target size={16} aria-hidden />
+        <p className="text-xs font-semibold uppercase tracking-wide">
+          {SKILL_LABELS[feedback.skill] || feedback.skill}: {Math.round(feedback.score * 100)}%
+        </p>
+      </div>
+      <p className="text-sm text-neutral-800 mt-1">{feedback.coaching}</p>
+      {feedback.tryNext && (
+        <p className="text-xs text-neutral-600 mt-1">Next time: {feedback.tryNext}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { Award } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { SKILL_LABELS } from './CoachingCards'
+import { scoreTone } from './PracticeFeedback'
+import type { PracticeRubric } from '@/types'
+
+interface PracticeRubricCardProps {
+  rubric: PracticeRubric
+  // Human-readable labels for the rubric criterion ids
+  criterionLabels?: Record<string, string>
+  className?: string
+}
+
+export default function PracticeRubricCard({ rubric, criterionLabels = {}, className }: PracticeRubricCardProps) {
+  return (
+    <div className={cn('bg-white rounded-2xl shadow-sm p-6 space-y-4', className)}>
+      <div className="flex items-center gap-3">
+        <Award size={24} className="text-trust-600" aria-hidden />
+        <div>
+          <h3 className="text-lg font-semibold text-trust-800">Practice summary</h3>
+          <p className="text-sm text-neutral-600">
+            {SKILL_LABELS[rubric.skill] || rubric.skill} · {rubric.turnsScored} {rubric.turnsScored === 1 ? 'reply' : 'replies'} scored
+          </p>
+        </div>
+        <span className={cn('ml-auto text-lg font-bold border rounded-xl px-3 py-1', scoreTone(rubric.overallScore))}>
+          {Math.round(rubric.overallScore * 100)}%
+        </span>
+      </div>
+
+      <p className="text-neutral-800">{rubric.summary}</p>
+
+      <ul className="space-y-2">
+        {Object.entries(rubric.criteria).map(([id, score]) => (
+          <li key={id}>
+            <div className="flex justify-between text-sm text-neutral-700">
+              <span>{criterionLabels[id] || id.replace(/_/g, ' ')}</span>
+              <span>{Math.round(score * 100)}%</span>
+            </div>
+            <div className="h-2 bg-neutral-100 rounded-full overflow-hidden">
+              <div className="h-full bg-trust-500 rounded-full" style={{ width: `${Math.round(score * 100)}%` }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {rubric.strengths.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-growth-700 uppercase tracking-wide">Strengths</p>
+          <ul className="text-sm text-neutral-800 list-disc list-inside">
+            {rubric.strengths.map(item => <li key={item}>{item}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {rubric.improvements.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-warm-700 uppercase tracking-wide">To work on</p>
+          <ul className="text-sm text-neutral-800 list-disc list-inside">
+            {rubric.improvements.map(item => <li key={item}>{item}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
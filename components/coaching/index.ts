@@ -0,0 +1,5 @@
+// Coaching components exports
+export { default as ActionCards } from './ActionCards'
+export { default as CoachingCards, SKILL_LABELS } from './CoachingCards'
+export { default as PracticeFeedback } from './PracticeFeedback'
+export { default as PracticeRubricCard } from './PracticeRubricCard'
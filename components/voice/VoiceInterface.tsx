@@ -4,31 +4,37 @@ import { useState, useCallback } from 'react'
 import { cn } from '@/lib/utils'
 import VoiceRecorder from './VoiceRecorder'
 import VoiceVisualizer from './VoiceVisualizer'
-import type { VoiceRecorderState, AudioLevel } from '@/types'
+import type { VoiceRecorderState, AudioLevel, EmotionData } from '@/types'
 
 interface VoiceInterfaceProps {
-  onUserInput: (text: string) => void
+  onUserInput: (text: string, language?: string, emotion?: EmotionData) => void
   onError: (error: string) => void
+  language?: string // Spoken language code, or 'auto' to detect it
+  sessionId?: string | null
   disabled?: boolean
   className?: string
   prompt?: string
+  partialResponse?: string // Emma's reply as it streams in
 }
 
 export default function VoiceInterface({
   onUserInput,
   onError,
+  language = 'auto',
+  sessionId,
   disabled = false,
   className,
-  prompt = "Tap to talk with Emma"
+  prompt = "Tap to talk with Emma",
+  partialResponse
 }: VoiceInterfaceProps) {
   const [recorderState, setRecorderState] = useState<VoiceRecorderState>('idle')
   const [currentError, setCurrentError] = useState<string | null>(null)
   const [audioLevel, setAudioLevel] = useState<AudioLevel>(0)
 
   // Handle transcription result
-  const handleTranscription = useCallback((text: string) => {
+  const handleTranscription = useCallback((text: string, detectedLanguage?: string, emotion?: EmotionData) => {
     setCurrentError(null)
-    onUserInput(text)
+    onUserInput(text, detectedLanguage, emotion)
   }, [onUserInput])
 
   // Handle recording errors
@@ -95,6 +101,8 @@ export default function VoiceInterface({
             onStateChange={setRecorderState}
             onTranscription={handleTranscription}
             onError={handleError}
+            language={language}
+            sessionId={sessionId}
             disabled={disabled}
             className="relative z-10"
           />
@@ -107,8 +115,15 @@ export default function VoiceInterface({
           {getPromptText()}
         </p>
         
+        {/* Emma's streaming reply */}
+        {partialResponse && (
+          <p className="text-sm text-neutral-700 mt-3 whitespace-pre-wrap" aria-live="polite">
+            {partialResponse}
+          </p>
+        )}
+        
         {/* Additional guidance for first-time users */}
-        {recorderState === 'idle' && !currentError && (
+        {recorderState === 'idle' && !currentError && !partialResponse && (
           <p className="text-sm text-neutral-500 mt-2">
             Share what&apos;s on your mind - Emma is here to listen
           </p>
@@ -2,14 +2,18 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react'
 import { Mic, MicOff, Square } from 'lucide-react'
+import { apiFetch } from '@/lib/auth/identity-client'
 import { cn } from '@/lib/utils'
-import type { VoiceRecorderState, AudioLevel } from '@/types'
+import { ProsodyTracker } from '@/lib/voice/prosody'
+import type { VoiceRecorderState, AudioLevel, EmotionData, ProsodyFeatures } from '@/types'
 
 interface VoiceRecorderProps {
   state: VoiceRecorderState
   onStateChange: (state: VoiceRecorderState) => void
-  onTranscription: (text: string) => void
+  onTranscription: (text: string, language?: string, emotion?: EmotionData) => void
   onError: (error: string) => void
+  language?: string // 'auto' lets the transcription service detect it
+  sessionId?: string | null // Lets the server screen over-quota audio for a crisis in this session
   disabled?: boolean
   className?: string
 }
@@ -19,6 +23,8 @@ export default function VoiceRecorder({
   onStateChange,
   onTranscription,
   onError,
+  language = 'auto',
+  sessionId,
   disabled = false,
   className
 }: VoiceRecorderProps) {
@@ -29,6 +35,8 @@ export default function VoiceRecorder({
   const audioContextRef = useRef<AudioContext | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
   const animationFrameRef = useRef<number | null>(null)
+  const prosodyRef = useRef<ProsodyTracker | null>(null)
+  const prosodyFeaturesRef = useRef<ProsodyFeatures | null>(null)
   
   // Check browser support
   useEffect(() => {
@@ -84,8 +92,10 @@ export default function VoiceRecorder({
       audioContextRef.current = new AudioContext()
       const source = audioContextRef.current.createMediaStreamSource(stream)
       analyserRef.current = audioContextRef.current.createAnalyser()
-      analyserRef.current.fftSize = 256
+      analyserRef.current.fftSize = 2048 // Long enough window for pitch tracking
       source.connect(analyserRef.current)
+      prosodyRef.current = new ProsodyTracker(analyserRef.current, audioContextRef.current.sampleRate)
+      prosodyFeaturesRef.current = null
       
       // Setup MediaRecorder
       const mediaRecorder = new MediaRecorder(stream, {
@@ -117,15 +127,15 @@ export default function VoiceRecorder({
           onStateChange('processing')
           
           // Send to transcription service with timeout
-          const transcriptionText = await Promise.race([
-            transcribeAudio(audioBlob),
-            new Promise<string>((_, reject) => 
+          const transcription = await Promise.race([
+            transcribeAudio(audioBlob, language, prosodyFeaturesRef.current, sessionId),
+            new Promise<never>((_, reject) => 
               setTimeout(() => reject(new Error('Transcription timeout')), 30000)
             )
           ])
           
-          if (transcriptionText && transcriptionText.trim()) {
-            onTranscription(transcriptionText)
+          if (transcription.text && transcription.text.trim()) {
+            onTranscription(transcription.text, transcription.language, transcription.emotion)
           } else {
             onError('No speech detected. Please try speaking louder.')
           }
@@ -151,6 +161,7 @@ export default function VoiceRecorder({
       
       mediaRecorderRef.current = mediaRecorder
       mediaRecorder.start()
+      prosodyRef.current.start()
       onStateChange('listening')
       
       // Start audio level monitoring
@@ -169,11 +180,14 @@ export default function VoiceRecorder({
       onStateChange('idle')
       console.error('getUserMedia error:', error)
     }
-  }, [isSupported, disabled, onError, onTranscription, updateAudioLevel, onStateChange])
+  }, [isSupported, disabled, language, sessionId, onError, onTranscription, updateAudioLevel, onStateChange])
 
   // Stop recording
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && state === 'listening') {
+      // Summarize the utterance before the audio context goes away
+      prosodyFeaturesRef.current = prosodyRef.current?.stop() ?? null
+      prosodyRef.current = null
       mediaRecorderRef.current.stop()
       
       // Clean up audio context
@@ -297,14 +311,23 @@ export default function VoiceRecorder({
 }
 
 // Transcription function - will be moved to service layer
-async function transcribeAudio(audioBlob: Blob): Promise<string> {
+async function transcribeAudio(
+  audioBlob: Blob,
+  language: string,
+  prosody: ProsodyFeatures | null,
+  sessionId?: string | null
+): Promise<{ text: string; language?: string; emotion?: EmotionData }> {
   const formData = new FormData()
   formData.append('file', audioBlob, 'audio.webm')
   formData.append('model', 'whisper-1')
-  formData.append('language', 'en')
+  formData.append('language', language)
+  if (prosody) {
+    formData.append('prosody', JSON.stringify(prosody))
+  }
   
-  const response = await fetch('/api/transcribe', {
+  const response = await apiFetch('/api/transcribe', {
     method: 'POST',
+    headers: sessionId ? { 'x-session-id': sessionId } : undefined,
     body: formData,
   })
   
@@ -313,5 +336,5 @@ async function transcribeAudio(audioBlob: Blob): Promise<string> {
   }
   
   const data = await response.json()
-  return data.text || ''
+  return { text: data.text || '', language: data.language, emotion: data.emotion }
 }
\ No newline at end of file
@@ -38,12 +38,14 @@ CREATE TABLE sessions (
   
   -- Encrypted content (zero-knowledge)
   encrypted_transcript TEXT, -- Client-side encrypted
+  encrypted_summary TEXT, -- End-of-session summary, encrypted on the client with the transcript key
   encryption_key_hash TEXT, -- For verification only
   
   -- Analysis results (non-personal)
-  emotion_summary JSONB, -- {"dominant": "stressed", "intensity": 0.7, "progression": [...]}
+  emotion_summary JSONB, -- {"dominant": "stressed", "intensity": 0.7, "mood": -0.3, "progression": [...]}
   skills_practiced TEXT[], -- ["active_listening", "i_statements"]
   coaching_effectiveness_score FLOAT CHECK (coaching_effectiveness_score >= 0 AND coaching_effectiveness_score <= 1),
+  practice_rubric JSONB, -- Practice sessions only: {"skill": "i_statements", "overallScore": 0.7, "criteria": {...}}
   
   -- Crisis detection (for safety)
   crisis_level INTEGER DEFAULT 0 CHECK (crisis_level >= 0 AND crisis_level <= 3), -- 0=none, 1=low, 2=medium, 3=high
@@ -189,7 +191,78 @@ CREATE TABLE relationship_goals (
   
   -- Status
   status TEXT DEFAULT 'active' CHECK (status IN ('active', 'completed', 'paused', 'abandoned')),
-  completion_date DATE
+  completion_date DATE,
+  abandoned_date DATE,
+  abandon_reason TEXT
+);
+
+-- Ordered steps towards a relationship goal
+CREATE TABLE goal_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id UUID NOT NULL REFERENCES relationship_goals(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  
+  position INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  skill TEXT, -- Coaching skill whose practice sessions count towards this milestone
+  
+  -- Completion, either marked by the user or from a passing practice session
+  completed_at TIMESTAMPTZ,
+  completed_session_id UUID,
+  
+  UNIQUE (goal_id, position)
+);
+
+-- Coaching preferences (one row per user)
+CREATE TABLE user_preferences (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  
+  communication_style TEXT DEFAULT 'direct' CHECK (communication_style IN ('direct', 'indirect', 'conflict_avoidant')),
+  cultural_context TEXT DEFAULT 'individualist' CHECK (cultural_context IN ('individualist', 'collectivist', 'hierarchical')),
+  relationship_goals TEXT[] DEFAULT '{}',
+  preferred_language TEXT DEFAULT 'en'
+);
+
+-- Follow-ups arranged with the user, e.g. "ask how Friday's talk went"
+CREATE TABLE check_ins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  
+  prompt TEXT NOT NULL, -- What Emma will ask
+  due_at TIMESTAMPTZ NOT NULL,
+  status TEXT DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'delivered', 'completed', 'cancelled')),
+  
+  -- Reminder delivery, done by the check-in job (GET /api/check-ins/run)
+  channels TEXT[] NOT NULL DEFAULT '{in_app}', -- Subset of in_app, email, push
+  delivered_at TIMESTAMPTZ,
+  delivery_error TEXT
+);
+
+-- Browser push endpoints for check-in reminders; one row per device
+CREATE TABLE push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL, -- Browser's public key, base64url
+  auth TEXT NOT NULL -- Browser's auth secret, base64url
+);
+
+-- Usage towards the daily quotas of the user's subscription tier.
+-- One row per metric, reset when a new day starts, so no history builds up.
+CREATE TABLE usage_counters (
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  metric TEXT NOT NULL CHECK (metric IN ('messages', 'voice_seconds')),
+  period_start DATE NOT NULL, -- UTC day the amount belongs to
+  amount INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  
+  PRIMARY KEY (user_id, metric)
 );
 
 -- ========================================
@@ -215,6 +288,37 @@ CREATE TABLE system_config (
   is_active BOOLEAN DEFAULT true
 );
 
+-- Versioned system prompts; sessions are split between active versions by traffic_weight
+CREATE TABLE prompt_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  
+  prompt_key TEXT NOT NULL DEFAULT 'emma_system',
+  version TEXT NOT NULL,
+  prompt_text TEXT NOT NULL,
+  traffic_weight FLOAT NOT NULL DEFAULT 0 CHECK (traffic_weight >= 0),
+  
+  description TEXT,
+  is_active BOOLEAN DEFAULT true,
+  
+  UNIQUE (prompt_key, version)
+);
+
+-- Record of privileged data operations such as retention purges.
+-- subject_user_id has no foreign key so entries outlive the user they describe.
+CREATE TABLE audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  
+  action TEXT NOT NULL, -- e.g. 'retention.purge'
+  actor TEXT NOT NULL, -- Job or service that performed the action
+  subject_user_id UUID,
+  
+  -- Counts and identifiers only, never conversation content
+  details JSONB DEFAULT '{}'::jsonb
+);
+
 -- ========================================
 -- INDEXES FOR PERFORMANCE
 -- ========================================
@@ -248,6 +352,23 @@ CREATE INDEX idx_system_metrics_recorded_at ON system_metrics(recorded_at);
 CREATE INDEX idx_system_metrics_name ON system_metrics(metric_name);
 CREATE INDEX idx_system_metrics_service ON system_metrics(service_name);
 
+-- Prompt versions indexes
+CREATE INDEX idx_prompt_versions_active ON prompt_versions(prompt_key, is_active);
+
+-- Audit log indexes
+CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+CREATE INDEX idx_audit_log_action ON audit_log(action);
+CREATE INDEX idx_audit_log_subject ON audit_log(subject_user_id);
+
+-- Check-ins indexes
+CREATE INDEX idx_check_ins_user_due ON check_ins(user_id, due_at);
+CREATE INDEX idx_check_ins_status_due ON check_ins(status, due_at);
+CREATE INDEX idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+-- Goals indexes
+CREATE INDEX idx_relationship_goals_user_status ON relationship_goals(user_id, status);
+CREATE INDEX idx_goal_milestones_goal_id ON goal_milestones(goal_id);
+
 -- ========================================
 -- ROW LEVEL SECURITY (RLS)
 -- ========================================
@@ -257,6 +378,12 @@ ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE crisis_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE relationship_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goal_milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE check_ins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY; -- No policies: service key only
+ALTER TABLE usage_counters ENABLE ROW LEVEL SECURITY; -- No policies: service key only
 
 -- Users can only access their own data
 CREATE POLICY "Users can view own profile" ON users
@@ -291,20 +418,92 @@ CREATE POLICY "Users can manage own goals" ON relationship_goals
     )
   );
 
+CREATE POLICY "Users can manage own milestones" ON goal_milestones
+  FOR ALL USING (
+    goal_id IN (
+      SELECT g.id FROM relationship_goals g
+      JOIN users u ON g.user_id = u.id
+      WHERE u.auth_id = auth.uid()
+    )
+  );
+
+-- Check-ins access
+CREATE POLICY "Users can manage own check-ins" ON check_ins
+  FOR ALL USING (
+    user_id IN (
+      SELECT id FROM users WHERE auth_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can manage own push subscriptions" ON push_subscriptions
+  FOR ALL USING (
+    user_id IN (
+      SELECT id FROM users WHERE auth_id = auth.uid()
+    )
+  );
+
+-- Preferences access
+CREATE POLICY "Users can manage own preferences" ON user_preferences
+  FOR ALL USING (
+    user_id IN (
+      SELECT id FROM users WHERE auth_id = auth.uid()
+    )
+  );
+
+-- Atomically add to a usage counter, starting over when the period changed.
+-- Returns the new amount for the period.
+CREATE OR REPLACE FUNCTION increment_usage(p_user_id UUID, p_metric TEXT, p_period DATE, p_amount INTEGER)
+RETURNS INTEGER AS $$
+  INSERT INTO usage_counters (user_id, metric, period_start, amount)
+  VALUES (p_user_id, p_metric, p_period, p_amount)
+  ON CONFLICT (user_id, metric) DO UPDATE SET
+    amount = CASE
+      WHEN usage_counters.period_start = EXCLUDED.period_start THEN usage_counters.amount + EXCLUDED.amount
+      ELSE EXCLUDED.amount
+    END,
+    period_start = EXCLUDED.period_start,
+    updated_at = NOW()
+  RETURNING amount;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Replace a goal's milestones in one transaction, so a failed insert
+-- leaves the previous milestones in place
+CREATE OR REPLACE FUNCTION replace_goal_milestones(p_goal_id UUID, p_milestones JSONB)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM goal_milestones WHERE goal_id = p_goal_id;
+
+  INSERT INTO goal_milestones (id, goal_id, position, title, skill, completed_at, completed_session_id)
+  SELECT m.id, p_goal_id, m.position, m.title, m.skill, m.completed_at, m.completed_session_id
+  FROM jsonb_to_recordset(p_milestones) AS m(
+    id UUID, position INTEGER, title TEXT, skill TEXT, completed_at TIMESTAMPTZ, completed_session_id UUID
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- ========================================
 -- DATA RETENTION TRIGGERS
 -- ========================================
 
--- Automatic data cleanup function
+-- Automatic data cleanup function. The application-layer retention job
+-- (lib/privacy/retention-service.ts, GET /api/retention) applies the same
+-- rules where pg_cron is unavailable and also covers in-memory monitoring
+-- events and stored audio.
 CREATE OR REPLACE FUNCTION cleanup_expired_data()
 RETURNS void AS $$
 BEGIN
-  -- Delete expired sessions based on user preferences
+  -- Delete expired sessions based on user preferences, keeping any with a
+  -- crisis event still under review (legal hold)
   DELETE FROM sessions 
   WHERE created_at < NOW() - INTERVAL '1 day' * (
     SELECT COALESCE(data_retention_days, 30)
     FROM users 
     WHERE users.id = sessions.user_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM crisis_events
+    WHERE crisis_events.session_id = sessions.id
+    AND crisis_events.escalation_status IN ('pending', 'in_progress')
   );
   
   -- Delete old analytics data (keep 2 years)
@@ -336,6 +535,33 @@ INSERT INTO system_config (config_key, config_value, config_type, description) V
 ('default_data_retention_days', '30', 'setting', 'Default data retention period'),
 ('analytics_sampling_rate', '0.1', 'setting', 'Fraction of sessions to include in analytics');
 
+-- Baseline system prompt (mirrors BASELINE_PROMPT in lib/ai/prompt-registry.ts)
+INSERT INTO prompt_versions (version, prompt_text, traffic_weight, description) VALUES
+('v1', 'You are Emma, a compassionate AI relationship coach specializing in real-time support for complex relationship dynamics.
+
+Your core attributes:
+- Warm, empathetic, and non-judgmental
+- Expert in relationship psychology and communication
+- Trained in crisis detection and de-escalation
+- Culturally sensitive and inclusive
+- Solution-focused while validating emotions
+
+Your approach:
+1. Active listening - Reflect back what you hear
+2. Validate emotions - Acknowledge feelings without judgment
+3. Ask clarifying questions - Understand the full context
+4. Offer practical guidance - Actionable steps they can take
+5. Ensure safety - Detect crisis indicators immediately
+
+Crisis indicators to watch for:
+- Mentions of violence, harm, or threats
+- Extreme emotional distress or hopelessness
+- Child safety concerns
+- Substance abuse affecting relationships
+- Suicidal ideation or self-harm
+
+CRITICAL: If you detect crisis indicators, respond with empathy while flagging for human intervention.', 1, 'Baseline Emma persona');
+
 -- Insert basic coaching templates
 INSERT INTO coaching_templates (template_name, category, skill_focus, template_text, follow_up_questions, practice_exercises) VALUES
 (
@@ -0,0 +1,30 @@
+import { CoachingMessageStreamer } from '@/lib/ai/coaching-response'
+
+function stream(chunks: string[]): { pieces: string[], streamer: CoachingMessageStreamer } {
+  const streamer = new CoachingMessageStreamer()
+  return { pieces: chunks.map(chunk => streamer.push(chunk)), streamer }
+}
+
+describe('CoachingMessageStreamer', () => {
+  it('streams the message field of a JSON completion as it arrives', () => {
+    const { pieces, streamer } = stream(['{"mess', 'age": "What would', ' help you', ' feel heard?", "skill": "active_', 'listening"}'])
+
+    expect(pieces).toEqual(['', 'What would', ' help you', ' feel heard?', ''])
+    expect(streamer.isPlainText).toBe(false)
+    expect(streamer.completion).toContain('"skill": "active_listening"')
+  })
+
+  it('decodes escapes split across chunks', () => {
+    const { pieces } = stream(['{"message": "Line one\\', 'nLine \\u00', 'e9"}'])
+
+    expect(pieces.join('')).toBe('Line one\nLine é')
+  })
+
+  it('streams every chunk of a plain-text completion', () => {
+    const { pieces, streamer } = stream(['  ', 'What would', ' help you', ' feel heard?'])
+
+    expect(pieces).toEqual(['', '  What would', ' help you', ' feel heard?'])
+    expect(streamer.isPlainText).toBe(true)
+    expect(streamer.completion).toBe('  What would help you feel heard?')
+  })
+})
@@ -0,0 +1,67 @@
+import { createEmptyContext } from '@/lib/ai/conversation-store'
+import { describeConflict, scoreTurn, updateConflictLevel } from '@/lib/ai/conflict-estimator'
+import type { EmotionData } from '@/types'
+
+const HEATED = "You're so selfish, it's all your fault and you never listen. Pathetic."
+const CALM = 'Thank you, that helps me see it differently.'
+
+const ANGRY: EmotionData = { sentiment: -1, magnitude: 3, emotions: { anger: 1 }, confidence: 1, timestamp: new Date() }
+
+describe('scoreTurn', () => {
+  it('adds up the cues found in a message', () => {
+    const { score, cues } = scoreTurn(HEATED)
+
+    expect(cues).toEqual(['contempt', 'criticism', 'blame', 'absolutes'])
+    expect(score).toBe(9)
+  })
+
+  it('hears shouting and angry emotion on top of the words', () => {
+    expect(scoreTurn('I SAID STOP IT').cues).toEqual(['raised_voice'])
+    expect(scoreTurn('Stop it!!').score).toBe(1)
+    expect(scoreTurn('Stop it', ANGRY).score).toBe(6)
+  })
+
+  it('gives a calm message no score', () => {
+    expect(scoreTurn(CALM)).toEqual({ score: 0, cues: [] })
+  })
+})
+
+describe('updateConflictLevel', () => {
+  it('rises quickly over heated turns', () => {
+    const context = createEmptyContext('session-1', 'user-1')
+
+    const first = updateConflictLevel(context, HEATED)
+    const second = updateConflictLevel(context, HEATED)
+
+    expect(first).toMatchObject({ level: 5.4, previousLevel: 0, turnScore: 9, trend: 'rising' })
+    expect(second).toMatchObject({ level: 7.6, previousLevel: 5.4, trend: 'rising' })
+    expect(context.conflictLevel).toBe(7.6)
+  })
+
+  it('settles slowly over calm turns', () => {
+    const context = createEmptyContext('session-1', 'user-1')
+    context.conflictLevel = 7.6
+
+    const first = updateConflictLevel(context, CALM)
+    const second = updateConflictLevel(context, CALM)
+
+    expect(first).toMatchObject({ level: 5.3, previousLevel: 7.6, turnScore: 0, trend: 'falling' })
+    expect(second.level).toBe(3.7)
+    expect(describeConflict(second)).toBeNull()
+  })
+
+  it('holds steady when a turn matches the level', () => {
+    const context = createEmptyContext('session-1', 'user-1')
+    context.conflictLevel = 2
+
+    expect(updateConflictLevel(context, 'Because of you we are late.').trend).toBe('steady')
+  })
+})
+
+describe('describeConflict', () => {
+  it('asks for de-escalation from the elevated level and leads with it when high', () => {
+    expect(describeConflict({ level: 3.9, cues: ['blame'], trend: 'rising' })).toBeNull()
+    expect(describeConflict({ level: 4, cues: ['blame'], trend: 'rising' })).toMatch(/^Tension is elevated \(level 4\/10, rising\)\. Cues in their last message: blame\./)
+    expect(describeConflict({ level: 7, cues: ['raised_voice'], trend: 'steady' })).toMatch(/^Conflict is high .*raised voice\.\nLead with de-escalation/)
+  })
+})
@@ -0,0 +1,94 @@
+import { ContextManager } from '@/lib/ai/context-manager'
+import { createEmptyContext } from '@/lib/ai/conversation-store'
+import { ScriptedLLMProvider } from '@/lib/ai/llm-provider'
+import { silenceConsole } from '@/test/emma'
+import type { ConversationContext } from '@/types'
+
+// Ten tokens each at the manager's four characters per token
+const SYSTEM = 'S'.repeat(40)
+const MESSAGE = 'M'.repeat(40)
+
+function contextWith(contents: string[]): ConversationContext {
+  const context = createEmptyContext('session-1', 'user-1')
+  context.turns = contents.map((content, i) => ({
+    id: `turn-${i}`,
+    speaker: i % 2 === 0 ? 'user' : 'emma',
+    content,
+    timestamp: new Date()
+  }))
+  return context
+}
+
+function turnText(i: number): string {
+  return `turn ${i}`.padEnd(40, '.')
+}
+
+silenceConsole()
+
+describe('ContextManager.buildMessages', () => {
+  it('keeps the newest turns that fit the budget exactly', () => {
+    const manager = new ContextManager(new ScriptedLLMProvider(), { tokenBudget: 40 })
+
+    const messages = manager.buildMessages(SYSTEM, contextWith([turnText(0), turnText(1), turnText(2)]), MESSAGE)
+
+    expect(messages.map(message => message.content)).toEqual([SYSTEM, turnText(1), turnText(2), MESSAGE])
+  })
+
+  it('drops a turn that would go one token over', () => {
+    const manager = new ContextManager(new ScriptedLLMProvider(), { tokenBudget: 39 })
+
+    const messages = manager.buildMessages(SYSTEM, contextWith([turnText(0), turnText(1), turnText(2)]), MESSAGE)
+
+    expect(messages.map(message => message.content)).toEqual([SYSTEM, turnText(2), MESSAGE])
+  })
+})
+
+describe('ContextManager.update', () => {
+  const options = { recentTurns: 2, summarizeBatch: 2 }
+
+  it('waits for a full batch beyond the recent turns before summarizing', async () => {
+    const provider = new ScriptedLLMProvider({ summarization: JSON.stringify({ summary: 'They argue about chores.' }) })
+    const context = contextWith([turnText(0), turnText(1), turnText(2)])
+
+    await new ContextManager(provider, options).update(context)
+
+    expect(provider.calls).toHaveLength(0)
+    expect(context.turns).toHaveLength(3)
+  })
+
+  it('folds the batch into the summary and keeps the recent turns verbatim', async () => {
+    const provider = new ScriptedLLMProvider({ summarization: JSON.stringify({ summary: 'They argue about chores.', partner_name: 'Sam' }) })
+    const context = contextWith([turnText(0), turnText(1), turnText(2), turnText(3)])
+
+    await new ContextManager(provider, options).update(context)
+
+    expect(context.summary).toBe('They argue about chores.')
+    expect(context.pinnedFacts?.partnerName).toBe('Sam')
+    expect(context.turns.map(turn => turn.content)).toEqual([turnText(2), turnText(3)])
+  })
+
+  it('carries the previous summary into the next one', async () => {
+    const provider = new ScriptedLLMProvider({
+      summarization: JSON.stringify({ summary: 'They argue about chores and money.', core_conflict: 'Chores are unevenly shared.' })
+    })
+    const context = contextWith([turnText(0), turnText(1), turnText(2), turnText(3)])
+    context.summary = 'They argue about chores.'
+    context.pinnedFacts = { partnerName: 'Sam', goals: ['share the chores'] }
+
+    await new ContextManager(provider, options).update(context)
+
+    expect(provider.calls[0].messages[1].content).toContain('Previous summary: They argue about chores.')
+    expect(context.summary).toBe('They argue about chores and money.')
+    expect(context.pinnedFacts).toEqual({ partnerName: 'Sam', coreConflict: 'Chores are unevenly shared.', goals: ['share the chores'] })
+  })
+
+  it('appends to the previous summary when the model gives none', async () => {
+    const provider = new ScriptedLLMProvider({ summarization: 'not json' })
+    const context = contextWith(['We fought about the dishes. Again.', turnText(1), turnText(2), turnText(3)])
+    context.summary = 'They argue about chores.'
+
+    await new ContextManager(provider, options).update(context)
+
+    expect(context.summary).toBe('They argue about chores. User said: We fought about the dishes.')
+  })
+})
@@ -0,0 +1,45 @@
+import { findCrisisKeywords } from '@/lib/ai/crisis-resources'
+
+describe('findCrisisKeywords', () => {
+  it.each([
+    'It is always me bathing the kids',
+    'She calls me a menace',
+    'I want to work on my listening skill',
+    'We had a calm talk about the budget'
+  ])('finds nothing in everyday English: %s', text => {
+    expect(findCrisisKeywords(text, 'en')).toEqual([])
+    expect(findCrisisKeywords(text)).toEqual([])
+  })
+
+  it('matches whole words and word stems', () => {
+    expect(findCrisisKeywords('He said he would kill me')).toEqual(['kill*'])
+    expect(findCrisisKeywords('I have been having suicidal thoughts')).toEqual(['suicid*'])
+    expect(findCrisisKeywords('He gets abusive when he drinks')).toEqual(['abus*'])
+  })
+
+  it.each([
+    'He almost killed me last night',
+    'He says he kills me if I leave',
+    'I keep thinking about killing myself'
+  ])('matches every form of kill: %s', text => {
+    expect(findCrisisKeywords(text)).toContain('kill*')
+  })
+
+  it('does not match kill inside another word', () => {
+    expect(findCrisisKeywords('Her best skill is patience')).toEqual([])
+  })
+
+  it('ignores accents', () => {
+    expect(findCrisisKeywords('Tengo miedo de hacerme daño', 'es')).toEqual(['hacerme dano'])
+  })
+
+  it('checks phrases that could be English only in their own language', () => {
+    expect(findCrisisKeywords('Il me bat quand il a bu', 'fr')).toEqual(['me bat'])
+    expect(findCrisisKeywords('Il me menace tous les jours', 'fr')).toEqual(['menace'])
+    expect(findCrisisKeywords('Il me menace tous les jours', 'en')).toEqual([])
+  })
+
+  it('still catches unambiguous phrases from other languages', () => {
+    expect(findCrisisKeywords('I just feel like no quiero vivir anymore', 'en')).toEqual(['no quiero vivir'])
+  })
+})
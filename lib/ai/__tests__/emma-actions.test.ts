@@ -0,0 +1,99 @@
+import { createCoachingTools } from '@/lib/ai/coaching-tools'
+import type { EmmaInteractionResult } from '@/lib/ai/emma-core'
+import { ToolRegistry } from '@/lib/ai/tool-registry'
+import { CheckInScheduler } from '@/lib/coaching/check-in-scheduler'
+import { GoalTracker } from '@/lib/coaching/goal-tracker'
+import { InMemoryCheckInRepository } from '@/lib/database/check-in-repository'
+import { InMemoryGoalRepository } from '@/lib/database/goal-repository'
+import { createEmma, silenceConsole } from '@/test/emma'
+
+const USER_ID = 'user-1'
+const SESSION_ID = 'session-1'
+const METADATA = { userId: USER_ID, sessionId: SESSION_ID }
+
+const dueAt = () => new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString()
+
+function createEmmaWithToolCall() {
+  return createEmma({
+    coaching: [
+      JSON.stringify({ tool_calls: [{ name: 'schedule_check_in', arguments: { prompt: 'How did the chores talk go?', dueAt: dueAt() } }] }),
+      JSON.stringify({ message: 'I can check in with you on Friday if you would like.', skill: 'active_listening', confidence: 0.8 })
+    ]
+  })
+}
+
+silenceConsole()
+
+describe('EmmaAI tool confirmation', () => {
+  it('proposes side effects as pending actions without running them', async () => {
+    const { emma, checkIns } = createEmmaWithToolCall()
+
+    const result = await emma.processUserInput('Can you remind me to follow up?', undefined, METADATA)
+
+    expect(result.response.data).toContain('check in with you')
+    expect(result.actions).toHaveLength(1)
+    expect(result.actions![0]).toMatchObject({ tool: 'schedule_check_in', status: 'pending' })
+    expect(await checkIns.listByUser(USER_ID)).toHaveLength(0)
+  })
+
+  it('proposes actions when streaming too', async () => {
+    const { emma, checkIns } = createEmmaWithToolCall()
+
+    let result: EmmaInteractionResult | undefined
+    for await (const event of emma.streamUserInput('Can you remind me to follow up?', undefined, METADATA)) {
+      if (event.type === 'done') result = event.result
+    }
+
+    expect(result?.actions).toHaveLength(1)
+    expect(result?.actions![0]).toMatchObject({ tool: 'schedule_check_in', status: 'pending' })
+    expect(await checkIns.listByUser(USER_ID)).toHaveLength(0)
+  })
+
+  it('runs a pending action once the user confirms it, and only once', async () => {
+    const { emma, checkIns } = createEmmaWithToolCall()
+    const result = await emma.processUserInput('Can you remind me to follow up?', undefined, METADATA)
+    const actionId = result.actions![0].id
+
+    const action = await emma.resolveAction(SESSION_ID, actionId, true)
+
+    expect(action?.status).toBe('completed')
+    expect(await checkIns.listByUser(USER_ID)).toHaveLength(1)
+    await expect(emma.resolveAction(SESSION_ID, actionId, true)).resolves.toBeNull()
+    expect(await checkIns.listByUser(USER_ID)).toHaveLength(1)
+  })
+
+  it('drops a declined action', async () => {
+    const { emma, checkIns } = createEmmaWithToolCall()
+    const result = await emma.processUserInput('Can you remind me to follow up?', undefined, METADATA)
+
+    const action = await emma.resolveAction(SESSION_ID, result.actions![0].id, false)
+
+    expect(action?.status).toBe('declined')
+    expect(await checkIns.listByUser(USER_ID)).toHaveLength(0)
+    await expect(emma.getPendingActions(SESSION_ID)).resolves.toHaveLength(0)
+  })
+})
+
+describe('ToolRegistry', () => {
+  const registry = new ToolRegistry(createCoachingTools({
+    goals: new GoalTracker(new InMemoryGoalRepository()),
+    checkIns: new CheckInScheduler(new InMemoryCheckInRepository())
+  }))
+
+  it('rejects calls to tools it does not have', () => {
+    expect(registry.parse({ name: 'delete_account', arguments: '{}' }).error).toBe('unknown tool "delete_account"')
+  })
+
+  it('rejects arguments that are not valid JSON', () => {
+    expect(registry.parse({ name: 'save_goal', arguments: '{goal' }).error).toBe('arguments are not valid JSON')
+  })
+
+  it('checks arguments against the tool schema', () => {
+    const invalid = registry.parse({
+      name: 'save_goal',
+      arguments: JSON.stringify({ goalId: null, category: null, description: 'Listen before answering', targetDate: null })
+    })
+
+    expect(invalid.error).toBe('category: is required for a new goal')
+  })
+})
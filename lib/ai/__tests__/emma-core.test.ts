@@ -0,0 +1,118 @@
+import type { LLMTask, ScriptedLLMProvider } from '@/lib/ai/llm-provider'
+import { createEmma, silenceConsole } from '@/test/emma'
+
+const USER_ID = 'user-1'
+const SESSION_ID = 'session-1'
+
+const CRISIS_REPLY = JSON.stringify({
+  is_crisis: 'yes',
+  severity: 'emergency',
+  category: 'mental_health',
+  triggers: ['self-harm'],
+  requires_escalation: 'yes'
+})
+
+function tasksCalled(provider: ScriptedLLMProvider): LLMTask[] {
+  return provider.calls.map(call => call.task)
+}
+
+silenceConsole()
+
+describe('EmmaAI', () => {
+  it('coaches an ordinary message', async () => {
+    const { emma, provider } = createEmma()
+
+    const result = await emma.processUserInput('We keep fighting about chores', undefined, { userId: USER_ID, sessionId: SESSION_ID })
+
+    expect(result.response.crisisDetected).toBe(false)
+    expect(result.coaching?.skill).toBe('active_listening')
+    expect(result.response.data).toContain('sore spot')
+    expect(tasksCalled(provider)).toContain('coaching')
+  })
+
+  describe('crisis', () => {
+    it('answers with crisis resources instead of coaching', async () => {
+      const { emma, provider } = createEmma({ crisis: CRISIS_REPLY })
+
+      const result = await emma.processUserInput('I want to kill myself', undefined, { userId: USER_ID, sessionId: SESSION_ID })
+
+      expect(result.response.crisisDetected).toBe(true)
+      expect(result.response.requiresHumanReview).toBe(true)
+      expect(result.coaching).toBeUndefined()
+      expect(result.response.data).toContain('988')
+      expect(tasksCalled(provider)).not.toContain('coaching')
+    })
+
+    it('still treats keyword matches as a crisis when the classifier fails', async () => {
+      const { emma } = createEmma({ crisis: 'not json' })
+
+      const result = await emma.processUserInput('I want to kill myself', undefined, { userId: USER_ID, sessionId: SESSION_ID })
+
+      expect(result.response.crisisDetected).toBe(true)
+      expect(result.coaching).toBeUndefined()
+    })
+  })
+
+  describe('session ownership', () => {
+    it('binds an opened conversation to its user', async () => {
+      const { emma } = createEmma()
+
+      const sessionId = await emma.openConversation(USER_ID)
+
+      await expect(emma.ownsSession(sessionId, USER_ID)).resolves.toBe(true)
+      await expect(emma.ownsSession(sessionId, 'user-2')).resolves.toBe(false)
+    })
+
+    it('rejects session ids the server never issued', async () => {
+      const { emma } = createEmma()
+
+      await expect(emma.ownsSession('made-up-session', USER_ID)).resolves.toBe(false)
+      await expect(emma.ownsSession(crypto.randomUUID(), USER_ID)).resolves.toBe(false)
+    })
+  })
+
+  describe('session lifecycle', () => {
+    it('keeps the stored crisis record when the conversation is gone by the time the session ends', async () => {
+      const { emma } = createEmma({ crisis: CRISIS_REPLY })
+      const sessionId = await emma.openConversation(USER_ID)
+      await emma.processUserInput('I want to kill myself', undefined, { userId: USER_ID, sessionId })
+      await emma.heartbeatSession(sessionId, USER_ID)
+
+      await emma.clearHistory(sessionId)
+      const ended = await emma.endSession(sessionId, USER_ID)
+
+      expect(ended?.session).toMatchObject({
+        completed: true,
+        crisis_level: 3,
+        crisis_indicators: ['mental_health'],
+        human_escalation_triggered: true,
+        api_calls_count: 1
+      })
+    })
+
+    it('keeps an active conversation from going idle on heartbeats', async () => {
+      const { emma, store } = createEmma()
+      const sessionId = await emma.openConversation(USER_ID)
+      await emma.processUserInput('We keep fighting about chores', undefined, { userId: USER_ID, sessionId })
+      const context = await store.get(sessionId)
+      context!.lastActivity = new Date(Date.now() - 20 * 60 * 1000)
+
+      await emma.heartbeatSession(sessionId, USER_ID)
+
+      expect(Date.now() - (await store.get(sessionId))!.lastActivity.getTime()).toBeLessThan(1000)
+    })
+  })
+
+  it('drops turns from the stored context once they are summarized', async () => {
+    const { emma, store } = createEmma({ summarization: JSON.stringify({ summary: 'They keep fighting about chores.' }) })
+
+    for (let i = 0; i < 12; i++) {
+      await emma.processUserInput(`We argued about the dishes again, day ${i}`, undefined, { userId: USER_ID, sessionId: SESSION_ID })
+    }
+
+    const context = await store.get(SESSION_ID)
+    expect(context?.summary).toBe('They keep fighting about chores.')
+    expect(context?.turns.length).toBeLessThan(12)
+    expect(context?.turns[context.turns.length - 2].content).toBe('We argued about the dishes again, day 11')
+  })
+})
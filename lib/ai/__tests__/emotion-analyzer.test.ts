@@ -0,0 +1,36 @@
+import { EmotionAnalyzer, analyzeWithLexicon } from '@/lib/ai/emotion-analyzer'
+import { ScriptedLLMProvider } from '@/lib/ai/llm-provider'
+
+const SAD_READING = JSON.stringify({ sentiment: -0.7, magnitude: 2, emotions: { sadness: 0.8 }, confidence: 0.8 })
+
+describe('analyzeWithLexicon', () => {
+  it('reads negated positive words as sadness', () => {
+    const emotion = analyzeWithLexicon('I am not happy with how we talk')
+
+    expect(emotion.sentiment).toBeLessThan(0)
+    expect(emotion.emotions.sadness).toBe(1)
+  })
+})
+
+describe('EmotionAnalyzer', () => {
+  it('uses the lexicon for English in lexicon mode', async () => {
+    const provider = new ScriptedLLMProvider({ emotion: SAD_READING })
+    const analyzer = new EmotionAnalyzer(provider, 'lexicon')
+
+    const emotion = await analyzer.analyze('I feel so lonely lately', 'en')
+
+    expect(emotion.emotions.sadness).toBeGreaterThan(0)
+    expect(provider.calls).toHaveLength(0)
+  })
+
+  it('asks the model for other languages even in lexicon mode', async () => {
+    const provider = new ScriptedLLMProvider({ emotion: SAD_READING })
+    const analyzer = new EmotionAnalyzer(provider, 'lexicon')
+
+    const emotion = await analyzer.analyze('Me siento muy sola últimamente', 'es')
+
+    expect(provider.calls.map(call => call.task)).toEqual(['emotion'])
+    expect(emotion.sentiment).toBe(-0.7)
+    expect(emotion.emotions.sadness).toBe(0.8)
+  })
+})
@@ -0,0 +1,77 @@
+import { PromptRegistry, SYSTEM_PROMPT_KEY, pickVariant, type PromptVariant } from '@/lib/ai/prompt-registry'
+import { InMemoryPromptVersionRepository } from '@/lib/database/prompt-repository'
+import type { PromptVersionRow } from '@/types/database'
+
+const CONTROL: PromptVariant = { version: 'v1', text: 'control', weight: 3 }
+const TREATMENT: PromptVariant = { version: 'v2', text: 'treatment', weight: 1 }
+
+const SESSION_IDS = Array.from({ length: 2000 }, (_, i) => `session-${i}`)
+
+function row(variant: PromptVariant, overrides: Partial<PromptVersionRow> = {}): PromptVersionRow {
+  return {
+    id: `prompt-${variant.version}`,
+    created_at: '2026-03-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+    prompt_key: SYSTEM_PROMPT_KEY,
+    version: variant.version,
+    prompt_text: variant.text,
+    traffic_weight: variant.weight,
+    description: null,
+    is_active: true,
+    ...overrides
+  }
+}
+
+function shareOf(version: string, variants: PromptVariant[]): number {
+  return SESSION_IDS.filter(id => pickVariant(id, variants).version === version).length / SESSION_IDS.length
+}
+
+describe('pickVariant', () => {
+  it('gives a session the same variant every time', () => {
+    const first = SESSION_IDS.map(id => pickVariant(id, [CONTROL, TREATMENT]).version)
+    const again = SESSION_IDS.map(id => pickVariant(id, [{ ...CONTROL }, { ...TREATMENT }]).version)
+
+    expect(again).toEqual(first)
+  })
+
+  it('splits sessions in proportion to the traffic weights', () => {
+    expect(shareOf('v2', [CONTROL, TREATMENT])).toBeCloseTo(0.25, 1)
+    expect(shareOf('v2', [{ ...CONTROL, weight: 1 }, TREATMENT])).toBeCloseTo(0.5, 1)
+  })
+
+  it('spreads sequential session IDs across both variants', () => {
+    const versions = SESSION_IDS.slice(0, 20).map(id => pickVariant(id, [{ ...CONTROL, weight: 1 }, TREATMENT]).version)
+
+    expect(new Set(versions)).toEqual(new Set(['v1', 'v2']))
+  })
+
+  it('never picks a version with no weight', () => {
+    expect(shareOf('v2', [CONTROL, { ...TREATMENT, weight: 0 }])).toBe(0)
+  })
+
+  it('falls back to the first variant when no version has weight', () => {
+    expect(pickVariant('session-1', [{ ...CONTROL, weight: 0 }, { ...TREATMENT, weight: 0 }]).version).toBe('v1')
+  })
+})
+
+describe('PromptRegistry.assign', () => {
+  it('assigns the same variant on separate server instances', async () => {
+    const rows = [row(CONTROL), row(TREATMENT)]
+    const one = new PromptRegistry(new InMemoryPromptVersionRepository(rows))
+    // Rows may come back in any order; the registry sorts them by version
+    const other = new PromptRegistry(new InMemoryPromptVersionRepository([...rows].reverse()))
+
+    for (const id of SESSION_IDS.slice(0, 50)) {
+      expect((await other.assign(id)).version).toBe((await one.assign(id)).version)
+    }
+  })
+
+  it('keeps a pinned version while it stays active', async () => {
+    const sessionId = SESSION_IDS.find(id => pickVariant(id, [CONTROL, TREATMENT]).version === 'v1')!
+    const registry = new PromptRegistry(new InMemoryPromptVersionRepository([row(CONTROL), row(TREATMENT)]))
+    const retired = new PromptRegistry(new InMemoryPromptVersionRepository([row(CONTROL), row(TREATMENT, { is_active: false })]))
+
+    expect((await registry.assign(sessionId, 'v2')).version).toBe('v2')
+    expect((await retired.assign(sessionId, 'v2')).version).toBe('v1')
+  })
+})
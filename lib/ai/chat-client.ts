@@ -0,0 +1,194 @@
+import { apiFetch } from '@/lib/auth/identity-client'
+import { parseSessionSummary } from '@/lib/coaching/session-summary-export'
+import type { CoachingResponse, EmotionData, PartnerId, SessionSummary, ToolAction } from '@/types'
+
+export interface ChatRequest {
+  message: string
+  emotion?: EmotionData
+  partner?: PartnerId // Couples sessions: who is speaking
+  language?: string // ISO 639-1 code of the message, e.g. detected by transcription
+}
+
+export interface ChatResponse {
+  response: string
+  coaching: (Omit<CoachingResponse, 'message'> & { templateId?: string | null }) | null
+  actions: ToolAction[] // Pending ones wait for resolveAction
+  metadata: Record<string, any>
+  sessionId: string | null
+  quota?: ChatQuota // Streaming only; JSON responses carry it in X-Quota-* headers
+}
+
+export interface ChatQuota {
+  limit: number | null // null when unlimited
+  used: number
+  remaining: number | null
+  resetsAt: string
+}
+
+export interface SessionEnd {
+  startedAt: string
+  summary: SessionSummary | null // Coaching sessions only
+}
+
+export interface SessionStart {
+  sessionId: string
+  openingLine: string | null // Emma speaks first when following up on a check-in
+}
+
+/**
+ * Open a coaching session; pass its id as sessionId on later messages
+ */
+export async function startSession(): Promise<SessionStart> {
+  const response = await apiFetch('/api/sessions', { method: 'POST' })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+  return { sessionId: data.sessionId, openingLine: data.openingLine ?? null }
+}
+
+/**
+ * Whether a check-in has fallen due, so a new session would open with it
+ */
+export async function hasPendingFollowUp(): Promise<boolean> {
+  const response = await apiFetch('/api/check-ins')
+  if (!response.ok) return false
+
+  const data = await response.json().catch(() => ({}))
+  return Boolean(data.followUp)
+}
+
+/**
+ * Close the session. Its summary is returned only here; keep it with
+ * saveSummary, which encrypts it first.
+ */
+export async function endSession(sessionId: string): Promise<SessionEnd> {
+  const response = await apiFetch(`/api/sessions/${sessionId}/end`, { method: 'POST' })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+  return { startedAt: data.session.startedAt, summary: parseSessionSummary(data.summary) }
+}
+
+/**
+ * Confirm or decline an action Emma proposed; returns it with its outcome
+ */
+export async function resolveAction(sessionId: string, actionId: string, confirm: boolean): Promise<ToolAction> {
+  const response = await apiFetch(`/api/sessions/${sessionId}/actions/${actionId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ confirm }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+  return data.action
+}
+
+export interface StreamChatOptions {
+  sessionId?: string | null
+  onToken: (text: string) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Send a message to /api/chat in streaming mode and surface tokens as they arrive.
+ * Resolves with the final response and its safety/quality metadata.
+ */
+export async function streamChat(
+  request: ChatRequest,
+  { sessionId, onToken, signal }: StreamChatOptions
+): Promise<ChatResponse> {
+  const response = await apiFetch('/api/chat', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...(sessionId ? { 'x-session-id': sessionId } : {}),
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  if (!response.body) {
+    throw new Error('Streaming not supported by this browser')
+  }
+
+  const returnedSessionId = response.headers.get('X-Session-Id')
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let final: ChatResponse | null = null
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    // SSE events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const event = parseEvent(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      if (!event) continue
+
+      switch (event.name) {
+        case 'token':
+          onToken(event.data.text)
+          break
+        case 'done':
+          final = {
+            response: event.data.response,
+            coaching: event.data.coaching || null,
+            actions: event.data.actions || [],
+            metadata: event.data.metadata,
+            sessionId: returnedSessionId,
+            quota: event.data.quota
+          }
+          break
+        case 'error':
+          throw new Error(event.data.error || 'Stream failed')
+      }
+    }
+  }
+
+  if (!final) {
+    throw new Error('Invalid response from server')
+  }
+
+  return final
+}
+
+function parseEvent(raw: string): { name: string, data: any } | null {
+  let name = 'message'
+  let data = ''
+
+  for (const line of raw.split('\n')) {
+    if (line.startsWith('event:')) {
+      name = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      data += line.slice(5).trim()
+    }
+  }
+
+  if (!data) return null
+
+  try {
+    return { name, data: JSON.parse(data) }
+  } catch {
+    return null
+  }
+}
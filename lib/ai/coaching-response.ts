@@ -0,0 +1,162 @@
+import type { CoachingResponse, CoachingSkill } from '@/types'
+
+export const COACHING_SKILLS: CoachingSkill[] = [
+  'i_statements',
+  'active_listening',
+  'deescalation',
+  'boundary_setting',
+  'empathy'
+]
+
+export const SKILL_LABELS: Record<CoachingSkill, string> = {
+  i_statements: 'I-Statements',
+  active_listening: 'Active Listening',
+  deescalation: 'De-escalation',
+  boundary_setting: 'Boundary Setting',
+  empathy: 'Empathy'
+}
+
+// Appended to the system prompt so every coaching completion is structured
+export const COACHING_OUTPUT_INSTRUCTIONS = `Respond ONLY with a JSON object, writing the "message" field first:
+{
+  "message": "your reply to the user, 2-4 warm sentences",
+  "skill": one of ${COACHING_SKILLS.map(s => `"${s}"`).join(', ')} - the communication skill this reply coaches,
+  "practice_exercise": "one short exercise the user can try with their partner, or null",
+  "follow_up_question": "one open question that keeps the conversation going, or null",
+  "confidence": number from 0 to 1 - how well the chosen skill fits the situation
+}
+Do not repeat the exercise or the follow-up question inside "message".`
+
+// Keyword cues used when the model did not return a usable skill
+const SKILL_CUES: Array<{ skill: CoachingSkill, pattern: RegExp }> = [
+  { skill: 'deescalation', pattern: /\b(calm|pause|break|breathe|cool down|de-?escalat)/i },
+  { skill: 'boundary_setting', pattern: /\b(boundar|limit|say no|your needs)/i },
+  { skill: 'i_statements', pattern: /\b(i feel|i-statement|i statement|"i need)/i },
+  { skill: 'empathy', pattern: /\b(their perspective|how they feel|put yourself|empath)/i },
+]
+
+export function isCoachingSkill(value: unknown): value is CoachingSkill {
+  return typeof value === 'string' && COACHING_SKILLS.includes(value as CoachingSkill)
+}
+
+export function inferSkill(text: string): CoachingSkill {
+  return SKILL_CUES.find(cue => cue.pattern.test(text))?.skill || 'active_listening'
+}
+
+/**
+ * Parse a structured coaching completion. Plain-text replies (e.g. from
+ * local models that ignore JSON mode) are kept as the message with an
+ * inferred skill and reduced confidence.
+ */
+export function parseCoachingResponse(raw: string): CoachingResponse | null {
+  const trimmed = raw.trim()
+  if (!trimmed) return null
+
+  try {
+    const parsed = JSON.parse(trimmed)
+    const message = typeof parsed.message === 'string' ? parsed.message.trim() : ''
+
+    if (message) {
+      const confidence = Number(parsed.confidence)
+      return {
+        message,
+        skill: isCoachingSkill(parsed.skill) ? parsed.skill : inferSkill(message),
+        practiceExercise: parsed.practice_exercise || undefined,
+        followUpQuestion: parsed.follow_up_question || undefined,
+        confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5
+      }
+    }
+  } catch {
+    // Not JSON - fall through to plain text handling
+  }
+
+  if (trimmed.startsWith('{')) return null
+
+  return {
+    message: trimmed,
+    skill: inferSkill(trimmed),
+    confidence: 0.5
+  }
+}
+
+/**
+ * Incrementally extracts the "message" string value from a streaming JSON
+ * completion so the user sees Emma's words while the rest is still arriving.
+ */
+export class CoachingMessageStreamer {
+  private raw = ''
+  private cursor = -1 // Position of the next unread char inside the message value
+  private finished = false
+  private plainText = false
+
+  /**
+   * Feed the next chunk; returns newly decoded message text (may be empty)
+   */
+  push(chunk: string): string {
+    this.raw += chunk
+    if (this.plainText) return chunk
+    if (this.finished) return ''
+
+    if (this.cursor === -1) {
+      const firstChar = this.raw.trimStart()[0]
+      if (firstChar && firstChar !== '{') {
+        // Model ignored JSON mode: stream everything as-is from here on
+        this.plainText = true
+        return this.raw
+      }
+
+      const match = this.raw.match(/"message"\s*:\s*"/)
+      if (!match || match.index === undefined) return ''
+      this.cursor = match.index + match[0].length
+    }
+
+    let output = ''
+    while (this.cursor < this.raw.length) {
+      const char = this.raw[this.cursor]
+
+      if (char === '"') {
+        this.finished = true
+        break
+      }
+
+      if (char === '\\') {
+        const decoded = this.decodeEscape()
+        if (decoded === null) break // Escape sequence split across chunks
+        output += decoded
+        continue
+      }
+
+      output += char
+      this.cursor++
+    }
+
+    return output
+  }
+
+  /**
+   * The full completion received so far
+   */
+  get completion(): string {
+    return this.raw
+  }
+
+  get isPlainText(): boolean {
+    return this.plainText
+  }
+
+  private decodeEscape(): string | null {
+    const next = this.raw[this.cursor + 1]
+    if (next === undefined) return null
+
+    if (next === 'u') {
+      const hex = this.raw.slice(this.cursor + 2, this.cursor + 6)
+      if (hex.length < 4) return null
+      this.cursor += 6
+      return String.fromCharCode(parseInt(hex, 16))
+    }
+
+    this.cursor += 2
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }
+    return escapes[next] ?? next
+  }
+}
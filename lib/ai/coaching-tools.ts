@@ -0,0 +1,146 @@
+import { z } from 'zod'
+import { COACHING_SKILLS } from '@/lib/ai/coaching-response'
+import { defineTool, type EmmaTool } from '@/lib/ai/tool-registry'
+import { MAX_CHECK_IN_DAYS, MAX_CHECK_IN_PROMPT_LENGTH, type CheckInScheduler } from '@/lib/coaching/check-in-scheduler'
+import { isValidCheckInTime } from '@/lib/coaching/check-in-validation'
+import { GOAL_CATEGORIES, type GoalTracker } from '@/lib/coaching/goal-tracker'
+import type { CoachingSkill, GoalCategory } from '@/types'
+
+export const BREATHING_EXERCISES = {
+  box: {
+    name: 'Box breathing',
+    steps: [{ phase: 'inhale', seconds: 4 }, { phase: 'hold', seconds: 4 }, { phase: 'exhale', seconds: 4 }, { phase: 'hold', seconds: 4 }]
+  },
+  '4-7-8': {
+    name: '4-7-8 breathing',
+    steps: [{ phase: 'inhale', seconds: 4 }, { phase: 'hold', seconds: 7 }, { phase: 'exhale', seconds: 8 }]
+  },
+  coherent: {
+    name: 'Coherent breathing',
+    steps: [{ phase: 'inhale', seconds: 5 }, { phase: 'exhale', seconds: 5 }]
+  }
+} as const
+
+type BreathingPattern = keyof typeof BREATHING_EXERCISES
+
+export interface CoachingToolDependencies {
+  goals: GoalTracker
+  checkIns: CheckInScheduler
+}
+
+/**
+ * The tools Emma can use during coaching
+ */
+export function createCoachingTools(deps: CoachingToolDependencies): EmmaTool[] {
+  return [
+    saveGoalTool(deps.goals),
+    scheduleCheckInTool(deps.checkIns),
+    recordSkillPracticedTool(),
+    startBreathingExerciseTool()
+  ]
+}
+
+function saveGoalTool(goals: GoalTracker) {
+  return defineTool({
+    name: 'save_goal',
+    description: 'Create a relationship goal the user has said they want to work on, or update one of their existing goals.',
+    requiresConfirmation: true,
+    parameters: z.object({
+      goalId: z.string().nullable().describe('Id of the existing goal to update, or null to create a new goal'),
+      category: z.enum(GOAL_CATEGORIES as [GoalCategory, ...GoalCategory[]]).nullable().describe('Required for a new goal'),
+      description: z.string().trim().min(1).max(300).describe("The goal in the user's own words"),
+      targetDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD').nullable().describe('Only if the user named one')
+    }).refine(args => args.goalId !== null || args.category !== null, {
+      message: 'is required for a new goal',
+      path: ['category']
+    }),
+    describe: args => {
+      const by = args.targetDate ? ` by ${args.targetDate}` : ''
+      return args.goalId
+        ? `Update your goal to "${args.description}"${by}`
+        : `Add a goal: "${args.description}"${by}`
+    },
+    execute: async (args, { userId }) => {
+      if (!userId) throw new Error('Goals are only available with an account')
+
+      const goal = args.goalId
+        ? await goals.update(userId, args.goalId, { description: args.description, targetDate: args.targetDate ?? undefined })
+        : await goals.create(userId, { category: args.category!, description: args.description, targetDate: args.targetDate ?? undefined })
+      if (!goal) throw new Error('Goal not found')
+
+      return { goalId: goal.id, description: goal.description, status: goal.status }
+    }
+  })
+}
+
+function scheduleCheckInTool(checkIns: CheckInScheduler) {
+  return defineTool({
+    name: 'schedule_check_in',
+    description: 'Arrange for Emma to follow up with the user at a later time, e.g. to ask how a planned conversation went.',
+    requiresConfirmation: true,
+    parameters: z.object({
+      prompt: z.string().trim().min(1).max(MAX_CHECK_IN_PROMPT_LENGTH).describe('What Emma will ask, e.g. "How did the talk with Sam on Friday go?"'),
+      dueAt: z.string().datetime({ offset: true }).describe('When to check in, as an ISO 8601 date-time')
+    }).refine(args => isValidCheckInTime(new Date(args.dueAt)), {
+      message: `must be in the future and within ${MAX_CHECK_IN_DAYS} days`,
+      path: ['dueAt']
+    }),
+    describe: args => `Check in with you on ${formatDateTime(args.dueAt)}: "${args.prompt}"`,
+    execute: async (args, { userId }) => {
+      if (!userId) throw new Error('Check-ins are only available with an account')
+
+      // Push only reaches devices the user has subscribed; email is opt-in through the check-ins API
+      const checkIn = await checkIns.schedule(userId, { prompt: args.prompt, dueAt: new Date(args.dueAt), channels: ['push'] })
+      return { checkInId: checkIn.id, dueAt: checkIn.dueAt.toISOString() }
+    }
+  })
+}
+
+function recordSkillPracticedTool() {
+  return defineTool({
+    name: 'record_skill_practiced',
+    description: 'Record that the user practiced a communication skill, for example when they describe using it with their partner.',
+    requiresConfirmation: true,
+    parameters: z.object({
+      skill: z.enum(COACHING_SKILLS as [CoachingSkill, ...CoachingSkill[]])
+    }),
+    describe: args => `Record that you practiced ${args.skill.replace(/_/g, ' ')}`,
+    execute: async (args, { conversation }) => {
+      if (!conversation.skillsPracticed.includes(args.skill)) {
+        conversation.skillsPracticed.push(args.skill)
+      }
+      return { skillsPracticed: [...conversation.skillsPracticed] }
+    }
+  })
+}
+
+// Nothing is saved, so it runs without asking
+function startBreathingExerciseTool() {
+  return defineTool({
+    name: 'start_breathing_exercise',
+    description: 'Guide the user through a short paced-breathing exercise when they are overwhelmed, anxious or too heated to talk.',
+    requiresConfirmation: false,
+    parameters: z.object({
+      pattern: z.enum(Object.keys(BREATHING_EXERCISES) as [BreathingPattern, ...BreathingPattern[]]).nullable()
+        .describe('box for general calm, 4-7-8 for anxiety, coherent for a gentle start; null for box'),
+      cycles: z.number().int().min(1).max(10).nullable().describe('Rounds of the pattern; null for 4')
+    }),
+    describe: args => `Start ${BREATHING_EXERCISES[args.pattern || 'box'].name.toLowerCase()}`,
+    execute: async args => {
+      const exercise = BREATHING_EXERCISES[args.pattern || 'box']
+      return { pattern: args.pattern || 'box', name: exercise.name, steps: exercise.steps, cycles: args.cycles || 4 }
+    }
+  })
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short'
+  })
+}
@@ -0,0 +1,177 @@
+import type { ConversationContext, EmotionData } from '@/types'
+
+export type ConflictCue = 'blame' | 'absolutes' | 'contempt' | 'criticism' | 'defensiveness' | 'stonewalling' | 'raised_voice'
+export type ConflictTrend = 'rising' | 'falling' | 'steady'
+
+export interface ConflictReading {
+  level: number // 0-10, smoothed across turns
+  previousLevel: number
+  turnScore: number // 0-10, this turn alone
+  cues: ConflictCue[]
+  trend: ConflictTrend
+}
+
+// Emma shifts to de-escalation from this level, and leads with it from the high level
+export const DEESCALATION_LEVEL = 4
+export const HIGH_CONFLICT_LEVEL = 7
+const TRAJECTORY_LENGTH = 10
+const TREND_DELTA = 0.5
+
+interface CuePattern {
+  cue: ConflictCue
+  weight: number
+  patterns: RegExp[]
+}
+
+const CUE_PATTERNS: CuePattern[] = [
+  {
+    cue: 'contempt',
+    weight: 3,
+    patterns: [
+      /\b(pathetic|useless|worthless|disgusting|idiot|stupid|moron)\b/i,
+      /\b(shut up|grow up|get a life|who cares)\b/i,
+      /\boh,? (great|sure|wonderful)\b/i
+    ]
+  },
+  {
+    cue: 'criticism',
+    weight: 2.5,
+    patterns: [
+      /\b(you|he|she)('re|'s| are| is) (so |such an? |just |being )?(selfish|lazy|crazy|impossible|insane|childish|mean|cold|a liar)\b/i,
+      /\bwhat('s| is) wrong with (you|him|her)\b/i
+    ]
+  },
+  {
+    cue: 'blame',
+    weight: 2,
+    patterns: [
+      /\b(it'?s|it is|this is) (all )?(your|his|her) fault\b/i,
+      /\bbecause of (you|him|her)\b/i,
+      /\b(you|he|she) (made|make|makes|ruined|ruins|started|caused) (me|this|it|everything)\b/i,
+      /\b(you|he|she)('re|'s| are| is) the (reason|problem)\b/i
+    ]
+  },
+  {
+    cue: 'absolutes',
+    weight: 1.5,
+    patterns: [/\b(always|never|every single time|every time|nothing ever|constantly)\b/i]
+  },
+  {
+    cue: 'defensiveness',
+    weight: 1.5,
+    patterns: [
+      /\b(it'?s|that'?s) not my (fault|problem)\b/i,
+      /\bi didn'?t do anything( wrong)?\b/i,
+      /\bwhat about (you|when you)\b/i
+    ]
+  },
+  {
+    cue: 'stonewalling',
+    weight: 1.5,
+    patterns: [
+      /\b(i'?m done|done talking|forget it|leave me alone|whatever)\b/i,
+      /\b(don'?t|do not) want to talk( about it)?\b/i
+    ]
+  }
+]
+
+/**
+ * Score one message on its own, from language cues and the detected emotion
+ */
+export function scoreTurn(text: string, emotion?: EmotionData): { score: number, cues: ConflictCue[] } {
+  const cues = CUE_PATTERNS
+    .filter(({ patterns }) => patterns.some(pattern => pattern.test(text)))
+    .map(({ cue }) => cue)
+
+  let score = CUE_PATTERNS
+    .filter(({ cue }) => cues.includes(cue))
+    .reduce((sum, { weight }) => sum + weight, 0)
+
+  if (isRaisedVoice(text)) {
+    cues.push('raised_voice')
+    score += 1
+  }
+
+  return { score: clamp(score + emotionScore(emotion)), cues }
+}
+
+/**
+ * Update the session's conflict level with this turn. The level rises
+ * quickly and settles slowly, so one calm message doesn't erase a heated
+ * exchange.
+ */
+export function updateConflictLevel(
+  context: ConversationContext,
+  text: string,
+  emotion?: EmotionData
+): ConflictReading {
+  const previousLevel = context.conflictLevel || 0
+  const { score, cues } = scoreTurn(text, emotion)
+  const rate = score > previousLevel ? 0.6 : 0.3
+  const level = round(clamp(previousLevel + (score - previousLevel) * rate))
+
+  context.conflictLevel = level
+
+  return {
+    level,
+    previousLevel,
+    turnScore: round(score),
+    cues,
+    trend: level - previousLevel >= TREND_DELTA ? 'rising'
+      : previousLevel - level >= TREND_DELTA ? 'falling'
+      : 'steady'
+  }
+}
+
+/**
+ * Conflict level after each recent user turn, oldest first
+ */
+export function conflictTrajectory(context: ConversationContext): number[] {
+  return context.turns
+    .filter(turn => turn.speaker === 'user' && turn.conflictLevel !== undefined)
+    .slice(-TRAJECTORY_LENGTH)
+    .map(turn => turn.conflictLevel!)
+}
+
+/**
+ * Prompt guidance for the current level; null while the conversation is calm
+ */
+export function describeConflict(reading: Pick<ConflictReading, 'level' | 'cues' | 'trend'>): string | null {
+  if (reading.level < DEESCALATION_LEVEL) return null
+
+  const cues = reading.cues.length > 0
+    ? ` Cues in their last message: ${reading.cues.map(cue => cue.replace('_', ' ')).join(', ')}.`
+    : ''
+
+  if (reading.level >= HIGH_CONFLICT_LEVEL) {
+    return `Conflict is high (level ${reading.level}/10, ${reading.trend}).${cues}
+Lead with de-escalation: slow the pace, validate the feeling underneath before anything else, and don't problem-solve, judge or take sides yet. If they sound flooded, suggest a short break (about 20 minutes) before continuing. Keep your reply short and end with one gentle question.`
+  }
+
+  return `Tension is elevated (level ${reading.level}/10, ${reading.trend}).${cues}
+Shift toward de-escalation: acknowledge the frustration, reframe blame and absolutes as the need behind them, and model a softened start-up ("I feel... I need...") they could use instead.`
+}
+
+function emotionScore(emotion?: EmotionData): number {
+  if (!emotion) return 0
+
+  // Intense negative sentiment contributes up to 3 points, anger up to 3 more
+  const intensity = Math.min(emotion.magnitude, 3) / 3
+  const negativity = Math.max(0, -emotion.sentiment) * intensity * 3
+  const anger = Math.max(emotion.emotions.anger || 0, emotion.emotions.contempt || 0) * 3
+
+  return (negativity + anger) * emotion.confidence
+}
+
+function isRaisedVoice(text: string): boolean {
+  const shouted = text.match(/\b[A-Z]{3,}\b/g) || []
+  return shouted.length >= 2 || /!{2,}/.test(text)
+}
+
+function clamp(value: number): number {
+  return Math.min(10, Math.max(0, value))
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
@@ -0,0 +1,245 @@
+import type { LLMMessage, LLMProvider } from '@/lib/ai/llm-provider'
+import { speakerLabel } from '@/lib/ai/couples-session'
+import type { ConversationContext, ConversationTurn, PinnedFacts } from '@/types'
+
+export interface ContextManagerOptions {
+  tokenBudget: number // Prompt budget for system prompt + summary + history
+  recentTurns: number // Turns always kept verbatim once the summary kicks in
+  summarizeBatch: number // Older turns folded into the summary at a time
+}
+
+export const DEFAULT_CONTEXT_OPTIONS: ContextManagerOptions = {
+  tokenBudget: 2000,
+  recentTurns: 6,
+  summarizeBatch: 6,
+}
+
+const MAX_SUMMARY_CHARS = 1200
+const MAX_PINNED_GOALS = 5
+
+const PARTNER_NAME_PATTERNS = [
+  /\b[Mm]y (?:partner|wife|husband|boyfriend|girlfriend|fianc[eé]e?|spouse)(?:,)? ([A-Z][a-z]+)\b/,
+  /\b(?:partner|wife|husband|boyfriend|girlfriend|fianc[eé]e?|spouse)(?:'s| is) (?:name is |called )?([A-Z][a-z]+)\b/,
+]
+const GOAL_PATTERN = /\bI (?:really )?(?:want|would like|hope|need) to ([^.!?\n]{5,120})/gi
+const CONFLICT_PATTERN = /\b(fight|fighting|argue|arguing|argument|conflict|disagree|tension)\b/i
+
+// Rough estimate: ~4 characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Keeps long coaching sessions coherent within a bounded prompt:
+ * older turns are folded into a rolling summary, key facts are pinned,
+ * and recent history is packed into the remaining token budget.
+ */
+export class ContextManager {
+  private options: ContextManagerOptions
+
+  constructor(
+    private provider: LLMProvider,
+    options: Partial<ContextManagerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_CONTEXT_OPTIONS, ...options }
+  }
+
+  /**
+   * Assemble the prompt for the next completion
+   */
+  buildMessages(
+    systemPrompt: string,
+    context: ConversationContext,
+    userContent: string
+  ): LLMMessage[] {
+    const memory = this.describeMemory(context)
+    const system = memory ? `${systemPrompt}\n\n${memory}` : systemPrompt
+
+    let remaining = this.options.tokenBudget - estimateTokens(system) - estimateTokens(userContent)
+
+    // Walk back from the newest unsummarized turn until the budget is spent
+    const history: LLMMessage[] = []
+    const firstUnsummarized = context.summarizedTurnCount || 0
+    for (let i = context.turns.length - 1; i >= firstUnsummarized; i--) {
+      const turn = context.turns[i]
+      // In couples sessions each user turn is prefixed with the partner's name
+      const content = turn.partner && context.couples
+        ? `${speakerLabel(turn, context.couples)}: ${turn.content}`
+        : turn.content
+      const cost = estimateTokens(content)
+      if (cost > remaining) break
+
+      history.unshift({
+        role: turn.speaker === 'emma' ? 'assistant' : 'user',
+        content
+      })
+      remaining -= cost
+    }
+
+    return [
+      { role: 'system', content: system },
+      ...history,
+      { role: 'user', content: userContent }
+    ]
+  }
+
+  /**
+   * Update pinned facts and fold older turns into the summary when due,
+   * dropping them from the context. Call after each exchange has been
+   * recorded on the context.
+   */
+  async update(context: ConversationContext): Promise<void> {
+    const latestUserTurn = [...context.turns].reverse().find(t => t.speaker === 'user')
+    if (latestUserTurn) {
+      context.pinnedFacts = mergeFacts(context.pinnedFacts, extractFacts(latestUserTurn.content))
+    }
+
+    const summarized = context.summarizedTurnCount || 0
+    const unsummarized = context.turns.length - summarized
+    if (unsummarized < this.options.recentTurns + this.options.summarizeBatch) {
+      return
+    }
+
+    const batch = context.turns.slice(summarized, context.turns.length - this.options.recentTurns)
+    const result = await this.summarize(context, batch)
+
+    context.summary = result.summary
+    context.pinnedFacts = mergeFacts(context.pinnedFacts, result.facts)
+    // Summarized turns live on only in the summary, so stored history stays bounded
+    context.turns = context.turns.slice(summarized + batch.length)
+    context.summarizedTurnCount = 0
+  }
+
+  private async summarize(
+    context: ConversationContext,
+    turns: ConversationTurn[]
+  ): Promise<{ summary: string, facts: Partial<PinnedFacts> }> {
+    const previousSummary = context.summary
+    const transcript = turns
+      .map(turn => `${speakerLabel(turn, context.couples)}: ${turn.content}`)
+      .join('\n')
+
+    const prompt = `Update the running summary of a relationship coaching conversation.
+
+Previous summary: ${previousSummary || 'None'}
+
+New conversation turns:
+${transcript}
+
+Respond in JSON with:
+- summary: concise third-person summary (max 120 words) merging the previous summary with the new turns
+- partner_name: the partner's first name if mentioned, otherwise null
+- core_conflict: one sentence describing the central relationship conflict, otherwise null
+- goals: array of goals the user has stated`
+
+    try {
+      const completion = await this.provider.complete({
+        task: 'summarization',
+        messages: [
+          { role: 'system', content: 'You summarize coaching conversations accurately and never invent details.' },
+          { role: 'user', content: prompt }
+        ],
+        responseFormat: 'json'
+      })
+
+      const parsed = JSON.parse(completion || '{}')
+      if (typeof parsed.summary === 'string' && parsed.summary.trim()) {
+        return {
+          summary: parsed.summary.trim().slice(0, MAX_SUMMARY_CHARS),
+          facts: {
+            partnerName: parsed.partner_name || undefined,
+            coreConflict: parsed.core_conflict || undefined,
+            goals: Array.isArray(parsed.goals) ? parsed.goals.filter((g: unknown) => typeof g === 'string') : []
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Conversation summarization error:', error)
+    }
+
+    // Fallback: keep the first sentence of each thing the user said
+    return {
+      summary: heuristicSummary(context, turns),
+      facts: {}
+    }
+  }
+
+  private describeMemory(context: ConversationContext): string {
+    const lines: string[] = []
+    const facts = context.pinnedFacts
+
+    if (facts?.partnerName) lines.push(`- Partner's name: ${facts.partnerName}`)
+    if (facts?.coreConflict) lines.push(`- Core conflict: ${facts.coreConflict}`)
+    if (facts?.goals.length) lines.push(`- Stated goals: ${facts.goals.join('; ')}`)
+
+    const sections: string[] = []
+    if (lines.length > 0) {
+      sections.push(`Key facts from this session:\n${lines.join('\n')}`)
+    }
+    if (context.summary) {
+      sections.push(`Summary of earlier conversation:\n${context.summary}`)
+    }
+
+    return sections.join('\n\n')
+  }
+}
+
+export function extractFacts(text: string): Partial<PinnedFacts> {
+  const facts: Partial<PinnedFacts> = { goals: [] }
+
+  for (const pattern of PARTNER_NAME_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) {
+      facts.partnerName = match[1]
+      break
+    }
+  }
+
+  GOAL_PATTERN.lastIndex = 0
+  let goalMatch: RegExpExecArray | null
+  while ((goalMatch = GOAL_PATTERN.exec(text)) !== null) {
+    facts.goals!.push(goalMatch[1].trim())
+  }
+
+  if (CONFLICT_PATTERN.test(text)) {
+    facts.coreConflict = firstSentence(text)
+  }
+
+  return facts
+}
+
+function mergeFacts(current: PinnedFacts | undefined, update: Partial<PinnedFacts>): PinnedFacts {
+  const goals = [...(current?.goals || [])]
+  for (const goal of update.goals || []) {
+    if (!goals.some(g => g.toLowerCase() === goal.toLowerCase())) {
+      goals.push(goal)
+    }
+  }
+
+  return {
+    partnerName: update.partnerName || current?.partnerName,
+    // The first conflict described is usually the core one
+    coreConflict: current?.coreConflict || update.coreConflict,
+    goals: goals.slice(-MAX_PINNED_GOALS)
+  }
+}
+
+function heuristicSummary(context: ConversationContext, turns: ConversationTurn[]): string {
+  const points = turns
+    .filter(turn => turn.speaker === 'user')
+    .map(turn => `${speakerLabel(turn, context.couples)} said: ${firstSentence(turn.content)}`)
+
+  const summary = [context.summary, ...points]
+    .filter(Boolean)
+    .join(' ')
+
+  // Keep the most recent part when the summary outgrows its budget
+  return summary.length > MAX_SUMMARY_CHARS
+    ? summary.slice(summary.length - MAX_SUMMARY_CHARS)
+    : summary
+}
+
+function firstSentence(text: string): string {
+  const sentence = text.match(/^[^.!?]*[.!?]?/)?.[0] || text
+  return sentence.trim().slice(0, 200)
+}
@@ -0,0 +1,157 @@
+import { Redis } from '@upstash/redis'
+import type { ConversationContext, ConversationTurn, EmotionData } from '@/types'
+
+export interface ConversationStore {
+  name: string
+  get: (sessionId: string) => Promise<ConversationContext | null>
+  save: (context: ConversationContext) => Promise<void>
+  delete: (sessionId: string) => Promise<void>
+}
+
+// Sessions with no activity for this long are forgotten
+export const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000
+
+export function createEmptyContext(sessionId: string, userId?: string): ConversationContext {
+  return {
+    turns: [],
+    sessionId,
+    userId,
+    emotionHistory: [],
+    skillsPracticed: [],
+    conflictLevel: 0,
+    lastActivity: new Date()
+  }
+}
+
+/**
+ * In-memory conversation store for development and single-instance deployments
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  name = 'in-memory'
+  private contexts = new Map<string, ConversationContext>()
+
+  constructor(private idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS) {}
+
+  async get(sessionId: string): Promise<ConversationContext | null> {
+    const context = this.contexts.get(sessionId)
+    if (!context) return null
+
+    if (this.isExpired(context)) {
+      this.contexts.delete(sessionId)
+      return null
+    }
+
+    return context
+  }
+
+  async save(context: ConversationContext): Promise<void> {
+    this.pruneExpired()
+    this.contexts.set(context.sessionId, context)
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.contexts.delete(sessionId)
+  }
+
+  private isExpired(context: ConversationContext): boolean {
+    return Date.now() - context.lastActivity.getTime() > this.idleTimeoutMs
+  }
+
+  private pruneExpired(): void {
+    this.contexts.forEach((context, sessionId) => {
+      if (this.isExpired(context)) {
+        this.contexts.delete(sessionId)
+      }
+    })
+  }
+}
+
+/**
+ * Upstash Redis conversation store for multi-instance production deployments.
+ * Idle expiry is delegated to the key TTL, which is refreshed on every save.
+ */
+export class RedisConversationStore implements ConversationStore {
+  name = 'redis'
+
+  constructor(
+    private redis: Redis,
+    private idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS
+  ) {}
+
+  async get(sessionId: string): Promise<ConversationContext | null> {
+    const raw = await this.redis.get<Record<string, any>>(this.key(sessionId))
+    return raw ? reviveContext(raw) : null
+  }
+
+  async save(context: ConversationContext): Promise<void> {
+    await this.redis.set(this.key(context.sessionId), context, { px: this.idleTimeoutMs })
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.redis.del(this.key(sessionId))
+  }
+
+  private key(sessionId: string): string {
+    return `emma:conversation:${sessionId}`
+  }
+}
+
+/**
+ * Restore Date fields after a JSON round-trip through an external backend
+ */
+export function reviveContext(raw: Record<string, any>): ConversationContext {
+  return {
+    ...raw,
+    turns: (raw.turns || []).map((turn: ConversationTurn) => ({
+      ...turn,
+      timestamp: new Date(turn.timestamp),
+      emotion: turn.emotion ? reviveEmotion(turn.emotion) : undefined
+    })),
+    emotionHistory: (raw.emotionHistory || []).map(reviveEmotion),
+    lastActivity: new Date(raw.lastActivity),
+    couples: raw.couples ? {
+      ...raw.couples,
+      partners: Object.fromEntries(
+        Object.entries(raw.couples.partners).map(([id, partner]: [string, any]) => [
+          id,
+          { ...partner, emotionHistory: (partner.emotionHistory || []).map(reviveEmotion) }
+        ])
+      )
+    } : undefined,
+    practice: raw.practice ? {
+      ...raw.practice,
+      startedAt: new Date(raw.practice.startedAt),
+      rubric: raw.practice.rubric
+        ? { ...raw.practice.rubric, completedAt: new Date(raw.practice.rubric.completedAt) }
+        : undefined
+    } : undefined
+  } as ConversationContext
+}
+
+function reviveEmotion(emotion: EmotionData): EmotionData {
+  return { ...emotion, timestamp: new Date(emotion.timestamp) }
+}
+
+/**
+ * Pick a backend from the environment: Redis when Upstash is configured,
+ * otherwise in-memory
+ */
+export function createConversationStore(): ConversationStore {
+  const idleTimeoutMs = parseInt(
+    process.env.CONVERSATION_IDLE_TIMEOUT_MS || String(DEFAULT_IDLE_TIMEOUT_MS)
+  )
+
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    try {
+      const redis = new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
+      })
+      return new RedisConversationStore(redis, idleTimeoutMs)
+    } catch (error) {
+      console.warn('Redis conversation store setup failed, using in-memory store:', error)
+    }
+  }
+
+  return new InMemoryConversationStore(idleTimeoutMs)
+}
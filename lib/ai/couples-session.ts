@@ -0,0 +1,156 @@
+import type { ConversationTurn, CouplesState, EmotionData, PartnerId } from '@/types'
+
+export const PARTNER_IDS: PartnerId[] = ['A', 'B']
+
+export const MAX_PARTNER_LABEL_LENGTH = 40
+
+const MAX_CONCERNS = 3
+// Line breaks and other control characters would let a label restructure the prompt
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]/
+
+// Appended to the system prompt when both partners are present
+export const COUPLES_GUIDANCE = `You are coaching BOTH partners together in a shared session. Messages are prefixed with the speaker's name.
+- Stay balanced: never take sides, assign blame or declare who is right.
+- Reflect each partner's perspective fairly, using their names, and validate both sets of feelings.
+- Look for shared needs behind the disagreement and help each partner hear the other.
+- Keep the conversation structured: respond to the partner who just spoke, then invite the other partner to share their side.`
+
+// Phrases that suggest Emma is siding with one partner
+const SIDING_PATTERNS = [
+  /\b(you'?re|you are) (right|wrong)\b/i,
+  /\b(it'?s|that'?s) (your|their|his|her) fault\b/i,
+  /\bshould apologi[sz]e\b/i,
+  /\b(is|was) being (unreasonable|selfish|immature)\b/i,
+]
+
+export function isPartnerId(value: unknown): value is PartnerId {
+  return value === 'A' || value === 'B'
+}
+
+export function otherPartner(partner: PartnerId): PartnerId {
+  return partner === 'A' ? 'B' : 'A'
+}
+
+/**
+ * Partner labels from a request body; errors are user-facing. Blank labels
+ * fall back to "Partner A" and "Partner B".
+ */
+export function validatePartnerLabels(value: unknown): { value?: Partial<Record<PartnerId, string>>, error?: string } {
+  const partners = (value && typeof value === 'object' ? value : {}) as Partial<Record<PartnerId, unknown>>
+  const labels: Partial<Record<PartnerId, string>> = {}
+
+  for (const id of PARTNER_IDS) {
+    const label = partners[id]
+    if (label === undefined || label === null) continue
+    if (typeof label !== 'string') return { error: `Partner ${id} label must be text` }
+
+    const trimmed = label.trim()
+    if (trimmed.length > MAX_PARTNER_LABEL_LENGTH || CONTROL_CHARACTERS.test(trimmed)) {
+      return { error: `Partner ${id} label must be at most ${MAX_PARTNER_LABEL_LENGTH} characters on one line` }
+    }
+    if (trimmed) labels[id] = trimmed
+  }
+
+  return { value: labels }
+}
+
+export function createCouplesState(labels: Partial<Record<PartnerId, string>> = {}): CouplesState {
+  const partner = (id: PartnerId) => ({
+    label: labels[id]?.trim().slice(0, MAX_PARTNER_LABEL_LENGTH) || `Partner ${id}`,
+    concerns: [],
+    emotionHistory: [],
+    turnCount: 0
+  })
+
+  return {
+    partners: { A: partner('A'), B: partner('B') },
+    nextSpeaker: 'A'
+  }
+}
+
+/**
+ * Turn-taking announcement for the voice UI, e.g. "Partner A, your turn"
+ */
+export function turnPrompt(state: CouplesState): string {
+  return `${state.partners[state.nextSpeaker].label}, your turn`
+}
+
+/**
+ * Track what a partner said and felt, then hand the floor to the other partner
+ */
+export function recordPartnerTurn(
+  state: CouplesState,
+  partner: PartnerId,
+  text: string,
+  emotion?: EmotionData
+): void {
+  const perspective = state.partners[partner]
+
+  perspective.turnCount++
+  perspective.concerns = [...perspective.concerns, firstSentence(text)].slice(-MAX_CONCERNS)
+  if (emotion) perspective.emotionHistory.push(emotion)
+
+  state.nextSpeaker = otherPartner(partner)
+}
+
+/**
+ * Prompt section describing each partner's side so Emma can keep both in view
+ */
+export function describePerspectives(state: CouplesState, speaking?: PartnerId): string {
+  const lines = PARTNER_IDS.map(id => {
+    const partner = state.partners[id]
+    const emotion = partner.emotionHistory[partner.emotionHistory.length - 1]
+    const feeling = emotion ? dominantEmotion(emotion) : undefined
+
+    const details = [
+      partner.concerns.length > 0
+        ? `has said: ${partner.concerns.map(c => `"${c}"`).join('; ')}`
+        : id === speaking ? 'is sharing for the first time' : 'has not spoken yet',
+      feeling ? `currently feeling ${feeling}` : undefined
+    ].filter(Boolean)
+
+    return `- ${partner.label} ${details.join(', ')}`
+  })
+
+  const invite = speaking ? otherPartner(speaking) : state.nextSpeaker
+  return `Partners in this session:\n${lines.join('\n')}\nAfter responding, invite ${state.partners[invite].label} to share.`
+}
+
+/**
+ * Label a turn for the prompt so the model knows who is speaking
+ */
+export function speakerLabel(turn: ConversationTurn, state?: CouplesState): string {
+  if (turn.speaker === 'emma') return 'Emma'
+  return turn.partner && state ? state.partners[turn.partner].label : 'User'
+}
+
+/**
+ * Quality check: a couples response should not side with either partner
+ */
+export function checkBalance(response: string, state: CouplesState): string[] {
+  const issues: string[] = []
+
+  if (SIDING_PATTERNS.some(pattern => pattern.test(response))) {
+    issues.push('Response may be taking sides between partners')
+  }
+
+  // Once both have spoken, a reply that names only one of them is lopsided
+  const bothSpoke = PARTNER_IDS.every(id => state.partners[id].turnCount > 0)
+  const mentioned = PARTNER_IDS.filter(id =>
+    response.toLowerCase().includes(state.partners[id].label.toLowerCase())
+  )
+  if (bothSpoke && mentioned.length === 1) {
+    issues.push(`Response only addresses ${state.partners[mentioned[0]].label}`)
+  }
+
+  return issues
+}
+
+function dominantEmotion(emotion: EmotionData): string | undefined {
+  return Object.entries(emotion.emotions).sort(([, a], [, b]) => b - a)[0]?.[0]
+}
+
+function firstSentence(text: string): string {
+  const sentence = text.match(/^[^.!?]*[.!?]?/)?.[0] || text
+  return sentence.trim().slice(0, 160)
+}
@@ -0,0 +1,214 @@
+import { DEFAULT_LANGUAGE } from '@/lib/ai/languages'
+import type { CrisisDetectionResult, CrisisResource } from '@/types'
+
+type CrisisCategory = CrisisDetectionResult['category']
+
+// Immediate-threat phrases per language, written without accents. A
+// trailing '*' matches any word ending ("suicid*" matches "suicidio").
+const CRISIS_KEYWORDS: Record<string, string[]> = {
+  en: ['kill*', 'suicid*', 'hurt myself', 'end it all', 'hit me', 'abus*', 'violen*', 'threaten*'],
+  es: ['suicid*', 'matarme', 'quitarme la vida', 'hacerme dano', 'me pega', 'me golpea', 'abuso', 'violencia', 'amenaza', 'acabar con todo', 'no quiero vivir'],
+  fr: ['suicid*', 'me tuer', 'en finir', 'me faire du mal', 'me frappe', 'me bat', 'violence', 'abus', 'menace', 'envie de mourir'],
+  de: ['selbstmord*', 'suizid*', 'umbringen', 'mir etwas antun', 'mich verletzen', 'schlagt mich', 'gewalt', 'missbrauch*', 'droht', 'nicht mehr leben'],
+  pt: ['suicid*', 'me matar', 'tirar minha vida', 'me machucar', 'me bate', 'abuso', 'violencia', 'ameaca', 'acabar com tudo', 'nao quero viver'],
+  it: ['suicid*', 'uccidermi', 'togliermi la vita', 'farmi del male', 'mi picchia', 'abuso', 'violenza', 'minaccia', 'farla finita', 'non voglio vivere'],
+}
+
+// Phrases that read as everyday English ("she calls me a menace"), so they
+// only count in messages known to be in their own language
+const OWN_LANGUAGE_ONLY = new Set(['menace', 'me bat'])
+
+const INTERNATIONAL_DIRECTORY: CrisisResource = {
+  name: 'Find A Helpline (international directory)',
+  phone: 'findahelpline.com',
+  description: 'Free, confidential helplines in your country',
+  available247: true
+}
+
+const CRISIS_RESOURCES: Record<string, Partial<Record<CrisisCategory, CrisisResource[]>>> = {
+  en: {
+    mental_health: [
+      {
+        name: '988 Suicide & Crisis Lifeline',
+        phone: '988',
+        description: '24/7 crisis support',
+        available247: true
+      },
+      {
+        name: 'Crisis Text Line',
+        phone: 'Text HOME to 741741',
+        description: 'Text-based crisis support',
+        available247: true
+      }
+    ],
+    domestic_violence: [
+      {
+        name: 'National Domestic Violence Hotline',
+        phone: '1-800-799-7233',
+        description: 'Confidential support for abuse victims',
+        available247: true
+      }
+    ],
+    child_safety: [
+      {
+        name: 'Childhelp National Child Abuse Hotline',
+        phone: '1-800-422-4453',
+        description: 'Support for child abuse concerns',
+        available247: true
+      }
+    ],
+    substance_abuse: [
+      {
+        name: 'SAMHSA National Helpline',
+        phone: '1-800-662-4357',
+        description: 'Treatment referral and information',
+        available247: true
+      }
+    ]
+  },
+  es: {
+    mental_health: [
+      { name: 'Línea 988 en español (EE. UU.)', phone: '988, opción 2', description: 'Apoyo en crisis las 24 horas', available247: true },
+      { name: 'Teléfono de la Esperanza (España)', phone: '717 003 717', description: 'Apoyo emocional las 24 horas', available247: true }
+    ],
+    domestic_violence: [
+      { name: 'Línea Nacional contra la Violencia Doméstica (EE. UU.)', phone: '1-800-799-7233', description: 'Atención confidencial en español', available247: true },
+      { name: 'Teléfono 016 (España)', phone: '016', description: 'Atención a víctimas de violencia de género', available247: true }
+    ]
+  },
+  fr: {
+    mental_health: [
+      { name: 'Numéro national de prévention du suicide (France)', phone: '3114', description: 'Écoute professionnelle 24h/24', available247: true },
+      { name: 'SOS Amitié', phone: '09 72 39 40 50', description: 'Écoute anonyme 24h/24', available247: true }
+    ],
+    domestic_violence: [
+      { name: 'Violences Femmes Info (France)', phone: '3919', description: 'Écoute et orientation des victimes de violences', available247: true }
+    ]
+  },
+  de: {
+    mental_health: [
+      { name: 'TelefonSeelsorge (Deutschland)', phone: '0800 111 0 111', description: 'Anonyme Beratung rund um die Uhr', available247: true }
+    ],
+    domestic_violence: [
+      { name: 'Hilfetelefon Gewalt gegen Frauen', phone: '116 016', description: 'Vertrauliche Beratung rund um die Uhr', available247: true }
+    ]
+  },
+  pt: {
+    mental_health: [
+      { name: 'CVV - Centro de Valorização da Vida (Brasil)', phone: '188', description: 'Apoio emocional 24 horas', available247: true },
+      { name: 'SOS Voz Amiga (Portugal)', phone: '213 544 545', description: 'Apoio emocional', available247: false }
+    ],
+    domestic_violence: [
+      { name: 'Central de Atendimento à Mulher (Brasil)', phone: '180', description: 'Atendimento a mulheres em situação de violência', available247: true }
+    ]
+  },
+  it: {
+    mental_health: [
+      { name: 'Telefono Amico Italia', phone: '02 2327 2327', description: 'Ascolto e supporto emotivo', available247: false }
+    ],
+    domestic_violence: [
+      { name: 'Numero antiviolenza e stalking', phone: '1522', description: 'Supporto gratuito 24 ore su 24', available247: true }
+    ]
+  },
+}
+
+interface CrisisMessage {
+  opening: string
+  offer: string
+  closing: string
+}
+
+const CRISIS_MESSAGES: Record<string, CrisisMessage> = {
+  en: {
+    opening: "I can hear that you're going through something really difficult right now, and I'm concerned about your safety. \n\nYour feelings are valid, and you don't have to face this alone. There are people who want to help.",
+    offer: "Would it be okay if I share some resources that can provide immediate support? In the meantime, I'm here to listen without judgment.",
+    closing: 'Is there someone you trust who you could reach out to right now?'
+  },
+  es: {
+    opening: 'Puedo notar que estás pasando por algo muy difícil en este momento y me preocupa tu seguridad.\n\nTus sentimientos son válidos y no tienes que enfrentar esto en soledad. Hay personas que quieren ayudarte.',
+    offer: 'Estos recursos pueden darte apoyo inmediato. Mientras tanto, estoy aquí para escucharte sin juzgarte.',
+    closing: '¿Hay alguien de confianza a quien puedas contactar ahora mismo?'
+  },
+  fr: {
+    opening: "Je sens que tu traverses quelque chose de vraiment difficile en ce moment, et je m'inquiète pour ta sécurité.\n\nCe que tu ressens est légitime, et tu n'as pas à affronter cela seul·e. Des personnes sont là pour t'aider.",
+    offer: "Voici des ressources qui peuvent t'apporter un soutien immédiat. En attendant, je suis là pour t'écouter sans jugement.",
+    closing: "Y a-t-il une personne de confiance que tu pourrais contacter maintenant ?"
+  },
+  de: {
+    opening: 'Ich merke, dass du gerade etwas sehr Schweres durchmachst, und ich mache mir Sorgen um deine Sicherheit.\n\nDeine Gefühle sind berechtigt, und du musst das nicht allein durchstehen. Es gibt Menschen, die dir helfen wollen.',
+    offer: 'Diese Stellen können dir sofort Unterstützung geben. In der Zwischenzeit bin ich da und höre dir ohne Urteil zu.',
+    closing: 'Gibt es jemanden, dem du vertraust und den du jetzt erreichen könntest?'
+  },
+  pt: {
+    opening: 'Percebo que você está passando por algo muito difícil agora, e estou preocupada com a sua segurança.\n\nSeus sentimentos são válidos, e você não precisa enfrentar isso sozinho. Há pessoas que querem ajudar.',
+    offer: 'Estes recursos podem oferecer apoio imediato. Enquanto isso, estou aqui para ouvir você sem julgamentos.',
+    closing: 'Existe alguém de confiança com quem você possa falar agora?'
+  },
+  it: {
+    opening: 'Sento che stai attraversando un momento davvero difficile e sono preoccupata per la tua sicurezza.\n\nI tuoi sentimenti sono validi e non devi affrontare tutto questo da solo. Ci sono persone che vogliono aiutarti.',
+    offer: 'Queste risorse possono darti un supporto immediato. Nel frattempo, sono qui per ascoltarti senza giudicare.',
+    closing: "C'è una persona di fiducia che potresti contattare adesso?"
+  },
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+}
+
+function keywordPattern(keyword: string): RegExp {
+  const stem = keyword.endsWith('*')
+  const escaped = keyword.replace(/\*$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`\\b${escaped}${stem ? '\\w*' : ''}\\b`)
+}
+
+const CRISIS_PATTERNS = Object.fromEntries(
+  Object.entries(CRISIS_KEYWORDS).map(([language, keywords]) => [
+    language,
+    keywords.map(keyword => ({ keyword, pattern: keywordPattern(keyword) }))
+  ])
+)
+
+/**
+ * Quick keyword check for immediate threats. English and the message's own
+ * language are checked in full; other languages' phrases are checked too,
+ * since users often mix languages, unless they could be ordinary English.
+ */
+export function findCrisisKeywords(text: string, language?: string): string[] {
+  const normalized = stripAccents(text.toLowerCase())
+  const found = new Set<string>()
+
+  for (const [keywordLanguage, patterns] of Object.entries(CRISIS_PATTERNS)) {
+    const ownLanguage = keywordLanguage === language || keywordLanguage === DEFAULT_LANGUAGE
+    for (const { keyword, pattern } of patterns) {
+      if (!ownLanguage && OWN_LANGUAGE_ONLY.has(keyword)) continue
+      if (pattern.test(normalized)) found.add(keyword)
+    }
+  }
+
+  return Array.from(found)
+}
+
+/**
+ * Crisis resources for a category in the user's language. Non-English
+ * users also get an international directory since their country is unknown.
+ */
+export function getCrisisResources(category: string, language: string = DEFAULT_LANGUAGE): CrisisResource[] {
+  const byCategory = CRISIS_RESOURCES[language] || CRISIS_RESOURCES[DEFAULT_LANGUAGE]
+  const resources = byCategory[category as CrisisCategory] || byCategory.mental_health || []
+
+  return language === DEFAULT_LANGUAGE || !CRISIS_RESOURCES[language]
+    ? resources
+    : [...resources, INTERNATIONAL_DIRECTORY]
+}
+
+export function getCrisisMessage(resources: CrisisResource[], language: string = DEFAULT_LANGUAGE): string {
+  const message = CRISIS_MESSAGES[language] || CRISIS_MESSAGES[DEFAULT_LANGUAGE]
+
+  return `${message.opening}
+
+${message.offer}
+
+${resources.map(r => `• ${r.name}: ${r.phone}`).join('\n')}
+
+${message.closing}`
+}
@@ -1,197 +1,1092 @@
-import OpenAI from 'openai'
 import { EmmaMonitor } from '@/lib/monitoring/emma-monitor'
+import { 
+  createConversationStore, 
+  createEmptyContext, 
+  type ConversationStore 
+} from '@/lib/ai/conversation-store'
+import {
+  createLLMProvider,
+  type LLMCompletionRequest,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMToolCall,
+  type LLMToolCompletion
+} from '@/lib/ai/llm-provider'
+import { ContextManager } from '@/lib/ai/context-manager'
+import {
+  checkBalance,
+  createCouplesState,
+  recordPartnerTurn,
+  turnPrompt
+} from '@/lib/ai/couples-session'
+import { composeSystemPrompt, type PromptInputs } from '@/lib/ai/prompt-composer'
+import { PromptRegistry } from '@/lib/ai/prompt-registry'
+import { EmotionAnalyzer } from '@/lib/ai/emotion-analyzer'
+import {
+  HIGH_CONFLICT_LEVEL,
+  conflictTrajectory,
+  updateConflictLevel,
+  type ConflictReading,
+  type ConflictTrend
+} from '@/lib/ai/conflict-estimator'
+import { findCrisisKeywords, getCrisisMessage, getCrisisResources } from '@/lib/ai/crisis-resources'
+import { CoachingMessageStreamer, parseCoachingResponse } from '@/lib/ai/coaching-response'
+import { describeVocalDistress, VOCAL_DISTRESS_THRESHOLD } from '@/lib/voice/prosody'
+import { 
+  CoachingTemplateService, 
+  suggestSkillForInput, 
+  variablesFromContext, 
+  type RenderedTemplate 
+} from '@/lib/coaching/template-service'
+import { PracticeCoach } from '@/lib/coaching/practice-coach'
+import { ToolRegistry } from '@/lib/ai/tool-registry'
+import { createCoachingTools } from '@/lib/ai/coaching-tools'
+import { CheckInScheduler, followUpOpening } from '@/lib/coaching/check-in-scheduler'
+import { SessionSummarizer } from '@/lib/coaching/session-summarizer'
+import { recordUsage, usageToSessionUpdate } from '@/lib/ai/session-usage'
+import { createSessionRepository, type SessionRepository } from '@/lib/database/session-repository'
+import { GoalTracker, suggestMilestone, type MilestoneSuggestion } from '@/lib/coaching/goal-tracker'
+import { getPracticeScenario } from '@/lib/coaching/practice-scenarios'
+import {
+  DEFAULT_PREFERENCES,
+  createPreferencesRepository,
+  type PreferencesRepository
+} from '@/lib/database/preferences-repository'
 import type { 
   SafetyValidatedResponse, 
   EmotionData, 
   CrisisDetectionResult,
-  ConversationTurn 
+  ConversationContext,
+  CheckIn,
+  CoachingResponse,
+  CoachingSkill,
+  Goal,
+  PartnerId,
+  PracticeRubric,
+  PracticeScenario,
+  PracticeTurnFeedback,
+  SessionSummary,
+  ToolAction,
+  UserPreferences
 } from '@/types'
+import type { Session } from '@/types/database'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || 'dummy-key-for-build',
-})
+// Stored turns per session; the context manager normally keeps far fewer
+const MAX_STORED_TURNS = 40
+// How long after a crisis turn later messages stay exempt from quotas
+const CRISIS_EXEMPTION_MS = 30 * 60 * 1000
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
-// Emma's personality and expertise
-const EMMA_SYSTEM_PROMPT = `You are Emma, a compassionate AI relationship coach specializing in real-time support for complex relationship dynamics.
+const FALLBACK_COACHING: CoachingResponse = {
+  message: "I'm here to listen and support you. Could you tell me more about what you're experiencing?",
+  skill: 'active_listening',
+  confidence: 0.5
+}
 
-Your core attributes:
-- Warm, empathetic, and non-judgmental
-- Expert in relationship psychology and communication
-- Trained in crisis detection and de-escalation
-- Culturally sensitive and inclusive
-- Solution-focused while validating emotions
+export interface EmmaAIOptions {
+  store?: ConversationStore
+  provider?: LLMProvider
+  templates?: CoachingTemplateService
+  practice?: PracticeCoach
+  sessions?: SessionRepository
+  preferences?: PreferencesRepository
+  goals?: GoalTracker
+  prompts?: PromptRegistry
+  emotions?: EmotionAnalyzer
+  tools?: ToolRegistry
+  checkIns?: CheckInScheduler // Follow-ups: scheduled by the default tools, opened with by new sessions
+  summarizer?: SessionSummarizer
+  contextTokenBudget?: number
+}
 
-Your approach:
-1. Active listening - Reflect back what you hear
-2. Validate emotions - Acknowledge feelings without judgment
-3. Ask clarifying questions - Understand the full context
-4. Offer practical guidance - Actionable steps they can take
-5. Ensure safety - Detect crisis indicators immediately
+export interface InteractionMetadata {
+  userId?: string
+  sessionId?: string
+  partner?: PartnerId // Couples sessions: who is speaking
+  language?: string // Language of this message, e.g. detected by transcription
+  receivedAt?: number // Epoch ms the message arrived; response times are measured from here
+  longTermMemory?: boolean // False when the user's plan excludes goals from earlier sessions
+}
 
-Crisis indicators to watch for:
-- Mentions of violence, harm, or threats
-- Extreme emotional distress or hopelessness
-- Child safety concerns
-- Substance abuse affecting relationships
-- Suicidal ideation or self-harm
+export interface EmmaInteractionResult {
+  response: SafetyValidatedResponse<string>
+  coaching?: CoachingResponse // Absent for crisis and error responses
+  templateId?: string // Coaching template that grounded or replaced the reply
+  practiceFeedback?: PracticeTurnFeedback // Practice mode: score for the user's reply
+  couples?: { nextSpeaker: PartnerId, turnPrompt: string } // Couples mode: whose turn is next
+  conflict?: ConflictSummary
+  emotion?: EmotionData // Supplied by the client or analyzed from the text
+  goal?: MilestoneSuggestion // Next milestone of a goal this message touches
+  actions?: ToolAction[] // Tool calls in this reply; side effects wait for the user's confirmation
+  monitoring: {
+    passed: boolean
+    alerts: any[]
+    recommendations: string[]
+  }
+}
+
+export type TemplateRating =
+  | { status: 'rated', effectiveness: number } // Running score after this rating
+  | { status: 'not_served' }
+  | { status: 'already_rated' }
+
+export interface ConflictSummary {
+  level: number // 0-10 after this turn
+  trend: ConflictTrend
+  cues: string[]
+  trajectory: number[] // Level after each recent user turn, oldest first
+}
+
+export interface CoachingSessionStart {
+  session: Session
+  followUp: CheckIn | null // Due check-in this session opens with
+  openingLine: string | null // Emma's first message, when she speaks first
+}
+
+export interface EndedSession {
+  session: Session
+  // Only returned when the session closes; the client encrypts it before storing
+  summary: SessionSummary | null
+}
+
+export interface PracticeSessionStart {
+  sessionId: string
+  scenario: PracticeScenario
+  skill: CoachingSkill
+  openingLine: string
+}
 
-CRITICAL: If you detect crisis indicators, respond with empathy while flagging for human intervention.`
+export interface CouplesSessionStart {
+  sessionId: string
+  partners: Record<PartnerId, string>
+  nextSpeaker: PartnerId
+  turnPrompt: string
+}
+
+export type EmmaStreamEvent =
+  | { type: 'token', text: string }
+  | { type: 'done', result: EmmaInteractionResult }
 
 export class EmmaAI {
-  private conversationHistory: ConversationTurn[] = []
+  private store: ConversationStore
+  private provider: LLMProvider
+  private contextManager: ContextManager
+  private templates: CoachingTemplateService
+  private practice: PracticeCoach
+  private sessions: SessionRepository
+  private preferences: PreferencesRepository
+  readonly goals: GoalTracker
+  private prompts: PromptRegistry
+  private emotions: EmotionAnalyzer
+  private tools: ToolRegistry
+  private checkIns: CheckInScheduler
+  private summarizer: SessionSummarizer
   private monitor = new EmmaMonitor()
 
+  constructor(options: EmmaAIOptions = {}) {
+    this.store = options.store || createConversationStore()
+    this.provider = options.provider || createLLMProvider()
+    this.templates = options.templates || new CoachingTemplateService()
+    this.sessions = options.sessions || createSessionRepository()
+    this.practice = options.practice || new PracticeCoach(this.provider, this.sessions)
+    this.preferences = options.preferences || createPreferencesRepository()
+    this.goals = options.goals || new GoalTracker()
+    this.prompts = options.prompts || new PromptRegistry()
+    this.emotions = options.emotions || new EmotionAnalyzer(this.provider)
+    this.checkIns = options.checkIns || new CheckInScheduler()
+    this.summarizer = options.summarizer || new SessionSummarizer(this.provider)
+    this.tools = options.tools || new ToolRegistry(createCoachingTools({
+      goals: this.goals,
+      checkIns: this.checkIns
+    }))
+    this.contextManager = new ContextManager(this.provider, {
+      tokenBudget: options.contextTokenBudget || parseInt(process.env.CONTEXT_TOKEN_BUDGET || '2000')
+    })
+  }
+
   async processUserInput(
     text: string,
     emotion?: EmotionData,
-    metadata?: { userId?: string, sessionId?: string }
-  ): Promise<{
-    response: SafetyValidatedResponse<string>
-    monitoring: {
-      passed: boolean
-      alerts: any[]
-      recommendations: string[]
-    }
-  }> {
+    metadata?: InteractionMetadata
+  ): Promise<EmmaInteractionResult> {
+    metadata = { ...metadata, receivedAt: metadata?.receivedAt ?? Date.now() }
+
     try {
+      const context = await this.loadContext(metadata)
+      emotion = await this.annotateEmotion(text, emotion, context.language)
+      const conflict = updateConflictLevel(context, text, emotion)
+
       // First, check for crisis indicators
-      const crisisCheck = await this.detectCrisis(text, emotion)
+      const crisisCheck = await this.detectCrisis(text, emotion, context.language)
       
       if (crisisCheck.isCrisis && crisisCheck.immediateAction) {
-        const crisisResponse = this.handleCrisisResponse(text, crisisCheck)
-        
-        // Monitor crisis escalation
-        await this.monitor.monitorCrisisEscalation(
-          crisisCheck,
-          ['immediate_response', 'crisis_resources_provided'],
-          metadata
-        )
-        
-        return {
-          response: crisisResponse,
-          monitoring: {
-            passed: false,
-            alerts: [{ type: 'crisis', severity: 'critical', message: 'Crisis detected' }],
-            recommendations: ['Human intervention required immediately']
-          }
-        }
+        return await this.completeCrisisInteraction(text, context, crisisCheck, emotion, metadata, conflict)
       }
 
-      // Generate Emma's response
-      const response = await this.generateResponse(text, emotion, crisisCheck)
-      
-      // Validate response safety
-      const validatedResponse = await this.validateResponseSafety(response, crisisCheck)
+      const grounding = await this.findGroundingTemplate(text, context, emotion)
+      const preferences = await this.loadPreferences(metadata?.userId)
+      const goals = metadata.longTermMemory === false ? [] : await this.loadGoals(metadata.userId)
+
+      // Generate Emma's structured coaching response
+      let coaching: CoachingResponse
+      let actions: ToolAction[] = []
+      let template = grounding
+      try {
+        ({ coaching, actions } = await this.generateResponse(text, context, emotion, {
+          grounding,
+          preferences,
+          goals,
+          partner: metadata?.partner,
+          language: context.language,
+          conflict
+        }, metadata))
+      } catch (error) {
+        // LLM unavailable: answer from a clinically reviewed template instead
+        template = grounding || await this.useFallbackTemplate(context, emotion)
+        if (!template) throw error
+
+        console.error('Coaching generation failed, using template fallback:', error)
+        coaching = this.templates.toCoachingResponse(template)
+      }
       
-      // Comprehensive monitoring
-      const monitoringResult = await this.monitor.monitorInteraction(
-        text,
-        validatedResponse,
-        crisisCheck,
-        emotion,
-        metadata
-      )
+      const result = await this.completeInteraction(text, coaching, context, crisisCheck, emotion, metadata, template, conflict)
+      return { ...result, actions, goal: suggestMilestone(goals, text) ?? undefined }
+    } catch (error) {
+      console.error('Emma AI processing error:', error)
+      await this.recordFailure(metadata.sessionId)
+      return this.getErrorResult()
+    }
+  }
+
+  /**
+   * Streaming variant of processUserInput. Crisis detection always completes
+   * before the first token is emitted; the final event carries the validated
+   * response and quality-gate results.
+   */
+  async *streamUserInput(
+    text: string,
+    emotion?: EmotionData,
+    metadata?: InteractionMetadata
+  ): AsyncGenerator<EmmaStreamEvent> {
+    metadata = { ...metadata, receivedAt: metadata?.receivedAt ?? Date.now() }
+
+    try {
+      const context = await this.loadContext(metadata)
+      emotion = await this.annotateEmotion(text, emotion, context.language)
+      const conflict = updateConflictLevel(context, text, emotion)
+
+      const crisisCheck = await this.detectCrisis(text, emotion, context.language)
       
-      return {
-        response: validatedResponse,
-        monitoring: {
-          passed: monitoringResult.passed,
-          alerts: monitoringResult.alerts,
-          recommendations: monitoringResult.recommendations
+      if (crisisCheck.isCrisis && crisisCheck.immediateAction) {
+        const result = await this.completeCrisisInteraction(text, context, crisisCheck, emotion, metadata, conflict)
+        yield { type: 'token', text: result.response.data }
+        yield { type: 'done', result }
+        return
+      }
+
+      const grounding = await this.findGroundingTemplate(text, context, emotion)
+      const preferences = await this.loadPreferences(metadata?.userId)
+      const goals = metadata.longTermMemory === false ? [] : await this.loadGoals(metadata.userId)
+      let template = grounding
+
+      // Only the "message" field is streamed; the rest arrives with the final event
+      let streamer = new CoachingMessageStreamer()
+      let streamed = false
+      let coaching: CoachingResponse
+      let actions: ToolAction[] = []
+      try {
+        const request = this.coachingRequest(text, context, emotion, {
+          grounding,
+          preferences,
+          goals,
+          partner: metadata?.partner,
+          language: context.language,
+          conflict
+        }, metadata)
+
+        let toolCalls: LLMToolCall[] = []
+        for await (const chunk of this.provider.streamWithTools(request)) {
+          if (chunk.type === 'tool_calls') {
+            toolCalls = chunk.toolCalls
+            continue
+          }
+          const delta = streamer.push(chunk.text)
+          if (delta) {
+            streamed = true
+            yield { type: 'token', text: delta }
+          }
+        }
+
+        if (toolCalls.length > 0) {
+          const proposed = await this.proposeActions({ content: streamer.completion, toolCalls }, request, context, metadata)
+          actions = proposed.actions
+
+          // A reply already under way stands; otherwise stream the one worded around the actions
+          if (!streamed) {
+            streamer = new CoachingMessageStreamer()
+            for await (const chunk of this.provider.stream(proposed.followUp)) {
+              const delta = streamer.push(chunk)
+              if (delta) {
+                streamed = true
+                yield { type: 'token', text: delta }
+              }
+            }
+          }
         }
+
+        coaching = parseCoachingResponse(streamer.completion) || FALLBACK_COACHING
+      } catch (error) {
+        // A half-streamed reply can't be swapped out; otherwise use a template
+        template = streamed ? null : grounding || await this.useFallbackTemplate(context, emotion)
+        if (!template) throw error
+
+        console.error('Coaching stream failed, using template fallback:', error)
+        coaching = this.templates.toCoachingResponse(template)
       }
+
+      if (!streamed) {
+        yield { type: 'token', text: coaching.message }
+      }
+
+      const result = await this.completeInteraction(text, coaching, context, crisisCheck, emotion, metadata, template, conflict)
+      yield { type: 'done', result: { ...result, actions, goal: suggestMilestone(goals, text) ?? undefined } }
     } catch (error) {
-      console.error('Emma AI processing error:', error)
-      
-      const errorResponse = this.getErrorResponse()
+      console.error('Emma AI streaming error:', error)
+      await this.recordFailure(metadata.sessionId)
+      yield { type: 'done', result: this.getErrorResult() }
+    }
+  }
+
+  /**
+   * Start a couples session; both partners then speak in turn, starting with A
+   */
+  async startCouplesSession(
+    labels: Partial<Record<PartnerId, string>> = {},
+    metadata?: Pick<InteractionMetadata, 'userId'>
+  ): Promise<CouplesSessionStart> {
+    const sessionId = await this.createSessionId(metadata?.userId)
+    const context = createEmptyContext(sessionId, metadata?.userId)
+    context.couples = createCouplesState(labels)
+    await this.saveContext(context, sessionId)
+
+    return {
+      sessionId,
+      partners: { A: context.couples.partners.A.label, B: context.couples.partners.B.label },
+      nextSpeaker: context.couples.nextSpeaker,
+      turnPrompt: turnPrompt(context.couples)
+    }
+  }
+
+  /**
+   * Start a practice session where Emma plays the user's partner
+   */
+  async startPractice(
+    scenarioId: string,
+    skill?: CoachingSkill,
+    metadata?: Pick<InteractionMetadata, 'userId'>
+  ): Promise<PracticeSessionStart | null> {
+    const scenario = getPracticeScenario(scenarioId)
+    if (!scenario) return null
+
+    const targetSkill = skill || scenario.suggestedSkill
+    const sessionId = await this.practice.createSession(targetSkill, metadata?.userId)
+    const context = createEmptyContext(sessionId, metadata?.userId)
+    this.practice.start(context, scenario, targetSkill, metadata?.userId)
+    await this.saveContext(context, sessionId)
+
+    return { sessionId, scenario, skill: targetSkill, openingLine: scenario.openingLine }
+  }
+
+  /**
+   * One practice turn: crisis check, skill feedback and the partner's reply.
+   * Returns null when the session is not a practice session.
+   */
+  async processPracticeTurn(
+    text: string,
+    emotion: EmotionData | undefined,
+    metadata: InteractionMetadata & { sessionId: string }
+  ): Promise<EmmaInteractionResult | null> {
+    metadata = { ...metadata, receivedAt: metadata.receivedAt ?? Date.now() }
+    const context = await this.store.get(metadata.sessionId)
+    const scenario = context?.practice && getPracticeScenario(context.practice.scenarioId)
+    if (!context || !scenario || context.practice!.rubric) return null
+
+    if (metadata.language) {
+      context.language = metadata.language
+    }
+
+    try {
+      emotion = await this.annotateEmotion(text, emotion, context.language)
+
+      // Real distress always takes priority over the role-play
+      const crisisCheck = await this.detectCrisis(text, emotion, context.language)
+      if (crisisCheck.isCrisis && crisisCheck.immediateAction) {
+        return await this.completeCrisisInteraction(text, context, crisisCheck, emotion, metadata)
+      }
+
+      const turnId = Date.now().toString()
+      const { partnerReply, feedback } = await this.practice.respond(context, scenario, text, turnId)
+      this.recordExchange(context, text, partnerReply, emotion, crisisCheck.isCrisis)
+      recordUsage(context, { responseMs: elapsedSince(metadata.receivedAt), crisis: crisisCheck })
+      await this.saveContext(context, metadata.sessionId)
+
+      const response = await this.validateResponseSafety(partnerReply, crisisCheck)
+
       return {
-        response: errorResponse,
+        response,
+        practiceFeedback: feedback,
         monitoring: {
-          passed: false,
-          alerts: [{ type: 'error', severity: 'high', message: 'Processing error' }],
-          recommendations: ['Check system health and retry']
+          passed: !response.requiresHumanReview,
+          alerts: [],
+          recommendations: []
         }
       }
+    } catch (error) {
+      console.error('Emma AI practice error:', error)
+      await this.recordFailure(metadata.sessionId)
+      return this.getErrorResult()
     }
   }
 
-  private async generateResponse(
-    userText: string,
+  /**
+   * Finish a practice session and return its rubric summary
+   */
+  async endPractice(sessionId: string): Promise<PracticeRubric | null> {
+    const context = await this.store.get(sessionId)
+    const scenario = context?.practice && getPracticeScenario(context.practice.scenarioId)
+    if (!context || !scenario) return null
+
+    // Ending twice returns the same rubric
+    if (context.practice!.rubric) return context.practice!.rubric
+
+    const rubric = await this.practice.finish(context, scenario)
+    await this.saveContext(context, sessionId)
+    await this.recordGoalProgress(context.practice!.userId, rubric, sessionId)
+    return rubric
+  }
+
+  /**
+   * Whether a message is part of a crisis: the session had a crisis turn in
+   * the last half hour, or the message contains crisis keywords. Crisis
+   * interactions are exempt from usage quotas. This runs before quota
+   * checks, so it never calls the LLM; the turn itself still gets the full
+   * crisis analysis.
+   */
+  async isCrisisInteraction(text: string, sessionId?: string, language?: string): Promise<boolean> {
+    const context = sessionId ? await this.store.get(sessionId) : null
+    const lastCrisisAt = context?.usage?.lastCrisisAt
+    if (lastCrisisAt !== undefined && Date.now() - lastCrisisAt < CRISIS_EXEMPTION_MS) return true
+
+    return findCrisisKeywords(text, language || context?.language).length > 0
+  }
+
+  /**
+   * Open a coaching session row for the user; later messages carry its id.
+   * When a check-in has fallen due, Emma opens the session with it.
+   */
+  async startSession(userId: string): Promise<CoachingSessionStart> {
+    const session = await this.sessions.create({ user_id: userId, session_type: 'coaching' })
+    const context = createEmptyContext(session.id, userId)
+
+    const followUp = await this.checkIns.takeFollowUp(userId).catch(error => {
+      console.error('Failed to load follow-up check-in:', error)
+      return null
+    })
+    const openingLine = followUp ? followUpOpening(followUp) : null
+    if (openingLine) {
+      context.turns.push({ id: Date.now().toString(), content: openingLine, speaker: 'emma', timestamp: new Date() })
+    }
+
+    await this.saveContext(context, session.id)
+    return { session, followUp, openingLine }
+  }
+
+  /**
+   * Open a conversation for a chat message sent without a session. The id
+   * is bound to the user before it is handed out.
+   */
+  async openConversation(userId: string): Promise<string> {
+    const sessionId = await this.createSessionId(userId)
+    await this.saveContext(createEmptyContext(sessionId, userId), sessionId)
+    return sessionId
+  }
+
+  /**
+   * Whether the user may use this session id. Sessions belong to whoever
+   * started them; ids the server never issued belong to nobody.
+   */
+  async ownsSession(sessionId: string, userId?: string): Promise<boolean> {
+    if (!userId) return false
+
+    const context = await this.store.get(sessionId)
+    if (context) return context.userId === userId
+
+    // Only UUIDs can have a sessions row
+    if (!UUID_PATTERN.test(sessionId)) return false
+    const session = await this.sessions.findById(sessionId)
+    return session?.user_id === userId
+  }
+
+  /**
+   * Keep an open session alive and write its usage so far. Returns null for
+   * sessions the user doesn't own, and ended sessions unchanged.
+   */
+  async heartbeatSession(sessionId: string, userId: string): Promise<Session | null> {
+    const session = await this.getSession(sessionId, userId)
+    if (!session || session.completed) return session
+
+    const context = await this.store.get(sessionId)
+    if (context) {
+      // The user is still there, so the conversation must not go idle
+      context.lastActivity = new Date()
+      await this.saveContext(context, sessionId)
+    }
+
+    await this.sessions.update(sessionId, usageToSessionUpdate(context))
+    return this.sessions.findById(sessionId)
+  }
+
+  /**
+   * The user's session, or null when it doesn't exist or belongs to someone else
+   */
+  async getSession(sessionId: string, userId: string): Promise<Session | null> {
+    const session = await this.sessions.findById(sessionId)
+    return session && session.user_id === userId ? session : null
+  }
+
+  listSessions(userId: string): Promise<Session[]> {
+    return this.sessions.listByUser(userId)
+  }
+
+  /**
+   * Attach a client-encrypted transcript to the user's session. Only
+   * ciphertext and the key hash are stored; Emma never sees the key.
+   */
+  async storeTranscript(
+    sessionId: string,
+    userId: string,
+    transcript: { ciphertext: string, keyHash: string }
+  ): Promise<Session | null> {
+    const session = await this.getSession(sessionId, userId)
+    if (!session) return null
+
+    await this.sessions.update(sessionId, {
+      encrypted_transcript: transcript.ciphertext,
+      encryption_key_hash: transcript.keyHash
+    })
+    return this.sessions.findById(sessionId)
+  }
+
+  /**
+   * Attach a client-encrypted session summary, sealed with the transcript key
+   */
+  async storeSummary(
+    sessionId: string,
+    userId: string,
+    summary: { ciphertext: string, keyHash: string }
+  ): Promise<Session | null> {
+    const session = await this.getSession(sessionId, userId)
+    if (!session) return null
+
+    await this.sessions.update(sessionId, {
+      encrypted_summary: summary.ciphertext,
+      encryption_key_hash: summary.keyHash
+    })
+    return this.sessions.findById(sessionId)
+  }
+
+  /**
+   * Close a session with what happened in it and a summary for the user.
+   * The summary is not stored in the clear: the client keeps it by
+   * encrypting it like a transcript. Ending twice returns the same row
+   * without a summary.
+   */
+  async endSession(sessionId: string, userId: string): Promise<EndedSession | null> {
+    const session = await this.getSession(sessionId, userId)
+    if (!session) return null
+    if (session.completed) return { session, summary: null }
+
+    const context = await this.store.get(sessionId)
+    const summary = await this.summarizeSession(context)
+    await this.sessions.update(sessionId, {
+      ...usageToSessionUpdate(context),
+      completed: true,
+      duration_seconds: Math.round((Date.now() - new Date(session.created_at).getTime()) / 1000)
+    })
+    return { session: await this.sessions.findById(sessionId), summary }
+  }
+
+  // Practice sessions get a rubric instead, and homework has no place after a crisis
+  private async summarizeSession(context: ConversationContext | null) {
+    if (!context || context.practice) return null
+    if (context.usage && (context.usage.crisisIndicators.length > 0 || context.usage.escalated)) return null
+
+    try {
+      return await this.summarizer.summarize(context)
+    } catch (error) {
+      console.error('Failed to summarize session:', error)
+      return null
+    }
+  }
+
+  private async completeCrisisInteraction(
+    text: string,
+    context: ConversationContext,
+    crisisCheck: CrisisDetectionResult,
     emotion?: EmotionData,
-    crisisCheck?: CrisisDetectionResult
-  ): Promise<string> {
-    // Build context from conversation history
-    const recentHistory = this.conversationHistory.slice(-5).map(turn => ({
-      role: turn.speaker === 'user' ? 'user' as const : 'assistant' as const,
-      content: turn.content
-    }))
+    metadata?: InteractionMetadata,
+    conflict?: ConflictReading
+  ): Promise<EmmaInteractionResult> {
+    const crisisResponse = this.handleCrisisResponse(text, crisisCheck, context.language)
+    this.recordExchange(context, text, crisisResponse.data, emotion, true, metadata?.partner)
+    recordUsage(context, { responseMs: elapsedSince(metadata?.receivedAt), crisis: crisisCheck })
+    await this.contextManager.update(context)
+    await this.saveContext(context, metadata?.sessionId)
+    
+    // Monitor crisis escalation
+    await this.monitor.monitorCrisisEscalation(
+      crisisCheck,
+      ['immediate_response', 'crisis_resources_provided'],
+      { ...metadata, promptVersion: context.promptVersion }
+    )
+    
+    return {
+      response: crisisResponse,
+      couples: this.describeTurnTaking(context),
+      conflict: this.summarizeConflict(context, conflict),
+      emotion,
+      monitoring: {
+        passed: false,
+        alerts: [{ type: 'crisis', severity: 'critical', message: 'Crisis detected' }],
+        recommendations: ['Human intervention required immediately']
+      }
+    }
+  }
+
+  private async completeInteraction(
+    text: string,
+    coaching: CoachingResponse,
+    context: ConversationContext,
+    crisisCheck: CrisisDetectionResult,
+    emotion?: EmotionData,
+    metadata?: InteractionMetadata,
+    template?: RenderedTemplate | null,
+    conflict?: ConflictReading
+  ): Promise<EmmaInteractionResult> {
+    const response = coaching.message
+    this.recordExchange(context, text, response, emotion, crisisCheck.isCrisis, metadata?.partner)
+    if (!context.skillsPracticed.includes(coaching.skill)) {
+      context.skillsPracticed.push(coaching.skill)
+    }
+    if (template) {
+      context.servedTemplates = { [template.templateId]: false, ...context.servedTemplates }
+    }
+    recordUsage(context, { responseMs: elapsedSince(metadata?.receivedAt), crisis: crisisCheck })
+    await this.contextManager.update(context)
+    await this.saveContext(context, metadata?.sessionId)
+    
+    // Validate response safety
+    const validatedResponse = await this.validateResponseSafety(response, crisisCheck)
+    
+    // Comprehensive monitoring
+    const monitoringResult = await this.monitor.monitorInteraction(
+      text,
+      validatedResponse,
+      crisisCheck,
+      emotion,
+      { ...metadata, promptVersion: context.promptVersion }
+    )
+
+    // Couples responses must stay balanced between partners
+    const balanceIssues = context.couples ? checkBalance(response, context.couples) : []
+    
+    return {
+      response: validatedResponse,
+      coaching,
+      templateId: template?.templateId,
+      couples: this.describeTurnTaking(context),
+      conflict: this.summarizeConflict(context, conflict),
+      emotion,
+      monitoring: {
+        passed: monitoringResult.passed && balanceIssues.length === 0,
+        alerts: [
+          ...monitoringResult.alerts,
+          ...balanceIssues.map(message => ({ type: 'balance', severity: 'medium', message }))
+        ],
+        recommendations: [
+          ...monitoringResult.recommendations,
+          ...(balanceIssues.length > 0 ? ['Reflect both partners\' perspectives without taking sides'] : [])
+        ]
+      }
+    }
+  }
 
+  private buildMessages(
+    userText: string,
+    context: ConversationContext,
+    emotion?: EmotionData,
+    inputs: PromptInputs = {}
+  ): LLMMessage[] {
     // Add emotion context if available
     const emotionContext = emotion 
       ? `\n[Detected emotion: ${this.describeEmotion(emotion)}]`
       : ''
 
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-      { role: 'system', content: EMMA_SYSTEM_PROMPT },
-      ...recentHistory,
-      { 
-        role: 'user', 
-        content: userText + emotionContext
+    const systemPrompt = composeSystemPrompt(this.prompts.textFor(context.promptVersion), {
+      ...inputs,
+      couples: context.couples,
+      userText
+    })
+    const speaker = context.couples && inputs.partner
+      ? `${context.couples.partners[inputs.partner].label}: `
+      : ''
+
+    // Summary, pinned facts and as much recent history as the token budget allows
+    return this.contextManager.buildMessages(
+      systemPrompt,
+      context,
+      speaker + userText + emotionContext
+    )
+  }
+
+  /**
+   * Emma's reply, which may call tools. Tool calls are validated first, and
+   * the model then words its reply knowing which actions still need the
+   * user's confirmation.
+   */
+  private async generateResponse(
+    userText: string,
+    context: ConversationContext,
+    emotion?: EmotionData,
+    inputs: PromptInputs = {},
+    metadata?: InteractionMetadata
+  ): Promise<{ coaching: CoachingResponse, actions: ToolAction[] }> {
+    const request = this.coachingRequest(userText, context, emotion, inputs, metadata)
+    const completion = await this.provider.completeWithTools(request)
+
+    if (completion.toolCalls.length === 0) {
+      return { coaching: parseCoachingResponse(completion.content) || FALLBACK_COACHING, actions: [] }
+    }
+
+    const { actions, followUp } = await this.proposeActions(completion, request, context, metadata)
+    const reply = await this.provider.complete(followUp)
+    return { coaching: parseCoachingResponse(reply) || FALLBACK_COACHING, actions }
+  }
+
+  private coachingRequest(
+    userText: string,
+    context: ConversationContext,
+    emotion?: EmotionData,
+    inputs: PromptInputs = {},
+    metadata?: InteractionMetadata
+  ): LLMCompletionRequest {
+    const messages = this.buildMessages(userText, context, emotion, inputs)
+    // Proposed actions are confirmed later, so they need a saved session
+    const tools = metadata?.sessionId ? this.tools.definitions() : []
+    if (tools.length > 0) {
+      // Needed to schedule anything relative to "Friday" or "tomorrow"
+      messages.splice(1, 0, { role: 'system', content: `Current date and time (UTC): ${new Date().toISOString()}` })
+    }
+
+    return { task: 'coaching', messages, responseFormat: 'json', tools }
+  }
+
+  /**
+   * Validate the model's tool calls and hold side effects for confirmation.
+   * followUp asks the model to word its reply around the outcomes.
+   */
+  private async proposeActions(
+    completion: LLMToolCompletion,
+    request: LLMCompletionRequest,
+    context: ConversationContext,
+    metadata?: InteractionMetadata
+  ): Promise<{ actions: ToolAction[], followUp: LLMCompletionRequest }> {
+    const actions = await Promise.all(
+      completion.toolCalls.map(call => this.proposeAction(call, context, metadata?.userId))
+    )
+
+    context.pendingActions = [...(context.pendingActions || []), ...actions.filter(action => action.status === 'pending')]
+    for (const action of actions) {
+      this.monitor.recordToolCall(action, { userId: metadata?.userId, sessionId: metadata?.sessionId, promptVersion: context.promptVersion })
+    }
+
+    return {
+      actions,
+      followUp: {
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content: completion.content, toolCalls: completion.toolCalls },
+          ...completion.toolCalls.map((call, i): LLMMessage => ({
+            role: 'tool',
+            toolCallId: call.id,
+            content: JSON.stringify(toolOutcome(actions[i]))
+          }))
+        ],
+        toolChoice: 'none'
       }
-    ]
+    }
+  }
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages,
-      temperature: 0.7,
-      max_tokens: 300,
-      presence_penalty: 0.1,
-      frequency_penalty: 0.1,
-    })
+  /**
+   * Validate a tool call from the model. Side effects are held for the
+   * user's confirmation; anything else runs straight away.
+   */
+  private async proposeAction(call: LLMToolCall, context: ConversationContext, userId?: string): Promise<ToolAction> {
+    const parsed = this.tools.parse(call)
+    const action: ToolAction = {
+      id: crypto.randomUUID(),
+      tool: call.name,
+      arguments: parsed.args || {},
+      summary: parsed.tool ? parsed.tool.describe(parsed.args) : `Invalid ${call.name} request`,
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    }
+
+    if (parsed.error) return { ...action, status: 'invalid', error: parsed.error }
+    if (parsed.tool.requiresConfirmation) return action
+    return this.runAction(action, context, userId)
+  }
+
+  private async runAction(action: ToolAction, context: ConversationContext, userId?: string): Promise<ToolAction> {
+    // Validated again: arguments have been stored since they were proposed
+    const validated = this.tools.validate(action.tool, action.arguments)
+    if (validated.error) return { ...action, status: 'invalid', error: validated.error }
+
+    try {
+      const result = await validated.tool.execute(validated.args, { userId, conversation: context })
+      return { ...action, status: 'completed', result }
+    } catch (error) {
+      console.error(`Tool ${action.tool} failed:`, error)
+      return { ...action, status: 'failed', error: error instanceof Error ? error.message : 'Tool failed' }
+    }
+  }
+
+  /**
+   * Template matching the skill the user's message calls for, if any
+   */
+  private async findGroundingTemplate(
+    text: string,
+    context: ConversationContext,
+    emotion?: EmotionData
+  ): Promise<RenderedTemplate | null> {
+    // Heated conversations are grounded in de-escalation whatever the topic
+    const skill = context.conflictLevel >= HIGH_CONFLICT_LEVEL ? 'deescalation' : suggestSkillForInput(text)
+    if (!skill) return null
+
+    try {
+      return await this.templates.useTemplate({ skillFocus: skill }, variablesFromContext(context, emotion))
+    } catch (error) {
+      console.error('Coaching template lookup failed:', error)
+      return null
+    }
+  }
+
+  private async useFallbackTemplate(
+    context: ConversationContext,
+    emotion?: EmotionData
+  ): Promise<RenderedTemplate | null> {
+    try {
+      return await this.templates.useTemplate({}, variablesFromContext(context, emotion))
+    } catch (error) {
+      console.error('Coaching template fallback failed:', error)
+      return null
+    }
+  }
+
+  private async loadContext(metadata?: InteractionMetadata): Promise<ConversationContext> {
+    const sessionId = metadata?.sessionId
+
+    // Requests without a session get a throwaway context so nothing is shared
+    const context = sessionId
+      ? (await this.store.get(sessionId)) || createEmptyContext(sessionId, metadata?.userId)
+      : createEmptyContext('ephemeral')
+
+    if (metadata?.language) {
+      context.language = metadata.language
+    }
+
+    const prompt = await this.prompts.assign(context.sessionId, context.promptVersion)
+    context.promptVersion = prompt.version
+
+    // A partner speaking in a session not started as couples joins with default labels
+    if (metadata?.partner && !context.couples) {
+      context.couples = createCouplesState()
+    }
+
+    return context
+  }
+
+  /**
+   * Emotion supplied by the client (e.g. from voice) wins; otherwise analyze the text
+   */
+  private async annotateEmotion(text: string, emotion?: EmotionData, language?: string): Promise<EmotionData | undefined> {
+    if (emotion) return emotion
+
+    try {
+      return await this.emotions.analyze(text, language)
+    } catch (error) {
+      console.error('Emotion analysis failed:', error)
+      return undefined
+    }
+  }
+
+  private async loadPreferences(userId?: string): Promise<UserPreferences | null> {
+    if (!userId) return null
+
+    try {
+      return await this.preferences.get(userId)
+    } catch (error) {
+      console.error(`Failed to load preferences (${this.preferences.name}):`, error)
+      return null
+    }
+  }
+
+  private async loadGoals(userId?: string): Promise<Goal[]> {
+    if (!userId) return []
+
+    try {
+      return (await this.goals.list(userId)).filter(goal => goal.status === 'active')
+    } catch (error) {
+      console.error(`Failed to load goals (${this.goals.name}):`, error)
+      return []
+    }
+  }
+
+  private async recordGoalProgress(userId: string | undefined, rubric: PracticeRubric, sessionId: string): Promise<void> {
+    if (!userId) return
+
+    try {
+      await this.goals.recordPracticeOutcome(userId, rubric, sessionId)
+    } catch (error) {
+      console.error(`Failed to record goal progress (${this.goals.name}):`, error)
+    }
+  }
+
+  /**
+   * Session row id for a signed-in user, so the session can be closed and
+   * archived later; a bare id otherwise or if the row can't be created
+   */
+  private async createSessionId(userId?: string): Promise<string> {
+    if (!userId) return crypto.randomUUID()
+
+    try {
+      return (await this.sessions.create({ user_id: userId, session_type: 'coaching' })).id
+    } catch (error) {
+      console.error(`Failed to create session (${this.sessions.name}):`, error)
+      return crypto.randomUUID()
+    }
+  }
+
+  /**
+   * Count a failed message against its session; never throws
+   */
+  private async recordFailure(sessionId?: string): Promise<void> {
+    if (!sessionId) return
+
+    try {
+      const context = await this.store.get(sessionId)
+      if (!context) return
+      recordUsage(context, { failed: true })
+      await this.store.save(context)
+    } catch (error) {
+      console.error('Failed to record session error:', error)
+    }
+  }
+
+  private describeTurnTaking(context: ConversationContext): EmmaInteractionResult['couples'] {
+    if (!context.couples) return undefined
 
-    const response = completion.choices[0]?.message?.content || 
-      "I'm here to listen and support you. Could you tell me more about what you're experiencing?"
+    return {
+      nextSpeaker: context.couples.nextSpeaker,
+      turnPrompt: turnPrompt(context.couples)
+    }
+  }
 
-    // Store in conversation history
-    this.conversationHistory.push(
+  private summarizeConflict(context: ConversationContext, conflict?: ConflictReading): ConflictSummary | undefined {
+    if (!conflict) return undefined
+
+    return {
+      level: conflict.level,
+      trend: conflict.trend,
+      cues: conflict.cues,
+      trajectory: conflictTrajectory(context)
+    }
+  }
+
+  private async saveContext(context: ConversationContext, sessionId?: string): Promise<void> {
+    if (!sessionId) return
+    
+    try {
+      await this.store.save(context)
+    } catch (error) {
+      console.error(`Failed to save conversation context (${this.store.name}):`, error)
+    }
+  }
+
+  private recordExchange(
+    context: ConversationContext,
+    userText: string,
+    response: string,
+    emotion?: EmotionData,
+    crisisDetected: boolean = false,
+    partner?: PartnerId
+  ): void {
+    const now = new Date()
+
+    context.turns.push(
       { 
-        id: Date.now().toString(), 
+        id: now.getTime().toString(), 
         content: userText, 
         speaker: 'user', 
-        timestamp: new Date(),
-        emotion 
+        timestamp: now,
+        emotion,
+        crisisDetected,
+        partner,
+        conflictLevel: context.conflictLevel
       },
       { 
-        id: (Date.now() + 1).toString(), 
+        id: (now.getTime() + 1).toString(), 
         content: response, 
         speaker: 'emma', 
-        timestamp: new Date() 
+        timestamp: now 
       }
     )
 
-    return response
+    // Backstop for sessions that are never summarized, such as practice
+    if (context.turns.length > MAX_STORED_TURNS) {
+      const dropped = context.turns.length - MAX_STORED_TURNS
+      context.turns.splice(0, dropped)
+      context.summarizedTurnCount = Math.max(0, (context.summarizedTurnCount || 0) - dropped)
+    }
+
+    if (emotion) {
+      context.emotionHistory.push(emotion)
+    }
+
+    if (partner && context.couples) {
+      recordPartnerTurn(context.couples, partner, userText, emotion)
+    }
+
+    context.lastActivity = now
   }
 
   private async detectCrisis(
     text: string,
-    emotion?: EmotionData
+    emotion?: EmotionData,
+    language?: string
   ): Promise<CrisisDetectionResult> {
     // Quick keyword check for immediate threats
-    const immediateThreats = [
-      'kill', 'suicide', 'hurt myself', 'end it all',
-      'hit me', 'abuse', 'violence', 'threaten'
-    ]
-    
-    const lowerText = text.toLowerCase()
-    const hasImmediateThreat = immediateThreats.some(threat => 
-      lowerText.includes(threat)
-    )
+    const threatKeywords = findCrisisKeywords(text, language)
+    const hasImmediateThreat = threatKeywords.length > 0
+    const vocalDistress = describeVocalDistress(emotion)
 
-    // Use GPT for nuanced crisis detection
-    const crisisPrompt = `Analyze this message for crisis indicators:
+    // Use the LLM for nuanced crisis detection
+    const crisisPrompt = `Analyze this message for crisis indicators. It may be written in any language; assess it in its original language:
 "${text}"
 
-Emotion data: ${emotion ? JSON.stringify(emotion) : 'Not available'}
+Emotion data: ${emotion ? JSON.stringify(emotion) : 'Not available'}${vocalDistress ? `
+${vocalDistress}` : ''}
 
 Identify:
 1. Is this a crisis situation? (yes/no)
@@ -203,8 +1098,8 @@ Identify:
 Respond in JSON format.`
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.provider.complete({
+        task: 'crisis',
         messages: [
           { 
             role: 'system', 
@@ -212,22 +1107,21 @@ Respond in JSON format.`
           },
           { role: 'user', content: crisisPrompt }
         ],
-        temperature: 0.1,
-        max_tokens: 200,
-        response_format: { type: 'json_object' }
+        responseFormat: 'json'
       })
 
-      const analysis = JSON.parse(
-        completion.choices[0]?.message?.content || '{}'
-      )
+      const analysis = JSON.parse(completion || '{}')
+
+      const triggers: string[] = analysis.triggers || []
+      if (vocalDistress && analysis.is_crisis === 'yes') triggers.push('vocal distress')
 
       return {
         isCrisis: analysis.is_crisis === 'yes' || hasImmediateThreat,
         severity: analysis.severity || 'none',
         category: analysis.category || 'none',
-        triggers: analysis.triggers || [],
+        triggers,
         immediateAction: analysis.requires_escalation === 'yes' || hasImmediateThreat,
-        resources: this.getCrisisResources(analysis.category),
+        resources: getCrisisResources(analysis.category, language),
         escalationRequired: analysis.requires_escalation === 'yes'
       }
     } catch (error) {
@@ -237,9 +1131,9 @@ Respond in JSON format.`
         isCrisis: hasImmediateThreat,
         severity: hasImmediateThreat ? 'high' : 'none',
         category: 'none',
-        triggers: [],
+        triggers: threatKeywords,
         immediateAction: hasImmediateThreat,
-        resources: [],
+        resources: hasImmediateThreat ? getCrisisResources('mental_health', language) : [],
         escalationRequired: hasImmediateThreat
       }
     }
@@ -273,17 +1167,10 @@ Respond in JSON format.`
 
   private handleCrisisResponse(
     userText: string,
-    crisisCheck: CrisisDetectionResult
+    crisisCheck: CrisisDetectionResult,
+    language?: string
   ): SafetyValidatedResponse<string> {
-    const response = `I can hear that you're going through something really difficult right now, and I'm concerned about your safety. 
-
-Your feelings are valid, and you don't have to face this alone. There are people who want to help.
-
-Would it be okay if I share some resources that can provide immediate support? In the meantime, I'm here to listen without judgment.
-
-${crisisCheck.resources.map(r => `• ${r.name}: ${r.phone}`).join('\n')}
-
-Is there someone you trust who you could reach out to right now?`
+    const response = getCrisisMessage(crisisCheck.resources, language)
 
     return {
       data: response,
@@ -295,58 +1182,27 @@ Is there someone you trust who you could reach out to right now?`
     }
   }
 
-  private getCrisisResources(category: string): any[] {
-    const resources = {
-      mental_health: [
-        {
-          name: '988 Suicide & Crisis Lifeline',
-          phone: '988',
-          description: '24/7 crisis support',
-          available247: true
-        },
-        {
-          name: 'Crisis Text Line',
-          phone: 'Text HOME to 741741',
-          description: 'Text-based crisis support',
-          available247: true
-        }
-      ],
-      domestic_violence: [
-        {
-          name: 'National Domestic Violence Hotline',
-          phone: '1-800-799-7233',
-          description: 'Confidential support for abuse victims',
-          available247: true
-        }
-      ],
-      child_safety: [
-        {
-          name: 'Childhelp National Child Abuse Hotline',
-          phone: '1-800-422-4453',
-          description: 'Support for child abuse concerns',
-          available247: true
-        }
-      ],
-      substance_abuse: [
-        {
-          name: 'SAMHSA National Helpline',
-          phone: '1-800-662-4357',
-          description: 'Treatment referral and information',
-          available247: true
-        }
-      ]
-    }
-
-    return resources[category as keyof typeof resources] || resources.mental_health
-  }
-
   private describeEmotion(emotion: EmotionData): string {
     const sentiment = emotion.sentiment > 0 ? 'positive' : 
                      emotion.sentiment < -0.3 ? 'negative' : 'neutral'
     const intensity = emotion.magnitude > 0.7 ? 'strong' : 
                      emotion.magnitude > 0.3 ? 'moderate' : 'mild'
+    const voice = emotion.prosody && emotion.prosody.distress >= VOCAL_DISTRESS_THRESHOLD
+      ? `; voice sounds distressed (${emotion.prosody.cues.join(', ') || 'overall tone'})`
+      : ''
     
-    return `${intensity} ${sentiment} emotion`
+    return `${intensity} ${sentiment} emotion${voice}`
+  }
+
+  private getErrorResult(): EmmaInteractionResult {
+    return {
+      response: this.getErrorResponse(),
+      monitoring: {
+        passed: false,
+        alerts: [{ type: 'error', severity: 'high', message: 'Processing error' }],
+        recommendations: ['Check system health and retry']
+      }
+    }
   }
 
   private getErrorResponse(): SafetyValidatedResponse<string> {
@@ -360,8 +1216,70 @@ Is there someone you trust who you could reach out to right now?`
     }
   }
 
-  clearHistory() {
-    this.conversationHistory = []
+  async getPendingActions(sessionId: string): Promise<ToolAction[]> {
+    const context = await this.store.get(sessionId)
+    return context?.pendingActions || []
+  }
+
+  /**
+   * Run or decline an action Emma proposed in the session; null when it is
+   * not pending, e.g. because it was already resolved
+   */
+  async resolveAction(sessionId: string, actionId: string, confirmed: boolean): Promise<ToolAction | null> {
+    const context = await this.store.get(sessionId)
+    const pending = context?.pendingActions?.find(action => action.id === actionId)
+    if (!context || !pending) return null
+
+    // Saved before running so a repeated confirmation can't run it twice
+    context.pendingActions = context.pendingActions!.filter(action => action.id !== actionId)
+    await this.saveContext(context, sessionId)
+
+    const action: ToolAction = confirmed
+      ? await this.runAction(pending, context, context.userId)
+      : { ...pending, status: 'declined' }
+    if (action.status === 'completed') {
+      await this.saveContext(context, sessionId)
+    }
+
+    this.monitor.recordToolCall(action, { userId: context.userId, sessionId, promptVersion: context.promptVersion })
+    return action
+  }
+
+  async clearHistory(sessionId: string) {
+    await this.store.delete(sessionId)
+  }
+
+  async getConversationContext(sessionId: string) {
+    return this.store.get(sessionId)
+  }
+
+  // Coaching preferences per anonymous user
+  async getPreferences(userId: string): Promise<UserPreferences> {
+    return (await this.preferences.get(userId)) || { ...DEFAULT_PREFERENCES }
+  }
+
+  async updatePreferences(userId: string, changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    const preferences = { ...(await this.getPreferences(userId)), ...changes }
+    await this.preferences.save(userId, preferences)
+    return preferences
+  }
+
+  /**
+   * Fold the user's 0-1 rating into a template's effectiveness. Only templates
+   * that replies in the session were based on can be rated, once per session.
+   */
+  async rateTemplate(sessionId: string, templateId: string, rating: number): Promise<TemplateRating> {
+    const context = await this.store.get(sessionId)
+    const rated = context?.servedTemplates?.[templateId]
+    if (!context || rated === undefined) return { status: 'not_served' }
+    if (rated) return { status: 'already_rated' }
+
+    // Saved before rating so a repeated request can't count twice
+    context.servedTemplates = { ...context.servedTemplates, [templateId]: true }
+    await this.saveContext(context, sessionId)
+
+    const effectiveness = await this.templates.recordEffectiveness(templateId, rating)
+    return effectiveness === null ? { status: 'not_served' } : { status: 'rated', effectiveness }
   }
 
   // QA Monitoring methods
@@ -377,6 +1295,43 @@ Is there someone you trust who you could reach out to right now?`
     return this.monitor.exportAnalytics()
   }
 
+  getMonitoringEvents(userId: string) {
+    return this.monitor.getUserEvents(userId)
+  }
+
+  eraseMonitoringEvents(userId: string) {
+    return this.monitor.removeUserEvents(userId)
+  }
+
+  getMonitoringUserIds() {
+    return this.monitor.getEventUserIds()
+  }
+
+  purgeMonitoringEvents(cutoffFor: (userId?: string) => Date, dryRun: boolean = false) {
+    return this.monitor.purgeEvents(cutoffFor, dryRun)
+  }
+
+  /**
+   * Active system prompt versions with quality metrics for each
+   */
+  async getPromptExperiment() {
+    const variants = await this.prompts.activeVariants()
+    const metrics = this.monitor.getVariantMetrics()
+
+    return {
+      variants: variants.map(({ version, weight, description }) => ({
+        version,
+        weight,
+        description: description ?? null,
+        metrics: metrics[version] || null
+      })),
+      // Versions that no longer receive traffic but still have recent data
+      retired: Object.keys(metrics)
+        .filter(version => !variants.some(v => v.version === version))
+        .map(version => ({ version, metrics: metrics[version] }))
+    }
+  }
+
   // Quality gates for testing
   async validateMessage(text: string, emotion?: EmotionData) {
     const crisisCheck = await this.detectCrisis(text, emotion)
@@ -396,4 +1351,20 @@ Is there someone you trust who you could reach out to right now?`
       emotion
     )
   }
-}
\ No newline at end of file
+}
+
+function elapsedSince(start?: number): number | undefined {
+  return start === undefined ? undefined : Date.now() - start
+}
+
+// What the model is told about each tool call before it replies
+function toolOutcome(action: ToolAction) {
+  switch (action.status) {
+    case 'pending':
+      return { status: 'awaiting_confirmation', summary: action.summary, note: 'Not done yet. The user confirms or declines it in the app.' }
+    case 'completed':
+      return { status: 'completed', result: action.result }
+    default:
+      return { status: action.status, error: action.error }
+  }
+}
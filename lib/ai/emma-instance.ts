@@ -0,0 +1,48 @@
+import { EmmaAI } from '@/lib/ai/emma-core'
+import { IdentityService } from '@/lib/auth/identity-service'
+import { EntitlementService } from '@/lib/billing/entitlement-service'
+import { CheckInScheduler } from '@/lib/coaching/check-in-scheduler'
+import { GoalTracker } from '@/lib/coaching/goal-tracker'
+import { createAuditRepository } from '@/lib/database/audit-repository'
+import { createCheckInRepository } from '@/lib/database/check-in-repository'
+import { createCrisisEventRepository } from '@/lib/database/crisis-event-repository'
+import { createGoalRepository } from '@/lib/database/goal-repository'
+import { createPreferencesRepository } from '@/lib/database/preferences-repository'
+import { createPushSubscriptionRepository } from '@/lib/database/push-subscription-repository'
+import { createSessionRepository } from '@/lib/database/session-repository'
+import { createUsageRepository } from '@/lib/database/usage-repository'
+import { createUserRepository } from '@/lib/database/user-repository'
+import { createNotificationChannels } from '@/lib/notifications/notification-channels'
+import { RetentionService } from '@/lib/privacy/retention-service'
+import { UserDataService } from '@/lib/privacy/user-data-service'
+import { createAudioStore } from '@/lib/voice/audio-store'
+
+// Repositories are shared so the privacy services see the same data as
+// Emma, including the in-memory stores used without Supabase
+const sessions = createSessionRepository()
+const goals = createGoalRepository()
+const preferences = createPreferencesRepository()
+const users = createUserRepository()
+const crisisEvents = createCrisisEventRepository()
+const audio = createAudioStore()
+const audit = createAuditRepository()
+const checkIns = createCheckInRepository()
+const usage = createUsageRepository()
+
+// Browser push endpoints, managed through /api/notifications/push
+export const pushSubscriptions = createPushSubscriptionRepository()
+
+// Follow-ups and their reminders; the check-in job (/api/check-ins/run) delivers them
+export const checkInScheduler = new CheckInScheduler(checkIns, createNotificationChannels({ users, pushSubscriptions }))
+
+// Shared Emma AI instance so API routes see the same sessions, templates
+// and monitoring state within a server process
+export const emma = new EmmaAI({ sessions, preferences, goals: new GoalTracker(goals), checkIns: checkInScheduler })
+
+export const identity = new IdentityService(users)
+
+export const entitlements = new EntitlementService(users, usage)
+
+export const retention = new RetentionService({ sessions, users, crisisEvents, audio, audit, monitoring: emma })
+
+export const userData = new UserDataService({ sessions, goals, preferences, users, crisisEvents, checkIns, pushSubscriptions, usage, audio, audit, state: emma })
@@ -0,0 +1,152 @@
+import { DEFAULT_LANGUAGE } from '@/lib/ai/languages'
+import { createLLMProvider, type LLMProvider } from '@/lib/ai/llm-provider'
+import type { EmotionData } from '@/types'
+
+export type EmotionName = 'anger' | 'frustration' | 'sadness' | 'hurt' | 'fear' | 'contempt' | 'joy' | 'love'
+export type EmotionAnalyzerMode = 'llm' | 'lexicon'
+
+export const EMOTIONS: EmotionName[] = ['anger', 'frustration', 'sadness', 'hurt', 'fear', 'contempt', 'joy', 'love']
+
+const POSITIVE: EmotionName[] = ['joy', 'love']
+
+// Words per emotion; a trailing * matches any word with that prefix
+const LEXICON: Record<EmotionName, string[]> = {
+  anger: ['angry', 'anger', 'angered', 'furious', 'rage', 'mad', 'pissed', 'livid', 'hate', 'hated', 'yell*', 'scream*', 'outraged'],
+  frustration: ['frustrat*', 'annoy*', 'irritat*', 'fed up', 'sick of', 'tired of', 'exhaust*', 'stuck', 'ignored', 'unfair'],
+  sadness: ['sad', 'sadness', 'unhappy', 'depress*', 'lonely', 'alone', 'cry', 'cried', 'crying', 'miserable', 'empty', 'hopeless', 'grief', 'heartbroken'],
+  hurt: ['hurt', 'hurts', 'betray*', 'rejected', 'abandon*', 'unloved', 'unappreciated', 'disrespect*', 'humiliat*'],
+  fear: ['afraid', 'scared', 'fear', 'anxious', 'anxiety', 'worried', 'worry', 'nervous', 'panic*', 'terrified', 'unsafe'],
+  contempt: ['pathetic', 'useless', 'disgust*', 'worthless', 'ridiculous', 'stupid', 'idiot'],
+  joy: ['happy', 'glad', 'great', 'good', 'excited', 'relieved', 'grateful', 'thankful', 'better', 'hopeful', 'proud', 'fun'],
+  love: ['love', 'loved', 'loving', 'care', 'caring', 'close', 'appreciat*', 'adore', 'cherish', 'connected', 'affection*', 'supportive']
+}
+
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", 'dont', "didn't", 'didnt', "isn't", 'isnt', "wasn't", 'wasnt', "doesn't", 'doesnt', "can't", 'cant', 'hardly'])
+const INTENSIFIERS = new Set(['very', 'really', 'so', 'extremely', 'totally', 'completely', 'absolutely', 'incredibly'])
+const NEGATION_WINDOW = 3
+
+/**
+ * Lexicon-based emotion analysis. Runs locally with no model call and
+ * handles simple negation ("not happy") and intensifiers ("so angry").
+ */
+export function analyzeWithLexicon(text: string): EmotionData {
+  const words = text.toLowerCase().match(/[a-z']+/g) || []
+  const scores = Object.fromEntries(EMOTIONS.map(e => [e, 0])) as Record<EmotionName, number>
+  let valence = 0
+  let hits = 0
+  let intensity = 0
+
+  words.forEach((word, i) => {
+    const window = words.slice(Math.max(0, i - NEGATION_WINDOW), i)
+    const negated = window.some(w => NEGATIONS.has(w))
+    const boost = INTENSIFIERS.has(words[i - 1]) ? 1.5 : 1
+    const phrase = `${word} ${words[i + 1] || ''}`
+
+    for (const emotion of EMOTIONS) {
+      if (!LEXICON[emotion].some(entry => matches(entry, word, phrase))) continue
+
+      hits++
+      intensity += boost
+      const positive = POSITIVE.includes(emotion)
+
+      // "not happy" reads as sadness; "not angry" just cancels the cue
+      if (negated) {
+        if (positive) {
+          scores.sadness += boost
+          valence -= boost
+        }
+      } else {
+        scores[emotion] += boost
+        valence += positive ? boost : -boost
+      }
+    }
+  })
+
+  const exclamations = (text.match(/!/g) || []).length
+  const shouted = (text.match(/\b[A-Z]{3,}\b/g) || []).length
+  const total = Object.values(scores).reduce((sum, s) => sum + s, 0)
+
+  return {
+    // +1 in the denominator keeps a single cue word from reading as extreme
+    sentiment: round(Math.max(-1, Math.min(1, valence / (hits + 1)))),
+    magnitude: round(intensity * 0.5 + Math.min(exclamations, 3) * 0.2 + Math.min(shouted, 3) * 0.3),
+    emotions: total > 0
+      ? Object.fromEntries(EMOTIONS.filter(e => scores[e] > 0).map(e => [e, round(scores[e] / total)]))
+      : {},
+    // A lexicon only sees surface words, so it never claims high confidence
+    confidence: hits > 0 ? round(Math.min(0.7, 0.3 + hits * 0.1)) : 0.2,
+    timestamp: new Date(),
+    source: 'text'
+  }
+}
+
+/**
+ * Per-message emotion analysis. The LLM mode asks the model for a
+ * structured reading and falls back to the lexicon when the call fails or
+ * returns something unusable. The lexicon is English only, so other
+ * languages always use the model.
+ */
+export class EmotionAnalyzer {
+  constructor(
+    private provider: LLMProvider = createLLMProvider(),
+    private mode: EmotionAnalyzerMode = process.env.EMOTION_ANALYZER === 'llm' ? 'llm' : 'lexicon'
+  ) {}
+
+  async analyze(text: string, language: string = DEFAULT_LANGUAGE): Promise<EmotionData> {
+    if (this.mode === 'lexicon' && language === 'en') return analyzeWithLexicon(text)
+
+    try {
+      const completion = await this.provider.complete({
+        task: 'emotion',
+        messages: [
+          {
+            role: 'system',
+            content: `You analyze the emotional tone of messages sent to a relationship coach. Respond ONLY with JSON:
+{"sentiment": -1 to 1, "magnitude": 0 to 5 (overall intensity), "emotions": {${EMOTIONS.map(e => `"${e}": 0-1`).join(', ')}}, "confidence": 0-1}
+Only include emotions that are present. The message may be in any language.`
+          },
+          { role: 'user', content: text }
+        ],
+        responseFormat: 'json'
+      })
+
+      return parseEmotionData(completion) || analyzeWithLexicon(text)
+    } catch (error) {
+      console.error('Emotion analysis failed, using lexicon:', error)
+      return analyzeWithLexicon(text)
+    }
+  }
+}
+
+export function parseEmotionData(completion: string): EmotionData | null {
+  try {
+    const parsed = JSON.parse(completion || '{}')
+    if (typeof parsed.sentiment !== 'number' || typeof parsed.magnitude !== 'number') return null
+
+    const emotions: Record<string, number> = {}
+    for (const emotion of EMOTIONS) {
+      const score = parsed.emotions?.[emotion]
+      if (typeof score === 'number' && score > 0) emotions[emotion] = Math.min(1, score)
+    }
+
+    return {
+      sentiment: Math.max(-1, Math.min(1, parsed.sentiment)),
+      magnitude: Math.max(0, parsed.magnitude),
+      emotions,
+      confidence: typeof parsed.confidence === 'number' ? Math.max(0, Math.min(1, parsed.confidence)) : 0.7,
+      timestamp: new Date(),
+      source: 'text'
+    }
+  } catch {
+    return null
+  }
+}
+
+function matches(entry: string, word: string, phrase: string): boolean {
+  if (entry.endsWith('*')) return word.startsWith(entry.slice(0, -1))
+  return entry.includes(' ') ? phrase === entry : word === entry
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
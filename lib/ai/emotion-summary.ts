@@ -0,0 +1,53 @@
+import type { EmotionData } from '@/types'
+import type { EmotionSummary } from '@/types/database'
+
+// Magnitudes at or above this read as full intensity
+const FULL_INTENSITY_MAGNITUDE = 3
+const NEUTRAL = 'neutral'
+
+/**
+ * Condense a session's per-message emotion readings into an EmotionSummary
+ * with one progression point per reading, oldest first. Null when nothing
+ * was read.
+ */
+export function summarizeEmotions(history: EmotionData[]): EmotionSummary | null {
+  if (history.length === 0) return null
+
+  const weights: Record<string, number> = {}
+  const progression = history.map(reading => {
+    const intensity = round(Math.min(1, reading.magnitude / FULL_INTENSITY_MAGNITUDE))
+    for (const [emotion, score] of Object.entries(reading.emotions)) {
+      // Strong moments count for more, but calm ones still count
+      weights[emotion] = (weights[emotion] || 0) + score * Math.max(intensity, 0.1)
+    }
+
+    return {
+      timestamp: new Date(reading.timestamp).getTime(),
+      emotion: strongest(reading.emotions) || NEUTRAL,
+      intensity,
+      sentiment: round(reading.sentiment)
+    }
+  })
+
+  return {
+    dominant: strongest(weights) || NEUTRAL,
+    intensity: round(average(progression.map(point => point.intensity))),
+    mood: round(average(progression.map(point => point.sentiment))),
+    progression,
+    confidence: round(average(history.map(reading => reading.confidence)))
+  }
+}
+
+function strongest(scores: Record<string, number>): string | undefined {
+  return Object.entries(scores)
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])[0]?.[0]
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
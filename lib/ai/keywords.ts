@@ -0,0 +1,18 @@
+const MIN_KEYWORD_LENGTH = 4
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'being', 'each', 'from', 'have', 'into', 'less', 'more', 'much',
+  'need', 'other', 'over', 'really', 'some', 'that', 'their', 'them', 'they', 'this', 'very',
+  'want', 'what', 'when', 'with', 'would'
+])
+
+/**
+ * Content words of a text, lowercased, without stopwords or short words
+ */
+export function keywords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z']+/g)?.filter(word => word.length >= MIN_KEYWORD_LENGTH && !STOPWORDS.has(word)) || []
+}
+
+export function sharesKeyword(a: string, b: string): boolean {
+  const words = new Set(keywords(b))
+  return keywords(a).some(word => words.has(word))
+}
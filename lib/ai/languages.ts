@@ -0,0 +1,35 @@
+export interface SupportedLanguage {
+  code: string
+  name: string // English name, as reported by Whisper
+  nativeName: string
+  speechLocale: string // BCP 47 locale for the Web Speech API
+}
+
+export const DEFAULT_LANGUAGE = 'en'
+
+// Languages with localized crisis responses and resources
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = [
+  { code: 'en', name: 'english', nativeName: 'English', speechLocale: 'en-US' },
+  { code: 'es', name: 'spanish', nativeName: 'Español', speechLocale: 'es-ES' },
+  { code: 'fr', name: 'french', nativeName: 'Français', speechLocale: 'fr-FR' },
+  { code: 'de', name: 'german', nativeName: 'Deutsch', speechLocale: 'de-DE' },
+  { code: 'pt', name: 'portuguese', nativeName: 'Português', speechLocale: 'pt-BR' },
+  { code: 'it', name: 'italian', nativeName: 'Italiano', speechLocale: 'it-IT' },
+]
+
+/**
+ * Map a language code, locale ("es-MX") or English name ("spanish") to a
+ * supported language code. Returns undefined for anything unsupported.
+ */
+export function normalizeLanguage(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined
+
+  const lower = value.trim().toLowerCase()
+  const code = lower.split(/[-_]/)[0]
+
+  return SUPPORTED_LANGUAGES.find(l => l.code === code || l.name === lower)?.code
+}
+
+export function getLanguage(code?: string): SupportedLanguage {
+  return SUPPORTED_LANGUAGES.find(l => l.code === code) || SUPPORTED_LANGUAGES[0]
+}
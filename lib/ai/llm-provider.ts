@@ -0,0 +1,436 @@
+import OpenAI from 'openai'
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+
+export type LLMTask = 'coaching' | 'crisis' | 'summarization' | 'roleplay' | 'evaluation' | 'emotion'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  toolCalls?: LLMToolCall[] // Assistant messages that called tools
+  toolCallId?: string // Tool messages: the call this is the result of
+}
+
+export interface LLMToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown> // JSON Schema
+}
+
+export interface LLMToolCall {
+  id: string
+  name: string
+  arguments: string // JSON as the model wrote it; validate before use
+}
+
+export interface LLMToolCompletion {
+  content: string
+  toolCalls: LLMToolCall[]
+}
+
+export type LLMStreamChunk =
+  | { type: 'text', text: string }
+  | { type: 'tool_calls', toolCalls: LLMToolCall[] } // Once, after the last text, when the model called tools
+
+export interface LLMTaskConfig {
+  model: string
+  temperature: number
+  maxTokens: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+}
+
+export type LLMTaskConfigOverrides = Partial<Record<LLMTask, Partial<LLMTaskConfig>>>
+
+export interface LLMCompletionRequest {
+  task: LLMTask
+  messages: LLMMessage[]
+  responseFormat?: 'text' | 'json'
+  tools?: LLMToolDefinition[]
+  toolChoice?: 'auto' | 'none' // 'none' keeps the tools in view without calling them
+}
+
+export interface LLMProvider {
+  name: string
+  complete: (request: LLMCompletionRequest) => Promise<string>
+  // Like complete, but the model may call request.tools instead of answering
+  completeWithTools: (request: LLMCompletionRequest) => Promise<LLMToolCompletion>
+  stream: (request: LLMCompletionRequest) => AsyncIterable<string>
+  // Like stream, but the model may call request.tools instead of answering
+  streamWithTools: (request: LLMCompletionRequest) => AsyncIterable<LLMStreamChunk>
+  isHealthy: () => Promise<boolean>
+}
+
+export const DEFAULT_TASK_CONFIG: Record<LLMTask, LLMTaskConfig> = {
+  coaching: {
+    model: 'gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 400,
+    presencePenalty: 0.1,
+    frequencyPenalty: 0.1,
+  },
+  crisis: {
+    model: 'gpt-4o-mini',
+    temperature: 0.1,
+    maxTokens: 200,
+  },
+  summarization: {
+    model: 'gpt-4o-mini',
+    temperature: 0.2,
+    maxTokens: 350,
+  },
+  roleplay: {
+    model: 'gpt-4o-mini',
+    temperature: 0.8,
+    maxTokens: 200,
+    presencePenalty: 0.3,
+  },
+  evaluation: {
+    model: 'gpt-4o-mini',
+    temperature: 0.2,
+    maxTokens: 300,
+  },
+  emotion: {
+    model: 'gpt-4o-mini',
+    temperature: 0,
+    maxTokens: 150,
+  },
+}
+
+function resolveTaskConfig(
+  base: Record<LLMTask, LLMTaskConfig>,
+  overrides: LLMTaskConfigOverrides = {}
+): Record<LLMTask, LLMTaskConfig> {
+  const resolved = { ...base }
+  for (const task of Object.keys(base) as LLMTask[]) {
+    resolved[task] = { ...base[task], ...overrides[task] }
+  }
+  return resolved
+}
+
+/**
+ * OpenAI chat completions provider
+ */
+export class OpenAILLMProvider implements LLMProvider {
+  name = 'openai'
+  protected client: OpenAI
+  protected tasks: Record<LLMTask, LLMTaskConfig>
+
+  constructor(options: { apiKey?: string, baseURL?: string, tasks?: LLMTaskConfigOverrides } = {}) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey || process.env.OPENAI_API_KEY || 'dummy-key-for-build',
+      baseURL: options.baseURL,
+    })
+    this.tasks = resolveTaskConfig(DEFAULT_TASK_CONFIG, options.tasks)
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: false,
+    })
+
+    return completion.choices[0]?.message?.content || ''
+  }
+
+  async completeWithTools(request: LLMCompletionRequest): Promise<LLMToolCompletion> {
+    const completion = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: false,
+    })
+    const message = completion.choices[0]?.message
+
+    return {
+      content: message?.content || '',
+      toolCalls: (message?.tool_calls || [])
+        .filter(call => call.type === 'function')
+        .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }))
+    }
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+    })
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content
+      if (token) yield token
+    }
+  }
+
+  async *streamWithTools(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+    })
+
+    // Tool calls arrive in fragments keyed by index; only whole calls are useful
+    const calls: LLMToolCall[] = []
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta
+      if (delta?.content) yield { type: 'text', text: delta.content }
+
+      for (const fragment of delta?.tool_calls || []) {
+        const call = calls[fragment.index] ||= { id: '', name: '', arguments: '' }
+        call.id ||= fragment.id || ''
+        call.name += fragment.function?.name || ''
+        call.arguments += fragment.function?.arguments || ''
+      }
+    }
+
+    const toolCalls = calls.filter(call => call?.name)
+    if (toolCalls.length > 0) yield { type: 'tool_calls', toolCalls }
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.client.models.list()
+      return true
+    } catch (error) {
+      console.error(`[${this.name}] Health check failed:`, error)
+      return false
+    }
+  }
+
+  protected buildParams(request: LLMCompletionRequest) {
+    const config = this.tasks[request.task]
+
+    return {
+      model: config.model,
+      messages: request.messages.map(toOpenAIMessage),
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      presence_penalty: config.presencePenalty,
+      frequency_penalty: config.frequencyPenalty,
+      ...(request.responseFormat === 'json'
+        ? { response_format: { type: 'json_object' as const } }
+        : {}),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({ type: 'function' as const, function: tool })),
+            tool_choice: request.toolChoice || 'auto',
+          }
+        : {}),
+    }
+  }
+}
+
+function toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content }
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    }
+  }
+  return { role: message.role, content: message.content }
+}
+
+/**
+ * Any server speaking the OpenAI chat API, e.g. llama.cpp server or Ollama
+ */
+export class OpenAICompatibleLLMProvider extends OpenAILLMProvider {
+  name = 'openai-compatible'
+
+  constructor(options: { baseURL: string, model: string, apiKey?: string, tasks?: LLMTaskConfigOverrides }) {
+    const localTasks: LLMTaskConfigOverrides = {}
+    for (const task of Object.keys(DEFAULT_TASK_CONFIG) as LLMTask[]) {
+      localTasks[task] = { model: options.model }
+    }
+
+    super({
+      // Local servers ignore the key, but the client requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+      tasks: mergeOverrides(localTasks, options.tasks),
+    })
+  }
+}
+
+export type ScriptedReply = string | ((request: LLMCompletionRequest) => string)
+
+/**
+ * Deterministic provider for offline development, tests and CI.
+ * Replies are taken from the per-task script in order; the last entry repeats.
+ * For completeWithTools and streamWithTools, a reply of the form {"tool_calls": [{"name", "arguments"}]}
+ * is returned as tool calls.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  name = 'scripted'
+  readonly calls: LLMCompletionRequest[] = []
+  private script: Partial<Record<LLMTask, ScriptedReply[]>>
+  private cursors: Partial<Record<LLMTask, number>> = {}
+
+  constructor(script: Partial<Record<LLMTask, ScriptedReply | ScriptedReply[]>> = {}) {
+    this.script = {}
+    for (const [task, replies] of Object.entries(script)) {
+      this.script[task as LLMTask] = Array.isArray(replies) ? replies : [replies]
+    }
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    this.calls.push(request)
+    return this.nextReply(request)
+  }
+
+  async completeWithTools(request: LLMCompletionRequest): Promise<LLMToolCompletion> {
+    this.calls.push(request)
+    const reply = this.nextReply(request)
+
+    let scripted: { tool_calls?: { name: string, arguments?: unknown }[] } = {}
+    try {
+      scripted = JSON.parse(reply)
+    } catch {
+      // Plain text reply
+    }
+    if (request.toolChoice === 'none' || !Array.isArray(scripted?.tool_calls)) {
+      return { content: reply, toolCalls: [] }
+    }
+
+    return {
+      content: '',
+      toolCalls: scripted.tool_calls.map((call, i) => ({
+        id: `call_${this.calls.length}_${i}`,
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {})
+      }))
+    }
+  }
+
+  async *stream(request: LLMCompletionRequest): AsyncIterable<string> {
+    this.calls.push(request)
+    const reply = this.nextReply(request)
+
+    // Emit word-sized tokens so streaming consumers see incremental output
+    for (const token of reply.match(/\S+\s*/g) || []) {
+      yield token
+    }
+  }
+
+  async *streamWithTools(request: LLMCompletionRequest): AsyncIterable<LLMStreamChunk> {
+    const completion = await this.completeWithTools(request)
+
+    for (const text of completion.content.match(/\S+\s*/g) || []) {
+      yield { type: 'text', text }
+    }
+    if (completion.toolCalls.length > 0) yield { type: 'tool_calls', toolCalls: completion.toolCalls }
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return true
+  }
+
+  private nextReply(request: LLMCompletionRequest): string {
+    const replies = this.script[request.task]
+    if (!replies || replies.length === 0) {
+      return defaultScriptedReply(request)
+    }
+
+    const cursor = this.cursors[request.task] || 0
+    this.cursors[request.task] = cursor + 1
+    const reply = replies[Math.min(cursor, replies.length - 1)]
+
+    return typeof reply === 'function' ? reply(request) : reply
+  }
+}
+
+function defaultScriptedReply(request: LLMCompletionRequest): string {
+  const lastUser = [...request.messages].reverse().find(m => m.role === 'user')
+
+  switch (request.task) {
+    case 'crisis':
+      return JSON.stringify({
+        is_crisis: 'no',
+        severity: 'none',
+        category: 'none',
+        triggers: [],
+        requires_escalation: 'no'
+      })
+    case 'summarization':
+    case 'evaluation':
+    case 'emotion':
+      // Empty result makes callers fall back to their local heuristics
+      return '{}'
+    case 'roleplay':
+      return "I hear you, but I'm still frustrated. It feels like I'm the only one who notices these things."
+    case 'coaching':
+    default: {
+      const topic = (lastUser?.content || '').split('\n')[0].slice(0, 80)
+      const message = `It sounds like this has been weighing on you. I hear you saying: "${topic}". Tell me more about what happened and how you felt in that moment.`
+
+      if (request.responseFormat !== 'json') return message
+
+      return JSON.stringify({
+        message,
+        skill: 'active_listening',
+        practice_exercise: 'Try repeating back what your partner said in your own words',
+        follow_up_question: 'What would you most like your partner to understand?',
+        confidence: 0.8
+      })
+    }
+  }
+}
+
+function mergeOverrides(
+  base: LLMTaskConfigOverrides,
+  overrides: LLMTaskConfigOverrides = {}
+): LLMTaskConfigOverrides {
+  const merged: LLMTaskConfigOverrides = { ...base }
+  for (const [task, config] of Object.entries(overrides)) {
+    merged[task as LLMTask] = { ...merged[task as LLMTask], ...config }
+  }
+  return merged
+}
+
+/**
+ * Per-task overrides from the environment, e.g. LLM_COACHING_MODEL,
+ * LLM_CRISIS_TEMPERATURE or LLM_COACHING_MAX_TOKENS
+ */
+function taskOverridesFromEnv(): LLMTaskConfigOverrides {
+  const overrides: LLMTaskConfigOverrides = {}
+
+  for (const task of Object.keys(DEFAULT_TASK_CONFIG) as LLMTask[]) {
+    const prefix = `LLM_${task.toUpperCase()}`
+    const config: Partial<LLMTaskConfig> = {}
+
+    if (process.env[`${prefix}_MODEL`]) config.model = process.env[`${prefix}_MODEL`]
+    if (process.env[`${prefix}_TEMPERATURE`]) config.temperature = parseFloat(process.env[`${prefix}_TEMPERATURE`]!)
+    if (process.env[`${prefix}_MAX_TOKENS`]) config.maxTokens = parseInt(process.env[`${prefix}_MAX_TOKENS`]!)
+
+    if (Object.keys(config).length > 0) {
+      overrides[task] = config
+    }
+  }
+
+  return overrides
+}
+
+/**
+ * Pick a provider from LLM_PROVIDER: 'openai' (default), 'local' or 'scripted'
+ */
+export function createLLMProvider(): LLMProvider {
+  const tasks = taskOverridesFromEnv()
+
+  switch (process.env.LLM_PROVIDER) {
+    case 'local':
+      return new OpenAICompatibleLLMProvider({
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        tasks,
+      })
+    case 'scripted':
+      return new ScriptedLLMProvider()
+    case 'openai':
+    default:
+      return new OpenAILLMProvider({ tasks })
+  }
+}
@@ -0,0 +1,107 @@
+import { COACHING_OUTPUT_INSTRUCTIONS } from '@/lib/ai/coaching-response'
+import { describeConflict, type ConflictReading } from '@/lib/ai/conflict-estimator'
+import { COUPLES_GUIDANCE, describePerspectives } from '@/lib/ai/couples-session'
+import { describeGoals } from '@/lib/coaching/goal-tracker'
+import type { RenderedTemplate } from '@/lib/coaching/template-service'
+import { DEFAULT_LANGUAGE, getLanguage, normalizeLanguage } from '@/lib/ai/languages'
+import { sharesKeyword } from '@/lib/ai/keywords'
+import type { CouplesState, Goal, PartnerId, UserPreferences } from '@/types'
+
+export interface PromptInputs {
+  preferences?: UserPreferences | null
+  goals?: Goal[] // The user's tracked goals; only active ones are described
+  grounding?: RenderedTemplate | null
+  couples?: CouplesState
+  partner?: PartnerId
+  conflict?: ConflictReading
+  userText?: string // Used to pick the goals relevant to this turn
+  language?: string // Language of the current message; overrides the preferred language
+}
+
+// Tone and directness for each communication style
+const STYLE_GUIDANCE: Record<UserPreferences['communicationStyle'], string> = {
+  direct: 'The user prefers a direct style. Be clear and concrete, name the issue plainly and give specific next steps. Keep validation brief.',
+  indirect: 'The user prefers an indirect style. Be gentle and tentative: offer suggestions ("you might consider...") and questions rather than instructions, and soften observations.',
+  conflict_avoidant: 'The user tends to avoid conflict. Go slowly and reassure them that disagreement can be safe. Frame issues as shared problem-solving, suggest small low-risk steps and avoid confrontational wording.'
+}
+
+// Framing and coaching examples for each cultural context
+const CULTURAL_FRAMING: Record<UserPreferences['culturalContext'], string> = {
+  individualist: `Frame coaching around each partner's personal needs, feelings and autonomy.
+Example I-statement: "I feel unheard when plans change without me, and I need us to decide together."
+Example exercise: each partner names one personal need and one way the other can support it.`,
+  collectivist: `Frame coaching around harmony, shared obligations and the wider family. Treat family involvement as a value, not a problem, and avoid advice that implies distancing from family.
+Example I-statement: "I feel worried that our family time is slipping away, and I want us to protect it together."
+Example exercise: talk about what each of you wants for the family as a whole before discussing who does what.`,
+  hierarchical: `Respect roles, seniority and the importance of saving face. Suggest respectful, private ways to raise concerns and avoid advice that openly challenges elders or authority.
+Example I-statement: "I would appreciate a quiet moment to share how I feel about how decisions are made at home."
+Example exercise: choose a calm, private moment and open with appreciation before raising one concern.`
+}
+
+/**
+ * Assemble Emma's system prompt from the base persona and the per-session
+ * sections: user preferences, tracked goals, couples context, conflict level,
+ * template grounding and reply language.
+ */
+export function composeSystemPrompt(basePrompt: string, inputs: PromptInputs = {}): string {
+  const sections = [basePrompt]
+
+  if (inputs.preferences) {
+    sections.push(describePreferences(inputs.preferences, inputs.userText))
+  }
+
+  const goals = inputs.goals && describeGoals(inputs.goals, inputs.userText)
+  if (goals) {
+    sections.push(goals)
+  }
+
+  if (inputs.couples) {
+    sections.push(`${COUPLES_GUIDANCE}\n\n${describePerspectives(inputs.couples, inputs.partner)}`)
+  }
+
+  const conflict = inputs.conflict && describeConflict(inputs.conflict)
+  if (conflict) {
+    sections.push(conflict)
+  }
+
+  if (inputs.grounding) {
+    const grounding = inputs.grounding
+    sections.push(`Clinically reviewed guidance for ${grounding.skill} (adapt it, don't quote it verbatim):\n${grounding.text}\nSuggested exercises: ${grounding.practiceExercises.join('; ')}`)
+  }
+
+  sections.push(describeLanguage(inputs.language || inputs.preferences?.preferredLanguage))
+  sections.push(COACHING_OUTPUT_INSTRUCTIONS)
+  return sections.join('\n\n')
+}
+
+export function describePreferences(preferences: UserPreferences, userText?: string): string {
+  const lines = [
+    `Coaching style for this user:\n${STYLE_GUIDANCE[preferences.communicationStyle]}`,
+    CULTURAL_FRAMING[preferences.culturalContext]
+  ]
+
+  const goals = preferences.relationshipGoals.filter(Boolean)
+  if (goals.length > 0) {
+    const relevant = userText ? goals.filter(goal => sharesKeyword(goal, userText)) : []
+    lines.push(
+      `The user's relationship goals: ${goals.join('; ')}.` +
+      (relevant.length > 0
+        ? ` Most relevant right now: ${relevant.join('; ')} - connect your guidance to this where it fits.`
+        : ' Mention a goal only when it naturally connects to what they are discussing.')
+    )
+  }
+
+  return lines.join('\n\n')
+}
+
+export function describeLanguage(value?: string): string {
+  const keepEnglish = 'Keep the JSON keys and the "skill" value in English.'
+  const language = normalizeLanguage(value)
+
+  if (!language || language === DEFAULT_LANGUAGE) {
+    return `Reply in the language the user writes in. ${keepEnglish}`
+  }
+
+  const { nativeName, name } = getLanguage(language)
+  return `The user is speaking ${nativeName} (${name}). Write "message", "practice_exercise" and "follow_up_question" in ${nativeName}, using natural, everyday phrasing rather than a literal translation. ${keepEnglish}`
+}
@@ -0,0 +1,131 @@
+import {
+  createPromptVersionRepository,
+  type PromptVersionRepository
+} from '@/lib/database/prompt-repository'
+
+export const SYSTEM_PROMPT_KEY = 'emma_system'
+const CACHE_TTL_MS = 60 * 1000
+
+export interface PromptVariant {
+  version: string
+  text: string
+  weight: number // Share of sessions relative to the other active versions
+  description?: string
+}
+
+// Emma's personality and expertise; served when no versions are configured
+export const BASELINE_PROMPT: PromptVariant = {
+  version: 'v1',
+  weight: 1,
+  description: 'Baseline Emma persona',
+  text: `You are Emma, a compassionate AI relationship coach specializing in real-time support for complex relationship dynamics.
+
+Your core attributes:
+- Warm, empathetic, and non-judgmental
+- Expert in relationship psychology and communication
+- Trained in crisis detection and de-escalation
+- Culturally sensitive and inclusive
+- Solution-focused while validating emotions
+
+Your approach:
+1. Active listening - Reflect back what you hear
+2. Validate emotions - Acknowledge feelings without judgment
+3. Ask clarifying questions - Understand the full context
+4. Offer practical guidance - Actionable steps they can take
+5. Ensure safety - Detect crisis indicators immediately
+
+Crisis indicators to watch for:
+- Mentions of violence, harm, or threats
+- Extreme emotional distress or hopelessness
+- Child safety concerns
+- Substance abuse affecting relationships
+- Suicidal ideation or self-harm
+
+CRITICAL: If you detect crisis indicators, respond with empathy while flagging for human intervention.`
+}
+
+/**
+ * Versioned system prompts with deterministic A/B assignment. Each session
+ * hashes to one of the active versions in proportion to its traffic weight,
+ * so a session keeps its variant across requests and server instances.
+ */
+export class PromptRegistry {
+  private variants: PromptVariant[] = []
+  private loadedAt = 0
+  // Every version seen, so pinned sessions resolve without another lookup
+  private byVersion = new Map<string, PromptVariant>([[BASELINE_PROMPT.version, BASELINE_PROMPT]])
+
+  constructor(private repository: PromptVersionRepository = createPromptVersionRepository()) {}
+
+  /**
+   * Variant for a session. A session keeps its pinned version while that
+   * version stays active.
+   */
+  async assign(sessionId: string, pinnedVersion?: string): Promise<PromptVariant> {
+    const variants = await this.activeVariants()
+    return variants.find(v => v.version === pinnedVersion) || pickVariant(sessionId, variants)
+  }
+
+  textFor(version?: string): string {
+    return (version && this.byVersion.get(version) || BASELINE_PROMPT).text
+  }
+
+  async activeVariants(): Promise<PromptVariant[]> {
+    if (this.variants.length > 0 && Date.now() - this.loadedAt < CACHE_TTL_MS) {
+      return this.variants
+    }
+
+    try {
+      const rows = await this.repository.findActive(SYSTEM_PROMPT_KEY)
+      const variants = rows
+        .map(row => ({
+          version: row.version,
+          text: row.prompt_text,
+          weight: row.traffic_weight,
+          description: row.description || undefined
+        }))
+        .sort((a, b) => a.version.localeCompare(b.version))
+
+      this.variants = variants.length > 0 ? variants : [BASELINE_PROMPT]
+      this.loadedAt = Date.now()
+      variants.forEach(v => this.byVersion.set(v.version, v))
+    } catch (error) {
+      // Keep serving the last known versions rather than failing the turn
+      console.error(`Failed to load prompt versions (${this.repository.name}):`, error)
+      if (this.variants.length === 0) this.variants = [BASELINE_PROMPT]
+    }
+
+    return this.variants
+  }
+}
+
+/**
+ * Deterministically pick a variant for a session ID, weighted by traffic share
+ */
+export function pickVariant(sessionId: string, variants: PromptVariant[]): PromptVariant {
+  const totalWeight = variants.reduce((sum, v) => sum + Math.max(0, v.weight), 0)
+  if (totalWeight === 0) return variants[0] || BASELINE_PROMPT
+
+  let point = (hashSessionId(sessionId) / 0x100000000) * totalWeight
+  for (const variant of variants) {
+    point -= Math.max(0, variant.weight)
+    if (point < 0) return variant
+  }
+  return variants[variants.length - 1]
+}
+
+// 32-bit FNV-1a with a final avalanche so similar IDs spread across buckets
+function hashSessionId(sessionId: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < sessionId.length; i++) {
+    hash ^= sessionId.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  hash = Math.imul(hash, 0xc2b2ae35)
+  hash ^= hash >>> 16
+  return hash >>> 0
+}
@@ -0,0 +1,69 @@
+import { summarizeEmotions } from '@/lib/ai/emotion-summary'
+import type { SessionUpdate } from '@/types/database'
+import type { ConversationContext, CrisisDetectionResult, SessionUsage } from '@/types'
+
+const CRISIS_LEVELS: Record<string, number> = {
+  none: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+  emergency: 3
+}
+
+export function emptyUsage(): SessionUsage {
+  return { requests: 0, errors: 0, totalResponseMs: 0, crisisLevel: 0, crisisIndicators: [], escalated: false }
+}
+
+/**
+ * Add one handled message to the session's running usage
+ */
+export function recordUsage(
+  context: ConversationContext,
+  turn: { responseMs?: number, crisis?: CrisisDetectionResult, failed?: boolean }
+): SessionUsage {
+  const usage = context.usage || emptyUsage()
+  usage.requests++
+
+  if (turn.failed) {
+    usage.errors++
+  } else if (turn.responseMs !== undefined) {
+    usage.totalResponseMs += Math.max(0, Math.round(turn.responseMs))
+  }
+
+  const crisis = turn.crisis
+  if (crisis) {
+    usage.crisisLevel = Math.max(usage.crisisLevel, CRISIS_LEVELS[crisis.severity] ?? 0)
+    if (crisis.isCrisis && crisis.category !== 'none' && !usage.crisisIndicators.includes(crisis.category)) {
+      usage.crisisIndicators.push(crisis.category)
+    }
+    usage.escalated = usage.escalated || crisis.escalationRequired || (crisis.isCrisis && crisis.immediateAction)
+    if (crisis.isCrisis) usage.lastCrisisAt = Date.now()
+  }
+
+  context.usage = usage
+  return usage
+}
+
+/**
+ * Sessions row fields describing what happened in the session so far. With
+ * no context (it expired or was cleared) there is nothing new to write, and
+ * what earlier updates stored is left as it is.
+ */
+export function usageToSessionUpdate(context: ConversationContext | null): SessionUpdate {
+  if (!context) return {}
+
+  const usage = context.usage || emptyUsage()
+  const succeeded = usage.requests - usage.errors
+
+  return {
+    skills_practiced: context.skillsPracticed.length ? [...context.skillsPracticed] : null,
+    emotion_summary: JSON.parse(JSON.stringify(summarizeEmotions(context.emotionHistory))),
+    crisis_level: usage.crisisLevel,
+    crisis_indicators: usage.crisisIndicators.length > 0 ? [...usage.crisisIndicators] : null,
+    human_escalation_triggered: usage.escalated,
+    // Average per successful request
+    response_time_ms: succeeded > 0 ? Math.round(usage.totalResponseMs / succeeded) : null,
+    api_calls_count: usage.requests,
+    error_count: usage.errors
+  }
+}
@@ -0,0 +1,80 @@
+import { zodFunction } from 'openai/helpers/zod'
+import type { z } from 'zod'
+import type { LLMToolCall, LLMToolDefinition } from '@/lib/ai/llm-provider'
+import type { ConversationContext } from '@/types'
+
+export interface ToolContext {
+  userId?: string
+  conversation: ConversationContext
+}
+
+export interface EmmaTool<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string
+  description: string // Tells the model when to use the tool
+  parameters: Schema
+  // Tools with side effects wait for the user's confirmation; others run straight away
+  requiresConfirmation: boolean
+  // One line the user confirms, e.g. 'Add a goal: "Listen before answering"'
+  describe: (args: z.infer<Schema>) => string
+  execute: (args: z.infer<Schema>, context: ToolContext) => Promise<unknown>
+}
+
+export type ValidatedToolCall =
+  | { tool: EmmaTool, args: Record<string, unknown>, error?: undefined }
+  | { tool?: undefined, args?: undefined, error: string }
+
+/**
+ * Keeps a tool's argument types tied to its schema
+ */
+export function defineTool<Schema extends z.ZodTypeAny>(tool: EmmaTool<Schema>): EmmaTool<Schema> {
+  return tool
+}
+
+/**
+ * The tools Emma may call. Arguments from the model are validated against
+ * each tool's zod schema before they are shown to the user or run.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, EmmaTool>()
+
+  constructor(tools: EmmaTool[] = []) {
+    tools.forEach(tool => this.register(tool))
+  }
+
+  register(tool: EmmaTool): void {
+    this.tools.set(tool.name, tool)
+  }
+
+  get size(): number {
+    return this.tools.size
+  }
+
+  definitions(): LLMToolDefinition[] {
+    return [...this.tools.values()].map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: zodFunction({ name: tool.name, parameters: tool.parameters }).function.parameters
+    }))
+  }
+
+  parse(call: Pick<LLMToolCall, 'name' | 'arguments'>): ValidatedToolCall {
+    let args: unknown
+    try {
+      args = JSON.parse(call.arguments || '{}')
+    } catch {
+      return { error: 'arguments are not valid JSON' }
+    }
+    return this.validate(call.name, args)
+  }
+
+  validate(name: string, args: unknown): ValidatedToolCall {
+    const tool = this.tools.get(name)
+    if (!tool) return { error: `unknown tool "${name}"` }
+
+    const result = tool.parameters.safeParse(args)
+    if (!result.success) {
+      return { error: result.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`).join('; ') }
+    }
+    return { tool, args: result.data }
+  }
+}
@@ -0,0 +1,49 @@
+import { SESSION_TTL_SECONDS, signSessionToken, verifySessionToken } from '@/lib/auth/session-token'
+
+const NOW = Date.parse('2026-03-14T12:00:00Z')
+const IDENTITY = { userId: 'user-1', isAnonymous: true }
+
+function swapPart(token: string, index: number, value: string): string {
+  const parts = token.split('.')
+  parts[index] = value
+  return parts.join('.')
+}
+
+describe('session tokens', () => {
+  it('verify with the claims they were signed with', async () => {
+    const token = await signSessionToken(IDENTITY, NOW)
+
+    await expect(verifySessionToken(token, NOW)).resolves.toEqual({
+      sub: 'user-1',
+      anon: true,
+      iat: NOW / 1000,
+      exp: NOW / 1000 + SESSION_TTL_SECONDS
+    })
+  })
+
+  it('stop verifying once expired', async () => {
+    const token = await signSessionToken(IDENTITY, NOW)
+
+    await expect(verifySessionToken(token, NOW + (SESSION_TTL_SECONDS - 1) * 1000)).resolves.not.toBeNull()
+    await expect(verifySessionToken(token, NOW + SESSION_TTL_SECONDS * 1000)).resolves.toBeNull()
+  })
+
+  it('reject an altered payload or signature', async () => {
+    const token = await signSessionToken(IDENTITY, NOW)
+    const other = await signSessionToken({ userId: 'user-2', isAnonymous: false }, NOW)
+    const signature = token.split('.')[2]
+    const forgedPayload = Buffer.from(JSON.stringify({ sub: 'user-2', anon: false, iat: NOW / 1000, exp: NOW / 1000 + 60 })).toString('base64url')
+
+    await expect(verifySessionToken(swapPart(token, 1, forgedPayload), NOW)).resolves.toBeNull()
+    await expect(verifySessionToken(swapPart(other, 2, signature), NOW)).resolves.toBeNull()
+    await expect(verifySessionToken(swapPart(token, 2, signature.slice(0, -2)), NOW)).resolves.toBeNull()
+    await expect(verifySessionToken(swapPart(token, 0, 'v2'), NOW)).resolves.toBeNull()
+  })
+
+  it('reject missing and malformed tokens', async () => {
+    await expect(verifySessionToken(null, NOW)).resolves.toBeNull()
+    await expect(verifySessionToken('', NOW)).resolves.toBeNull()
+    await expect(verifySessionToken('not-a-token', NOW)).resolves.toBeNull()
+    await expect(verifySessionToken('v1.!!!.???', NOW)).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,21 @@
+/**
+ * Whether a request may run a scheduled job. Vercel Cron sends CRON_SECRET
+ * as a bearer token; without a secret, jobs are only reachable outside
+ * production.
+ */
+export function isAuthorizedJob(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return process.env.NODE_ENV !== 'production'
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+/**
+ * Whether a request may read operator-only APIs such as monitoring. Takes
+ * the same CRON_SECRET, sent as x-admin-key because Authorization carries
+ * the caller's session token on these routes.
+ */
+export function isAuthorizedAdmin(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return process.env.NODE_ENV !== 'production'
+  return request.headers.get('x-admin-key') === secret
+}
@@ -0,0 +1,40 @@
+export interface ClientIdentity {
+  userId: string
+  isAnonymous: boolean
+  linked: boolean // Attached to a Supabase auth account
+}
+
+let identity: Promise<ClientIdentity> | null = null
+
+/**
+ * This browser's identity, created on first use. The session token is an
+ * HTTP-only cookie that the browser sends with every API request.
+ */
+export function ensureIdentity(): Promise<ClientIdentity> {
+  if (!identity) {
+    identity = fetch('/api/auth/anonymous', { method: 'POST' }).then(async response => {
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+      }
+      return data as ClientIdentity
+    })
+    // Try again on the next call rather than caching the failure
+    identity.catch(() => { identity = null })
+  }
+  return identity
+}
+
+/**
+ * fetch for Emma's API: waits for an identity first and, if the session
+ * has expired, starts a new one and retries once
+ */
+export async function apiFetch(input: string, init?: RequestInit): Promise<Response> {
+  await ensureIdentity()
+  const response = await fetch(input, init)
+  if (response.status !== 401) return response
+
+  identity = null
+  await ensureIdentity()
+  return fetch(input, init)
+}
@@ -0,0 +1,85 @@
+import { getServiceClient } from '@/lib/database/supabase'
+import { createUserRepository, type UserRepository } from '@/lib/database/user-repository'
+import type { UserProfile } from '@/types/database'
+
+// Resolves a Supabase auth access token to the auth user's id; null when invalid
+export type AuthTokenVerifier = (accessToken: string) => Promise<string | null>
+
+export type IdentityError =
+  | 'auth_unavailable' // Supabase auth is not configured
+  | 'invalid_token'
+  | 'not_found' // No profile for the session, or none linked to the account
+  | 'already_linked' // The profile belongs to a different account
+  | 'account_in_use' // The account is linked to a different profile
+
+export interface IdentityResult {
+  user?: UserProfile
+  error?: IdentityError
+}
+
+/**
+ * Anonymous-first identity: every visitor gets a users row straight away
+ * and can later link it to a Supabase auth account, keeping their history.
+ */
+export class IdentityService {
+  constructor(
+    private users: UserRepository = createUserRepository(),
+    private verifyAuthToken: AuthTokenVerifier | null = createSupabaseTokenVerifier()
+  ) {}
+
+  createAnonymous(): Promise<UserProfile> {
+    return this.users.create({ is_anonymous: true })
+  }
+
+  async get(userId: string): Promise<UserProfile | null> {
+    const [user] = await this.users.findByIds([userId])
+    return user || null
+  }
+
+  /**
+   * Link the user's profile to their auth account. Linking again with the
+   * same account is a no-op.
+   */
+  async upgrade(userId: string, accessToken: string): Promise<IdentityResult> {
+    const authId = await this.resolveAuthId(accessToken)
+    if (authId.error) return { error: authId.error }
+
+    const user = await this.get(userId)
+    if (!user) return { error: 'not_found' }
+    if (user.auth_id === authId.value) return { user }
+    if (user.auth_id) return { error: 'already_linked' }
+
+    const linked = await this.users.findByAuthId(authId.value)
+    if (linked) return { error: 'account_in_use' }
+
+    return { user: await this.users.update(userId, { auth_id: authId.value, is_anonymous: false }) }
+  }
+
+  /**
+   * The profile linked to an auth account, e.g. when signing in on a new device
+   */
+  async signIn(accessToken: string): Promise<IdentityResult> {
+    const authId = await this.resolveAuthId(accessToken)
+    if (authId.error) return { error: authId.error }
+
+    const user = await this.users.findByAuthId(authId.value)
+    return user ? { user } : { error: 'not_found' }
+  }
+
+  private async resolveAuthId(accessToken: string): Promise<{ value?: string, error?: IdentityError }> {
+    if (!this.verifyAuthToken) return { error: 'auth_unavailable' }
+
+    const authId = await this.verifyAuthToken(accessToken)
+    return authId ? { value: authId } : { error: 'invalid_token' }
+  }
+}
+
+function createSupabaseTokenVerifier(): AuthTokenVerifier | null {
+  const client = getServiceClient()
+  if (!client) return null
+
+  return async accessToken => {
+    const { data, error } = await client.auth.getUser(accessToken)
+    return error || !data.user ? null : data.user.id
+  }
+}
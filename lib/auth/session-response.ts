@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE, SESSION_COOKIE_OPTIONS, signSessionToken } from '@/lib/auth/session-token'
+import type { IdentityError } from '@/lib/auth/identity-service'
+import type { UserProfile } from '@/types/database'
+
+const IDENTITY_ERRORS: Record<IdentityError, { status: number, message: string }> = {
+  auth_unavailable: { status: 503, message: 'Account sign-in is not available' },
+  invalid_token: { status: 401, message: 'Invalid or expired access token' },
+  not_found: { status: 404, message: 'No Emma profile found for this account' },
+  already_linked: { status: 409, message: 'This profile is already linked to a different account' },
+  account_in_use: { status: 409, message: 'This account is already linked to another Emma profile. Sign in instead.' }
+}
+
+// The token itself never goes in a body: it lives in an HTTP-only cookie
+export function identityPayload(user: UserProfile) {
+  return {
+    userId: user.id,
+    isAnonymous: user.is_anonymous,
+    linked: Boolean(user.auth_id),
+    createdAt: user.created_at
+  }
+}
+
+/**
+ * JSON response for the user that also issues them a fresh session cookie
+ */
+export async function respondWithSession(user: UserProfile, init?: { status?: number }): Promise<NextResponse> {
+  const response = NextResponse.json(identityPayload(user), init)
+  const token = await signSessionToken({ userId: user.id, isAnonymous: user.is_anonymous })
+  response.cookies.set(SESSION_COOKIE, token, SESSION_COOKIE_OPTIONS)
+  return response
+}
+
+export function clearSession(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', { ...SESSION_COOKIE_OPTIONS, maxAge: 0 })
+  return response
+}
+
+export function identityErrorResponse(error: IdentityError): NextResponse {
+  const { status, message } = IDENTITY_ERRORS[error]
+  return NextResponse.json({ error: message }, { status })
+}
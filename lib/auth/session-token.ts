@@ -0,0 +1,99 @@
+// Signed identity tokens, verified by middleware on every API request.
+// Web Crypto only, so this runs in the Edge runtime as well as Node.
+
+export const SESSION_COOKIE = 'emma_session'
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60
+const TOKEN_VERSION = 'v1'
+
+export interface SessionClaims {
+  sub: string // users.id
+  anon: boolean
+  iat: number // seconds
+  exp: number
+}
+
+export const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: SESSION_TTL_SECONDS
+}
+
+export async function signSessionToken(
+  identity: { userId: string, isAnonymous: boolean },
+  now: number = Date.now()
+): Promise<string> {
+  const iat = Math.floor(now / 1000)
+  const claims: SessionClaims = { sub: identity.userId, anon: identity.isAnonymous, iat, exp: iat + SESSION_TTL_SECONDS }
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)))
+  const signature = await hmac(`${TOKEN_VERSION}.${payload}`)
+  return `${TOKEN_VERSION}.${payload}.${toBase64Url(signature)}`
+}
+
+/**
+ * Claims of a valid, unexpired token; null for anything else
+ */
+export async function verifySessionToken(token: string | null | undefined, now: number = Date.now()): Promise<SessionClaims | null> {
+  const [version, payload, signature] = token?.split('.') || []
+  if (version !== TOKEN_VERSION || !payload || !signature) return null
+
+  // Outside the try: a missing secret is a configuration error, not a bad token
+  const key = await signingKey()
+  try {
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), new TextEncoder().encode(`${version}.${payload}`))
+    if (!valid) return null
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null
+    return claims.exp * 1000 > now ? claims : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The token from the session cookie, or a bearer token for non-browser clients
+ */
+export function readSessionToken(request: { headers: Headers, cookies: { get: (name: string) => { value: string } | undefined } }): string | null {
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value
+  if (cookie) return cookie
+
+  const authorization = request.headers.get('authorization')
+  return authorization?.startsWith('Bearer ') ? authorization.slice(7) : null
+}
+
+async function hmac(data: string): Promise<Uint8Array> {
+  const key = await signingKey()
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)))
+}
+
+function signingKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(tokenSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+function tokenSecret(): string {
+  const secret = process.env.SESSION_TOKEN_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_TOKEN_SECRET is not configured')
+  }
+  return 'emma-development-sessions'
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
@@ -0,0 +1,68 @@
+import { EntitlementService, requiredTier } from '@/lib/billing/entitlement-service'
+import { InMemoryUsageRepository } from '@/lib/database/usage-repository'
+import { InMemoryUserRepository } from '@/lib/database/user-repository'
+
+const NOW = new Date('2026-03-14T18:30:00Z')
+
+async function createService() {
+  const users = new InMemoryUserRepository()
+  await users.create({ id: 'free-user' })
+  await users.create({ id: 'premium-user', subscription_tier: 'premium' })
+  return new EntitlementService(users, new InMemoryUsageRepository())
+}
+
+describe('EntitlementService', () => {
+  it('gives users without a profile the free tier', async () => {
+    const service = await createService()
+
+    const check = await service.check('unknown-user', 'messages', NOW)
+
+    expect(check.tier).toBe('free')
+    expect(check.quota).toMatchObject({ limit: 20, used: 0, remaining: 20 })
+  })
+
+  it('stops allowing messages once the daily allowance is used', async () => {
+    const service = await createService()
+
+    const quota = await service.record('free-user', 'messages', 20, NOW)
+    const check = await service.check('free-user', 'messages', NOW)
+
+    expect(quota.remaining).toBe(0)
+    expect(check.allowed).toBe(false)
+  })
+
+  it('measures voice in whole seconds against the minute allowance', async () => {
+    const service = await createService()
+
+    const quota = await service.record('free-user', 'voice_seconds', 12.2, NOW)
+
+    expect(quota).toMatchObject({ limit: 300, used: 13, remaining: 287 })
+  })
+
+  it('starts a fresh allowance at midnight UTC', async () => {
+    const service = await createService()
+    await service.record('free-user', 'messages', 20, NOW)
+
+    const today = await service.check('free-user', 'messages', NOW)
+    const tomorrow = await service.check('free-user', 'messages', today.quota.resetsAt)
+
+    expect(today.quota.resetsAt.toISOString()).toBe('2026-03-15T00:00:00.000Z')
+    expect(tomorrow.allowed).toBe(true)
+    expect(tomorrow.quota.used).toBe(0)
+  })
+
+  it('never limits premium users', async () => {
+    const service = await createService()
+    await service.record('premium-user', 'messages', 10000, NOW)
+
+    const check = await service.check('premium-user', 'messages', NOW)
+
+    expect(check.allowed).toBe(true)
+    expect(check.quota.remaining).toBeNull()
+  })
+
+  it('names the cheapest tier with a feature', () => {
+    expect(requiredTier('couplesMode')).toBe('couples')
+    expect(requiredTier('longTermMemory')).toBe('individual')
+  })
+})
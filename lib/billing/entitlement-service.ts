@@ -0,0 +1,123 @@
+import { createUsageRepository, type UsageMetric, type UsageRepository } from '@/lib/database/usage-repository'
+import { createUserRepository, type UserRepository } from '@/lib/database/user-repository'
+import type { SubscriptionTier } from '@/types'
+
+export interface Entitlements {
+  dailyMessages: number | null // null: unlimited
+  dailyVoiceMinutes: number | null
+  couplesMode: boolean
+  longTermMemory: boolean // Goals from earlier sessions inform coaching
+}
+
+export type EntitlementFeature = 'couplesMode' | 'longTermMemory'
+
+// Cheapest first
+export const SUBSCRIPTION_TIERS: SubscriptionTier[] = ['free', 'individual', 'couples', 'premium']
+
+export const TIER_ENTITLEMENTS: Record<SubscriptionTier, Entitlements> = {
+  free: { dailyMessages: 20, dailyVoiceMinutes: 5, couplesMode: false, longTermMemory: false },
+  individual: { dailyMessages: 200, dailyVoiceMinutes: 60, couplesMode: false, longTermMemory: true },
+  couples: { dailyMessages: 400, dailyVoiceMinutes: 120, couplesMode: true, longTermMemory: true },
+  premium: { dailyMessages: null, dailyVoiceMinutes: null, couplesMode: true, longTermMemory: true }
+}
+
+export interface Quota {
+  metric: UsageMetric
+  limit: number | null // In the metric's unit; null when unlimited
+  used: number
+  remaining: number | null
+  resetsAt: Date // Start of the next UTC day
+}
+
+export interface QuotaCheck {
+  allowed: boolean
+  tier: SubscriptionTier
+  entitlements: Entitlements
+  quota: Quota
+}
+
+export interface EntitlementStatus {
+  tier: SubscriptionTier
+  entitlements: Entitlements
+  quotas: Record<UsageMetric, Quota>
+}
+
+/**
+ * What each subscription tier may use, and daily usage against it. Callers
+ * decide what is exempt: crisis interactions are never checked or counted.
+ */
+export class EntitlementService {
+  constructor(
+    private users: UserRepository = createUserRepository(),
+    private usage: UsageRepository = createUsageRepository()
+  ) {}
+
+  /**
+   * Users without a profile get the free tier
+   */
+  async getTier(userId: string): Promise<SubscriptionTier> {
+    const [user] = await this.users.findByIds([userId])
+    return user?.subscription_tier || 'free'
+  }
+
+  async hasFeature(userId: string, feature: EntitlementFeature): Promise<boolean> {
+    return TIER_ENTITLEMENTS[await this.getTier(userId)][feature]
+  }
+
+  async check(userId: string, metric: UsageMetric, now: Date = new Date()): Promise<QuotaCheck> {
+    const tier = await this.getTier(userId)
+    const entitlements = TIER_ENTITLEMENTS[tier]
+    const used = await this.usage.get(userId, metric, periodOf(now))
+    const quota = toQuota(metric, limitFor(entitlements, metric), used, now)
+
+    return { allowed: quota.remaining === null || quota.remaining > 0, tier, entitlements, quota }
+  }
+
+  /**
+   * Count usage towards today's quota; returns the quota afterwards
+   */
+  async record(userId: string, metric: UsageMetric, amount: number, now: Date = new Date()): Promise<Quota> {
+    const tier = await this.getTier(userId)
+    const used = await this.usage.increment(userId, metric, periodOf(now), Math.max(0, Math.ceil(amount)))
+    return toQuota(metric, limitFor(TIER_ENTITLEMENTS[tier], metric), used, now)
+  }
+
+  async status(userId: string, now: Date = new Date()): Promise<EntitlementStatus> {
+    const [messages, voice] = await Promise.all([
+      this.check(userId, 'messages', now),
+      this.check(userId, 'voice_seconds', now)
+    ])
+
+    return {
+      tier: messages.tier,
+      entitlements: messages.entitlements,
+      quotas: { messages: messages.quota, voice_seconds: voice.quota }
+    }
+  }
+}
+
+/**
+ * The cheapest tier that includes a feature
+ */
+export function requiredTier(feature: EntitlementFeature): SubscriptionTier {
+  return SUBSCRIPTION_TIERS.find(tier => TIER_ENTITLEMENTS[tier][feature]) || 'premium'
+}
+
+function limitFor(entitlements: Entitlements, metric: UsageMetric): number | null {
+  if (metric === 'messages') return entitlements.dailyMessages
+  return entitlements.dailyVoiceMinutes === null ? null : entitlements.dailyVoiceMinutes * 60
+}
+
+function toQuota(metric: UsageMetric, limit: number | null, used: number, now: Date): Quota {
+  return {
+    metric,
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+  }
+}
+
+function periodOf(now: Date): string {
+  return now.toISOString().slice(0, 10)
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { requiredTier, type EntitlementFeature, type Quota, type QuotaCheck } from '@/lib/billing/entitlement-service'
+import type { SubscriptionTier } from '@/types'
+
+const FEATURE_LABELS: Record<EntitlementFeature, string> = {
+  couplesMode: 'Couples mode',
+  longTermMemory: 'Long-term memory'
+}
+
+export function quotaHeaders(tier: SubscriptionTier, quota: Quota): Record<string, string> {
+  return {
+    'X-Subscription-Tier': tier,
+    'X-Quota-Metric': quota.metric,
+    'X-Quota-Limit': quota.limit === null ? 'unlimited' : quota.limit.toString(),
+    'X-Quota-Remaining': quota.remaining === null ? 'unlimited' : quota.remaining.toString(),
+    'X-Quota-Reset': quota.resetsAt.toISOString(),
+  }
+}
+
+export function quotaPayload(quota: Quota) {
+  return {
+    metric: quota.metric,
+    limit: quota.limit,
+    used: quota.used,
+    remaining: quota.remaining,
+    resetsAt: quota.resetsAt.toISOString()
+  }
+}
+
+export function quotaExceededResponse(check: QuotaCheck): NextResponse {
+  const { tier, quota } = check
+  const allowance = quota.metric === 'voice_seconds'
+    ? `${Math.round((quota.limit || 0) / 60)} voice minutes`
+    : `${quota.limit} messages`
+  const retryAfter = Math.max(1, Math.ceil((quota.resetsAt.getTime() - Date.now()) / 1000))
+
+  return NextResponse.json(
+    {
+      error: `You've used today's ${allowance} on the ${tier} plan. Your allowance resets at midnight UTC, or you can upgrade for more. Messages about your safety are never limited.`,
+      code: 'quota_exceeded',
+      tier,
+      quota: quotaPayload(quota)
+    },
+    {
+      status: 429,
+      headers: { ...quotaHeaders(tier, quota), 'Retry-After': retryAfter.toString() }
+    }
+  )
+}
+
+export function featureUnavailableResponse(feature: EntitlementFeature, tier: SubscriptionTier): NextResponse {
+  const required = requiredTier(feature)
+
+  return NextResponse.json(
+    {
+      error: `${FEATURE_LABELS[feature]} is not included in the ${tier} plan. It is available from the ${required} plan.`,
+      code: 'feature_unavailable',
+      tier,
+      requiredTier: required
+    },
+    {
+      status: 403,
+      headers: { 'X-Subscription-Tier': tier }
+    }
+  )
+}
@@ -0,0 +1,86 @@
+import { CheckInScheduler } from '@/lib/coaching/check-in-scheduler'
+import { InMemoryCheckInRepository } from '@/lib/database/check-in-repository'
+import { InAppChannel, type NotificationChannel } from '@/lib/notifications/notification-channels'
+
+const NOW = new Date('2026-03-14T12:00:00Z')
+const DUE = new Date('2026-03-14T11:00:00Z')
+const LATER = new Date('2026-03-15T12:00:00Z')
+
+function channel(name: NotificationChannel['name'], deliver: NotificationChannel['deliver']): NotificationChannel {
+  return { name, deliver: jest.fn(deliver) }
+}
+
+function createScheduler(channels: NotificationChannel[] = [new InAppChannel()]): CheckInScheduler {
+  return new CheckInScheduler(new InMemoryCheckInRepository(), channels, 'https://emma.example/')
+}
+
+describe('CheckInScheduler.run', () => {
+  it('delivers each due check-in once across repeated runs', async () => {
+    const email = channel('email', async () => 'sent')
+    const checkIns = createScheduler([new InAppChannel(), email])
+    await checkIns.schedule('user-1', { prompt: 'How did the talk go?', dueAt: DUE, channels: ['email'] })
+    await checkIns.schedule('user-1', { prompt: 'Did you try the pause?', dueAt: LATER, channels: ['email'] })
+
+    const first = await checkIns.run(NOW)
+    const second = await checkIns.run(NOW)
+
+    expect(first.delivered).toBe(1)
+    expect(first.sent).toEqual({ in_app: 1, email: 1, push: 0 })
+    expect(second.delivered).toBe(0)
+    expect(email.deliver).toHaveBeenCalledTimes(1)
+    expect(email.deliver).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', url: 'https://emma.example/demo' }))
+  })
+
+  it('does not deliver a check-in claimed by an overlapping run', async () => {
+    const checkIns = createScheduler()
+    await checkIns.schedule('user-1', { prompt: 'How did the talk go?', dueAt: DUE })
+
+    const reports = await Promise.all([checkIns.run(NOW), checkIns.run(NOW)])
+
+    expect(reports.map(report => report.delivered).sort()).toEqual([0, 1])
+  })
+
+  it('records a failed channel on the check-in and keeps it waiting in the app', async () => {
+    const push = channel('push', async () => { throw new Error('subscription expired') })
+    const checkIns = createScheduler([new InAppChannel(), push])
+    const checkIn = await checkIns.schedule('user-1', { prompt: 'How did the talk go?', dueAt: DUE, channels: ['push', 'email'] })
+
+    const report = await checkIns.run(NOW)
+    const [stored] = await checkIns.list('user-1')
+
+    expect(report.errors).toEqual([{ checkInId: checkIn.id, channel: 'push', error: 'subscription expired' }])
+    expect(report.skipped.email).toBe(1)
+    expect(stored).toMatchObject({ status: 'delivered', deliveredAt: NOW, deliveryError: 'push: subscription expired' })
+    await expect(checkIns.pendingFollowUp('user-1', NOW)).resolves.toMatchObject({ id: checkIn.id })
+  })
+})
+
+describe('CheckInScheduler.takeFollowUp', () => {
+  it('opens one session with a follow-up, however many start at once', async () => {
+    const checkIns = createScheduler()
+    const checkIn = await checkIns.schedule('user-1', { prompt: 'How did the talk go?', dueAt: DUE })
+
+    const taken = await Promise.all([checkIns.takeFollowUp('user-1', NOW), checkIns.takeFollowUp('user-1', NOW)])
+    const later = await checkIns.takeFollowUp('user-1', NOW)
+
+    expect(taken.filter(Boolean)).toEqual([expect.objectContaining({ id: checkIn.id, status: 'completed' })])
+    expect(later).toBeNull()
+  })
+
+  it('takes the oldest due follow-up first', async () => {
+    const checkIns = createScheduler()
+    await checkIns.schedule('user-1', { prompt: 'Did you try the pause?', dueAt: DUE })
+    const older = await checkIns.schedule('user-1', { prompt: 'How did the talk go?', dueAt: new Date('2026-03-13T12:00:00Z') })
+
+    await expect(checkIns.takeFollowUp('user-1', NOW)).resolves.toMatchObject({ id: older.id })
+  })
+
+  it('leaves follow-ups that are not yet due or belong to someone else', async () => {
+    const checkIns = createScheduler()
+    await checkIns.schedule('user-1', { prompt: 'Did you try the pause?', dueAt: LATER })
+    await checkIns.schedule('user-2', { prompt: 'How did the talk go?', dueAt: DUE })
+
+    await expect(checkIns.takeFollowUp('user-1', NOW)).resolves.toBeNull()
+    await expect(checkIns.pendingFollowUp('user-2', NOW)).resolves.not.toBeNull()
+  })
+})
@@ -0,0 +1,102 @@
+import { buildMoodTimeline } from '@/lib/coaching/mood-timeline'
+import type { Json, Session } from '@/types/database'
+
+// A Wednesday; its week starts on Monday 2026-03-16
+const NOW = new Date('2026-03-18T12:00:00Z')
+
+function session(createdAt: string, emotionSummary: Json | null = null, skills: string[] | null = null): Session {
+  return {
+    id: `session-${createdAt}`,
+    user_id: 'user-1',
+    created_at: createdAt,
+    updated_at: createdAt,
+    session_type: 'coaching',
+    duration_seconds: 600,
+    completed: true,
+    encrypted_transcript: null,
+    encrypted_summary: null,
+    encryption_key_hash: null,
+    emotion_summary: emotionSummary,
+    skills_practiced: skills,
+    coaching_effectiveness_score: null,
+    practice_rubric: null,
+    crisis_level: 0,
+    crisis_indicators: null,
+    human_escalation_triggered: false,
+    response_time_ms: null,
+    api_calls_count: 1,
+    error_count: 0
+  }
+}
+
+function emotions(mood: number, readings: number = 1, dominant: string = 'joy'): Json {
+  return {
+    mood,
+    intensity: 0.5,
+    dominant,
+    confidence: 0.8,
+    progression: Array.from({ length: readings }, (_, i) => ({ timestamp: i, emotion: dominant, intensity: 0.5, sentiment: mood }))
+  }
+}
+
+describe('buildMoodTimeline', () => {
+  it('lists every week, with nothing charted for weeks without sessions', () => {
+    const timeline = buildMoodTimeline([session('2026-03-03T10:00:00Z', emotions(0.2), ['active_listening'])], 3, NOW)
+
+    expect(timeline.weeks.map(week => week.weekStart)).toEqual(['2026-03-02', '2026-03-09', '2026-03-16'])
+    expect(timeline.weeks[1]).toEqual({ weekStart: '2026-03-09', sessions: 0, mood: null, intensity: null, dominant: null, skillsPracticed: {} })
+    expect(timeline.weeks[0]).toMatchObject({ sessions: 1, mood: 0.2, dominant: 'joy', skillsPracticed: { active_listening: 1 } })
+    expect(timeline.trend).toBeNull()
+  })
+
+  it('returns empty weeks and no trend without sessions', () => {
+    const timeline = buildMoodTimeline([], 2, NOW)
+
+    expect(timeline.weeks.map(week => week.sessions)).toEqual([0, 0])
+    expect(timeline.trend).toBeNull()
+  })
+
+  it('starts weeks at midnight UTC on Monday and leaves out sessions outside the range', () => {
+    const timeline = buildMoodTimeline([
+      session('2026-03-01T23:59:59Z'),
+      session('2026-03-02T00:00:00Z'),
+      session('2026-03-15T23:59:59Z'),
+      session('2026-03-16T00:00:00Z'),
+      session('2026-03-23T00:00:00Z')
+    ], 3, NOW)
+
+    expect(timeline.weeks.map(week => week.sessions)).toEqual([1, 1, 1])
+  })
+
+  it('weights each session by its number of emotion readings', () => {
+    const timeline = buildMoodTimeline([
+      session('2026-03-16T10:00:00Z', emotions(0.6, 3, 'joy')),
+      session('2026-03-17T10:00:00Z', emotions(-0.2, 1, 'anger'))
+    ], 1, NOW)
+
+    expect(timeline.weeks[0]).toMatchObject({ sessions: 2, mood: 0.4, intensity: 0.5, dominant: 'joy' })
+  })
+
+  it('counts sessions with malformed emotion summaries without charting them', () => {
+    const timeline = buildMoodTimeline([
+      session('2026-03-16T10:00:00Z', 'joy'),
+      session('2026-03-16T11:00:00Z', [0.5, 0.4]),
+      session('2026-03-16T12:00:00Z', { mood: '0.5', intensity: 0.4, dominant: 'joy' }),
+      session('2026-03-16T13:00:00Z', { mood: 0.5, intensity: 0.4 }),
+      session('2026-03-16T14:00:00Z', { mood: 0.5, intensity: null, dominant: 'joy' }),
+      session('2026-03-16T15:00:00Z', { mood: -0.5, intensity: 0.4, dominant: 'sadness', progression: 'none' })
+    ], 1, NOW)
+
+    expect(timeline.weeks[0]).toMatchObject({ sessions: 6, mood: -0.5, intensity: 0.4, dominant: 'sadness' })
+  })
+
+  it('compares the earlier and later weeks that have a mood', () => {
+    const rising = [session('2026-03-03T10:00:00Z', emotions(-0.4)), session('2026-03-17T10:00:00Z', emotions(0.3))]
+    const flat = [session('2026-03-03T10:00:00Z', emotions(0.1)), session('2026-03-17T10:00:00Z', emotions(0.15))]
+    const falling = [session('2026-03-03T10:00:00Z', emotions(0.3)), session('2026-03-17T10:00:00Z', emotions(-0.4))]
+
+    expect(buildMoodTimeline(rising, 3, NOW).trend).toBe('improving')
+    expect(buildMoodTimeline(flat, 3, NOW).trend).toBe('steady')
+    expect(buildMoodTimeline(falling, 3, NOW).trend).toBe('declining')
+  })
+})
@@ -0,0 +1,66 @@
+import { createEmptyContext } from '@/lib/ai/conversation-store'
+import { ScriptedLLMProvider } from '@/lib/ai/llm-provider'
+import { SessionSummarizer } from '@/lib/coaching/session-summarizer'
+import { silenceConsole } from '@/test/emma'
+import type { ConversationContext } from '@/types'
+
+function contextWith(userMessages: string[], skills: string[] = []): ConversationContext {
+  const context = createEmptyContext('session-1', 'user-1')
+  context.turns = userMessages.map((content, i) => ({ id: `turn-${i}`, speaker: 'user', content, timestamp: new Date() }))
+  context.skillsPracticed = skills
+  return context
+}
+
+function summarizer(reply: string): SessionSummarizer {
+  return new SessionSummarizer(new ScriptedLLMProvider({ summarization: reply }))
+}
+
+silenceConsole()
+
+describe('SessionSummarizer', () => {
+  it("reads the model's themes, homework and next focus", async () => {
+    const reply = JSON.stringify({
+      themes: ['  Sharing   the chores ', '', 42, 'Feeling unheard'],
+      homework: [
+        { title: 'Reflect first', instructions: 'Repeat back what you heard.', skill: 'active_listening' },
+        { title: 'Made-up skill', instructions: 'Try something new.', skill: 'mind_reading' },
+        { title: 'No instructions' }
+      ],
+      next_focus: 'How the chores talk went.'
+    })
+
+    const summary = await summarizer(reply).summarize(contextWith(['We keep fighting about chores'], ['active_listening', 'unknown']))
+
+    expect(summary).toMatchObject({
+      themes: ['Sharing the chores', 'Feeling unheard'],
+      homework: [
+        { title: 'Reflect first', instructions: 'Repeat back what you heard.', skill: 'active_listening' },
+        { title: 'Made-up skill', instructions: 'Try something new.', skill: undefined }
+      ],
+      nextFocus: 'How the chores talk went.',
+      skillsPracticed: ['active_listening'],
+      generatedBy: 'llm'
+    })
+  })
+
+  it('falls back to its own summary when the reply is incomplete', async () => {
+    const reply = JSON.stringify({ themes: ['Chores'], homework: [], next_focus: 'Chores again.' })
+
+    const summary = await summarizer(reply).summarize(contextWith(['We never talk about money or chores'], ['empathy', 'i_statements']))
+
+    expect(summary?.generatedBy).toBe('heuristic')
+    expect(summary?.homework.map(exercise => exercise.skill)).toEqual(['i_statements', 'empathy'])
+    expect(summary?.nextFocus).toContain('i statements')
+  })
+
+  it('falls back when the reply is not JSON', async () => {
+    const summary = await summarizer('Here is your summary!').summarize(contextWith(['We keep fighting']))
+
+    expect(summary?.generatedBy).toBe('heuristic')
+    expect(summary?.homework).toEqual([expect.objectContaining({ skill: 'active_listening' })])
+  })
+
+  it('has nothing to summarize when the user never spoke', async () => {
+    await expect(summarizer('{}').summarize(contextWith([]))).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,64 @@
+import { parseSessionSummary, summaryToMarkdown, summaryToPdf } from '@/lib/coaching/session-summary-export'
+import type { SessionSummary } from '@/types'
+
+const STARTED_AT = '2026-03-14T18:30:00Z'
+
+const SUMMARY: SessionSummary = {
+  themes: ['Sharing the chores', 'Feeling unheard'],
+  emotions: {
+    dominant: 'frustration',
+    intensity: 0.6,
+    mood: -0.3,
+    confidence: 0.8,
+    progression: [
+      { timestamp: 1, emotion: 'frustration', intensity: 0.8, sentiment: -0.5 },
+      { timestamp: 2, emotion: 'frustration', intensity: 0.4, sentiment: -0.1 }
+    ]
+  },
+  skillsPracticed: ['active_listening', 'i_statements'],
+  homework: [
+    { title: 'Reflect first', instructions: 'Repeat back what you heard before answering.', skill: 'active_listening' },
+    { title: 'Plan the week', instructions: 'Split the chores together on Sunday.' }
+  ],
+  nextFocus: 'How the chores talk went.',
+  generatedBy: 'llm',
+  generatedAt: new Date('2026-03-14T19:00:00Z')
+}
+
+describe('parseSessionSummary', () => {
+  it('reads back a stored summary unchanged', () => {
+    expect(parseSessionSummary(JSON.parse(JSON.stringify(SUMMARY)))).toEqual(SUMMARY)
+  })
+
+  it('rejects malformed summaries', () => {
+    expect(parseSessionSummary(null)).toBeNull()
+    expect(parseSessionSummary('summary')).toBeNull()
+    expect(parseSessionSummary({ ...SUMMARY, themes: 'chores' })).toBeNull()
+    expect(parseSessionSummary({ ...SUMMARY, nextFocus: undefined })).toBeNull()
+  })
+})
+
+describe('summaryToMarkdown', () => {
+  it('writes each section in reading order', () => {
+    expect(summaryToMarkdown(SUMMARY, STARTED_AT)).toMatchSnapshot()
+  })
+
+  it('leaves out the feelings and skills sections when there are none', () => {
+    const markdown = summaryToMarkdown({ ...SUMMARY, emotions: null, skillsPracticed: [] }, STARTED_AT)
+
+    expect(markdown).not.toContain('## How you felt')
+    expect(markdown).not.toContain('## Skills practiced')
+    expect(markdown).toContain('## Homework')
+  })
+})
+
+describe('summaryToPdf', () => {
+  it('renders the same sections into a PDF', () => {
+    const pdf = Buffer.from(summaryToPdf(SUMMARY, STARTED_AT)).toString('latin1')
+
+    expect(pdf.startsWith('%PDF-')).toBe(true)
+    expect(pdf).toContain('(What we talked about)')
+    expect(pdf).toContain('(Next time)')
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+  })
+})
@@ -0,0 +1,167 @@
+import { createCheckInRepository, type CheckInRepository } from '@/lib/database/check-in-repository'
+import { InAppChannel, type CheckInNotification, type NotificationChannel } from '@/lib/notifications/notification-channels'
+import type { CheckIn, CheckInStatus, NotificationChannelName } from '@/types'
+
+export const NOTIFICATION_CHANNELS: NotificationChannelName[] = ['in_app', 'email', 'push']
+export const MIN_CHECK_IN_LEAD_MS = 5 * 60 * 1000
+export const MAX_CHECK_IN_DAYS = 90
+export const MAX_CHECK_IN_PROMPT_LENGTH = 300
+
+const RUN_BATCH_SIZE = 100
+// Not yet completed or cancelled; Emma still owes the user this follow-up
+const OPEN_STATUSES: CheckInStatus[] = ['scheduled', 'delivered']
+
+// Reminders leave the app, so they say nothing about what the check-in is about
+const REMINDER = {
+  title: 'Emma is checking in',
+  body: 'You asked Emma to follow up with you. Open Emma to pick up where you left off.',
+  path: '/demo'
+}
+
+export interface NewCheckInRequest {
+  prompt: string
+  dueAt: Date
+  channels?: NotificationChannelName[] // In-app is always added
+}
+
+export interface CheckInRunReport {
+  startedAt: string
+  finishedAt: string
+  delivered: number // Check-ins processed by this run
+  sent: Record<NotificationChannelName, number>
+  skipped: Record<NotificationChannelName, number> // Nowhere to send, or the channel isn't configured
+  errors: { checkInId: string, channel: NotificationChannelName, error: string }[]
+}
+
+/**
+ * Follow-ups Emma promised the user. The check-in job delivers reminders
+ * once they fall due, and the user's next session opens with the oldest
+ * one still open.
+ */
+export class CheckInScheduler {
+  constructor(
+    private checkIns: CheckInRepository = createCheckInRepository(),
+    private channels: NotificationChannel[] = [new InAppChannel()],
+    private appUrl: string = process.env.APP_URL || 'http://localhost:3000'
+  ) {}
+
+  /**
+   * Channels this server can deliver to
+   */
+  availableChannels(): NotificationChannelName[] {
+    return this.channels.map(channel => channel.name)
+  }
+
+  schedule(userId: string, request: NewCheckInRequest): Promise<CheckIn> {
+    const channels = NOTIFICATION_CHANNELS.filter(name => name === 'in_app' || request.channels?.includes(name))
+    return this.checkIns.create({ userId, prompt: request.prompt, dueAt: request.dueAt, channels })
+  }
+
+  list(userId: string): Promise<CheckIn[]> {
+    return this.checkIns.listByUser(userId)
+  }
+
+  /**
+   * Cancel an open check-in; null when it isn't the user's or is already closed
+   */
+  cancel(userId: string, checkInId: string): Promise<CheckIn | null> {
+    return this.checkIns.transition(checkInId, OPEN_STATUSES, { status: 'cancelled' }, userId)
+  }
+
+  /**
+   * The follow-up Emma would open the user's next session with, if any
+   */
+  async pendingFollowUp(userId: string, now: Date = new Date()): Promise<CheckIn | null> {
+    const [followUp] = await this.openDue(userId, now)
+    return followUp || null
+  }
+
+  /**
+   * Claim the pending follow-up for a new session. It is completed on the
+   * way, so only one session opens with it.
+   */
+  async takeFollowUp(userId: string, now: Date = new Date()): Promise<CheckIn | null> {
+    for (const checkIn of await this.openDue(userId, now)) {
+      const taken = await this.checkIns.transition(checkIn.id, OPEN_STATUSES, { status: 'completed' }, userId)
+      if (taken) return taken
+    }
+    return null
+  }
+
+  /**
+   * Deliver reminders for every check-in that has fallen due. Each is
+   * claimed before sending, so overlapping runs never deliver one twice.
+   * Failed email or push deliveries are recorded on the check-in but don't
+   * hold it back: it is still waiting in the app.
+   */
+  async run(now: Date = new Date()): Promise<CheckInRunReport> {
+    const report: CheckInRunReport = {
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      delivered: 0,
+      sent: { in_app: 0, email: 0, push: 0 },
+      skipped: { in_app: 0, email: 0, push: 0 },
+      errors: []
+    }
+
+    let due: CheckIn[]
+    do {
+      due = await this.checkIns.listDue(now, RUN_BATCH_SIZE)
+      for (const checkIn of due) {
+        const claimed = await this.checkIns.transition(checkIn.id, ['scheduled'], { status: 'delivered', deliveredAt: now })
+        if (!claimed) continue
+
+        report.delivered++
+        const failures = await this.deliver(claimed, report)
+        if (failures.length > 0) {
+          await this.checkIns.transition(claimed.id, ['delivered'], { status: 'delivered', deliveryError: failures.join('; ') })
+        }
+      }
+    } while (due.length === RUN_BATCH_SIZE)
+
+    report.finishedAt = new Date().toISOString()
+    return report
+  }
+
+  private async deliver(checkIn: CheckIn, report: CheckInRunReport): Promise<string[]> {
+    const notification: CheckInNotification = {
+      userId: checkIn.userId,
+      checkInId: checkIn.id,
+      title: REMINDER.title,
+      body: REMINDER.body,
+      url: `${this.appUrl.replace(/\/$/, '')}${REMINDER.path}`
+    }
+
+    const failures: string[] = []
+    for (const name of checkIn.channels) {
+      const channel = this.channels.find(candidate => candidate.name === name)
+      if (!channel) {
+        report.skipped[name]++
+        continue
+      }
+
+      try {
+        const outcome = await channel.deliver(notification)
+        report[outcome === 'sent' ? 'sent' : 'skipped'][name]++
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        report.errors.push({ checkInId: checkIn.id, channel: name, error: message })
+        failures.push(`${name}: ${message}`)
+      }
+    }
+    return failures
+  }
+
+  // Oldest due first
+  private async openDue(userId: string, now: Date): Promise<CheckIn[]> {
+    return (await this.checkIns.listByUser(userId))
+      .filter(checkIn => OPEN_STATUSES.includes(checkIn.status) && checkIn.dueAt <= now)
+  }
+}
+
+/**
+ * What Emma says first in a session opened with a follow-up
+ */
+export function followUpOpening(checkIn: CheckIn): string {
+  return `Welcome back! You asked me to check in with you. ${checkIn.prompt}`
+}
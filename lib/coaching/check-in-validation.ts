@@ -0,0 +1,55 @@
+import {
+  MAX_CHECK_IN_DAYS,
+  MAX_CHECK_IN_PROMPT_LENGTH,
+  MIN_CHECK_IN_LEAD_MS,
+  NOTIFICATION_CHANNELS,
+  type NewCheckInRequest
+} from '@/lib/coaching/check-in-scheduler'
+import type { NotificationChannelName } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Validated<T> = { value?: T, error?: string }
+
+/**
+ * True when dueAt is far enough ahead to be worth a reminder and within the
+ * scheduling window
+ */
+export function isValidCheckInTime(dueAt: Date, now: Date = new Date()): boolean {
+  const lead = dueAt.getTime() - now.getTime()
+  return lead >= MIN_CHECK_IN_LEAD_MS && lead <= MAX_CHECK_IN_DAYS * DAY_MS
+}
+
+/**
+ * Request body validation for the check-ins API; errors are user-facing.
+ * `available` are the channels this server can deliver to.
+ */
+export function validateNewCheckIn(
+  body: any,
+  available: NotificationChannelName[],
+  now: Date = new Date()
+): Validated<NewCheckInRequest> {
+  const prompt = typeof body?.prompt === 'string' ? body.prompt.trim() : ''
+  if (!prompt || prompt.length > MAX_CHECK_IN_PROMPT_LENGTH) {
+    return { error: `prompt is required and must be at most ${MAX_CHECK_IN_PROMPT_LENGTH} characters` }
+  }
+
+  const dueAt = typeof body.dueAt === 'string' ? new Date(body.dueAt) : null
+  if (!dueAt || isNaN(dueAt.getTime())) {
+    return { error: 'dueAt must be an ISO 8601 date-time' }
+  }
+  if (!isValidCheckInTime(dueAt, now)) {
+    return { error: `dueAt must be at least 5 minutes ahead and within ${MAX_CHECK_IN_DAYS} days` }
+  }
+
+  const channels = body.channels ?? ['in_app']
+  if (!Array.isArray(channels) || channels.some(channel => !NOTIFICATION_CHANNELS.includes(channel))) {
+    return { error: `channels must be a list of: ${NOTIFICATION_CHANNELS.join(', ')}` }
+  }
+  const unavailable = channels.filter(channel => !available.includes(channel))
+  if (unavailable.length > 0) {
+    return { error: `Reminders by ${unavailable.join(', ')} are not available` }
+  }
+
+  return { value: { prompt, dueAt, channels } }
+}
@@ -0,0 +1,307 @@
+import { keywords, sharesKeyword } from '@/lib/ai/keywords'
+import { createGoalRepository, type GoalRepository } from '@/lib/database/goal-repository'
+import type { CoachingSkill, Goal, GoalCategory, GoalMilestone, GoalStatus, PracticeRubric } from '@/types'
+
+export const GOAL_CATEGORIES: GoalCategory[] = ['communication', 'conflict_resolution', 'intimacy', 'trust_building']
+export const GOAL_STATUSES: GoalStatus[] = ['active', 'completed', 'paused', 'abandoned']
+
+// A practice session at or above this score completes a milestone for its skill
+export const PASSING_PRACTICE_SCORE = 0.7
+const MAX_PROMPT_GOALS = 3
+
+// Words that tie a message to a category even when it shares none with the goal itself
+const CATEGORY_CUES: Record<GoalCategory, string[]> = {
+  communication: ['talk', 'talking', 'listen', 'listening', 'conversation', 'communicate', 'communication', 'heard', 'unheard', 'ignored'],
+  conflict_resolution: ['argue', 'arguing', 'argument', 'fight', 'fighting', 'conflict', 'disagree', 'disagreement', 'yelling', 'angry'],
+  intimacy: ['intimacy', 'intimate', 'close', 'closeness', 'affection', 'romance', 'touch', 'distant', 'connection', 'lonely'],
+  trust_building: ['trust', 'honest', 'honesty', 'lied', 'lying', 'secret', 'secrets', 'jealous', 'cheated', 'betrayed']
+}
+
+export interface NewGoal {
+  category: GoalCategory
+  description: string
+  targetDate?: string
+  milestones?: NewMilestone[]
+}
+
+export interface NewMilestone {
+  title: string
+  skill?: CoachingSkill
+}
+
+export interface GoalChanges {
+  description?: string
+  targetDate?: string | null
+  status?: GoalStatus
+  abandonReason?: string
+  progress?: number // Only for goals without milestones; otherwise derived from them
+}
+
+export interface MilestoneSuggestion {
+  goalId: string
+  goal: string
+  milestone: Pick<GoalMilestone, 'id' | 'title' | 'skill'>
+}
+
+export interface GoalSummary {
+  total: number
+  byStatus: Record<GoalStatus, number>
+  completionRate: number // Completed share of goals that have finished, either way
+  averageProgress: number // Across active goals
+  milestonesCompleted: number
+  abandoned: { id: string, description: string, progress: number, reason?: string }[]
+}
+
+/**
+ * Relationship goals and their milestones. Progress follows milestone
+ * completion, which the user can mark directly or earn with a passing
+ * practice session on the milestone's skill.
+ */
+export class GoalTracker {
+  constructor(private repository: GoalRepository = createGoalRepository()) {}
+
+  get name(): string {
+    return this.repository.name
+  }
+
+  list(userId: string): Promise<Goal[]> {
+    return this.repository.list(userId)
+  }
+
+  get(userId: string, goalId: string): Promise<Goal | null> {
+    return this.repository.get(userId, goalId)
+  }
+
+  async create(userId: string, input: NewGoal): Promise<Goal> {
+    const now = new Date()
+    const goal: Goal = {
+      id: crypto.randomUUID(),
+      userId,
+      category: input.category,
+      description: input.description,
+      targetDate: input.targetDate,
+      progress: 0,
+      status: 'active',
+      milestones: (input.milestones || []).map((milestone, i) => createMilestone(milestone, i)),
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await this.repository.save(goal)
+    return goal
+  }
+
+  async update(userId: string, goalId: string, changes: GoalChanges): Promise<Goal | null> {
+    const goal = await this.repository.get(userId, goalId)
+    if (!goal) return null
+
+    if (changes.description !== undefined) goal.description = changes.description
+    if (changes.targetDate !== undefined) goal.targetDate = changes.targetDate ?? undefined
+    if (changes.progress !== undefined && goal.milestones.length === 0) goal.progress = changes.progress
+    if (changes.status !== undefined) setStatus(goal, changes.status, changes.abandonReason)
+
+    return this.save(goal)
+  }
+
+  delete(userId: string, goalId: string): Promise<boolean> {
+    return this.repository.delete(userId, goalId)
+  }
+
+  async addMilestone(userId: string, goalId: string, input: NewMilestone): Promise<Goal | null> {
+    const goal = await this.repository.get(userId, goalId)
+    if (!goal) return null
+
+    goal.milestones.push(createMilestone(input, goal.milestones.length))
+    // A new step reopens a goal that was completed by finishing the old ones
+    if (goal.status === 'completed') setStatus(goal, 'active')
+    return this.save(goal)
+  }
+
+  async updateMilestone(
+    userId: string,
+    goalId: string,
+    milestoneId: string,
+    changes: { title?: string, completed?: boolean }
+  ): Promise<Goal | null> {
+    const goal = await this.repository.get(userId, goalId)
+    const milestone = goal?.milestones.find(m => m.id === milestoneId)
+    if (!goal || !milestone) return null
+
+    if (changes.title !== undefined) milestone.title = changes.title
+    if (changes.completed === true && !milestone.completedAt) milestone.completedAt = new Date()
+    if (changes.completed === false) {
+      milestone.completedAt = undefined
+      milestone.completedSessionId = undefined
+      if (goal.status === 'completed') setStatus(goal, 'active')
+    }
+
+    return this.save(goal)
+  }
+
+  async removeMilestone(userId: string, goalId: string, milestoneId: string): Promise<Goal | null> {
+    const goal = await this.repository.get(userId, goalId)
+    if (!goal || !goal.milestones.some(m => m.id === milestoneId)) return null
+
+    goal.milestones = goal.milestones
+      .filter(m => m.id !== milestoneId)
+      .map((milestone, i) => ({ ...milestone, position: i }))
+    return this.save(goal)
+  }
+
+  /**
+   * Count a finished practice session towards the user's active goals: a
+   * passing score completes the next open milestone for the practiced skill.
+   * Returns the goals that changed.
+   */
+  async recordPracticeOutcome(userId: string, rubric: PracticeRubric, sessionId: string): Promise<Goal[]> {
+    if (rubric.overallScore < PASSING_PRACTICE_SCORE) return []
+
+    const goals = await this.repository.list(userId)
+    const updated: Goal[] = []
+
+    for (const goal of goals.filter(g => g.status === 'active')) {
+      // Each session counts once per goal
+      if (goal.milestones.some(m => m.completedSessionId === sessionId)) continue
+
+      const milestone = goal.milestones.find(m => !m.completedAt && m.skill === rubric.skill)
+      if (!milestone) continue
+
+      milestone.completedAt = rubric.completedAt
+      milestone.completedSessionId = sessionId
+      updated.push(await this.save(goal))
+    }
+
+    return updated
+  }
+
+  async summarize(userId: string): Promise<GoalSummary> {
+    return summarizeGoals(await this.repository.list(userId))
+  }
+
+  private async save(goal: Goal): Promise<Goal> {
+    refreshProgress(goal)
+    goal.updatedAt = new Date()
+    await this.repository.save(goal)
+    return goal
+  }
+}
+
+export function nextMilestone(goal: Goal): GoalMilestone | undefined {
+  return goal.milestones.find(m => !m.completedAt)
+}
+
+/**
+ * Active goals the message touches, by shared keywords or category cues
+ */
+export function findRelevantGoals(goals: Goal[], text: string): Goal[] {
+  const words = new Set(keywords(text))
+
+  return goals.filter(goal =>
+    goal.status === 'active' && (
+      sharesKeyword(goal.description, text) ||
+      goal.milestones.some(m => !m.completedAt && sharesKeyword(m.title, text)) ||
+      CATEGORY_CUES[goal.category].some(cue => words.has(cue))
+    )
+  )
+}
+
+/**
+ * Goal categories the text touches, most mentioned first
+ */
+export function mentionedCategories(text: string): GoalCategory[] {
+  const words = keywords(text)
+  return GOAL_CATEGORIES
+    .map(category => ({ category, hits: words.filter(word => CATEGORY_CUES[category].includes(word)).length }))
+    .filter(entry => entry.hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .map(entry => entry.category)
+}
+
+/**
+ * The next milestone of the first relevant goal that still has one open
+ */
+export function suggestMilestone(goals: Goal[], text: string): MilestoneSuggestion | null {
+  for (const goal of findRelevantGoals(goals, text)) {
+    const milestone = nextMilestone(goal)
+    if (milestone) {
+      return {
+        goalId: goal.id,
+        goal: goal.description,
+        milestone: { id: milestone.id, title: milestone.title, skill: milestone.skill }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Prompt section listing the user's active goals; null when there are none
+ */
+export function describeGoals(goals: Goal[], userText?: string): string | null {
+  const active = goals.filter(goal => goal.status === 'active').slice(0, MAX_PROMPT_GOALS)
+  if (active.length === 0) return null
+
+  const lines = active.map(goal => {
+    const done = goal.milestones.filter(m => m.completedAt).length
+    const steps = goal.milestones.length > 0 ? `, ${done}/${goal.milestones.length} milestones done` : ''
+    // The id lets Emma update the goal with the save_goal tool
+    return `- ${goal.description} (${goal.category.replace('_', ' ')}, ${Math.round(goal.progress * 100)}%${steps}; id ${goal.id})`
+  })
+
+  const suggestion = userText ? suggestMilestone(active, userText) : null
+  const guidance = suggestion
+    ? `This message touches their goal "${suggestion.goal}". Where it fits, suggest their next milestone as a concrete step: "${suggestion.milestone.title}".`
+    : 'Refer to a goal only when it naturally connects to what they are discussing.'
+
+  return `The user is working on these relationship goals:\n${lines.join('\n')}\n${guidance}`
+}
+
+export function summarizeGoals(goals: Goal[]): GoalSummary {
+  const byStatus = Object.fromEntries(GOAL_STATUSES.map(status => [status, 0])) as Record<GoalStatus, number>
+  goals.forEach(goal => byStatus[goal.status]++)
+
+  const finished = byStatus.completed + byStatus.abandoned
+  const active = goals.filter(goal => goal.status === 'active')
+
+  return {
+    total: goals.length,
+    byStatus,
+    completionRate: finished > 0 ? round(byStatus.completed / finished) : 0,
+    averageProgress: active.length > 0 ? round(active.reduce((sum, g) => sum + g.progress, 0) / active.length) : 0,
+    milestonesCompleted: goals.reduce((sum, g) => sum + g.milestones.filter(m => m.completedAt).length, 0),
+    abandoned: goals
+      .filter(goal => goal.status === 'abandoned')
+      .map(goal => ({ id: goal.id, description: goal.description, progress: goal.progress, reason: goal.abandonReason }))
+  }
+}
+
+function createMilestone(input: NewMilestone, position: number): GoalMilestone {
+  return { id: crypto.randomUUID(), position, title: input.title, skill: input.skill }
+}
+
+function setStatus(goal: Goal, status: GoalStatus, abandonReason?: string): void {
+  goal.status = status
+  goal.completedDate = status === 'completed' ? goal.completedDate || today() : undefined
+  goal.abandonedDate = status === 'abandoned' ? goal.abandonedDate || today() : undefined
+  goal.abandonReason = status === 'abandoned' ? abandonReason ?? goal.abandonReason : undefined
+}
+
+function refreshProgress(goal: Goal): void {
+  if (goal.milestones.length === 0) return
+
+  const done = goal.milestones.filter(m => m.completedAt).length
+  goal.progress = round(done / goal.milestones.length)
+
+  // Finishing the last milestone completes an active goal
+  if (done === goal.milestones.length && goal.status === 'active') {
+    setStatus(goal, 'completed')
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,112 @@
+import { COACHING_SKILLS, isCoachingSkill } from '@/lib/ai/coaching-response'
+import { GOAL_CATEGORIES, GOAL_STATUSES, type GoalChanges, type NewGoal, type NewMilestone } from '@/lib/coaching/goal-tracker'
+import type { GoalCategory, GoalStatus } from '@/types'
+
+const MAX_DESCRIPTION_LENGTH = 300
+const MAX_TITLE_LENGTH = 200
+const MAX_REASON_LENGTH = 500
+export const MAX_MILESTONES = 12
+
+type Validated<T> = { value?: T, error?: string }
+
+/**
+ * Request body validation for the goals API; errors are user-facing
+ */
+export function validateNewGoal(body: any): Validated<NewGoal> {
+  if (!GOAL_CATEGORIES.includes(body?.category)) {
+    return { error: `category must be one of: ${GOAL_CATEGORIES.join(', ')}` }
+  }
+
+  const description = validateText(body.description, 'description', MAX_DESCRIPTION_LENGTH)
+  if (description.error) return { error: description.error }
+
+  if (body.targetDate !== undefined && !isDate(body.targetDate)) {
+    return { error: 'targetDate must be a date in YYYY-MM-DD format' }
+  }
+
+  const milestones: NewMilestone[] = []
+  if (body.milestones !== undefined) {
+    if (!Array.isArray(body.milestones) || body.milestones.length > MAX_MILESTONES) {
+      return { error: `milestones must be a list of at most ${MAX_MILESTONES} items` }
+    }
+    for (const item of body.milestones) {
+      const milestone = validateMilestone(typeof item === 'string' ? { title: item } : item)
+      if (milestone.error) return { error: milestone.error }
+      milestones.push(milestone.value)
+    }
+  }
+
+  return {
+    value: {
+      category: body.category as GoalCategory,
+      description: description.value,
+      targetDate: body.targetDate,
+      milestones
+    }
+  }
+}
+
+export function validateGoalChanges(body: any): Validated<GoalChanges> {
+  const changes: GoalChanges = {}
+
+  if (body?.description !== undefined) {
+    const description = validateText(body.description, 'description', MAX_DESCRIPTION_LENGTH)
+    if (description.error) return { error: description.error }
+    changes.description = description.value
+  }
+
+  if (body?.targetDate !== undefined) {
+    if (body.targetDate !== null && !isDate(body.targetDate)) {
+      return { error: 'targetDate must be a date in YYYY-MM-DD format, or null' }
+    }
+    changes.targetDate = body.targetDate
+  }
+
+  if (body?.status !== undefined) {
+    if (!GOAL_STATUSES.includes(body.status)) {
+      return { error: `status must be one of: ${GOAL_STATUSES.join(', ')}` }
+    }
+    changes.status = body.status as GoalStatus
+  }
+
+  if (body?.abandonReason !== undefined) {
+    if (changes.status !== 'abandoned') {
+      return { error: 'abandonReason can only be given with status "abandoned"' }
+    }
+    const reason = validateText(body.abandonReason, 'abandonReason', MAX_REASON_LENGTH)
+    if (reason.error) return { error: reason.error }
+    changes.abandonReason = reason.value
+  }
+
+  if (body?.progress !== undefined) {
+    if (typeof body.progress !== 'number' || body.progress < 0 || body.progress > 1) {
+      return { error: 'progress must be a number from 0 to 1' }
+    }
+    changes.progress = body.progress
+  }
+
+  return { value: changes }
+}
+
+export function validateMilestone(body: any): Validated<NewMilestone> {
+  const title = validateText(body?.title, 'title', MAX_TITLE_LENGTH)
+  if (title.error) return { error: title.error }
+
+  if (body.skill !== undefined && body.skill !== null && !isCoachingSkill(body.skill)) {
+    return { error: `skill must be one of: ${COACHING_SKILLS.join(', ')}` }
+  }
+
+  return { value: { title: title.value, skill: body.skill ?? undefined } }
+}
+
+function validateText(value: unknown, field: string, maxLength: number): Validated<string> {
+  const text = typeof value === 'string' ? value.trim() : ''
+  if (!text || text.length > maxLength) {
+    return { error: `${field} is required and must be at most ${maxLength} characters` }
+  }
+  return { value: text }
+}
+
+function isDate(value: unknown): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+}
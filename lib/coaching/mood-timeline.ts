@@ -0,0 +1,125 @@
+import { isCoachingSkill } from '@/lib/ai/coaching-response'
+import type { EmotionSummary, Session } from '@/types/database'
+import type { CoachingSkill } from '@/types'
+
+export const DEFAULT_TIMELINE_WEEKS = 12
+export const MAX_TIMELINE_WEEKS = 52
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+// Average mood has to move this much between halves of the timeline to count as a trend
+const TREND_THRESHOLD = 0.1
+
+export interface MoodTimelineWeek {
+  weekStart: string // Monday, YYYY-MM-DD (UTC)
+  sessions: number
+  mood: number | null // -1 to 1, weighted by emotion readings; null without any
+  intensity: number | null // 0-1
+  dominant: string | null
+  skillsPracticed: Partial<Record<CoachingSkill, number>> // Sessions practicing each skill
+}
+
+export interface MoodTimeline {
+  weeks: MoodTimelineWeek[] // Oldest first, including weeks without sessions
+  trend: 'improving' | 'declining' | 'steady' | null // null until two weeks have readings
+}
+
+/**
+ * Week-by-week mood and skills from the user's sessions, covering the last
+ * `weeks` weeks up to and including the current one
+ */
+export function buildMoodTimeline(
+  sessions: Session[],
+  weeks: number = DEFAULT_TIMELINE_WEEKS,
+  now: Date = new Date()
+): MoodTimeline {
+  const firstWeek = weekStart(now).getTime() - (weeks - 1) * WEEK_MS
+  const buckets = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: new Date(firstWeek + i * WEEK_MS).toISOString().slice(0, 10),
+    sessions: 0,
+    readings: 0,
+    moodTotal: 0,
+    intensityTotal: 0,
+    emotions: {} as Record<string, number>,
+    skillsPracticed: {} as Partial<Record<CoachingSkill, number>>
+  }))
+
+  for (const session of sessions) {
+    const index = Math.floor((new Date(session.created_at).getTime() - firstWeek) / WEEK_MS)
+    const bucket = buckets[index]
+    if (!bucket) continue
+
+    bucket.sessions++
+    for (const skill of new Set((session.skills_practiced || []).filter(isCoachingSkill))) {
+      bucket.skillsPracticed[skill] = (bucket.skillsPracticed[skill] || 0) + 1
+    }
+
+    const emotions = parseEmotionSummary(session.emotion_summary)
+    if (!emotions) continue
+
+    // Longer conversations say more about the week than a single message
+    const readings = Math.max(1, emotions.progression.length)
+    bucket.readings += readings
+    bucket.moodTotal += emotions.mood * readings
+    bucket.intensityTotal += emotions.intensity * readings
+    bucket.emotions[emotions.dominant] = (bucket.emotions[emotions.dominant] || 0) + readings
+  }
+
+  const timelineWeeks: MoodTimelineWeek[] = buckets.map(bucket => ({
+    weekStart: bucket.weekStart,
+    sessions: bucket.sessions,
+    mood: bucket.readings > 0 ? round(bucket.moodTotal / bucket.readings) : null,
+    intensity: bucket.readings > 0 ? round(bucket.intensityTotal / bucket.readings) : null,
+    dominant: Object.entries(bucket.emotions).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null,
+    skillsPracticed: bucket.skillsPracticed
+  }))
+
+  return { weeks: timelineWeeks, trend: moodTrend(timelineWeeks) }
+}
+
+// Compare the earlier and later halves of the weeks that have a mood
+function moodTrend(weeks: MoodTimelineWeek[]): MoodTimeline['trend'] {
+  const moods = weeks.filter(week => week.mood !== null).map(week => week.mood as number)
+  if (moods.length < 2) return null
+
+  const half = Math.floor(moods.length / 2)
+  const change = average(moods.slice(moods.length - half)) - average(moods.slice(0, half))
+  if (change >= TREND_THRESHOLD) return 'improving'
+  if (change <= -TREND_THRESHOLD) return 'declining'
+  return 'steady'
+}
+
+// Sessions summarized before mood was recorded have no mood to chart
+function parseEmotionSummary(value: unknown): EmotionSummary | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+
+  const { mood, intensity, dominant, progression, confidence } = value as Record<string, unknown>
+  if (!isFiniteNumber(mood) || !isFiniteNumber(intensity) || typeof dominant !== 'string') return null
+
+  return {
+    mood,
+    intensity,
+    dominant,
+    // Only the number of readings is used to weight the session
+    progression: Array.isArray(progression) ? progression as EmotionSummary['progression'] : [],
+    confidence: isFiniteNumber(confidence) ? confidence : 0
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function weekStart(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  // getUTCDay is 0 on Sunday; weeks start on Monday
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS)
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
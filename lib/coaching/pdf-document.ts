@@ -0,0 +1,162 @@
+// Minimal PDF writer for session summaries: A4 pages of wrapped text in the
+// standard Helvetica fonts, which every viewer has, so nothing is embedded.
+// Text is WinAnsi encoded, which covers every language Emma speaks.
+
+export type PdfBlock =
+  | { type: 'title', text: string }
+  | { type: 'heading', text: string }
+  | { type: 'paragraph', text: string }
+  | { type: 'bullet', text: string }
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 56
+const BULLET_INDENT = 14
+const LINE_SPACING = 1.4
+
+const STYLES: Record<PdfBlock['type'], { font: 'F1' | 'F2', size: number, spaceBefore: number }> = {
+  title: { font: 'F2', size: 20, spaceBefore: 0 },
+  heading: { font: 'F2', size: 13, spaceBefore: 14 },
+  paragraph: { font: 'F1', size: 11, spaceBefore: 4 },
+  bullet: { font: 'F1', size: 11, spaceBefore: 2 }
+}
+
+// Advance widths for ' ' through '~' in 1/1000 em, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+// Accented letters and symbols outside ASCII; close enough for wrapping
+const DEFAULT_WIDTH = 556
+
+// Characters WinAnsi places in 0x80-0x9F; Latin-1 covers 0xA0-0xFF as is
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+}
+const BULLET = '•'
+
+interface Line {
+  font: 'F1' | 'F2'
+  size: number
+  x: number
+  y: number
+  text: string
+}
+
+export function createPdfDocument(blocks: PdfBlock[], title: string): Uint8Array<ArrayBuffer> {
+  const pages = layout(blocks)
+
+  // Catalog, page tree, two fonts and an info dictionary, then a page and its content per page
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${6 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title ${pdfString(title)} /Producer (Emma AI) >>`
+  ]
+  pages.forEach((lines, i) => {
+    const content = lines
+      .map(line => `BT /${line.font} ${line.size} Tf ${line.x} ${round(line.y)} Td ${pdfString(line.text)} Tj ET`)
+      .join('\n')
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + i * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  // Everything is 7-bit ASCII by now, so string length is byte length
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return new TextEncoder().encode(pdf)
+}
+
+// Wrap blocks into lines, starting a new page when one runs out of room
+function layout(blocks: PdfBlock[]): Line[][] {
+  const pages: Line[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  for (const block of blocks) {
+    const style = STYLES[block.type]
+    const indent = block.type === 'bullet' ? BULLET_INDENT : 0
+    const lineHeight = style.size * LINE_SPACING
+    const wrapped = wrap(block.text, style.font, style.size, PAGE_WIDTH - 2 * MARGIN - indent)
+
+    if (pages[pages.length - 1].length > 0) y -= style.spaceBefore
+    wrapped.forEach((text, i) => {
+      if (y - lineHeight < MARGIN) {
+        pages.push([])
+        y = PAGE_HEIGHT - MARGIN
+      }
+      y -= lineHeight
+      const page = pages[pages.length - 1]
+      if (block.type === 'bullet' && i === 0) page.push({ font: style.font, size: style.size, x: MARGIN, y, text: BULLET })
+      page.push({ font: style.font, size: style.size, x: MARGIN + indent, y, text })
+    })
+  }
+  return pages
+}
+
+function wrap(text: string, font: 'F1' | 'F2', size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && textWidth(candidate, font, size) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+  return lines.length > 0 ? lines : ['']
+}
+
+function textWidth(text: string, font: 'F1' | 'F2', size: number): number {
+  const widths = font === 'F2' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  let units = 0
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    units += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH
+  }
+  return (units * size) / 1000
+}
+
+// A literal string, with anything outside ASCII written as a WinAnsi octal escape
+function pdfString(text: string): string {
+  let escaped = ''
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.codePointAt(0)
+    if (char === '\\' || char === '(' || char === ')') escaped += `\\${char}`
+    else if (code >= 32 && code <= 126) escaped += char
+    else if (code >= 0x80 && code <= 0xff) escaped += `\\${code.toString(8).padStart(3, '0')}`
+    else escaped += '?'
+  }
+  return `(${escaped})`
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,282 @@
+import type { LLMMessage, LLMProvider } from '@/lib/ai/llm-provider'
+import { SKILL_RUBRICS, scoreWithCues } from '@/lib/coaching/practice-scenarios'
+import { createSessionRepository, type SessionRepository } from '@/lib/database/session-repository'
+import { usageToSessionUpdate } from '@/lib/ai/session-usage'
+import type {
+  CoachingSkill,
+  ConversationContext,
+  ConversationTurn,
+  PracticeRubric,
+  PracticeScenario,
+  PracticeState,
+  PracticeTurnFeedback
+} from '@/types'
+
+// Turns of the role-play sent back to the model playing the partner
+const ROLEPLAY_HISTORY_TURNS = 10
+
+const STRONG_CRITERION = 0.7
+const WEAK_CRITERION = 0.5
+
+export interface PracticeTurnResult {
+  partnerReply: string
+  feedback: PracticeTurnFeedback
+}
+
+/**
+ * Practice mode: Emma plays the user's partner in a scenario, scores each
+ * reply against the target skill and summarizes the session in a rubric.
+ */
+export class PracticeCoach {
+  constructor(
+    private provider: LLMProvider,
+    private sessions: SessionRepository = createSessionRepository()
+  ) {}
+
+  /**
+   * Open a practice session row; returns its id for use as the conversation session
+   */
+  async createSession(skill: CoachingSkill, userId?: string): Promise<string> {
+    if (!userId) return crypto.randomUUID()
+
+    try {
+      const session = await this.sessions.create({
+        user_id: userId,
+        session_type: 'practice',
+        skills_practiced: [skill]
+      })
+      return session.id
+    } catch (error) {
+      console.error(`Failed to create practice session (${this.sessions.name}):`, error)
+      return crypto.randomUUID()
+    }
+  }
+
+  start(context: ConversationContext, scenario: PracticeScenario, skill: CoachingSkill, userId?: string): PracticeState {
+    context.practice = {
+      scenarioId: scenario.id,
+      skill,
+      startedAt: new Date(),
+      feedback: [],
+      userId
+    }
+    context.skillsPracticed = [skill]
+    context.turns.push({
+      id: Date.now().toString(),
+      content: scenario.openingLine,
+      speaker: 'emma',
+      timestamp: new Date()
+    })
+
+    return context.practice
+  }
+
+  /**
+   * Score the user's reply and continue the role-play. Call before the
+   * exchange is recorded on the context.
+   */
+  async respond(
+    context: ConversationContext,
+    scenario: PracticeScenario,
+    userText: string,
+    turnId: string
+  ): Promise<PracticeTurnResult> {
+    const practice = context.practice!
+
+    const [feedback, partnerReply] = await Promise.all([
+      this.evaluate(practice.skill, scenario, context.turns, userText, turnId),
+      this.playPartner(scenario, practice.skill, context.turns, userText)
+    ])
+
+    practice.feedback.push(feedback)
+    return { partnerReply, feedback }
+  }
+
+  /**
+   * Build the end-of-session rubric and store it on the session row
+   */
+  async finish(context: ConversationContext, scenario: PracticeScenario): Promise<PracticeRubric> {
+    const practice = context.practice!
+    const rubric = buildRubric(practice, scenario)
+    practice.rubric = rubric
+
+    try {
+      await this.sessions.update(context.sessionId, {
+        ...usageToSessionUpdate(context),
+        completed: true,
+        duration_seconds: Math.round((rubric.completedAt.getTime() - practice.startedAt.getTime()) / 1000),
+        skills_practiced: [practice.skill],
+        coaching_effectiveness_score: rubric.overallScore,
+        practice_rubric: JSON.parse(JSON.stringify(rubric))
+      })
+    } catch (error) {
+      console.error(`Failed to store practice rubric (${this.sessions.name}):`, error)
+    }
+
+    return rubric
+  }
+
+  private async playPartner(
+    scenario: PracticeScenario,
+    skill: CoachingSkill,
+    turns: ConversationTurn[],
+    userText: string
+  ): Promise<string> {
+    const system = `You are role-playing the user's partner so they can practice a difficult conversation.
+
+Scenario: ${scenario.description}
+Your character: ${scenario.partnerRole}
+
+Stay in character and speak as the partner in first person, 1-3 sentences. React realistically: soften when the user shows ${skill.replace(/_/g, ' ')} well, stay guarded when they don't. Never coach, never mention being an AI, and never describe violence, threats or abuse.`
+
+    const history: LLMMessage[] = turns.slice(-ROLEPLAY_HISTORY_TURNS).map(turn => ({
+      // The model plays the partner, so the partner's lines are its own
+      role: turn.speaker === 'emma' ? 'assistant' : 'user',
+      content: turn.content
+    }))
+
+    const reply = await this.provider.complete({
+      task: 'roleplay',
+      messages: [
+        { role: 'system', content: system },
+        ...history,
+        { role: 'user', content: userText }
+      ]
+    })
+
+    return reply.trim() || "I'm listening. Go on."
+  }
+
+  private async evaluate(
+    skill: CoachingSkill,
+    scenario: PracticeScenario,
+    turns: ConversationTurn[],
+    userText: string,
+    turnId: string
+  ): Promise<PracticeTurnFeedback> {
+    const criteria = SKILL_RUBRICS[skill]
+    const partnerLine = [...turns].reverse().find(turn => turn.speaker === 'emma')?.content || scenario.openingLine
+
+    const prompt = `The user is practicing ${skill.replace(/_/g, ' ')} in a role-play: ${scenario.description}
+
+Partner said: "${partnerLine}"
+User replied: "${userText}"
+
+Score the user's reply from 0 to 1 on each criterion:
+${criteria.map(c => `- ${c.id}: ${c.description}`).join('\n')}
+
+Respond in JSON with:
+- criteria: object mapping each criterion id to its score
+- score: overall score from 0 to 1 for the target skill
+- went_well: one short sentence on what worked, or null
+- try_next: one short suggestion for the next reply, or null
+- coaching: one or two encouraging sentences of coaching addressed to the user`
+
+    try {
+      const completion = await this.provider.complete({
+        task: 'evaluation',
+        messages: [
+          { role: 'system', content: 'You are Emma, a relationship coach giving brief, specific and kind feedback on communication practice.' },
+          { role: 'user', content: prompt }
+        ],
+        responseFormat: 'json'
+      })
+
+      const parsed = JSON.parse(completion || '{}')
+      const score = clampScore(parsed.score)
+      if (score !== null && typeof parsed.coaching === 'string' && parsed.coaching.trim()) {
+        const scores: Record<string, number> = {}
+        for (const criterion of criteria) {
+          scores[criterion.id] = clampScore(parsed.criteria?.[criterion.id]) ?? score
+        }
+
+        return {
+          turnId,
+          skill,
+          score,
+          criteria: scores,
+          wentWell: parsed.went_well || undefined,
+          tryNext: parsed.try_next || undefined,
+          coaching: parsed.coaching.trim()
+        }
+      }
+    } catch (error) {
+      console.error('Practice evaluation error:', error)
+    }
+
+    return heuristicFeedback(skill, userText, turnId)
+  }
+}
+
+function clampScore(value: unknown): number | null {
+  const score = Number(value)
+  return value !== null && value !== undefined && Number.isFinite(score)
+    ? Math.min(1, Math.max(0, score))
+    : null
+}
+
+function heuristicFeedback(skill: CoachingSkill, userText: string, turnId: string): PracticeTurnFeedback {
+  const criteria = scoreWithCues(skill, userText)
+  const rubric = SKILL_RUBRICS[skill]
+  const met = rubric.filter(c => criteria[c.id] >= STRONG_CRITERION)
+  const missed = rubric.filter(c => criteria[c.id] < WEAK_CRITERION)
+
+  return {
+    turnId,
+    skill,
+    score: average(Object.values(criteria)),
+    criteria,
+    wentWell: met[0]?.description,
+    tryNext: missed[0]?.description,
+    coaching: missed.length === 0
+      ? 'Nice work - that reply shows the skill clearly. Keep it going.'
+      : `Good effort. Next time, focus on this: ${missed[0].description}.`
+  }
+}
+
+function buildRubric(practice: PracticeState, scenario: PracticeScenario): PracticeRubric {
+  const rubricCriteria = SKILL_RUBRICS[practice.skill]
+  const criteria: Record<string, number> = {}
+  for (const criterion of rubricCriteria) {
+    criteria[criterion.id] = round(average(practice.feedback.map(f => f.criteria[criterion.id] ?? f.score)))
+  }
+
+  const overallScore = round(average(practice.feedback.map(f => f.score)))
+  const strengths = rubricCriteria
+    .filter(c => practice.feedback.length > 0 && criteria[c.id] >= STRONG_CRITERION)
+    .map(c => c.description)
+  const improvements = rubricCriteria
+    .filter(c => practice.feedback.length > 0 && criteria[c.id] < WEAK_CRITERION)
+    .map(c => c.description)
+
+  // The most recent suggestion is usually the most relevant one
+  const lastTip = [...practice.feedback].reverse().find(f => f.tryNext)?.tryNext
+  if (lastTip && !improvements.includes(lastTip)) improvements.push(lastTip)
+
+  const skillName = practice.skill.replace(/_/g, ' ')
+  const summary = practice.feedback.length === 0
+    ? `No replies were scored in "${scenario.title}".`
+    : `You practiced ${skillName} over ${practice.feedback.length} ${practice.feedback.length === 1 ? 'reply' : 'replies'} in "${scenario.title}" and scored ${Math.round(overallScore * 100)}% overall.` +
+      (strengths[0] ? ` Strongest area: ${strengths[0]}.` : '') +
+      (improvements[0] ? ` To work on: ${improvements[0]}.` : '')
+
+  return {
+    scenarioId: scenario.id,
+    skill: practice.skill,
+    turnsScored: practice.feedback.length,
+    overallScore,
+    criteria,
+    strengths,
+    improvements,
+    summary,
+    completedAt: new Date()
+  }
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
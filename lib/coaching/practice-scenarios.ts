@@ -0,0 +1,100 @@
+import type { CoachingSkill, PracticeScenario } from '@/types'
+
+export interface RubricCriterion {
+  id: string
+  description: string
+  // Heuristic used when the evaluator model is unavailable
+  cue: RegExp
+  // Criterion is met when the cue is absent (e.g. no blaming language)
+  absent?: boolean
+}
+
+export const PRACTICE_SCENARIOS: PracticeScenario[] = [
+  {
+    id: 'chores',
+    title: 'The chores argument',
+    description: 'Your partner feels they do most of the housework and is tired of asking for help.',
+    partnerRole: 'You feel you carry most of the housework. You are tired and a bit resentful, and you tend to say "you never help" when stressed. You soften when you feel genuinely heard.',
+    openingLine: "I just finished the dishes again. Honestly, I'm exhausted of being the only one who notices what needs doing around here.",
+    suggestedSkill: 'i_statements'
+  },
+  {
+    id: 'money',
+    title: 'The money talk',
+    description: 'Your partner is anxious about a large purchase you made without discussing it.',
+    partnerRole: 'You are anxious about money and upset that a large purchase was made without talking first. You get defensive if you feel judged, and calmer when your worries are taken seriously.',
+    openingLine: "I saw the credit card statement. Were you going to tell me about that purchase, or was I just supposed to find out?",
+    suggestedSkill: 'active_listening'
+  },
+  {
+    id: 'in_laws',
+    title: 'Visiting the in-laws',
+    description: 'Your partner wants to spend every holiday with their family and you need some balance.',
+    partnerRole: 'Family traditions matter a lot to you and you want to spend the holidays with your parents again. You feel hurt if your family is criticized, but you can compromise when you feel respected.',
+    openingLine: "My mom called. She's expecting us for the whole holiday week again, and I already told her we'd come.",
+    suggestedSkill: 'boundary_setting'
+  },
+  {
+    id: 'late_night',
+    title: 'Coming home late',
+    description: 'Your partner is angry you came home hours late without texting.',
+    partnerRole: 'You waited up worried and are now angry. You raise your voice at first and escalate if met with defensiveness, but you calm down when acknowledged and given space.',
+    openingLine: "It's almost midnight! I've been calling you for two hours. Do you have any idea how worried I was?",
+    suggestedSkill: 'deescalation'
+  },
+  {
+    id: 'quality_time',
+    title: 'Feeling disconnected',
+    description: 'Your partner says you are always on your phone and they feel lonely in the relationship.',
+    partnerRole: 'You feel lonely and disconnected because your partner is often distracted. You are sad more than angry, and you open up when your feelings are acknowledged.',
+    openingLine: "Can we talk? Lately it feels like you're always on your phone, and I kind of miss us.",
+    suggestedSkill: 'empathy'
+  }
+]
+
+// What a good reply looks like for each target skill
+export const SKILL_RUBRICS: Record<CoachingSkill, RubricCriterion[]> = {
+  i_statements: [
+    { id: 'owns_feelings', description: 'Speaks about own feelings ("I feel...")', cue: /\bI (feel|felt|am feeling|get)\b/i },
+    { id: 'names_need', description: 'Names a need or request', cue: /\bI (need|would like|'d like|want|wish)\b|\bcould we\b|\bcan we\b/i },
+    { id: 'avoids_blame', description: 'Avoids blaming or absolute language', cue: /\byou (always|never)\b|\byour fault\b/i, absent: true }
+  ],
+  active_listening: [
+    { id: 'reflects_back', description: "Reflects back the partner's words", cue: /\b(it sounds like|what I'm hearing|you're saying|you feel|you felt|so you)\b/i },
+    { id: 'asks_to_understand', description: 'Asks a question to understand', cue: /\?/ },
+    { id: 'stays_with_partner', description: 'Stays with the partner instead of defending', cue: /\b(but I|that's not true|at least I|you're overreacting)\b/i, absent: true }
+  ],
+  deescalation: [
+    { id: 'calm_language', description: 'Keeps language calm', cue: /!{1,}|\b(whatever|shut up|ridiculous|calm down)\b/i, absent: true },
+    { id: 'validates', description: "Acknowledges the partner's emotion", cue: /\b(I understand|I can see|you're right|that makes sense|I'm sorry|I hear you)\b/i },
+    { id: 'proposes_next_step', description: 'Suggests a pause or next step', cue: /\b(break|pause|breathe|take a minute|talk (about it )?(later|tomorrow)|let's)\b/i }
+  ],
+  boundary_setting: [
+    { id: 'states_limit', description: 'States the limit clearly', cue: /\bI('m| am)? (not (okay|comfortable)|can't|won't|need)\b|\bmy limit\b/i },
+    { id: 'stays_respectful', description: 'Stays respectful of the partner', cue: /\b(your (stupid|crazy)|you're selfish|ridiculous)\b/i, absent: true },
+    { id: 'offers_alternative', description: 'Offers an alternative or compromise', cue: /\b(instead|how about|what if|maybe we|compromise|could we)\b/i }
+  ],
+  empathy: [
+    { id: 'acknowledges_feelings', description: "Names the partner's feelings", cue: /\byou (feel|must feel|seem|sound)\b|\bthat (sounds|must be)\b/i },
+    { id: 'takes_perspective', description: "Shows the partner's perspective makes sense", cue: /\b(makes sense|I can see why|I understand why|in your shoes)\b/i },
+    { id: 'avoids_fixing', description: 'Listens before fixing or dismissing', cue: /\b(just|simply) (stop|don't)\b|\bnot a big deal\b|\byou should\b/i, absent: true }
+  ]
+}
+
+export function getPracticeScenario(id: string): PracticeScenario | undefined {
+  return PRACTICE_SCENARIOS.find(scenario => scenario.id === id)
+}
+
+/**
+ * Score a reply against each rubric criterion using keyword cues
+ */
+export function scoreWithCues(skill: CoachingSkill, text: string): Record<string, number> {
+  const scores: Record<string, number> = {}
+
+  for (const criterion of SKILL_RUBRICS[skill]) {
+    const matched = criterion.cue.test(text)
+    scores[criterion.id] = matched !== !!criterion.absent ? 1 : 0
+  }
+
+  return scores
+}
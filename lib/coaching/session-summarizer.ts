@@ -0,0 +1,155 @@
+import { COACHING_SKILLS, isCoachingSkill } from '@/lib/ai/coaching-response'
+import { summarizeEmotions } from '@/lib/ai/emotion-summary'
+import { getLanguage } from '@/lib/ai/languages'
+import { createLLMProvider, type LLMProvider } from '@/lib/ai/llm-provider'
+import { mentionedCategories } from '@/lib/coaching/goal-tracker'
+import type { CoachingSkill, ConversationContext, GoalCategory, HomeworkExercise, SessionSummary } from '@/types'
+
+const MAX_TRANSCRIPT_TURNS = 30
+const MAX_THEMES = 4
+const MAX_HOMEWORK = 2
+const MAX_FIELD_LENGTH = 400
+
+const CATEGORY_THEMES: Record<GoalCategory, string> = {
+  communication: 'Feeling heard and communicating clearly',
+  conflict_resolution: 'Handling disagreements',
+  intimacy: 'Closeness and connection',
+  trust_building: 'Rebuilding trust'
+}
+
+// Homework used when the model's summary is missing or unusable
+const SKILL_HOMEWORK: Record<CoachingSkill, HomeworkExercise> = {
+  i_statements: {
+    title: 'Rewrite one complaint',
+    instructions: 'Pick something that bothered you this week and rewrite it as "I feel ... when ... because ... and I need ...". Share it with your partner at a calm moment.',
+    skill: 'i_statements'
+  },
+  active_listening: {
+    title: 'Reflect before you respond',
+    instructions: 'In your next conversation with your partner, repeat back what you heard in your own words and ask "Did I get that right?" before sharing your side.',
+    skill: 'active_listening'
+  },
+  deescalation: {
+    title: 'Agree on a time-out',
+    instructions: 'Together, choose a phrase either of you can use to pause a heated talk for 20 minutes, and agree on when you will come back to it.',
+    skill: 'deescalation'
+  },
+  boundary_setting: {
+    title: 'Name one boundary',
+    instructions: 'Write down one boundary that matters to you, why it matters, and how you could say it kindly but clearly. Share it when you both have time to talk.',
+    skill: 'boundary_setting'
+  },
+  empathy: {
+    title: 'See it from their side',
+    instructions: 'Think of a recent disagreement and write three sentences about how it may have felt for your partner. Ask them whether you got it right.',
+    skill: 'empathy'
+  }
+}
+
+/**
+ * End-of-session summaries: themes, how the user felt over the session,
+ * skills practiced, one or two homework exercises and a focus for next
+ * time. Asks the model and falls back to local heuristics when the reply
+ * is unusable.
+ */
+export class SessionSummarizer {
+  constructor(private provider: LLMProvider = createLLMProvider()) {}
+
+  /**
+   * Null when the user never spoke in the session
+   */
+  async summarize(context: ConversationContext): Promise<SessionSummary | null> {
+    const userTurns = context.turns.filter(turn => turn.speaker === 'user')
+    if (userTurns.length === 0) return null
+
+    const base = {
+      emotions: summarizeEmotions(context.emotionHistory),
+      skillsPracticed: context.skillsPracticed.filter(isCoachingSkill),
+      generatedAt: new Date()
+    }
+
+    try {
+      const completion = await this.provider.complete({
+        task: 'summarization',
+        messages: [
+          { role: 'system', content: summaryPrompt(context) },
+          { role: 'user', content: transcript(context) }
+        ],
+        responseFormat: 'json'
+      })
+
+      const parsed = parseCompletion(completion)
+      if (parsed) return { ...base, ...parsed, generatedBy: 'llm' }
+    } catch (error) {
+      console.error('Session summary error:', error)
+    }
+
+    return { ...base, ...heuristicSummary(context, base.skillsPracticed), generatedBy: 'heuristic' }
+  }
+}
+
+function summaryPrompt(context: ConversationContext): string {
+  return `You are Emma, a relationship coach, writing a short summary of a coaching session for the user to keep. Respond ONLY with JSON:
+{"themes": ["2-${MAX_THEMES} short phrases naming what the session was about"], "homework": [{"title": "a few words", "instructions": "one or two sentences the user can do before the next session", "skill": one of ${COACHING_SKILLS.map(s => `"${s}"`).join(', ')} or null}], "next_focus": "one sentence on what to work on next time"}
+
+Give 1 or ${MAX_HOMEWORK} homework exercises that are concrete, kind and doable within a week. Address the user as "you", leave out names and identifying details, and write in ${getLanguage(context.language).nativeName}.`
+}
+
+function transcript(context: ConversationContext): string {
+  const lines = context.turns.slice(-MAX_TRANSCRIPT_TURNS).map(turn => {
+    const speaker = turn.speaker === 'emma'
+      ? 'Emma'
+      : turn.partner && context.couples ? context.couples.partners[turn.partner].label : 'User'
+    return `${speaker}: ${turn.content}`
+  })
+
+  return context.summary
+    ? `Earlier in the session: ${context.summary}\n\n${lines.join('\n')}`
+    : lines.join('\n')
+}
+
+function parseCompletion(completion: string): Pick<SessionSummary, 'themes' | 'homework' | 'nextFocus'> | null {
+  try {
+    const parsed = JSON.parse(completion || '{}')
+
+    const themes = (Array.isArray(parsed.themes) ? parsed.themes : [])
+      .map(clean)
+      .filter(Boolean)
+      .slice(0, MAX_THEMES)
+    const homework: HomeworkExercise[] = (Array.isArray(parsed.homework) ? parsed.homework : [])
+      .map((item: any) => ({
+        title: clean(item?.title),
+        instructions: clean(item?.instructions),
+        skill: isCoachingSkill(item?.skill) ? item.skill : undefined
+      }))
+      .filter((item: HomeworkExercise) => item.title && item.instructions)
+      .slice(0, MAX_HOMEWORK)
+    const nextFocus = clean(parsed.next_focus)
+
+    return themes.length > 0 && homework.length > 0 && nextFocus ? { themes, homework, nextFocus } : null
+  } catch {
+    return null
+  }
+}
+
+function heuristicSummary(
+  context: ConversationContext,
+  skills: CoachingSkill[]
+): Pick<SessionSummary, 'themes' | 'homework' | 'nextFocus'> {
+  const userText = context.turns.filter(turn => turn.speaker === 'user').map(turn => turn.content).join(' ')
+  const themes = mentionedCategories(userText).map(category => CATEGORY_THEMES[category]).slice(0, MAX_THEMES)
+
+  // Build on the skills from this session, most recent first
+  const focusSkills: CoachingSkill[] = skills.length > 0 ? [...skills].reverse() : ['active_listening']
+  const homework = focusSkills.slice(0, MAX_HOMEWORK).map(skill => SKILL_HOMEWORK[skill])
+
+  return {
+    themes: themes.length > 0 ? themes : ['Talking through what is on your mind'],
+    homework,
+    nextFocus: `Try the homework, then tell Emma how it went and what felt hard about ${focusSkills[0].replace(/_/g, ' ')}.`
+  }
+}
+
+function clean(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, MAX_FIELD_LENGTH) : ''
+}
@@ -0,0 +1,91 @@
+import { SKILL_LABELS, isCoachingSkill } from '@/lib/ai/coaching-response'
+import { createPdfDocument, type PdfBlock } from '@/lib/coaching/pdf-document'
+import type { SessionSummary } from '@/types'
+
+/**
+ * A summary read back after decryption; null when absent or malformed
+ */
+export function parseSessionSummary(value: unknown): SessionSummary | null {
+  const raw = value as any
+  if (!raw || !Array.isArray(raw.themes) || !Array.isArray(raw.homework) || typeof raw.nextFocus !== 'string') return null
+
+  return {
+    themes: raw.themes,
+    emotions: raw.emotions ?? null,
+    skillsPracticed: (raw.skillsPracticed || []).filter(isCoachingSkill),
+    homework: raw.homework,
+    nextFocus: raw.nextFocus,
+    generatedBy: raw.generatedBy === 'llm' ? 'llm' : 'heuristic',
+    generatedAt: new Date(raw.generatedAt)
+  }
+}
+
+/**
+ * Sections shared by the Markdown and PDF exports, in reading order
+ */
+function summaryBlocks(summary: SessionSummary, startedAt: string): PdfBlock[] {
+  const blocks: PdfBlock[] = [
+    { type: 'title', text: 'Your session with Emma' },
+    { type: 'paragraph', text: new Date(startedAt).toLocaleDateString('en-US', { dateStyle: 'long', timeZone: 'UTC' }) },
+    { type: 'heading', text: 'What we talked about' },
+    ...summary.themes.map(text => ({ type: 'bullet' as const, text }))
+  ]
+
+  if (summary.emotions) {
+    blocks.push(
+      { type: 'heading', text: 'How you felt' },
+      { type: 'paragraph', text: describeEmotions(summary) }
+    )
+  }
+
+  if (summary.skillsPracticed.length > 0) {
+    blocks.push(
+      { type: 'heading', text: 'Skills practiced' },
+      ...summary.skillsPracticed.map(skill => ({ type: 'bullet' as const, text: SKILL_LABELS[skill] || skill }))
+    )
+  }
+
+  blocks.push({ type: 'heading', text: 'Homework' })
+  for (const exercise of summary.homework) {
+    const skill = exercise.skill ? ` (${SKILL_LABELS[exercise.skill]})` : ''
+    blocks.push({ type: 'bullet', text: `${exercise.title}${skill}: ${exercise.instructions}` })
+  }
+
+  blocks.push(
+    { type: 'heading', text: 'Next time' },
+    { type: 'paragraph', text: summary.nextFocus }
+  )
+  return blocks
+}
+
+export function summaryToMarkdown(summary: SessionSummary, startedAt: string): string {
+  const lines = summaryBlocks(summary, startedAt).map(block => {
+    if (block.type === 'title') return `# ${block.text}\n`
+    if (block.type === 'heading') return `\n## ${block.text}`
+    return block.type === 'bullet' ? `- ${block.text}` : block.text
+  })
+  return `${lines.join('\n')}\n`
+}
+
+export function summaryToPdf(summary: SessionSummary, startedAt: string): Uint8Array<ArrayBuffer> {
+  return createPdfDocument(summaryBlocks(summary, startedAt), 'Your session with Emma')
+}
+
+/**
+ * The dominant emotion and whether things settled or built up over the session
+ */
+export function describeEmotions(summary: SessionSummary): string {
+  const emotions = summary.emotions
+  if (!emotions) return ''
+
+  const points = emotions.progression
+  const first = points[0]?.intensity ?? 0
+  const last = points[points.length - 1]?.intensity ?? 0
+  const trend = points.length < 2 || Math.abs(last - first) < 0.15
+    ? 'stayed about the same'
+    : last < first ? 'eased as we talked' : 'grew stronger as we talked'
+
+  return emotions.dominant === 'neutral'
+    ? `You mostly sounded calm, and the intensity ${trend}.`
+    : `The strongest feeling was ${emotions.dominant}, and its intensity ${trend}.`
+}
@@ -0,0 +1,140 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { CoachingTemplate } from '@/types/database'
+
+export interface TemplateFilter {
+  skillFocus?: string
+  category?: string
+}
+
+export interface CoachingTemplateRepository {
+  name: string
+  // Only approved, active templates are ever returned
+  findUsable: (filter: TemplateFilter) => Promise<CoachingTemplate[]>
+  findById: (id: string) => Promise<CoachingTemplate | null>
+  update: (id: string, changes: Partial<Pick<CoachingTemplate, 'usage_count' | 'effectiveness_rating'>>) => Promise<void>
+}
+
+/**
+ * Supabase-backed repository reading the coaching_templates table
+ */
+export class SupabaseCoachingTemplateRepository implements CoachingTemplateRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async findUsable(filter: TemplateFilter): Promise<CoachingTemplate[]> {
+    let query = this.client
+      .from('coaching_templates')
+      .select('*')
+      .eq('clinical_review_status', 'approved')
+      .eq('is_active', true)
+
+    if (filter.skillFocus) query = query.eq('skill_focus', filter.skillFocus)
+    if (filter.category) query = query.eq('category', filter.category)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    return data || []
+  }
+
+  async findById(id: string): Promise<CoachingTemplate | null> {
+    const { data, error } = await this.client
+      .from('coaching_templates')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  async update(id: string, changes: Partial<Pick<CoachingTemplate, 'usage_count' | 'effectiveness_rating'>>): Promise<void> {
+    const { error } = await this.client
+      .from('coaching_templates')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) throw error
+  }
+}
+
+/**
+ * In-memory repository for local development, seeded like schema.sql
+ */
+export class InMemoryCoachingTemplateRepository implements CoachingTemplateRepository {
+  name = 'in-memory'
+  private templates: CoachingTemplate[]
+
+  constructor(templates: CoachingTemplate[] = DEV_SEED_TEMPLATES) {
+    this.templates = templates.map(t => ({ ...t }))
+  }
+
+  async findUsable(filter: TemplateFilter): Promise<CoachingTemplate[]> {
+    return this.templates.filter(t =>
+      t.clinical_review_status === 'approved' &&
+      t.is_active &&
+      (!filter.skillFocus || t.skill_focus === filter.skillFocus) &&
+      (!filter.category || t.category === filter.category)
+    )
+  }
+
+  async findById(id: string): Promise<CoachingTemplate | null> {
+    return this.templates.find(t => t.id === id) || null
+  }
+
+  async update(id: string, changes: Partial<Pick<CoachingTemplate, 'usage_count' | 'effectiveness_rating'>>): Promise<void> {
+    const template = this.templates.find(t => t.id === id)
+    if (template) {
+      Object.assign(template, changes, { updated_at: new Date().toISOString() })
+    }
+  }
+}
+
+const seededAt = new Date(0).toISOString()
+
+// Mirrors the seed rows in database/schema.sql. Marked approved here so the
+// template engine is usable locally; production rows still need clinical review.
+const DEV_SEED_TEMPLATES: CoachingTemplate[] = [
+  {
+    id: 'dev-active-listening-intro',
+    created_at: seededAt,
+    updated_at: seededAt,
+    template_name: 'active_listening_intro',
+    category: 'communication_skills',
+    skill_focus: 'active_listening',
+    template_text: "I hear that you're feeling {emotion}. Let me help you practice active listening, which means giving your full attention to understand your partner's perspective without immediately responding or defending.",
+    follow_up_questions: ['Can you tell me more about what happened?', 'How did that make you feel?', 'What would you like your partner to understand?'],
+    practice_exercises: ['Try repeating back what your partner said in your own words', 'Ask one clarifying question before responding'],
+    usage_count: 0,
+    effectiveness_rating: 0,
+    clinical_review_status: 'approved',
+    reviewed_by: null,
+    review_notes: 'Development seed',
+    is_active: true
+  },
+  {
+    id: 'dev-i-statements-basic',
+    created_at: seededAt,
+    updated_at: seededAt,
+    template_name: 'i_statements_basic',
+    category: 'conflict_resolution',
+    skill_focus: 'i_statements',
+    template_text: 'Instead of saying "You always..." or "You never...", try using I-statements like "I feel..." or "I need...". This helps express your feelings without making your partner defensive.',
+    follow_up_questions: ['What specific behavior would you like to address?', 'How does this behavior make you feel?', 'What do you need from your partner?'],
+    practice_exercises: ['Rewrite your concern using "I feel..." instead of "You..."', 'Practice stating your needs clearly'],
+    usage_count: 0,
+    effectiveness_rating: 0,
+    clinical_review_status: 'approved',
+    reviewed_by: null,
+    review_notes: 'Development seed',
+    is_active: true
+  }
+]
+
+export function createCoachingTemplateRepository(): CoachingTemplateRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseCoachingTemplateRepository(client)
+    : new InMemoryCoachingTemplateRepository()
+}
@@ -0,0 +1,148 @@
+import {
+  createCoachingTemplateRepository,
+  type CoachingTemplateRepository,
+  type TemplateFilter
+} from '@/lib/coaching/template-repository'
+import { isCoachingSkill } from '@/lib/ai/coaching-response'
+import type { CoachingTemplate } from '@/types/database'
+import type { CoachingResponse, CoachingSkill, ConversationContext, EmotionData } from '@/types'
+
+export interface RenderedTemplate {
+  templateId: string
+  templateName: string
+  skill: string
+  text: string
+  followUpQuestions: string[]
+  practiceExercises: string[]
+}
+
+export type TemplateVariables = Record<string, string>
+
+// Weight of a new rating in the running effectiveness score
+const RATING_SMOOTHING = 0.2
+
+// Used when a placeholder has no value in the session context
+const DEFAULT_VARIABLES: TemplateVariables = {
+  emotion: 'upset',
+  partner: 'your partner'
+}
+
+// Cues in what the user says that point to a useful skill
+const INPUT_SKILL_CUES: Array<{ skill: CoachingSkill, pattern: RegExp }> = [
+  { skill: 'deescalation', pattern: /\b(yell|yelling|scream|shout|furious|explode|heated)\b/i },
+  { skill: 'i_statements', pattern: /\byou (always|never)\b|\b(blame|blaming|criticiz)/i },
+  { skill: 'boundary_setting', pattern: /\b(boundar|overstep|too much|can't say no|walk(s|ed)? all over)/i },
+  { skill: 'empathy', pattern: /\b(doesn't understand|don't understand|their side|perspective)\b/i },
+  { skill: 'active_listening', pattern: /\b(listen|ignore|ignores|ignored|hear me|talk over)\b/i },
+]
+
+export function suggestSkillForInput(text: string): CoachingSkill | undefined {
+  return INPUT_SKILL_CUES.find(cue => cue.pattern.test(text))?.skill
+}
+
+/**
+ * Build placeholder values from the current session
+ */
+export function variablesFromContext(
+  context?: ConversationContext,
+  emotion?: EmotionData
+): TemplateVariables {
+  const variables: TemplateVariables = {}
+
+  const dominantEmotion = emotion && Object.entries(emotion.emotions)
+    .sort(([, a], [, b]) => b - a)[0]?.[0]
+  if (dominantEmotion) variables.emotion = dominantEmotion
+
+  if (context?.pinnedFacts?.partnerName) variables.partner = context.pinnedFacts.partnerName
+
+  return variables
+}
+
+export function renderTemplate(
+  template: CoachingTemplate,
+  variables: TemplateVariables = {}
+): RenderedTemplate {
+  const values = { ...DEFAULT_VARIABLES, ...variables }
+  const fill = (text: string) =>
+    text.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+
+  return {
+    templateId: template.id,
+    templateName: template.template_name,
+    skill: template.skill_focus,
+    text: fill(template.template_text),
+    followUpQuestions: (template.follow_up_questions || []).map(fill),
+    practiceExercises: (template.practice_exercises || []).map(fill)
+  }
+}
+
+/**
+ * Clinically reviewed coaching templates: selection, rendering, usage
+ * tracking and effectiveness feedback
+ */
+export class CoachingTemplateService {
+  constructor(private repository: CoachingTemplateRepository = createCoachingTemplateRepository()) {}
+
+  /**
+   * Pick the most effective approved template; ties go to the least used
+   */
+  async selectTemplate(filter: TemplateFilter): Promise<CoachingTemplate | null> {
+    let candidates = await this.repository.findUsable(filter)
+
+    // Fall back to any template in the category when no skill match exists
+    if (candidates.length === 0 && filter.skillFocus && filter.category) {
+      candidates = await this.repository.findUsable({ category: filter.category })
+    }
+
+    if (candidates.length === 0) return null
+
+    return [...candidates].sort((a, b) =>
+      b.effectiveness_rating - a.effectiveness_rating || a.usage_count - b.usage_count
+    )[0]
+  }
+
+  /**
+   * Select, render and count a template use
+   */
+  async useTemplate(
+    filter: TemplateFilter,
+    variables: TemplateVariables = {}
+  ): Promise<RenderedTemplate | null> {
+    const template = await this.selectTemplate(filter)
+    if (!template) return null
+
+    await this.repository.update(template.id, { usage_count: template.usage_count + 1 })
+
+    return renderTemplate(template, variables)
+  }
+
+  /**
+   * Fold a 0-1 rating into the template's running effectiveness score
+   */
+  async recordEffectiveness(templateId: string, rating: number): Promise<number | null> {
+    const template = await this.repository.findById(templateId)
+    if (!template) return null
+
+    const clamped = Math.min(1, Math.max(0, rating))
+    const effectiveness = template.effectiveness_rating > 0
+      ? template.effectiveness_rating * (1 - RATING_SMOOTHING) + clamped * RATING_SMOOTHING
+      : clamped
+
+    await this.repository.update(templateId, { effectiveness_rating: effectiveness })
+    return effectiveness
+  }
+
+  /**
+   * Turn a rendered template into a complete coaching response, used when
+   * the LLM is unavailable
+   */
+  toCoachingResponse(rendered: RenderedTemplate): CoachingResponse {
+    return {
+      message: rendered.text,
+      skill: isCoachingSkill(rendered.skill) ? rendered.skill : 'active_listening',
+      practiceExercise: rendered.practiceExercises[0],
+      followUpQuestion: rendered.followUpQuestions[0],
+      confidence: 0.6
+    }
+  }
+}
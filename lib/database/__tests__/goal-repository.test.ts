@@ -0,0 +1,50 @@
+import { SupabaseGoalRepository } from '@/lib/database/goal-repository'
+import type { EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { Goal } from '@/types'
+
+const GOAL: Goal = {
+  id: 'goal-1',
+  userId: 'user-1',
+  category: 'communication',
+  description: 'Listen before answering',
+  progress: 0.5,
+  status: 'active',
+  milestones: [
+    { id: 'milestone-1', position: 0, title: 'Reflect back once a day', skill: 'active_listening', completedAt: new Date('2026-03-10T09:00:00Z') },
+    { id: 'milestone-2', position: 1, title: 'Ask before advising' }
+  ],
+  createdAt: new Date('2026-03-01T09:00:00Z'),
+  updatedAt: new Date('2026-03-10T09:00:00Z')
+}
+
+function clientWith(rpcResult: { error: Error | null }) {
+  const upsert = jest.fn().mockResolvedValue({ error: null })
+  const rpc = jest.fn().mockResolvedValue({ data: null, ...rpcResult })
+  const from = jest.fn().mockReturnValue({ upsert })
+  return { client: { from, rpc } as unknown as EmmaSupabaseClient, from, rpc }
+}
+
+describe('SupabaseGoalRepository', () => {
+  it('replaces milestones through replace_goal_milestones so they change in one transaction', async () => {
+    const { client, from, rpc } = clientWith({ error: null })
+
+    await new SupabaseGoalRepository(client).save(GOAL)
+
+    expect(from).toHaveBeenCalledWith('relationship_goals')
+    expect(from).not.toHaveBeenCalledWith('goal_milestones')
+    expect(rpc).toHaveBeenCalledWith('replace_goal_milestones', {
+      p_goal_id: 'goal-1',
+      p_milestones: [
+        { id: 'milestone-1', position: 0, title: 'Reflect back once a day', skill: 'active_listening', completed_at: '2026-03-10T09:00:00.000Z', completed_session_id: null },
+        { id: 'milestone-2', position: 1, title: 'Ask before advising', skill: null, completed_at: null, completed_session_id: null }
+      ]
+    })
+  })
+
+  it('surfaces milestone errors', async () => {
+    const error = new Error('connection lost')
+    const { client } = clientWith({ error })
+
+    await expect(new SupabaseGoalRepository(client).save(GOAL)).rejects.toBe(error)
+  })
+})
@@ -0,0 +1,38 @@
+import type { EmmaSupabaseClient } from '@/lib/database/supabase'
+import { InMemoryUsageRepository, SupabaseUsageRepository } from '@/lib/database/usage-repository'
+
+describe('SupabaseUsageRepository', () => {
+  it('increments through the increment_usage function so concurrent requests add up', async () => {
+    const rpc = jest.fn().mockResolvedValue({ data: 7, error: null })
+    const repository = new SupabaseUsageRepository({ rpc } as unknown as EmmaSupabaseClient)
+
+    const amount = await repository.increment('user-1', 'messages', '2026-03-14', 1)
+
+    expect(amount).toBe(7)
+    expect(rpc).toHaveBeenCalledWith('increment_usage', {
+      p_user_id: 'user-1',
+      p_metric: 'messages',
+      p_period: '2026-03-14',
+      p_amount: 1
+    })
+  })
+
+  it('surfaces database errors', async () => {
+    const error = new Error('connection lost')
+    const rpc = jest.fn().mockResolvedValue({ data: null, error })
+    const repository = new SupabaseUsageRepository({ rpc } as unknown as EmmaSupabaseClient)
+
+    await expect(repository.increment('user-1', 'messages', '2026-03-14', 1)).rejects.toBe(error)
+  })
+})
+
+describe('InMemoryUsageRepository', () => {
+  it('keeps only the current period', async () => {
+    const repository = new InMemoryUsageRepository()
+    await repository.increment('user-1', 'messages', '2026-03-14', 5)
+
+    await expect(repository.increment('user-1', 'messages', '2026-03-15', 1)).resolves.toBe(1)
+    await expect(repository.get('user-1', 'messages', '2026-03-14')).resolves.toBe(0)
+    await expect(repository.get('user-1', 'voice_seconds', '2026-03-15')).resolves.toBe(0)
+  })
+})
@@ -0,0 +1,80 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { AuditLogEntry, NewAuditLogEntry } from '@/types/database'
+
+export interface AuditRepository {
+  name: string
+  record: (entry: NewAuditLogEntry) => Promise<AuditLogEntry>
+  // Newest first
+  list: (options?: { action?: string, limit?: number }) => Promise<AuditLogEntry[]>
+}
+
+/**
+ * Supabase-backed repository for the audit_log table
+ */
+export class SupabaseAuditRepository implements AuditRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async record(entry: NewAuditLogEntry): Promise<AuditLogEntry> {
+    const { data, error } = await this.client
+      .from('audit_log')
+      .insert(entry)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async list(options: { action?: string, limit?: number } = {}): Promise<AuditLogEntry[]> {
+    let query = this.client
+      .from('audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50)
+
+    if (options.action) query = query.eq('action', options.action)
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemoryAuditRepository implements AuditRepository {
+  name = 'in-memory'
+  private entries: AuditLogEntry[] = []
+
+  async record(entry: NewAuditLogEntry): Promise<AuditLogEntry> {
+    const row: AuditLogEntry = {
+      id: entry.id || crypto.randomUUID(),
+      created_at: entry.created_at || new Date().toISOString(),
+      action: entry.action,
+      actor: entry.actor,
+      subject_user_id: entry.subject_user_id ?? null,
+      details: entry.details ?? {}
+    }
+
+    this.entries.push(row)
+    return { ...row }
+  }
+
+  async list(options: { action?: string, limit?: number } = {}): Promise<AuditLogEntry[]> {
+    return this.entries
+      .filter(entry => !options.action || entry.action === options.action)
+      .reverse()
+      .slice(0, options.limit || 50)
+      .map(entry => ({ ...entry }))
+  }
+}
+
+export function createAuditRepository(): AuditRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseAuditRepository(client)
+    : new InMemoryAuditRepository()
+}
@@ -0,0 +1,193 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { CheckInRow } from '@/types/database'
+import type { CheckIn, CheckInStatus, NotificationChannelName } from '@/types'
+
+export interface NewCheckIn {
+  userId: string
+  prompt: string
+  dueAt: Date
+  channels?: NotificationChannelName[] // Defaults to in-app only
+}
+
+export interface CheckInTransition {
+  status: CheckInStatus
+  deliveredAt?: Date
+  deliveryError?: string | null
+}
+
+export interface CheckInRepository {
+  name: string
+  create: (checkIn: NewCheckIn) => Promise<CheckIn>
+  // Soonest due first
+  listByUser: (userId: string) => Promise<CheckIn[]>
+  // Scheduled check-ins due at or before `now`, oldest first
+  listDue: (now: Date, limit: number) => Promise<CheckIn[]>
+  // Applies the change only while the check-in is in one of the `from`
+  // statuses (and belongs to userId, when given); null otherwise. This is
+  // what keeps two job runs from delivering the same check-in.
+  transition: (id: string, from: CheckInStatus[], change: CheckInTransition, userId?: string) => Promise<CheckIn | null>
+  // Returns how many were deleted
+  deleteByUser: (userId: string) => Promise<number>
+}
+
+/**
+ * Supabase-backed repository for the check_ins table
+ */
+export class SupabaseCheckInRepository implements CheckInRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async create(checkIn: NewCheckIn): Promise<CheckIn> {
+    const { data, error } = await this.client
+      .from('check_ins')
+      .insert({
+        user_id: checkIn.userId,
+        prompt: checkIn.prompt,
+        due_at: checkIn.dueAt.toISOString(),
+        channels: checkIn.channels || ['in_app']
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return fromRow(data)
+  }
+
+  async listByUser(userId: string): Promise<CheckIn[]> {
+    const { data, error } = await this.client
+      .from('check_ins')
+      .select('*')
+      .eq('user_id', userId)
+      .order('due_at', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(fromRow)
+  }
+
+  async listDue(now: Date, limit: number): Promise<CheckIn[]> {
+    const { data, error } = await this.client
+      .from('check_ins')
+      .select('*')
+      .eq('status', 'scheduled')
+      .lte('due_at', now.toISOString())
+      .order('due_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return (data || []).map(fromRow)
+  }
+
+  async transition(id: string, from: CheckInStatus[], change: CheckInTransition, userId?: string): Promise<CheckIn | null> {
+    let query = this.client
+      .from('check_ins')
+      .update({
+        status: change.status,
+        updated_at: new Date().toISOString(),
+        ...(change.deliveredAt ? { delivered_at: change.deliveredAt.toISOString() } : {}),
+        ...(change.deliveryError !== undefined ? { delivery_error: change.deliveryError } : {})
+      })
+      .eq('id', id)
+      .in('status', from)
+    if (userId) query = query.eq('user_id', userId)
+
+    const { data, error } = await query.select().maybeSingle()
+
+    if (error) throw error
+    return data ? fromRow(data) : null
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    const { data, error } = await this.client
+      .from('check_ins')
+      .delete()
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) throw error
+    return data?.length || 0
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemoryCheckInRepository implements CheckInRepository {
+  name = 'in-memory'
+  private checkIns = new Map<string, CheckIn>()
+
+  async create(checkIn: NewCheckIn): Promise<CheckIn> {
+    const created: CheckIn = {
+      id: crypto.randomUUID(),
+      userId: checkIn.userId,
+      prompt: checkIn.prompt,
+      dueAt: checkIn.dueAt,
+      status: 'scheduled',
+      channels: checkIn.channels || ['in_app'],
+      deliveredAt: null,
+      deliveryError: null,
+      createdAt: new Date()
+    }
+
+    this.checkIns.set(created.id, created)
+    return { ...created }
+  }
+
+  async listByUser(userId: string): Promise<CheckIn[]> {
+    return [...this.checkIns.values()]
+      .filter(checkIn => checkIn.userId === userId)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+      .map(checkIn => ({ ...checkIn }))
+  }
+
+  async listDue(now: Date, limit: number): Promise<CheckIn[]> {
+    return [...this.checkIns.values()]
+      .filter(checkIn => checkIn.status === 'scheduled' && checkIn.dueAt <= now)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+      .slice(0, limit)
+      .map(checkIn => ({ ...checkIn }))
+  }
+
+  async transition(id: string, from: CheckInStatus[], change: CheckInTransition, userId?: string): Promise<CheckIn | null> {
+    const checkIn = this.checkIns.get(id)
+    if (!checkIn || !from.includes(checkIn.status)) return null
+    if (userId && checkIn.userId !== userId) return null
+
+    checkIn.status = change.status
+    if (change.deliveredAt) checkIn.deliveredAt = change.deliveredAt
+    if (change.deliveryError !== undefined) checkIn.deliveryError = change.deliveryError
+    return { ...checkIn }
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    let deleted = 0
+    this.checkIns.forEach((checkIn, id) => {
+      if (checkIn.userId === userId) {
+        this.checkIns.delete(id)
+        deleted++
+      }
+    })
+    return deleted
+  }
+}
+
+export function createCheckInRepository(): CheckInRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseCheckInRepository(client)
+    : new InMemoryCheckInRepository()
+}
+
+function fromRow(row: CheckInRow): CheckIn {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    prompt: row.prompt,
+    dueAt: new Date(row.due_at),
+    status: row.status,
+    channels: row.channels || ['in_app'],
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at) : null,
+    deliveryError: row.delivery_error,
+    createdAt: new Date(row.created_at)
+  }
+}
@@ -0,0 +1,73 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { CrisisEvent } from '@/types/database'
+
+// Crisis events still under review are kept, with their session, through
+// retention purges and user erasure
+export const LEGAL_HOLD_STATUSES: CrisisEvent['escalation_status'][] = ['pending', 'in_progress']
+
+export function isUnderLegalHold(event: CrisisEvent): boolean {
+  return LEGAL_HOLD_STATUSES.includes(event.escalation_status)
+}
+
+export interface CrisisEventRepository {
+  name: string
+  listBySessions: (sessionIds: string[]) => Promise<CrisisEvent[]>
+  delete: (ids: string[]) => Promise<void>
+}
+
+/**
+ * Supabase-backed repository for the crisis_events table
+ */
+export class SupabaseCrisisEventRepository implements CrisisEventRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async listBySessions(sessionIds: string[]): Promise<CrisisEvent[]> {
+    if (sessionIds.length === 0) return []
+
+    const { data, error } = await this.client
+      .from('crisis_events')
+      .select('*')
+      .in('session_id', sessionIds)
+
+    if (error) throw error
+    return data || []
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+
+    const { error } = await this.client
+      .from('crisis_events')
+      .delete()
+      .in('id', ids)
+
+    if (error) throw error
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemoryCrisisEventRepository implements CrisisEventRepository {
+  name = 'in-memory'
+  private events = new Map<string, CrisisEvent>()
+
+  async listBySessions(sessionIds: string[]): Promise<CrisisEvent[]> {
+    return Array.from(this.events.values())
+      .filter(event => sessionIds.includes(event.session_id))
+      .map(event => ({ ...event }))
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.events.delete(id))
+  }
+}
+
+export function createCrisisEventRepository(): CrisisEventRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseCrisisEventRepository(client)
+    : new InMemoryCrisisEventRepository()
+}
@@ -0,0 +1,178 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { GoalMilestoneRow, RelationshipGoal } from '@/types/database'
+import type { CoachingSkill, Goal, GoalCategory, GoalMilestone } from '@/types'
+
+export interface GoalRepository {
+  name: string
+  list: (userId: string) => Promise<Goal[]>
+  get: (userId: string, goalId: string) => Promise<Goal | null>
+  // Insert or update the goal; its milestones are replaced with goal.milestones
+  save: (goal: Goal) => Promise<void>
+  delete: (userId: string, goalId: string) => Promise<boolean>
+}
+
+/**
+ * Supabase-backed repository for the relationship_goals and goal_milestones tables
+ */
+export class SupabaseGoalRepository implements GoalRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async list(userId: string): Promise<Goal[]> {
+    const { data, error } = await this.client
+      .from('relationship_goals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    if (!data || data.length === 0) return []
+
+    const milestones = await this.milestonesFor(data.map(row => row.id))
+    return data.map(row => fromRow(row, milestones.filter(m => m.goal_id === row.id)))
+  }
+
+  async get(userId: string, goalId: string): Promise<Goal | null> {
+    const { data, error } = await this.client
+      .from('relationship_goals')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', goalId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? fromRow(data, await this.milestonesFor([data.id])) : null
+  }
+
+  async save(goal: Goal): Promise<void> {
+    const { error } = await this.client
+      .from('relationship_goals')
+      .upsert({
+        id: goal.id,
+        user_id: goal.userId,
+        goal_category: goal.category,
+        goal_description: goal.description,
+        target_completion_date: goal.targetDate ?? null,
+        current_progress: goal.progress,
+        milestones_completed: goal.milestones.filter(m => m.completedAt).length,
+        total_milestones: goal.milestones.length,
+        status: goal.status,
+        completion_date: goal.completedDate ?? null,
+        abandoned_date: goal.abandonedDate ?? null,
+        abandon_reason: goal.abandonReason ?? null,
+        updated_at: goal.updatedAt.toISOString()
+      })
+
+    if (error) throw error
+
+    // Milestones are few per goal, so replacing them wholesale keeps positions
+    // consistent; in SQL so a failed insert can't leave the goal without any
+    const { error: milestonesError } = await this.client.rpc('replace_goal_milestones', {
+      p_goal_id: goal.id,
+      p_milestones: goal.milestones.map(milestone => ({
+        id: milestone.id,
+        position: milestone.position,
+        title: milestone.title,
+        skill: milestone.skill ?? null,
+        completed_at: milestone.completedAt?.toISOString() ?? null,
+        completed_session_id: milestone.completedSessionId ?? null
+      }))
+    })
+
+    if (milestonesError) throw milestonesError
+  }
+
+  async delete(userId: string, goalId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('relationship_goals')
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', goalId)
+      .select('id')
+
+    if (error) throw error
+    return (data?.length ?? 0) > 0
+  }
+
+  private async milestonesFor(goalIds: string[]): Promise<GoalMilestoneRow[]> {
+    const { data, error } = await this.client
+      .from('goal_milestones')
+      .select('*')
+      .in('goal_id', goalIds)
+      .order('position', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemoryGoalRepository implements GoalRepository {
+  name = 'in-memory'
+  private goals = new Map<string, Goal>()
+
+  async list(userId: string): Promise<Goal[]> {
+    return Array.from(this.goals.values())
+      .filter(goal => goal.userId === userId)
+      .map(copyGoal)
+  }
+
+  async get(userId: string, goalId: string): Promise<Goal | null> {
+    const goal = this.goals.get(goalId)
+    return goal && goal.userId === userId ? copyGoal(goal) : null
+  }
+
+  async save(goal: Goal): Promise<void> {
+    this.goals.set(goal.id, copyGoal(goal))
+  }
+
+  async delete(userId: string, goalId: string): Promise<boolean> {
+    if (this.goals.get(goalId)?.userId !== userId) return false
+    return this.goals.delete(goalId)
+  }
+}
+
+function copyGoal(goal: Goal): Goal {
+  return { ...goal, milestones: goal.milestones.map(milestone => ({ ...milestone })) }
+}
+
+function fromRow(row: RelationshipGoal, milestones: GoalMilestoneRow[]): Goal {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    category: row.goal_category as GoalCategory,
+    description: row.goal_description,
+    targetDate: row.target_completion_date ?? undefined,
+    progress: row.current_progress,
+    status: row.status,
+    milestones: milestones
+      .sort((a, b) => a.position - b.position)
+      .map(fromMilestoneRow),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    completedDate: row.completion_date ?? undefined,
+    abandonedDate: row.abandoned_date ?? undefined,
+    abandonReason: row.abandon_reason ?? undefined
+  }
+}
+
+function fromMilestoneRow(row: GoalMilestoneRow): GoalMilestone {
+  return {
+    id: row.id,
+    position: row.position,
+    title: row.title,
+    skill: (row.skill as CoachingSkill | null) ?? undefined,
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    completedSessionId: row.completed_session_id ?? undefined
+  }
+}
+
+export function createGoalRepository(): GoalRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseGoalRepository(client)
+    : new InMemoryGoalRepository()
+}
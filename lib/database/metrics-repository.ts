@@ -0,0 +1,62 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+
+// Tables of aggregate, non-personal data with a recorded_at timestamp
+export type MetricsTable = 'system_metrics' | 'analytics_sessions'
+
+export interface MetricsRepository {
+  name: string
+  countRecordedBefore: (table: MetricsTable, before: string) => Promise<number>
+  // Returns the number of rows deleted
+  deleteRecordedBefore: (table: MetricsTable, before: string) => Promise<number>
+}
+
+/**
+ * Supabase-backed repository for the metrics and analytics tables
+ */
+export class SupabaseMetricsRepository implements MetricsRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async countRecordedBefore(table: MetricsTable, before: string): Promise<number> {
+    const { count, error } = await this.client
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .lt('recorded_at', before)
+
+    if (error) throw error
+    return count || 0
+  }
+
+  async deleteRecordedBefore(table: MetricsTable, before: string): Promise<number> {
+    const { count, error } = await this.client
+      .from(table)
+      .delete({ count: 'exact' })
+      .lt('recorded_at', before)
+
+    if (error) throw error
+    return count || 0
+  }
+}
+
+/**
+ * Local development stand-in: metrics are only persisted to Supabase
+ */
+export class InMemoryMetricsRepository implements MetricsRepository {
+  name = 'in-memory'
+
+  async countRecordedBefore(): Promise<number> {
+    return 0
+  }
+
+  async deleteRecordedBefore(): Promise<number> {
+    return 0
+  }
+}
+
+export function createMetricsRepository(): MetricsRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseMetricsRepository(client)
+    : new InMemoryMetricsRepository()
+}
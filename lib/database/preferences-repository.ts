@@ -0,0 +1,98 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { UserPreferencesRow } from '@/types/database'
+import type { UserPreferences } from '@/types'
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  communicationStyle: 'direct',
+  culturalContext: 'individualist',
+  relationshipGoals: [],
+  preferredLanguage: 'en'
+}
+
+export interface PreferencesRepository {
+  name: string
+  get: (userId: string) => Promise<UserPreferences | null>
+  save: (userId: string, preferences: UserPreferences) => Promise<void>
+  delete: (userId: string) => Promise<void>
+}
+
+/**
+ * Supabase-backed repository for the user_preferences table
+ */
+export class SupabasePreferencesRepository implements PreferencesRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async get(userId: string): Promise<UserPreferences | null> {
+    const { data, error } = await this.client
+      .from('user_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? fromRow(data) : null
+  }
+
+  async save(userId: string, preferences: UserPreferences): Promise<void> {
+    const { error } = await this.client
+      .from('user_preferences')
+      .upsert({
+        user_id: userId,
+        communication_style: preferences.communicationStyle,
+        cultural_context: preferences.culturalContext,
+        relationship_goals: preferences.relationshipGoals,
+        preferred_language: preferences.preferredLanguage,
+        updated_at: new Date().toISOString()
+      })
+
+    if (error) throw error
+  }
+
+  async delete(userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('user_preferences')
+      .delete()
+      .eq('user_id', userId)
+
+    if (error) throw error
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemoryPreferencesRepository implements PreferencesRepository {
+  name = 'in-memory'
+  private preferences = new Map<string, UserPreferences>()
+
+  async get(userId: string): Promise<UserPreferences | null> {
+    const preferences = this.preferences.get(userId)
+    return preferences ? { ...preferences, relationshipGoals: [...preferences.relationshipGoals] } : null
+  }
+
+  async save(userId: string, preferences: UserPreferences): Promise<void> {
+    this.preferences.set(userId, { ...preferences, relationshipGoals: [...preferences.relationshipGoals] })
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.preferences.delete(userId)
+  }
+}
+
+function fromRow(row: UserPreferencesRow): UserPreferences {
+  return {
+    communicationStyle: row.communication_style,
+    culturalContext: row.cultural_context,
+    relationshipGoals: row.relationship_goals || [],
+    preferredLanguage: row.preferred_language
+  }
+}
+
+export function createPreferencesRepository(): PreferencesRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabasePreferencesRepository(client)
+    : new InMemoryPreferencesRepository()
+}
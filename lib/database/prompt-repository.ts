@@ -0,0 +1,52 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { PromptVersionRow } from '@/types/database'
+
+export interface PromptVersionRepository {
+  name: string
+  // Active versions only; inactive versions never receive traffic
+  findActive: (promptKey: string) => Promise<PromptVersionRow[]>
+}
+
+/**
+ * Supabase-backed repository reading the prompt_versions table
+ */
+export class SupabasePromptVersionRepository implements PromptVersionRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async findActive(promptKey: string): Promise<PromptVersionRow[]> {
+    const { data, error } = await this.client
+      .from('prompt_versions')
+      .select('*')
+      .eq('prompt_key', promptKey)
+      .eq('is_active', true)
+
+    if (error) throw error
+    return data || []
+  }
+}
+
+/**
+ * In-memory repository for local development. Starts empty, so the
+ * registry serves its built-in baseline prompt.
+ */
+export class InMemoryPromptVersionRepository implements PromptVersionRepository {
+  name = 'in-memory'
+  private versions: PromptVersionRow[]
+
+  constructor(versions: PromptVersionRow[] = []) {
+    this.versions = versions.map(v => ({ ...v }))
+  }
+
+  async findActive(promptKey: string): Promise<PromptVersionRow[]> {
+    return this.versions.filter(v => v.prompt_key === promptKey && v.is_active)
+  }
+}
+
+export function createPromptVersionRepository(): PromptVersionRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabasePromptVersionRepository(client)
+    : new InMemoryPromptVersionRepository()
+}
@@ -0,0 +1,127 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { PushSubscriptionRow } from '@/types/database'
+
+/**
+ * A browser's push endpoint, as returned by PushSubscription.toJSON()
+ */
+export interface WebPushSubscription {
+  endpoint: string
+  keys: {
+    p256dh: string // base64url
+    auth: string // base64url
+  }
+}
+
+export interface PushSubscriptionRepository {
+  name: string
+  // Subscribing the same endpoint again moves it to this user
+  save: (userId: string, subscription: WebPushSubscription) => Promise<void>
+  listByUser: (userId: string) => Promise<WebPushSubscription[]>
+  // Only removes the endpoint when it belongs to userId, when given
+  delete: (endpoint: string, userId?: string) => Promise<boolean>
+  // Returns how many were deleted
+  deleteByUser: (userId: string) => Promise<number>
+}
+
+/**
+ * Supabase-backed repository for the push_subscriptions table
+ */
+export class SupabasePushSubscriptionRepository implements PushSubscriptionRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async save(userId: string, subscription: WebPushSubscription): Promise<void> {
+    const { error } = await this.client
+      .from('push_subscriptions')
+      .upsert({
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth
+      }, { onConflict: 'endpoint' })
+
+    if (error) throw error
+  }
+
+  async listByUser(userId: string): Promise<WebPushSubscription[]> {
+    const { data, error } = await this.client
+      .from('push_subscriptions')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) throw error
+    return (data || []).map(fromRow)
+  }
+
+  async delete(endpoint: string, userId?: string): Promise<boolean> {
+    let query = this.client
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', endpoint)
+    if (userId) query = query.eq('user_id', userId)
+
+    const { data, error } = await query.select('id')
+
+    if (error) throw error
+    return (data?.length || 0) > 0
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    const { data, error } = await this.client
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) throw error
+    return data?.length || 0
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemoryPushSubscriptionRepository implements PushSubscriptionRepository {
+  name = 'in-memory'
+  // Keyed by endpoint
+  private subscriptions = new Map<string, { userId: string, subscription: WebPushSubscription }>()
+
+  async save(userId: string, subscription: WebPushSubscription): Promise<void> {
+    this.subscriptions.set(subscription.endpoint, { userId, subscription: { endpoint: subscription.endpoint, keys: { ...subscription.keys } } })
+  }
+
+  async listByUser(userId: string): Promise<WebPushSubscription[]> {
+    return [...this.subscriptions.values()]
+      .filter(entry => entry.userId === userId)
+      .map(entry => ({ endpoint: entry.subscription.endpoint, keys: { ...entry.subscription.keys } }))
+  }
+
+  async delete(endpoint: string, userId?: string): Promise<boolean> {
+    const entry = this.subscriptions.get(endpoint)
+    if (!entry || (userId && entry.userId !== userId)) return false
+    return this.subscriptions.delete(endpoint)
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    let deleted = 0
+    this.subscriptions.forEach((entry, endpoint) => {
+      if (entry.userId === userId) {
+        this.subscriptions.delete(endpoint)
+        deleted++
+      }
+    })
+    return deleted
+  }
+}
+
+export function createPushSubscriptionRepository(): PushSubscriptionRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabasePushSubscriptionRepository(client)
+    : new InMemoryPushSubscriptionRepository()
+}
+
+function fromRow(row: PushSubscriptionRow): WebPushSubscription {
+  return { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } }
+}
@@ -0,0 +1,162 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { NewSession, Session, SessionUpdate } from '@/types/database'
+
+export interface SessionRepository {
+  name: string
+  create: (session: NewSession) => Promise<Session>
+  findById: (id: string) => Promise<Session | null>
+  // Newest first
+  listByUser: (userId: string) => Promise<Session[]>
+  // All users' sessions created before the given ISO timestamp, oldest first
+  listCreatedBefore: (before: string) => Promise<Session[]>
+  update: (id: string, changes: SessionUpdate) => Promise<void>
+  delete: (ids: string[]) => Promise<void>
+}
+
+/**
+ * Supabase-backed repository for the sessions table
+ */
+export class SupabaseSessionRepository implements SessionRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async create(session: NewSession): Promise<Session> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .insert(session)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  async listCreatedBefore(before: string): Promise<Session[]> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .select('*')
+      .lt('created_at', before)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  }
+
+  async update(id: string, changes: SessionUpdate): Promise<void> {
+    const { error } = await this.client
+      .from('sessions')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+
+    const { error } = await this.client
+      .from('sessions')
+      .delete()
+      .in('id', ids)
+
+    if (error) throw error
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemorySessionRepository implements SessionRepository {
+  name = 'in-memory'
+  private sessions = new Map<string, Session>()
+
+  async create(session: NewSession): Promise<Session> {
+    const now = new Date().toISOString()
+    const row: Session = {
+      id: session.id || crypto.randomUUID(),
+      user_id: session.user_id,
+      created_at: session.created_at || now,
+      updated_at: session.updated_at || now,
+      session_type: session.session_type || 'coaching',
+      duration_seconds: session.duration_seconds ?? null,
+      completed: session.completed ?? false,
+      encrypted_transcript: session.encrypted_transcript ?? null,
+      encrypted_summary: session.encrypted_summary ?? null,
+      encryption_key_hash: session.encryption_key_hash ?? null,
+      emotion_summary: session.emotion_summary ?? null,
+      skills_practiced: session.skills_practiced ?? null,
+      coaching_effectiveness_score: session.coaching_effectiveness_score ?? null,
+      practice_rubric: session.practice_rubric ?? null,
+      crisis_level: session.crisis_level ?? 0,
+      crisis_indicators: session.crisis_indicators ?? null,
+      human_escalation_triggered: session.human_escalation_triggered ?? false,
+      response_time_ms: session.response_time_ms ?? null,
+      api_calls_count: session.api_calls_count ?? 0,
+      error_count: session.error_count ?? 0
+    }
+
+    this.sessions.set(row.id, row)
+    return { ...row }
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    const session = this.sessions.get(id)
+    return session ? { ...session } : null
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(session => ({ ...session }))
+  }
+
+  async listCreatedBefore(before: string): Promise<Session[]> {
+    const cutoff = new Date(before).getTime()
+    return Array.from(this.sessions.values())
+      .filter(session => new Date(session.created_at).getTime() < cutoff)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(session => ({ ...session }))
+  }
+
+  async update(id: string, changes: SessionUpdate): Promise<void> {
+    const session = this.sessions.get(id)
+    if (session) {
+      Object.assign(session, changes, { updated_at: new Date().toISOString() })
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.sessions.delete(id))
+  }
+}
+
+export function createSessionRepository(): SessionRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseSessionRepository(client)
+    : new InMemorySessionRepository()
+}
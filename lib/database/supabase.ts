@@ -0,0 +1,26 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+
+export type EmmaSupabaseClient = SupabaseClient<Database>
+
+let serviceClient: EmmaSupabaseClient | null = null
+
+/**
+ * Server-side Supabase client using the service key.
+ * Returns null when Supabase is not configured so callers can fall back
+ * to in-memory adapters during local development.
+ */
+export function getServiceClient(): EmmaSupabaseClient | null {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+    return null
+  }
+
+  if (!serviceClient) {
+    serviceClient = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    )
+  }
+
+  return serviceClient
+}
@@ -0,0 +1,98 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { UsageCounter } from '@/types/database'
+
+export type UsageMetric = UsageCounter['metric']
+
+// Counters keep only the current period; `period` is a UTC day, YYYY-MM-DD
+export interface UsageRepository {
+  name: string
+  // Zero when nothing was recorded in the period
+  get: (userId: string, metric: UsageMetric, period: string) => Promise<number>
+  // Returns the new amount for the period
+  increment: (userId: string, metric: UsageMetric, period: string, amount: number) => Promise<number>
+  // Returns how many counters were deleted
+  deleteByUser: (userId: string) => Promise<number>
+}
+
+/**
+ * Supabase-backed repository for the usage_counters table
+ */
+export class SupabaseUsageRepository implements UsageRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async get(userId: string, metric: UsageMetric, period: string): Promise<number> {
+    const { data, error } = await this.client
+      .from('usage_counters')
+      .select('amount')
+      .eq('user_id', userId)
+      .eq('metric', metric)
+      .eq('period_start', period)
+      .maybeSingle()
+
+    if (error) throw error
+    return data?.amount || 0
+  }
+
+  async increment(userId: string, metric: UsageMetric, period: string, amount: number): Promise<number> {
+    // In SQL so concurrent requests can't lose an update
+    const { data, error } = await this.client.rpc('increment_usage', {
+      p_user_id: userId,
+      p_metric: metric,
+      p_period: period,
+      p_amount: amount
+    })
+
+    if (error) throw error
+    return data
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    const { data, error } = await this.client
+      .from('usage_counters')
+      .delete()
+      .eq('user_id', userId)
+      .select('user_id')
+
+    if (error) throw error
+    return data?.length || 0
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemoryUsageRepository implements UsageRepository {
+  name = 'in-memory'
+  private counters = new Map<string, { period: string, amount: number }>()
+
+  async get(userId: string, metric: UsageMetric, period: string): Promise<number> {
+    const counter = this.counters.get(`${userId}:${metric}`)
+    return counter?.period === period ? counter.amount : 0
+  }
+
+  async increment(userId: string, metric: UsageMetric, period: string, amount: number): Promise<number> {
+    const total = (await this.get(userId, metric, period)) + amount
+    this.counters.set(`${userId}:${metric}`, { period, amount: total })
+    return total
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    let deleted = 0
+    this.counters.forEach((_counter, key) => {
+      if (key.startsWith(`${userId}:`)) {
+        this.counters.delete(key)
+        deleted++
+      }
+    })
+    return deleted
+  }
+}
+
+export function createUsageRepository(): UsageRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseUsageRepository(client)
+    : new InMemoryUsageRepository()
+}
@@ -0,0 +1,133 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+import type { NewUser, UserProfile, UserUpdate } from '@/types/database'
+
+export interface UserRepository {
+  name: string
+  create: (user: NewUser) => Promise<UserProfile>
+  // Users that do not exist are left out
+  findByIds: (ids: string[]) => Promise<UserProfile[]>
+  findByAuthId: (authId: string) => Promise<UserProfile | null>
+  update: (id: string, changes: UserUpdate) => Promise<UserProfile | null>
+  // Rows that reference the user cascade with it
+  delete: (id: string) => Promise<void>
+}
+
+/**
+ * Supabase-backed repository for the users table
+ */
+export class SupabaseUserRepository implements UserRepository {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient) {}
+
+  async create(user: NewUser): Promise<UserProfile> {
+    const { data, error } = await this.client
+      .from('users')
+      .insert(user)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async findByIds(ids: string[]): Promise<UserProfile[]> {
+    if (ids.length === 0) return []
+
+    const { data, error } = await this.client
+      .from('users')
+      .select('*')
+      .in('id', ids)
+
+    if (error) throw error
+    return data || []
+  }
+
+  async findByAuthId(authId: string): Promise<UserProfile | null> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('*')
+      .eq('auth_id', authId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  async update(id: string, changes: UserUpdate): Promise<UserProfile | null> {
+    const { data, error } = await this.client
+      .from('users')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('users')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+}
+
+/**
+ * In-memory repository for local development
+ */
+export class InMemoryUserRepository implements UserRepository {
+  name = 'in-memory'
+  private users = new Map<string, UserProfile>()
+
+  async create(user: NewUser): Promise<UserProfile> {
+    const now = new Date().toISOString()
+    const row: UserProfile = {
+      id: user.id || crypto.randomUUID(),
+      created_at: user.created_at || now,
+      updated_at: user.updated_at || now,
+      auth_id: user.auth_id ?? null,
+      subscription_tier: user.subscription_tier || 'free',
+      is_anonymous: user.is_anonymous ?? true,
+      data_retention_days: user.data_retention_days ?? 30,
+      analytics_opt_out: user.analytics_opt_out ?? false
+    }
+
+    this.users.set(row.id, row)
+    return { ...row }
+  }
+
+  async findByIds(ids: string[]): Promise<UserProfile[]> {
+    return ids
+      .map(id => this.users.get(id))
+      .filter((user): user is UserProfile => !!user)
+      .map(user => ({ ...user }))
+  }
+
+  async findByAuthId(authId: string): Promise<UserProfile | null> {
+    const user = Array.from(this.users.values()).find(u => u.auth_id === authId)
+    return user ? { ...user } : null
+  }
+
+  async update(id: string, changes: UserUpdate): Promise<UserProfile | null> {
+    const user = this.users.get(id)
+    if (!user) return null
+
+    Object.assign(user, changes, { updated_at: new Date().toISOString() })
+    return { ...user }
+  }
+
+  async delete(id: string): Promise<void> {
+    this.users.delete(id)
+  }
+}
+
+export function createUserRepository(): UserRepository {
+  const client = getServiceClient()
+  return client
+    ? new SupabaseUserRepository(client)
+    : new InMemoryUserRepository()
+}
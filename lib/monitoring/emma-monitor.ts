@@ -4,22 +4,35 @@
  * QA Persona - Comprehensive coverage with risk-based prioritization
  */
 
-import { QualityGateSystem, type ValidationResult, type QualityMetrics } from './quality-gates'
+import { QualityGateSystem, type ValidationResult, type QualityMetrics, type VariantQualityReport } from './quality-gates'
 import type { 
   SafetyValidatedResponse, 
   CrisisDetectionResult,
   EmotionData,
-  ConversationTurn 
+  ConversationTurn,
+  ToolAction
 } from '@/types'
 
 export interface MonitoringEvent {
   id: string
   timestamp: Date
-  type: 'interaction' | 'crisis' | 'error' | 'warning'
+  type: 'interaction' | 'crisis' | 'error' | 'warning' | 'tool_call'
   severity: 'low' | 'medium' | 'high' | 'critical'
   data: any
   userId?: string
   sessionId?: string
+  promptVersion?: string // System prompt variant in use for the session
+}
+
+export interface MonitoringMetadata {
+  userId?: string
+  sessionId?: string
+  promptVersion?: string
+}
+
+export interface VariantMetrics extends VariantQualityReport {
+  validationFailureRate: number
+  crisisDetections: number
 }
 
 export interface AlertRule {
@@ -49,7 +62,7 @@ export class EmmaMonitor {
     response: SafetyValidatedResponse<string>,
     crisisResult: CrisisDetectionResult,
     emotion?: EmotionData,
-    metadata?: { userId?: string, sessionId?: string }
+    metadata?: MonitoringMetadata
   ): Promise<{
     passed: boolean
     validationResults: ValidationResult[]
@@ -80,7 +93,8 @@ export class EmmaMonitor {
     const responseValidation = await this.qualityGates.validateResponse(
       response, 
       userInput, 
-      crisisResult
+      crisisResult,
+      metadata?.promptVersion
     )
     validationResults.push(responseValidation)
     
@@ -118,7 +132,8 @@ export class EmmaMonitor {
           crisisDetected: crisisResult.isCrisis,
           severity: crisisResult.severity,
           triggers: crisisResult.triggers,
-          escalationRequired: crisisResult.escalationRequired
+          escalationRequired: crisisResult.escalationRequired,
+          emotion: emotion && { sentiment: emotion.sentiment, magnitude: emotion.magnitude }
         },
         metadata
       )
@@ -151,6 +166,7 @@ export class EmmaMonitor {
       response: response.data.substring(0, 100) + '...',
       crisisDetected: crisisResult.isCrisis,
       confidence: response.confidence,
+      emotion: emotion && { sentiment: emotion.sentiment, magnitude: emotion.magnitude, emotions: emotion.emotions },
       validationResults: validationResults.map(v => ({
         gate: v.gate,
         passed: v.passed,
@@ -181,7 +197,7 @@ export class EmmaMonitor {
   async monitorCrisisEscalation(
     crisisResult: CrisisDetectionResult,
     escalationActions: string[],
-    metadata?: { userId?: string, sessionId?: string }
+    metadata?: MonitoringMetadata
   ): Promise<void> {
     const alert = this.createAlert('critical', 'Crisis escalation initiated', {
       severity: crisisResult.severity,
@@ -200,6 +216,26 @@ export class EmmaMonitor {
     }
   }
   
+  /**
+   * Record a tool call Emma made, each time its status changes
+   */
+  recordToolCall(action: ToolAction, metadata?: MonitoringMetadata): MonitoringEvent {
+    const failed = action.status === 'invalid' || action.status === 'failed'
+    // Arguments stay out: they can repeat what the user said
+    const event = this.createEvent('tool_call', failed ? 'medium' : 'low', {
+      actionId: action.id,
+      tool: action.tool,
+      status: action.status,
+      error: action.error
+    }, metadata)
+
+    this.events.push(event)
+    if (failed) {
+      console.warn(`[TOOL] ${action.tool} ${action.status}:`, action.error)
+    }
+    return event
+  }
+  
   /**
    * Get real-time system health metrics
    */
@@ -253,6 +289,30 @@ export class EmmaMonitor {
     }
   }
   
+  /**
+   * Quality metrics per system prompt version, joined with the validation
+   * failure and crisis rates from recorded events
+   */
+  getVariantMetrics(hours: number = 24): Record<string, VariantMetrics> {
+    const events = this.getEventHistory(hours)
+    const report = this.qualityGates.getVariantReport()
+    const variants: Record<string, VariantMetrics> = {}
+
+    for (const [version, quality] of Object.entries(report)) {
+      const versionEvents = events.filter(e => e.promptVersion === version)
+      const interactions = versionEvents.filter(e => e.type === 'interaction')
+      const failures = interactions.filter(e => e.data.validationResults?.some((v: any) => !v.passed))
+
+      variants[version] = {
+        ...quality,
+        validationFailureRate: interactions.length > 0 ? failures.length / interactions.length : 0,
+        crisisDetections: versionEvents.filter(e => e.type === 'crisis').length
+      }
+    }
+
+    return variants
+  }
+  
   /**
    * Setup default alert rules
    */
@@ -308,7 +368,7 @@ export class EmmaMonitor {
     severity: 'low' | 'medium' | 'high' | 'critical',
     message: string,
     data: any,
-    metadata?: { userId?: string, sessionId?: string }
+    metadata?: MonitoringMetadata
   ): MonitoringEvent {
     return {
       id: this.generateEventId(),
@@ -317,15 +377,16 @@ export class EmmaMonitor {
       severity,
       data: { ...data, message },
       userId: metadata?.userId,
-      sessionId: metadata?.sessionId
+      sessionId: metadata?.sessionId,
+      promptVersion: metadata?.promptVersion
     }
   }
   
   private createEvent(
-    type: 'interaction' | 'crisis' | 'error' | 'warning',
+    type: MonitoringEvent['type'],
     severity: 'low' | 'medium' | 'high' | 'critical',
     data: any,
-    metadata?: { userId?: string, sessionId?: string }
+    metadata?: MonitoringMetadata
   ): MonitoringEvent {
     return {
       id: this.generateEventId(),
@@ -334,7 +395,8 @@ export class EmmaMonitor {
       severity,
       data,
       userId: metadata?.userId,
-      sessionId: metadata?.sessionId
+      sessionId: metadata?.sessionId,
+      promptVersion: metadata?.promptVersion
     }
   }
   
@@ -420,10 +482,13 @@ export class EmmaMonitor {
     return this.events.filter(e => e.timestamp >= cutoff)
   }
   
+  /**
+   * Crisis events for operators, without message text or who they came from
+   */
   public getCrisisEvents(hours: number = 24): MonitoringEvent[] {
-    return this.getEventHistory(hours).filter(e => 
-      e.type === 'crisis' || e.data?.crisisDetected
-    )
+    return this.getEventHistory(hours)
+      .filter(e => e.type === 'crisis' || e.data?.crisisDetected)
+      .map(anonymizeEvent)
   }
   
   public clearOldEvents(hours: number = 168): void { // Default 7 days
@@ -431,15 +496,50 @@ export class EmmaMonitor {
     this.events = this.events.filter(e => e.timestamp >= cutoff)
   }
   
+  public getUserEvents(userId: string): MonitoringEvent[] {
+    return this.events.filter(e => e.userId === userId)
+  }
+  
+  public removeUserEvents(userId: string): number {
+    const before = this.events.length
+    this.events = this.events.filter(e => e.userId !== userId)
+    return before - this.events.length
+  }
+  
+  public getEventUserIds(): string[] {
+    return [...new Set(this.events.map(e => e.userId).filter((id): id is string => !!id))]
+  }
+  
+  /**
+   * Drop events recorded before their user's retention cutoff and return
+   * them. With dryRun the events are only reported.
+   */
+  public purgeEvents(cutoffFor: (userId?: string) => Date, dryRun: boolean = false): MonitoringEvent[] {
+    const expired = this.events.filter(e => e.timestamp < cutoffFor(e.userId))
+    if (!dryRun) {
+      this.events = this.events.filter(e => !expired.includes(e))
+    }
+    return expired
+  }
+  
   public exportAnalytics(): {
     events: MonitoringEvent[]
     qualityReport: any
     systemHealth: any
   } {
     return {
-      events: this.events,
+      events: this.events.map(anonymizeEvent),
       qualityReport: this.qualityGates.getQualityReport(),
       systemHealth: this.getSystemHealth()
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * An event as operators see it: no user or session IDs and no message or
+ * response text. The user's own export keeps them.
+ */
+function anonymizeEvent(event: MonitoringEvent): MonitoringEvent {
+  const { userInput, response, ...data } = event.data || {}
+  return { ...event, data, userId: undefined, sessionId: undefined }
+}
@@ -34,9 +34,15 @@ export interface QualityMetrics {
   empathyScore: number
   hallucinationRisk: number
   crisisDetectionAccuracy: number
+  promptVersion?: string // System prompt variant that produced the response
   timestamp: Date
 }
 
+export interface VariantQualityReport {
+  interactions: number
+  averageMetrics: Partial<QualityMetrics>
+}
+
 export interface ValidationResult {
   passed: boolean
   gate: string
@@ -76,8 +82,8 @@ export class QualityGateSystem {
       recommendations.push('Prepare crisis intervention protocols')
     }
     
-    // Emotion consistency check
-    if (emotion && this.checkEmotionInputMismatch(userInput, emotion)) {
+    // Emotion consistency check (only meaningful when emotion didn't come from the text itself)
+    if (emotion && emotion.source !== 'text' && this.checkEmotionInputMismatch(userInput, emotion)) {
       issues.push('Emotion-text mismatch detected')
       recommendations.push('Request clarification from user')
     }
@@ -98,7 +104,8 @@ export class QualityGateSystem {
   async validateResponse(
     response: SafetyValidatedResponse<string>,
     userInput: string,
-    crisisResult: CrisisDetectionResult
+    crisisResult: CrisisDetectionResult,
+    promptVersion?: string
   ): Promise<ValidationResult> {
     const issues: string[] = []
     const recommendations: string[] = []
@@ -156,6 +163,7 @@ export class QualityGateSystem {
       hallucinationRisk,
       crisisDetectionAccuracy: crisisResult.isCrisis ? 
         (response.crisisDetected ? 1 : 0) : (response.crisisDetected ? 0 : 1),
+      promptVersion,
       timestamp: new Date()
     }
     
@@ -430,10 +438,36 @@ export class QualityGateSystem {
       return { averageMetrics: {}, trends: [], recommendations: [] }
     }
     
+    const averageMetrics = this.averageMetrics(this.metrics)
+    
+    const trends = this.analyzeTrends()
+    const recommendations = this.generateRecommendations(averageMetrics)
+    
+    return { averageMetrics, trends, recommendations }
+  }
+  
+  /**
+   * Average metrics per system prompt version, for comparing A/B variants
+   */
+  public getVariantReport(): Record<string, VariantQualityReport> {
+    const byVersion = new Map<string, QualityMetrics[]>()
+    for (const metrics of this.metrics) {
+      if (!metrics.promptVersion) continue
+      byVersion.set(metrics.promptVersion, [...(byVersion.get(metrics.promptVersion) || []), metrics])
+    }
+
+    const report: Record<string, VariantQualityReport> = {}
+    byVersion.forEach((metrics, version) => {
+      report[version] = { interactions: metrics.length, averageMetrics: this.averageMetrics(metrics) }
+    })
+    return report
+  }
+  
+  private averageMetrics(metrics: QualityMetrics[]): Partial<QualityMetrics> {
     const avg = (field: keyof QualityMetrics) =>
-      this.metrics.reduce((sum, m) => sum + (m[field] as number), 0) / this.metrics.length
+      metrics.reduce((sum, m) => sum + (m[field] as number), 0) / metrics.length
     
-    const averageMetrics = {
+    return {
       responseTime: avg('responseTime'),
       confidence: avg('confidence'),
       therapeuticQuality: avg('therapeuticQuality'),
@@ -442,11 +476,6 @@ export class QualityGateSystem {
       hallucinationRisk: avg('hallucinationRisk'),
       crisisDetectionAccuracy: avg('crisisDetectionAccuracy')
     }
-    
-    const trends = this.analyzeTrends()
-    const recommendations = this.generateRecommendations(averageMetrics)
-    
-    return { averageMetrics, trends, recommendations }
   }
   
   private analyzeTrends(): string[] {
@@ -0,0 +1,140 @@
+import { getServiceClient } from '@/lib/database/supabase'
+import type { PushSubscriptionRepository } from '@/lib/database/push-subscription-repository'
+import type { UserRepository } from '@/lib/database/user-repository'
+import { sendMail, type SmtpOptions } from '@/lib/notifications/smtp-client'
+import { sendWebPush, vapidKeysFromEnv, type VapidKeys } from '@/lib/notifications/web-push'
+import type { NotificationChannelName } from '@/types'
+
+/**
+ * A reminder that a check-in is waiting. Email and push leave Emma, so
+ * they never carry the check-in prompt itself; that stays in the app.
+ */
+export interface CheckInNotification {
+  userId: string
+  checkInId: string
+  title: string
+  body: string
+  url: string
+}
+
+// 'skipped': the user has nowhere to receive it, e.g. no email address
+export type DeliveryOutcome = 'sent' | 'skipped'
+
+export interface NotificationChannel {
+  name: NotificationChannelName
+  // Throws when delivery was attempted and failed
+  deliver: (notification: CheckInNotification) => Promise<DeliveryOutcome>
+}
+
+// The user's email address, or null when there is none to use
+export type EmailAddressResolver = (userId: string) => Promise<string | null>
+
+/**
+ * The check-in itself is the in-app notification: once delivered it is
+ * listed as due, and Emma opens the user's next session with it.
+ */
+export class InAppChannel implements NotificationChannel {
+  name = 'in_app' as const
+
+  async deliver(): Promise<DeliveryOutcome> {
+    return 'sent'
+  }
+}
+
+export class EmailChannel implements NotificationChannel {
+  name = 'email' as const
+
+  constructor(private smtp: SmtpOptions, private resolveAddress: EmailAddressResolver) {}
+
+  async deliver(notification: CheckInNotification): Promise<DeliveryOutcome> {
+    const to = await this.resolveAddress(notification.userId)
+    if (!to) return 'skipped'
+
+    await sendMail(this.smtp, {
+      to,
+      subject: notification.title,
+      text: `${notification.body}\n\n${notification.url}\n`
+    })
+    return 'sent'
+  }
+}
+
+/**
+ * Sends to every device the user subscribed, dropping subscriptions the
+ * push service reports as gone
+ */
+export class WebPushChannel implements NotificationChannel {
+  name = 'push' as const
+
+  constructor(private subscriptions: PushSubscriptionRepository, private vapid: VapidKeys) {}
+
+  async deliver(notification: CheckInNotification): Promise<DeliveryOutcome> {
+    const subscriptions = await this.subscriptions.listByUser(notification.userId)
+    const payload = JSON.stringify({
+      title: notification.title,
+      body: notification.body,
+      url: notification.url,
+      tag: `check-in-${notification.checkInId}`
+    })
+
+    let sent = 0
+    const errors: string[] = []
+    for (const subscription of subscriptions) {
+      try {
+        const result = await sendWebPush(subscription, payload, this.vapid)
+        if (result.expired) {
+          await this.subscriptions.delete(subscription.endpoint)
+        } else {
+          sent++
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error))
+      }
+    }
+
+    // One working device is enough; fail only when every attempt did
+    if (sent === 0 && errors.length > 0) throw new Error(errors.join('; '))
+    return sent > 0 ? 'sent' : 'skipped'
+  }
+}
+
+export interface NotificationChannelDependencies {
+  users: UserRepository
+  pushSubscriptions: PushSubscriptionRepository
+}
+
+/**
+ * In-app delivery always; email when SMTP_HOST is set and push when VAPID
+ * keys are configured
+ */
+export function createNotificationChannels(deps: NotificationChannelDependencies): NotificationChannel[] {
+  const channels: NotificationChannel[] = [new InAppChannel()]
+
+  const smtpHost = process.env.SMTP_HOST
+  if (smtpHost) {
+    channels.push(new EmailChannel(
+      { host: smtpHost, port: parseInt(process.env.SMTP_PORT || '1025'), from: process.env.SMTP_FROM || 'emma@localhost' },
+      createAccountEmailResolver(deps.users)
+    ))
+  }
+
+  const vapid = vapidKeysFromEnv()
+  if (vapid) {
+    channels.push(new WebPushChannel(deps.pushSubscriptions, vapid))
+  }
+
+  return channels
+}
+
+// Emma keeps no email addresses; only users who linked an account have one
+function createAccountEmailResolver(users: UserRepository): EmailAddressResolver {
+  return async userId => {
+    const client = getServiceClient()
+    const [user] = await users.findByIds([userId])
+    if (!client || !user?.auth_id) return null
+
+    const { data, error } = await client.auth.admin.getUserById(user.auth_id)
+    if (error) throw error
+    return data.user?.email || null
+  }
+}
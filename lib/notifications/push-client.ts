@@ -0,0 +1,42 @@
+import { apiFetch } from '@/lib/auth/identity-client'
+
+const SERVICE_WORKER_PATH = '/sw.js'
+
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window
+}
+
+/**
+ * Ask for notification permission and register this browser for check-in
+ * reminders. Throws with a user-facing message when that isn't possible.
+ */
+export async function enablePushNotifications(): Promise<void> {
+  if (!isPushSupported()) throw new Error('This browser does not support notifications')
+
+  const { publicKey } = await apiFetch('/api/notifications/push').then(response => response.json())
+  if (!publicKey) throw new Error('Reminders are not available on this server')
+
+  if (await Notification.requestPermission() !== 'granted') {
+    throw new Error('Notifications are blocked for this site')
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_PATH)
+  await navigator.serviceWorker.ready
+  const subscription = await registration.pushManager.getSubscription()
+    || await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: fromBase64Url(publicKey) })
+
+  const response = await apiFetch('/api/notifications/push', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON())
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
@@ -0,0 +1,113 @@
+// Minimal SMTP client for reminder emails: plain text, no TLS or AUTH, which
+// is what local stand-ins such as Mailpit or MailHog accept. Put a relay
+// on localhost in front of a real provider rather than growing this.
+
+import { createConnection, type Socket } from 'net'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  from: string
+  timeoutMs?: number
+}
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  for (const address of [options.from, message.to]) {
+    if (/[\r\n<>]/.test(address)) throw new Error(`Invalid email address: ${address}`)
+  }
+
+  const socket = createConnection({ host: options.host, port: options.port })
+  socket.setTimeout(options.timeoutMs ?? 10000, () => socket.destroy(new Error('SMTP timeout')))
+  const replies = createReplyReader(socket)
+
+  try {
+    await expect(replies, 220)
+    await command(socket, replies, 'EHLO emma.local', 250)
+    await command(socket, replies, `MAIL FROM:<${options.from}>`, 250)
+    await command(socket, replies, `RCPT TO:<${message.to}>`, 250, 251)
+    await command(socket, replies, 'DATA', 354)
+    await command(socket, replies, `${formatMessage(options.from, message)}\r\n.`, 250)
+    await command(socket, replies, 'QUIT', 221)
+  } finally {
+    socket.destroy()
+  }
+}
+
+function formatMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: Emma <${from}>`,
+    `To: <${message.to}>`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ]
+  // Lines starting with a dot are escaped so they can't end the DATA block
+  const body = message.text.split(/\r?\n/).map(line => line.startsWith('.') ? `.${line}` : line)
+  return [...headers, '', ...body].join('\r\n')
+}
+
+async function command(socket: Socket, replies: () => Promise<SmtpReply>, line: string, ...accepted: number[]): Promise<void> {
+  socket.write(`${line}\r\n`)
+  await expect(replies, ...accepted)
+}
+
+async function expect(replies: () => Promise<SmtpReply>, ...accepted: number[]): Promise<void> {
+  const reply = await replies()
+  if (!accepted.includes(reply.code)) {
+    throw new Error(`SMTP ${reply.code}: ${reply.text}`)
+  }
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+// Replies in arrival order; multi-line replies ("250-...", then "250 ...") count as one
+function createReplyReader(socket: Socket): () => Promise<SmtpReply> {
+  const queue: SmtpReply[] = []
+  const waiting: { resolve: (reply: SmtpReply) => void, reject: (error: Error) => void }[] = []
+  let buffer = ''
+  let lines: string[] = []
+  let failure: Error | null = null
+
+  socket.setEncoding('utf8')
+  socket.on('data', (chunk: string) => {
+    buffer += chunk
+    let end: number
+    while ((end = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      lines.push(line.slice(4))
+      if (line[3] === '-') continue
+
+      const reply = { code: parseInt(line.slice(0, 3), 10), text: lines.join(' ') }
+      lines = []
+      const next = waiting.shift()
+      if (next) next.resolve(reply)
+      else queue.push(reply)
+    }
+  })
+
+  const fail = (error: Error) => {
+    failure = failure || error
+    waiting.splice(0).forEach(next => next.reject(failure!))
+  }
+  socket.on('error', fail)
+  socket.on('close', () => fail(new Error('SMTP connection closed')))
+
+  return () => {
+    const reply = queue.shift()
+    if (reply) return Promise.resolve(reply)
+    if (failure) return Promise.reject(failure)
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }))
+  }
+}
@@ -0,0 +1,111 @@
+// Web Push with Node's crypto: VAPID authentication (RFC 8292) and the
+// aes128gcm payload encryption browsers require (RFC 8291).
+
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto'
+import type { WebPushSubscription } from '@/lib/database/push-subscription-repository'
+
+export interface VapidKeys {
+  publicKey: string // Uncompressed P-256 point, base64url
+  privateKey: string // P-256 scalar, base64url
+  subject: string // mailto: or https: contact for the push service
+}
+
+export interface WebPushResult {
+  status: number
+  // The push service no longer knows the subscription; delete it
+  expired: boolean
+}
+
+const RECORD_SIZE = 4096
+const TTL_SECONDS = 24 * 60 * 60
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60
+
+/**
+ * VAPID keys from the environment; null when web push isn't configured.
+ * `npm run vapid-keys` generates a pair.
+ */
+export function vapidKeysFromEnv(): VapidKeys | null {
+  const publicKey = process.env.WEB_PUSH_VAPID_PUBLIC_KEY
+  const privateKey = process.env.WEB_PUSH_VAPID_PRIVATE_KEY
+  if (!publicKey || !privateKey) return null
+
+  return { publicKey, privateKey, subject: process.env.WEB_PUSH_SUBJECT || 'mailto:support@emma.ai' }
+}
+
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  vapid: VapidKeys
+): Promise<WebPushResult> {
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': `vapid t=${vapidToken(subscription.endpoint, vapid)}, k=${vapid.publicKey}`,
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      'TTL': String(TTL_SECONDS),
+      'Urgency': 'normal'
+    },
+    body: encryptPayload(subscription, Buffer.from(payload, 'utf8'))
+  })
+
+  if (!response.ok && response.status !== 404 && response.status !== 410) {
+    throw new Error(`Push service returned ${response.status}: ${await response.text().catch(() => '')}`)
+  }
+  return { status: response.status, expired: response.status === 404 || response.status === 410 }
+}
+
+function vapidToken(endpoint: string, vapid: VapidKeys): string {
+  const header = base64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })))
+  const claims = base64Url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS,
+    sub: vapid.subject
+  })))
+
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url')
+  const key = createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64Url(publicKey.subarray(1, 33)),
+      y: base64Url(publicKey.subarray(33, 65))
+    }
+  })
+  // JWS wants the raw r || s signature, not DER
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' })
+  return `${header}.${claims}.${base64Url(signature)}`
+}
+
+// A single aes128gcm record, keyed to the browser's public key and auth secret
+function encryptPayload(subscription: WebPushSubscription, plaintext: Buffer): Uint8Array<ArrayBuffer> {
+  const userAgentKey = Buffer.from(subscription.keys.p256dh, 'base64url')
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url')
+
+  const ecdh = createECDH('prime256v1')
+  const serverKey = ecdh.generateKeys()
+  const sharedSecret = ecdh.computeSecret(userAgentKey)
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentKey, serverKey])
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32))
+  const salt = randomBytes(16)
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16))
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12))
+
+  // 0x02 marks the last (and only) record
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce)
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()])
+  if (ciphertext.length > RECORD_SIZE) throw new Error('Push payload too large')
+
+  const header = Buffer.alloc(21)
+  salt.copy(header, 0)
+  header.writeUInt32BE(RECORD_SIZE, 16)
+  header.writeUInt8(serverKey.length, 20)
+  return new Uint8Array(Buffer.concat([header, serverKey, ciphertext]))
+}
+
+function base64Url(bytes: Buffer): string {
+  return bytes.toString('base64url')
+}
@@ -0,0 +1,81 @@
+import { InMemoryAuditRepository } from '@/lib/database/audit-repository'
+import { InMemoryMetricsRepository } from '@/lib/database/metrics-repository'
+import { InMemorySessionRepository } from '@/lib/database/session-repository'
+import { InMemoryUserRepository } from '@/lib/database/user-repository'
+import { RETENTION_AUDIT_ACTION, RetentionService } from '@/lib/privacy/retention-service'
+import { InMemoryAudioStore } from '@/lib/voice/audio-store'
+import { crisisEvent, crisisEventsOf } from '@/test/crisis-events'
+import type { CrisisEvent } from '@/types/database'
+
+const NOW = new Date('2026-03-14T12:00:00Z')
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+
+async function createRetention(events: CrisisEvent[] = []) {
+  const users = new InMemoryUserRepository()
+  const sessions = new InMemorySessionRepository()
+  const audit = new InMemoryAuditRepository()
+  const crisisEvents = crisisEventsOf(events)
+
+  await users.create({ id: 'short-user', data_retention_days: 7 })
+  await sessions.create({ id: 'short-old', user_id: 'short-user', created_at: daysAgo(10) })
+  await sessions.create({ id: 'short-new', user_id: 'short-user', created_at: daysAgo(3) })
+  // No profile: the 30 day default applies
+  await sessions.create({ id: 'default-old', user_id: 'default-user', created_at: daysAgo(40) })
+  await sessions.create({ id: 'default-new', user_id: 'default-user', created_at: daysAgo(10) })
+
+  const retention = new RetentionService({
+    sessions,
+    users,
+    crisisEvents,
+    audit,
+    metrics: new InMemoryMetricsRepository(),
+    audio: new InMemoryAudioStore()
+  })
+  return { retention, sessions, audit, crisisEvents }
+}
+
+async function remainingSessionIds(sessions: InMemorySessionRepository): Promise<string[]> {
+  return (await sessions.listCreatedBefore(NOW.toISOString())).map(session => session.id).sort()
+}
+
+describe('RetentionService', () => {
+  it("purges sessions older than each user's retention window and audits the run", async () => {
+    const { retention, sessions, audit } = await createRetention()
+
+    const report = await retention.run({ now: NOW })
+
+    expect(await remainingSessionIds(sessions)).toEqual(['default-new', 'short-new'])
+    expect(report.totals.sessions).toBe(2)
+    expect(report.users['short-user']).toMatchObject({ retentionDays: 7, sessions: 1 })
+    expect(report.users['default-user']).toMatchObject({ retentionDays: 30, sessions: 1 })
+    expect(report.errors).toEqual([])
+
+    const [entry] = await audit.list({ action: RETENTION_AUDIT_ACTION })
+    expect(entry.id).toBe(report.auditId)
+  })
+
+  it('keeps expired sessions whose crisis events are under legal hold', async () => {
+    const { retention, sessions, crisisEvents } = await createRetention([
+      crisisEvent('held', 'default-old', 'in_progress'),
+      crisisEvent('resolved', 'short-old', 'resolved')
+    ])
+
+    const report = await retention.run({ now: NOW })
+
+    expect(await remainingSessionIds(sessions)).toEqual(['default-new', 'default-old', 'short-new'])
+    expect(crisisEvents.deleted).toEqual(['resolved'])
+    expect(report.heldSessions).toBe(1)
+    expect(report.totals).toMatchObject({ sessions: 1, crisisEvents: 1 })
+  })
+
+  it('only counts on a dry run', async () => {
+    const { retention, sessions, audit } = await createRetention()
+
+    const report = await retention.run({ dryRun: true, now: NOW })
+
+    expect(report.totals.sessions).toBe(2)
+    expect(await remainingSessionIds(sessions)).toHaveLength(4)
+    expect(await audit.list()).toHaveLength(0)
+    expect(report.auditId).toBeUndefined()
+  })
+})
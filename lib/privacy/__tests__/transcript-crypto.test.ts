@@ -0,0 +1,80 @@
+import {
+  createSalt,
+  decryptTranscript,
+  deriveTranscriptKey,
+  encryptTranscript,
+  isKeyHash,
+  parseEnvelope,
+  type TranscriptKey
+} from '@/lib/privacy/transcript-crypto'
+import type { TranscriptEntry } from '@/types'
+
+const ENTRIES: TranscriptEntry[] = [
+  { speaker: 'user', text: 'We keep fighting about chores', timestamp: '2026-03-14T18:30:00.000Z' },
+  { speaker: 'emma', text: 'What would help you feel heard?', timestamp: '2026-03-14T18:30:02.000Z' }
+]
+
+// Key derivation is deliberately slow, so each key is derived once
+let key: TranscriptKey
+let otherKey: TranscriptKey
+
+beforeAll(() => {
+  const salt = createSalt()
+  key = deriveTranscriptKey('correct horse battery staple', salt)
+  otherKey = deriveTranscriptKey('a different passphrase', salt)
+}, 30000)
+
+function tamper(serialized: string, changes: Record<string, unknown>): string {
+  return JSON.stringify({ ...JSON.parse(serialized), ...changes })
+}
+
+describe('transcript encryption', () => {
+  it('round-trips a transcript with the same key', () => {
+    const serialized = encryptTranscript(ENTRIES, key)
+
+    expect(serialized).not.toContain('chores')
+    expect(decryptTranscript(serialized, key)).toEqual(ENTRIES)
+  })
+
+  it('uses a fresh IV for every encryption', () => {
+    const first = parseEnvelope(encryptTranscript(ENTRIES, key))
+    const second = parseEnvelope(encryptTranscript(ENTRIES, key))
+
+    expect(first?.iv).not.toBe(second?.iv)
+    expect(first?.ciphertext).not.toBe(second?.ciphertext)
+  })
+
+  it('refuses the wrong passphrase', () => {
+    expect(decryptTranscript(encryptTranscript(ENTRIES, key), otherKey)).toBeNull()
+  })
+
+  it('refuses altered ciphertext and IVs', () => {
+    const serialized = encryptTranscript(ENTRIES, key)
+    const envelope = parseEnvelope(serialized)!
+    const flipped = (envelope.ciphertext[0] === 'A' ? 'B' : 'A') + envelope.ciphertext.slice(1)
+
+    expect(decryptTranscript(tamper(serialized, { ciphertext: flipped }), key)).toBeNull()
+    expect(decryptTranscript(tamper(serialized, { iv: '0'.repeat(32) }), key)).toBeNull()
+  })
+
+  it('tells keys apart by their hash', () => {
+    expect(isKeyHash(key.hash)).toBe(true)
+    expect(otherKey.hash).not.toBe(key.hash)
+  })
+})
+
+describe('parseEnvelope', () => {
+  it('accepts what encryptTranscript produces', () => {
+    expect(parseEnvelope(encryptTranscript(ENTRIES, key))).toMatchObject({ v: 1, salt: key.salt })
+  })
+
+  it('rejects plaintext and malformed envelopes', () => {
+    const serialized = encryptTranscript(ENTRIES, key)
+
+    expect(parseEnvelope(JSON.stringify(ENTRIES))).toBeNull()
+    expect(parseEnvelope('not json')).toBeNull()
+    expect(parseEnvelope(tamper(serialized, { v: 2 }))).toBeNull()
+    expect(parseEnvelope(tamper(serialized, { mac: 'abc' }))).toBeNull()
+    expect(parseEnvelope(tamper(serialized, { ciphertext: 'We keep fighting about chores' }))).toBeNull()
+  })
+})
@@ -0,0 +1,109 @@
+import { GoalTracker } from '@/lib/coaching/goal-tracker'
+import { InMemoryAuditRepository } from '@/lib/database/audit-repository'
+import { InMemoryCheckInRepository } from '@/lib/database/check-in-repository'
+import { InMemoryGoalRepository } from '@/lib/database/goal-repository'
+import { DEFAULT_PREFERENCES, InMemoryPreferencesRepository } from '@/lib/database/preferences-repository'
+import { InMemoryPushSubscriptionRepository } from '@/lib/database/push-subscription-repository'
+import { InMemorySessionRepository } from '@/lib/database/session-repository'
+import { InMemoryUsageRepository } from '@/lib/database/usage-repository'
+import { InMemoryUserRepository } from '@/lib/database/user-repository'
+import { verifyDeletionReceipt, type DeletionReceipt } from '@/lib/privacy/deletion-receipt'
+import { ERASURE_AUDIT_ACTION, UserDataService } from '@/lib/privacy/user-data-service'
+import { InMemoryAudioStore } from '@/lib/voice/audio-store'
+import { crisisEvent, crisisEventsOf } from '@/test/crisis-events'
+import type { CrisisEvent } from '@/types/database'
+
+const USER_ID = 'user-1'
+
+async function createUserData(events: CrisisEvent[] = []) {
+  const users = new InMemoryUserRepository()
+  const sessions = new InMemorySessionRepository()
+  const goals = new InMemoryGoalRepository()
+  const preferences = new InMemoryPreferencesRepository()
+  const checkIns = new InMemoryCheckInRepository()
+  const usage = new InMemoryUsageRepository()
+  const audit = new InMemoryAuditRepository()
+
+  await users.create({ id: USER_ID })
+  await sessions.create({ id: 'session-1', user_id: USER_ID, encrypted_transcript: 'ciphertext', crisis_level: 0 })
+  await sessions.create({ id: 'session-2', user_id: USER_ID, encrypted_transcript: 'ciphertext', crisis_level: 3 })
+  await sessions.create({ id: 'other-session', user_id: 'user-2' })
+  await new GoalTracker(goals).create(USER_ID, { category: 'communication', description: 'Listen before answering' })
+  await preferences.save(USER_ID, { ...DEFAULT_PREFERENCES })
+  await usage.increment(USER_ID, 'messages', '2026-03-14', 5)
+  await usage.increment(USER_ID, 'voice_seconds', '2026-03-14', 90)
+  await usage.increment('user-2', 'messages', '2026-03-14', 3)
+  await checkIns.create({ userId: USER_ID, prompt: 'How did the talk go?', dueAt: new Date('2026-03-20T09:00:00Z') })
+
+  const userData = new UserDataService({
+    users,
+    sessions,
+    crisisEvents: crisisEventsOf(events),
+    goals,
+    checkIns,
+    pushSubscriptions: new InMemoryPushSubscriptionRepository(),
+    usage,
+    preferences,
+    audio: new InMemoryAudioStore(),
+    audit
+  })
+  return { userData, users, sessions, goals, usage, audit }
+}
+
+describe('UserDataService.erase', () => {
+  it("deletes everything tied to the user and returns a signed receipt", async () => {
+    const { userData, users, sessions, goals, usage, audit } = await createUserData([crisisEvent('resolved', 'session-2', 'resolved')])
+
+    const receipt = await userData.erase(USER_ID)
+
+    expect(receipt.deleted).toMatchObject({ sessions: 2, crisisEvents: 1, goals: 1, checkIns: 1, usageCounters: 2, preferences: 1, profile: 1 })
+    expect(receipt.retained).toBeNull()
+    expect(await sessions.listByUser(USER_ID)).toHaveLength(0)
+    expect(await sessions.listByUser('user-2')).toHaveLength(1)
+    expect(await goals.list(USER_ID)).toHaveLength(0)
+    expect(await users.findByIds([USER_ID])).toHaveLength(0)
+    expect(await usage.get(USER_ID, 'messages', '2026-03-14')).toBe(0)
+    expect(await usage.get('user-2', 'messages', '2026-03-14')).toBe(3)
+
+    const [entry] = await audit.list({ action: ERASURE_AUDIT_ACTION })
+    expect(entry.id).toBe(receipt.receiptId)
+    expect(entry.subject_user_id).toBe(USER_ID)
+    expect(verifyDeletionReceipt(receipt)).toBe(true)
+  })
+
+  it('keeps sessions under legal hold, stripped to their crisis fields, and the profile they belong to', async () => {
+    const { userData, users, sessions, usage } = await createUserData([crisisEvent('held', 'session-2', 'pending')])
+
+    const receipt = await userData.erase(USER_ID)
+
+    expect(receipt.retained).toEqual({ reason: 'legal_hold', sessionIds: ['session-2'], crisisEventIds: ['held'] })
+    expect(receipt.deleted).toMatchObject({ sessions: 1, crisisEvents: 0, usageCounters: 2, profile: 0 })
+
+    const [held] = await sessions.listByUser(USER_ID)
+    expect(held).toMatchObject({ id: 'session-2', encrypted_transcript: null, crisis_level: 3 })
+    expect(await users.findByIds([USER_ID])).toHaveLength(1)
+    expect(await usage.get(USER_ID, 'voice_seconds', '2026-03-14')).toBe(0)
+  })
+})
+
+describe('deletion receipts', () => {
+  async function issueReceipt(): Promise<DeletionReceipt> {
+    const { userData } = await createUserData()
+    return userData.erase(USER_ID)
+  }
+
+  it('still verify after a trip through JSON with the keys reordered', async () => {
+    const receipt = await issueReceipt()
+    const reordered = Object.fromEntries(Object.entries(JSON.parse(JSON.stringify(receipt))).reverse())
+
+    expect(verifyDeletionReceipt(reordered as unknown as DeletionReceipt)).toBe(true)
+  })
+
+  it('fail to verify once altered', async () => {
+    const receipt = await issueReceipt()
+
+    expect(verifyDeletionReceipt({ ...receipt, deleted: { ...receipt.deleted, sessions: 0 } })).toBe(false)
+    expect(verifyDeletionReceipt({ ...receipt, userId: 'user-2' })).toBe(false)
+    expect(verifyDeletionReceipt({ ...receipt, signature: 'abc' })).toBe(false)
+  })
+})
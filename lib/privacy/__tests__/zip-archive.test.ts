@@ -0,0 +1,57 @@
+import { createZipArchive } from '@/lib/privacy/zip-archive'
+
+interface ZipEntry {
+  name: string
+  content: string
+  crc: number
+}
+
+// Reads entries back through the central directory, as unzip tools do
+function readZip(archive: Uint8Array): ZipEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  const decoder = new TextDecoder()
+  const end = archive.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  const count = view.getUint16(end + 10, true)
+  let at = view.getUint32(end + 16, true)
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50)
+    const crc = view.getUint32(at + 16, true)
+    const size = view.getUint32(at + 24, true)
+    const nameLength = view.getUint16(at + 28, true)
+    const localOffset = view.getUint32(at + 42, true)
+    const name = decoder.decode(archive.subarray(at + 46, at + 46 + nameLength))
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50)
+    expect(view.getUint16(localOffset + 8, true)).toBe(0) // Stored
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true)
+    entries.push({ name, crc, content: decoder.decode(archive.subarray(dataStart, dataStart + size)) })
+
+    at += 46 + nameLength
+  }
+  return entries
+}
+
+describe('createZipArchive', () => {
+  it('writes each file as a stored entry with its CRC-32', () => {
+    const archive = createZipArchive([
+      { name: 'README.txt', content: 'hello' },
+      { name: 'goals.json', content: '[{"description":"Écouter avant de répondre"}]' }
+    ])
+
+    expect(readZip(archive)).toEqual([
+      { name: 'README.txt', content: 'hello', crc: 0x3610a686 },
+      { name: 'goals.json', content: '[{"description":"Écouter avant de répondre"}]', crc: expect.any(Number) }
+    ])
+  })
+
+  it('writes an empty archive as just the end record', () => {
+    const archive = createZipArchive([])
+
+    expect(archive).toHaveLength(22)
+    expect(readZip(archive)).toEqual([])
+  })
+})
@@ -0,0 +1,79 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const RECEIPT_ALGORITHM = 'HMAC-SHA256'
+
+export interface ErasureCounts {
+  sessions: number
+  crisisEvents: number
+  goals: number
+  checkIns: number
+  pushSubscriptions: number
+  usageCounters: number
+  preferences: number
+  monitoringEvents: number
+  audioFiles: number
+  profile: number
+}
+
+/**
+ * Proof that a user's data was erased. Signed by the server so the user
+ * can later show what was deleted and when, without Emma keeping the data.
+ */
+export interface DeletionReceipt {
+  receiptId: string
+  userId: string
+  erasedAt: string
+  deleted: ErasureCounts
+  // Crisis records under review survive erasure until the review closes
+  retained: {
+    reason: 'legal_hold'
+    sessionIds: string[]
+    crisisEventIds: string[]
+  } | null
+  algorithm: typeof RECEIPT_ALGORITHM
+  signature: string // hex
+}
+
+export type UnsignedDeletionReceipt = Omit<DeletionReceipt, 'algorithm' | 'signature'>
+
+export function signDeletionReceipt(receipt: UnsignedDeletionReceipt): DeletionReceipt {
+  return {
+    ...receipt,
+    algorithm: RECEIPT_ALGORITHM,
+    signature: sign(receipt)
+  }
+}
+
+/**
+ * True when the receipt was issued by this server and has not been altered
+ */
+export function verifyDeletionReceipt(receipt: DeletionReceipt): boolean {
+  if (!receipt || receipt.algorithm !== RECEIPT_ALGORITHM || typeof receipt.signature !== 'string') return false
+
+  const { algorithm: _algorithm, signature, ...unsigned } = receipt
+  const expected = Buffer.from(sign(unsigned), 'hex')
+  const actual = Buffer.from(signature, 'hex')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+function sign(receipt: UnsignedDeletionReceipt): string {
+  return createHmac('sha256', receiptSecret()).update(canonicalJson(receipt)).digest('hex')
+}
+
+function receiptSecret(): string {
+  const secret = process.env.DELETION_RECEIPT_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('DELETION_RECEIPT_SECRET is not configured')
+  }
+  return 'emma-development-receipts'
+}
+
+// Key order must not change the signature once the receipt has been through JSON
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).filter(key => value[key] !== undefined).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
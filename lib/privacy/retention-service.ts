@@ -0,0 +1,199 @@
+import { createAuditRepository, type AuditRepository } from '@/lib/database/audit-repository'
+import { createCrisisEventRepository, isUnderLegalHold, type CrisisEventRepository } from '@/lib/database/crisis-event-repository'
+import { createMetricsRepository, type MetricsRepository, type MetricsTable } from '@/lib/database/metrics-repository'
+import { createSessionRepository, type SessionRepository } from '@/lib/database/session-repository'
+import { createUserRepository, type UserRepository } from '@/lib/database/user-repository'
+import { createAudioStore, type AudioStore } from '@/lib/voice/audio-store'
+import type { Json } from '@/types/database'
+
+// Matches the users.data_retention_days column default
+export const DEFAULT_RETENTION_DAYS = 30
+// Shorter settings still keep a day, so a purge never cuts into a live conversation
+export const MIN_RETENTION_DAYS = 1
+// System-wide windows for aggregate data, as in cleanup_expired_data()
+export const METRICS_RETENTION_DAYS = 180
+export const ANALYTICS_RETENTION_DAYS = 730
+
+export const RETENTION_AUDIT_ACTION = 'retention.purge'
+const RETENTION_ACTOR = 'retention-job'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * In-process monitoring events, which never reach the database
+ */
+export interface MonitoringEventSource {
+  getMonitoringUserIds: () => string[]
+  purgeMonitoringEvents: (cutoffFor: (userId?: string) => Date, dryRun?: boolean) => { userId?: string }[]
+}
+
+export interface RetentionCounts {
+  sessions: number
+  crisisEvents: number
+  monitoringEvents: number
+  audioFiles: number
+}
+
+export interface RetentionReport {
+  dryRun: boolean
+  ranAt: string
+  // Everything purged, or that would be with dryRun
+  totals: RetentionCounts & { metrics: number, analytics: number }
+  // Only users with something expired
+  users: Record<string, RetentionCounts & { retentionDays: number }>
+  heldSessions: number // Expired but kept for a crisis event under legal hold
+  errors: string[] // Steps that failed; the rest of the run still applies
+  auditId?: string
+}
+
+export interface RetentionServiceOptions {
+  sessions?: SessionRepository
+  users?: UserRepository
+  crisisEvents?: CrisisEventRepository
+  metrics?: MetricsRepository
+  audio?: AudioStore
+  audit?: AuditRepository
+  monitoring?: MonitoringEventSource
+}
+
+/**
+ * Enforces each user's data_retention_days in the application layer, so
+ * retention holds without pg_cron and also reaches in-memory monitoring
+ * events and stored audio. Real runs leave an audit_log entry with the counts.
+ */
+export class RetentionService {
+  private sessions: SessionRepository
+  private users: UserRepository
+  private crisisEvents: CrisisEventRepository
+  private metrics: MetricsRepository
+  private audio: AudioStore
+  private audit: AuditRepository
+  private monitoring?: MonitoringEventSource
+
+  constructor(options: RetentionServiceOptions = {}) {
+    this.sessions = options.sessions || createSessionRepository()
+    this.users = options.users || createUserRepository()
+    this.crisisEvents = options.crisisEvents || createCrisisEventRepository()
+    this.metrics = options.metrics || createMetricsRepository()
+    this.audio = options.audio || createAudioStore()
+    this.audit = options.audit || createAuditRepository()
+    this.monitoring = options.monitoring
+  }
+
+  async run(options: { dryRun?: boolean, now?: Date } = {}): Promise<RetentionReport> {
+    const dryRun = options.dryRun ?? false
+    const now = options.now || new Date()
+    const report: RetentionReport = {
+      dryRun,
+      ranAt: now.toISOString(),
+      totals: { sessions: 0, crisisEvents: 0, monitoringEvents: 0, audioFiles: 0, metrics: 0, analytics: 0 },
+      users: {},
+      heldSessions: 0,
+      errors: []
+    }
+    const fail = (name: string, error: unknown) => {
+      console.error(`Retention ${name} failed:`, error)
+      report.errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    const step = (name: string, work: () => Promise<void>) => work().catch(error => fail(name, error))
+
+    // Nothing newer than the shortest allowed retention can have expired
+    const earliestCutoff = daysBefore(now, MIN_RETENTION_DAYS).toISOString()
+    const sessions = await this.sessions.listCreatedBefore(earliestCutoff).catch(error => {
+      fail('sessions', error)
+      return []
+    })
+    const recordings = await this.audio.list().catch(error => {
+      fail('audio', error)
+      return []
+    })
+
+    const userIds = [...new Set([
+      ...sessions.map(session => session.user_id),
+      ...recordings.map(recording => recording.userId),
+      ...(this.monitoring?.getMonitoringUserIds() || [])
+    ])]
+    // Not caught: falling back to the default could purge data a user chose to keep longer
+    const retentionDays = await this.loadRetentionDays(userIds)
+    const daysFor = (userId?: string) => (userId && retentionDays.get(userId)) || DEFAULT_RETENTION_DAYS
+    const cutoffFor = (userId?: string) => daysBefore(now, daysFor(userId))
+
+    const tally = (userId: string, key: keyof RetentionCounts, count = 1) => {
+      if (!report.users[userId]) {
+        report.users[userId] = { retentionDays: daysFor(userId), sessions: 0, crisisEvents: 0, monitoringEvents: 0, audioFiles: 0 }
+      }
+      report.users[userId][key] += count
+      report.totals[key] += count
+    }
+
+    await step('sessions', async () => {
+      const expired = sessions.filter(session => new Date(session.created_at) < cutoffFor(session.user_id))
+      const owners = new Map(expired.map(session => [session.id, session.user_id]))
+
+      // Crisis events cascade with their session; removed first so they are counted
+      const events = await this.crisisEvents.listBySessions(expired.map(session => session.id))
+      const held = new Set(events.filter(isUnderLegalHold).map(event => event.session_id))
+      const purgedEvents = events.filter(event => !held.has(event.session_id))
+      const purgedSessions = expired.filter(session => !held.has(session.id))
+
+      if (!dryRun) {
+        await this.crisisEvents.delete(purgedEvents.map(event => event.id))
+        await this.sessions.delete(purgedSessions.map(session => session.id))
+      }
+      purgedEvents.forEach(event => tally(owners.get(event.session_id), 'crisisEvents'))
+      purgedSessions.forEach(session => tally(session.user_id, 'sessions'))
+      report.heldSessions = held.size
+    })
+
+    await step('audio', async () => {
+      const expired = recordings.filter(recording => recording.createdAt < cutoffFor(recording.userId))
+      if (!dryRun) await this.audio.remove(expired.map(recording => recording.path))
+      expired.forEach(recording => tally(recording.userId, 'audioFiles'))
+    })
+
+    await step('monitoring', async () => {
+      const purged = this.monitoring?.purgeMonitoringEvents(cutoffFor, dryRun) || []
+      purged.forEach(event => {
+        if (event.userId) tally(event.userId, 'monitoringEvents')
+        else report.totals.monitoringEvents++
+      })
+    })
+
+    await step('metrics', async () => {
+      report.totals.metrics = await this.purgeTable('system_metrics', daysBefore(now, METRICS_RETENTION_DAYS), dryRun)
+    })
+    await step('analytics', async () => {
+      report.totals.analytics = await this.purgeTable('analytics_sessions', daysBefore(now, ANALYTICS_RETENTION_DAYS), dryRun)
+    })
+
+    if (!dryRun) {
+      await step('audit', async () => {
+        const entry = await this.audit.record({
+          action: RETENTION_AUDIT_ACTION,
+          actor: RETENTION_ACTOR,
+          details: { ranAt: report.ranAt, totals: report.totals, users: report.users, heldSessions: report.heldSessions, errors: report.errors } as unknown as Json
+        })
+        report.auditId = entry.id
+      })
+    }
+
+    return report
+  }
+
+  private async loadRetentionDays(userIds: string[]): Promise<Map<string, number>> {
+    const users = await this.users.findByIds(userIds)
+    return new Map(users.map(user => [
+      user.id,
+      Math.max(MIN_RETENTION_DAYS, user.data_retention_days ?? DEFAULT_RETENTION_DAYS)
+    ]))
+  }
+
+  private purgeTable(table: MetricsTable, cutoff: Date, dryRun: boolean): Promise<number> {
+    return dryRun
+      ? this.metrics.countRecordedBefore(table, cutoff.toISOString())
+      : this.metrics.deleteRecordedBefore(table, cutoff.toISOString())
+  }
+}
+
+function daysBefore(date: Date, days: number): Date {
+  return new Date(date.getTime() - days * DAY_MS)
+}
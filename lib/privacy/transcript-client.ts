@@ -0,0 +1,183 @@
+import { apiFetch } from '@/lib/auth/identity-client'
+import {
+  createSalt,
+  decryptSummary,
+  decryptTranscript,
+  deriveTranscriptKey,
+  encryptSummary,
+  encryptTranscript,
+  parseEnvelope,
+  type TranscriptKey
+} from '@/lib/privacy/transcript-crypto'
+import { parseSessionSummary } from '@/lib/coaching/session-summary-export'
+import type { SessionSummary, TranscriptEntry, VoiceMessage } from '@/types'
+
+export interface StoredSession {
+  sessionId: string
+  type: string
+  startedAt: string
+  completed: boolean
+  durationSeconds: number | null
+  hasTranscript: boolean
+  hasSummary: boolean
+  keyHash: string | null
+}
+
+export interface UnlockedTranscript {
+  sessionId: string
+  startedAt: string
+  entries: TranscriptEntry[] | null // null when encrypted with another passphrase
+}
+
+export interface UnlockedSummary {
+  startedAt: string
+  summary: SessionSummary
+}
+
+export function toTranscriptEntries(messages: VoiceMessage[]): TranscriptEntry[] {
+  return messages.map(message => ({
+    speaker: message.speaker,
+    text: message.text,
+    timestamp: new Date(message.timestamp).toISOString(),
+    ...(message.partner ? { partner: message.partner } : {})
+  }))
+}
+
+/**
+ * Derive the key for saving new transcripts and summaries. Reuses the salt
+ * of the newest stored one so one passphrase opens them all, and refuses a
+ * passphrase that doesn't match it.
+ */
+export async function createTranscriptKey(passphrase: string): Promise<TranscriptKey> {
+  const latest = (await listSessions()).find(session => session.hasTranscript || session.hasSummary)
+  if (!latest) return deriveTranscriptKey(passphrase, createSalt())
+
+  const { ciphertext, keyHash } = latest.hasTranscript
+    ? await fetchTranscript(latest.sessionId)
+    : await fetchSummary(latest.sessionId)
+  const envelope = parseEnvelope(ciphertext)
+  const key = deriveTranscriptKey(passphrase, envelope ? envelope.salt : createSalt())
+
+  if (envelope && key.hash !== keyHash) {
+    throw new Error('That passphrase does not match your earlier transcripts')
+  }
+  return key
+}
+
+/**
+ * Encrypt on this device and upload ciphertext only
+ */
+export async function saveTranscript(sessionId: string, messages: VoiceMessage[], key: TranscriptKey): Promise<void> {
+  const response = await apiFetch(`/api/sessions/${sessionId}/transcript`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ciphertext: encryptTranscript(toTranscriptEntries(messages), key),
+      keyHash: key.hash
+    }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+}
+
+/**
+ * Encrypt the end-of-session summary on this device, with the transcript key
+ */
+export async function saveSummary(sessionId: string, summary: SessionSummary, key: TranscriptKey): Promise<void> {
+  const response = await apiFetch(`/api/sessions/${sessionId}/summary`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ciphertext: encryptSummary(summary, key),
+      keyHash: key.hash
+    }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+}
+
+// A just-ended session's summary, handed to the summary page in the clear.
+// It stays in this tab only, until the user saves it encrypted or leaves.
+const HELD_SUMMARY_KEY = 'emma-ended-session'
+
+export function holdSummary(sessionId: string, summary: UnlockedSummary): void {
+  sessionStorage.setItem(HELD_SUMMARY_KEY, JSON.stringify({ sessionId, ...summary }))
+}
+
+export function heldSummary(sessionId: string): UnlockedSummary | null {
+  try {
+    const held = JSON.parse(sessionStorage.getItem(HELD_SUMMARY_KEY) || 'null')
+    const summary = held?.sessionId === sessionId ? parseSessionSummary(held.summary) : null
+    return summary && { startedAt: held.startedAt, summary }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether the session has a stored summary, without decrypting it
+ */
+export async function hasStoredSummary(sessionId: string): Promise<boolean> {
+  const response = await apiFetch(`/api/sessions/${sessionId}/summary`)
+  return response.ok
+}
+
+/**
+ * Fetch and decrypt a stored summary; null when the passphrase doesn't open it
+ */
+export async function unlockSummary(sessionId: string, passphrase: string): Promise<UnlockedSummary | null> {
+  const { ciphertext, startedAt } = await fetchSummary(sessionId)
+  const salt = parseEnvelope(ciphertext)?.salt
+  const summary = salt ? decryptSummary(ciphertext, deriveTranscriptKey(passphrase, salt)) : null
+  return summary && { startedAt, summary }
+}
+
+/**
+ * Fetch and decrypt every stored transcript with the passphrase. Keys are
+ * derived once per distinct salt, since derivation is deliberately slow.
+ */
+export async function unlockTranscripts(passphrase: string): Promise<UnlockedTranscript[]> {
+  const sessions = (await listSessions()).filter(session => session.hasTranscript)
+  const keys = new Map<string, TranscriptKey>()
+
+  return Promise.all(sessions.map(async session => {
+    const { ciphertext } = await fetchTranscript(session.sessionId)
+    const salt = parseEnvelope(ciphertext)?.salt
+    if (salt && !keys.has(salt)) keys.set(salt, deriveTranscriptKey(passphrase, salt))
+
+    return {
+      sessionId: session.sessionId,
+      startedAt: session.startedAt,
+      entries: salt ? decryptTranscript(ciphertext, keys.get(salt)!) : null
+    }
+  }))
+}
+
+async function listSessions(): Promise<StoredSession[]> {
+  const data = await request('/api/sessions')
+  return data.sessions
+}
+
+async function fetchTranscript(sessionId: string): Promise<{ ciphertext: string, keyHash: string | null }> {
+  return request(`/api/sessions/${sessionId}/transcript`)
+}
+
+async function fetchSummary(sessionId: string): Promise<{ ciphertext: string, keyHash: string | null, startedAt: string }> {
+  return request(`/api/sessions/${sessionId}/summary`)
+}
+
+async function request(url: string): Promise<any> {
+  const response = await apiFetch(url)
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+  return data
+}
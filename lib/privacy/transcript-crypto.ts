@@ -0,0 +1,144 @@
+import CryptoJS from 'crypto-js'
+import { parseSessionSummary } from '@/lib/coaching/session-summary-export'
+import type { SessionSummary, TranscriptEntry } from '@/types'
+
+// PBKDF2-SHA256; slow on purpose, so derive once per unlock and keep the key in memory
+const KDF_ITERATIONS = 100000
+const SALT_BYTES = 16
+const ENVELOPE_VERSION = 1
+export const MAX_ENVELOPE_LENGTH = 1024 * 1024
+
+/**
+ * Key material derived from the user's passphrase. Never leaves the client;
+ * only `hash` is sent so the server can tell which key a transcript needs.
+ */
+export interface TranscriptKey {
+  salt: string
+  hash: string
+  encryptionKey: CryptoJS.lib.WordArray
+  macKey: CryptoJS.lib.WordArray
+}
+
+/**
+ * Stored form of a transcript: AES-256-CBC ciphertext with an
+ * encrypt-then-MAC HMAC-SHA256 tag (crypto-js has no AEAD mode)
+ */
+export interface TranscriptEnvelope {
+  v: number
+  salt: string // hex
+  iv: string // hex
+  ciphertext: string // base64
+  mac: string // hex
+}
+
+export function createSalt(): string {
+  return CryptoJS.lib.WordArray.random(SALT_BYTES).toString(CryptoJS.enc.Hex)
+}
+
+export function deriveTranscriptKey(passphrase: string, salt: string): TranscriptKey {
+  const derived = CryptoJS.PBKDF2(passphrase, CryptoJS.enc.Hex.parse(salt), {
+    keySize: 512 / 32,
+    iterations: KDF_ITERATIONS,
+    hasher: CryptoJS.algo.SHA256
+  })
+
+  return {
+    salt,
+    hash: CryptoJS.SHA256(derived).toString(CryptoJS.enc.Hex),
+    encryptionKey: CryptoJS.lib.WordArray.create(derived.words.slice(0, 8)),
+    macKey: CryptoJS.lib.WordArray.create(derived.words.slice(8, 16))
+  }
+}
+
+export function encryptTranscript(entries: TranscriptEntry[], key: TranscriptKey): string {
+  return seal(JSON.stringify(entries), key)
+}
+
+/**
+ * Decrypt a stored transcript; null when the key is wrong or the data was altered
+ */
+export function decryptTranscript(serialized: string, key: TranscriptKey): TranscriptEntry[] | null {
+  return unseal(serialized, key)
+}
+
+/**
+ * Session summaries use the same envelope and key as the transcript
+ */
+export function encryptSummary(summary: SessionSummary, key: TranscriptKey): string {
+  return seal(JSON.stringify(summary), key)
+}
+
+export function decryptSummary(serialized: string, key: TranscriptKey): SessionSummary | null {
+  return parseSessionSummary(unseal(serialized, key))
+}
+
+function seal(plaintext: string, key: TranscriptKey): string {
+  const iv = CryptoJS.lib.WordArray.random(16)
+  const encrypted = CryptoJS.AES.encrypt(plaintext, key.encryptionKey, { iv })
+  const ciphertext = encrypted.ciphertext.toString(CryptoJS.enc.Base64)
+  const ivHex = iv.toString(CryptoJS.enc.Hex)
+
+  const envelope: TranscriptEnvelope = {
+    v: ENVELOPE_VERSION,
+    salt: key.salt,
+    iv: ivHex,
+    ciphertext,
+    mac: sign(key, ivHex, ciphertext)
+  }
+  return JSON.stringify(envelope)
+}
+
+// The decrypted JSON; null when the key is wrong or the data was altered
+function unseal(serialized: string, key: TranscriptKey): any {
+  const envelope = parseEnvelope(serialized)
+  if (!envelope || envelope.salt !== key.salt) return null
+  if (sign(key, envelope.iv, envelope.ciphertext) !== envelope.mac) return null
+
+  try {
+    const plaintext = CryptoJS.AES.decrypt(
+      CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(envelope.ciphertext) }),
+      key.encryptionKey,
+      { iv: CryptoJS.enc.Hex.parse(envelope.iv) }
+    ).toString(CryptoJS.enc.Utf8)
+    return JSON.parse(plaintext)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Structural check of a stored transcript. The server uses this to reject
+ * anything that isn't ciphertext without being able to decrypt it.
+ */
+export function parseEnvelope(value: unknown): TranscriptEnvelope | null {
+  if (typeof value !== 'string' || value.length > MAX_ENVELOPE_LENGTH) return null
+
+  let data: any
+  try {
+    data = JSON.parse(value)
+  } catch {
+    return null
+  }
+
+  const valid = data?.v === ENVELOPE_VERSION &&
+    isHex(data.salt, SALT_BYTES * 2) &&
+    isHex(data.iv, 32) &&
+    isHex(data.mac, 64) &&
+    typeof data.ciphertext === 'string' && data.ciphertext.length > 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(data.ciphertext)
+
+  return valid
+    ? { v: data.v, salt: data.salt, iv: data.iv, ciphertext: data.ciphertext, mac: data.mac }
+    : null
+}
+
+export function isKeyHash(value: unknown): value is string {
+  return isHex(value, 64)
+}
+
+function sign(key: TranscriptKey, iv: string, ciphertext: string): string {
+  return CryptoJS.HmacSHA256(`${ENVELOPE_VERSION}.${key.salt}.${iv}.${ciphertext}`, key.macKey).toString(CryptoJS.enc.Hex)
+}
+
+function isHex(value: unknown, length: number): boolean {
+  return typeof value === 'string' && value.length === length && /^[0-9a-f]+$/.test(value)
+}
@@ -0,0 +1,307 @@
+import { createAuditRepository, type AuditRepository } from '@/lib/database/audit-repository'
+import { createCheckInRepository, type CheckInRepository } from '@/lib/database/check-in-repository'
+import { createCrisisEventRepository, isUnderLegalHold, type CrisisEventRepository } from '@/lib/database/crisis-event-repository'
+import { createGoalRepository, type GoalRepository } from '@/lib/database/goal-repository'
+import { createPreferencesRepository, type PreferencesRepository } from '@/lib/database/preferences-repository'
+import { createPushSubscriptionRepository, type PushSubscriptionRepository } from '@/lib/database/push-subscription-repository'
+import { createSessionRepository, type SessionRepository } from '@/lib/database/session-repository'
+import { createUsageRepository, type UsageRepository } from '@/lib/database/usage-repository'
+import { createUserRepository, type UserRepository } from '@/lib/database/user-repository'
+import { signDeletionReceipt, type DeletionReceipt } from '@/lib/privacy/deletion-receipt'
+import type { ArchiveFile } from '@/lib/privacy/zip-archive'
+import { createAudioStore, type AudioStore } from '@/lib/voice/audio-store'
+import type { MonitoringEvent } from '@/lib/monitoring/emma-monitor'
+import type { CheckIn, Goal, UserPreferences } from '@/types'
+import type { CrisisEvent, Json, Session, UserProfile } from '@/types/database'
+
+export const EXPORT_FORMAT_VERSION = 1
+export const ERASURE_AUDIT_ACTION = 'user.erase'
+export const EXPORT_AUDIT_ACTION = 'user.export'
+const USER_ACTOR = 'user-request'
+
+/**
+ * Per-user state held in the server process rather than the database
+ */
+export interface UserStateSource {
+  getMonitoringEvents: (userId: string) => MonitoringEvent[]
+  eraseMonitoringEvents: (userId: string) => number
+  clearHistory: (sessionId: string) => Promise<void>
+}
+
+export interface UserDataExport {
+  version: number
+  exportedAt: string
+  userId: string
+  profile: {
+    createdAt: string
+    subscriptionTier: UserProfile['subscription_tier']
+    isAnonymous: boolean
+    dataRetentionDays: number
+    analyticsOptOut: boolean
+  } | null
+  preferences: UserPreferences | null
+  goals: Goal[]
+  checkIns: CheckIn[]
+  pushSubscriptions: { endpoint: string }[] // Devices that receive check-in reminders
+  // Transcripts stay encrypted; they open with the user's passphrase in the browser
+  sessions: ReturnType<typeof exportSession>[]
+  crisisEvents: ReturnType<typeof exportCrisisEvent>[]
+  monitoringEvents: Pick<MonitoringEvent, 'id' | 'timestamp' | 'type' | 'severity' | 'sessionId' | 'data'>[]
+  audioFiles: { path: string, createdAt: string }[]
+}
+
+export interface UserDataServiceOptions {
+  users?: UserRepository
+  sessions?: SessionRepository
+  crisisEvents?: CrisisEventRepository
+  goals?: GoalRepository
+  checkIns?: CheckInRepository
+  pushSubscriptions?: PushSubscriptionRepository
+  usage?: UsageRepository
+  preferences?: PreferencesRepository
+  audio?: AudioStore
+  audit?: AuditRepository
+  state?: UserStateSource
+}
+
+/**
+ * Self-service data rights: a portable export of everything tied to a user
+ * and erasure of all of it, except crisis records under legal hold.
+ */
+export class UserDataService {
+  private users: UserRepository
+  private sessions: SessionRepository
+  private crisisEvents: CrisisEventRepository
+  private goals: GoalRepository
+  private checkIns: CheckInRepository
+  private pushSubscriptions: PushSubscriptionRepository
+  private usage: UsageRepository
+  private preferences: PreferencesRepository
+  private audio: AudioStore
+  private audit: AuditRepository
+  private state?: UserStateSource
+
+  constructor(options: UserDataServiceOptions = {}) {
+    this.users = options.users || createUserRepository()
+    this.sessions = options.sessions || createSessionRepository()
+    this.crisisEvents = options.crisisEvents || createCrisisEventRepository()
+    this.goals = options.goals || createGoalRepository()
+    this.checkIns = options.checkIns || createCheckInRepository()
+    this.pushSubscriptions = options.pushSubscriptions || createPushSubscriptionRepository()
+    this.usage = options.usage || createUsageRepository()
+    this.preferences = options.preferences || createPreferencesRepository()
+    this.audio = options.audio || createAudioStore()
+    this.audit = options.audit || createAuditRepository()
+    this.state = options.state
+  }
+
+  async export(userId: string): Promise<UserDataExport> {
+    const [[profile], preferences, goals, checkIns, pushSubscriptions, sessions, recordings] = await Promise.all([
+      this.users.findByIds([userId]),
+      this.preferences.get(userId),
+      this.goals.list(userId),
+      this.checkIns.listByUser(userId),
+      this.pushSubscriptions.listByUser(userId),
+      this.sessions.listByUser(userId),
+      this.audio.list()
+    ])
+    const crisisEvents = await this.crisisEvents.listBySessions(sessions.map(session => session.id))
+
+    await this.audit.record({
+      action: EXPORT_AUDIT_ACTION,
+      actor: USER_ACTOR,
+      subject_user_id: userId,
+      details: { sessions: sessions.length, goals: goals.length, crisisEvents: crisisEvents.length }
+    })
+
+    return {
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      userId,
+      profile: profile
+        ? {
+            createdAt: profile.created_at,
+            subscriptionTier: profile.subscription_tier,
+            isAnonymous: profile.is_anonymous,
+            dataRetentionDays: profile.data_retention_days,
+            analyticsOptOut: profile.analytics_opt_out
+          }
+        : null,
+      preferences,
+      goals,
+      checkIns,
+      pushSubscriptions: pushSubscriptions.map(subscription => ({ endpoint: subscription.endpoint })),
+      sessions: sessions.map(exportSession),
+      crisisEvents: crisisEvents.map(exportCrisisEvent),
+      monitoringEvents: (this.state?.getMonitoringEvents(userId) || []).map(event => ({
+        id: event.id,
+        timestamp: event.timestamp,
+        type: event.type,
+        severity: event.severity,
+        sessionId: event.sessionId,
+        data: event.data
+      })),
+      audioFiles: recordings
+        .filter(recording => recording.userId === userId)
+        .map(recording => ({ path: recording.path, createdAt: recording.createdAt.toISOString() }))
+    }
+  }
+
+  /**
+   * Delete everything tied to the user and return a signed receipt. Sessions
+   * with a crisis event under review are kept, stripped of everything but
+   * their crisis fields, and so is the profile row they belong to.
+   */
+  async erase(userId: string): Promise<DeletionReceipt> {
+    const sessions = await this.sessions.listByUser(userId)
+    const events = await this.crisisEvents.listBySessions(sessions.map(session => session.id))
+
+    const held = events.filter(isUnderLegalHold)
+    const heldSessionIds = new Set(held.map(event => event.session_id))
+    const erasedEvents = events.filter(event => !isUnderLegalHold(event))
+    const erasedSessions = sessions.filter(session => !heldSessionIds.has(session.id))
+
+    await this.crisisEvents.delete(erasedEvents.map(event => event.id))
+    await this.sessions.delete(erasedSessions.map(session => session.id))
+    for (const sessionId of heldSessionIds) {
+      await this.sessions.update(sessionId, {
+        encrypted_transcript: null,
+        encrypted_summary: null,
+        encryption_key_hash: null,
+        emotion_summary: null,
+        skills_practiced: null,
+        coaching_effectiveness_score: null,
+        practice_rubric: null
+      })
+    }
+    for (const session of sessions) {
+      await this.state?.clearHistory(session.id)
+    }
+
+    const goals = await this.goals.list(userId)
+    for (const goal of goals) {
+      await this.goals.delete(userId, goal.id)
+    }
+
+    const checkIns = await this.checkIns.deleteByUser(userId)
+    const pushSubscriptions = await this.pushSubscriptions.deleteByUser(userId)
+    // Supabase would only cascade these with the profile, which a legal hold keeps
+    const usageCounters = await this.usage.deleteByUser(userId)
+
+    const preferences = await this.preferences.get(userId)
+    if (preferences) await this.preferences.delete(userId)
+
+    const recordings = (await this.audio.list()).filter(recording => recording.userId === userId)
+    await this.audio.remove(recordings.map(recording => recording.path))
+
+    const monitoringEvents = this.state?.eraseMonitoringEvents(userId) || 0
+
+    const [profile] = await this.users.findByIds([userId])
+    const deleteProfile = Boolean(profile) && heldSessionIds.size === 0
+    if (deleteProfile) await this.users.delete(userId)
+
+    const deleted = {
+      sessions: erasedSessions.length,
+      crisisEvents: erasedEvents.length,
+      goals: goals.length,
+      checkIns,
+      pushSubscriptions,
+      usageCounters,
+      preferences: preferences ? 1 : 0,
+      monitoringEvents,
+      audioFiles: recordings.length,
+      profile: deleteProfile ? 1 : 0
+    }
+    const retained = held.length > 0
+      ? { reason: 'legal_hold' as const, sessionIds: [...heldSessionIds], crisisEventIds: held.map(event => event.id) }
+      : null
+
+    // The audit entry is the receipt's record on our side; it outlives the user
+    const entry = await this.audit.record({
+      action: ERASURE_AUDIT_ACTION,
+      actor: USER_ACTOR,
+      subject_user_id: userId,
+      details: { deleted, retained } as unknown as Json
+    })
+
+    return signDeletionReceipt({
+      receiptId: entry.id,
+      userId,
+      erasedAt: entry.created_at,
+      deleted,
+      retained
+    })
+  }
+}
+
+/**
+ * The export as separate JSON files for a ZIP archive
+ */
+export function toArchiveFiles(data: UserDataExport): ArchiveFile[] {
+  const json = (value: unknown) => JSON.stringify(value, null, 2)
+
+  return [
+    {
+      name: 'README.txt',
+      content: [
+        `Emma AI data export for user ${data.userId}, created ${data.exportedAt}.`,
+        '',
+        'Each file holds one kind of data as JSON. Saved transcripts and session',
+        'summaries in sessions.json are encrypted in your browser before upload; open',
+        'them on the Transcripts and summary pages with your passphrase. Emma cannot',
+        'read them.'
+      ].join('\n')
+    },
+    { name: 'profile.json', content: json({ version: data.version, userId: data.userId, exportedAt: data.exportedAt, profile: data.profile }) },
+    { name: 'preferences.json', content: json(data.preferences) },
+    { name: 'goals.json', content: json(data.goals) },
+    { name: 'check-ins.json', content: json(data.checkIns) },
+    { name: 'push-subscriptions.json', content: json(data.pushSubscriptions) },
+    { name: 'sessions.json', content: json(data.sessions) },
+    { name: 'crisis-events.json', content: json(data.crisisEvents) },
+    { name: 'monitoring-events.json', content: json(data.monitoringEvents) },
+    { name: 'audio-files.json', content: json(data.audioFiles) }
+  ]
+}
+
+function exportSession(session: Session) {
+  return {
+    sessionId: session.id,
+    type: session.session_type,
+    startedAt: session.created_at,
+    updatedAt: session.updated_at,
+    completed: session.completed,
+    durationSeconds: session.duration_seconds,
+    skillsPracticed: session.skills_practiced || [],
+    emotionSummary: session.emotion_summary,
+    practiceRubric: session.practice_rubric,
+    coachingEffectivenessScore: session.coaching_effectiveness_score,
+    crisisLevel: session.crisis_level,
+    crisisIndicators: session.crisis_indicators || [],
+    humanEscalationTriggered: session.human_escalation_triggered,
+    responseTimeMs: session.response_time_ms,
+    apiCallsCount: session.api_calls_count,
+    errorCount: session.error_count,
+    transcript: session.encrypted_transcript
+      ? { ciphertext: session.encrypted_transcript, keyHash: session.encryption_key_hash }
+      : null,
+    summary: session.encrypted_summary
+      ? { ciphertext: session.encrypted_summary, keyHash: session.encryption_key_hash }
+      : null
+  }
+}
+
+// Counselor assignments and notes belong to the review, not the user
+function exportCrisisEvent(event: CrisisEvent) {
+  return {
+    id: event.id,
+    sessionId: event.session_id,
+    createdAt: event.created_at,
+    type: event.crisis_type,
+    severityLevel: event.severity_level,
+    confidenceScore: event.confidence_score,
+    detectionMethod: event.detection_method,
+    escalationStatus: event.escalation_status,
+    responseTimeSeconds: event.response_time_seconds
+  }
+}
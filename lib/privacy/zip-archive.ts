@@ -0,0 +1,91 @@
+// Minimal ZIP writer for data exports: stored (uncompressed) entries only,
+// which every unzip tool reads and which needs no compression library
+
+export interface ArchiveFile {
+  name: string
+  content: string
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+export function createZipArchive(files: ArchiveFile[], modified: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2)
+  const date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate()
+
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    writeEntryFields(localView, 4, { time, date, crc, size: data.length, nameLength: name.length })
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true) // Version made by
+    writeEntryFields(centralView, 6, { time, date, crc, size: data.length, nameLength: name.length })
+    centralView.setUint32(42, offset, true) // Local header offset
+    central.set(name, 46)
+
+    localParts.push(local, data)
+    centralParts.push(central)
+    offset += local.length + data.length
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, files.length, true)
+  endView.setUint16(10, files.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  return concat([...localParts, ...centralParts, end])
+}
+
+// Fields shared by local and central headers, from "version needed" to "extra length"
+function writeEntryFields(
+  view: DataView,
+  at: number,
+  entry: { time: number, date: number, crc: number, size: number, nameLength: number }
+): void {
+  view.setUint16(at, 20, true) // Version needed
+  view.setUint16(at + 2, 0x0800, true) // UTF-8 names
+  view.setUint16(at + 4, 0, true) // Stored
+  view.setUint16(at + 6, entry.time, true)
+  view.setUint16(at + 8, entry.date, true)
+  view.setUint32(at + 10, entry.crc, true)
+  view.setUint32(at + 14, entry.size, true) // Compressed size
+  view.setUint32(at + 18, entry.size, true) // Uncompressed size
+  view.setUint16(at + 22, entry.nameLength, true)
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
@@ -0,0 +1,80 @@
+import { getServiceClient, type EmmaSupabaseClient } from '@/lib/database/supabase'
+
+const PAGE_SIZE = 1000
+
+// Recordings are stored as <userId>/<file> so they can be found per user
+export interface StoredAudio {
+  path: string
+  userId: string
+  createdAt: Date
+}
+
+export interface AudioStore {
+  name: string
+  list: () => Promise<StoredAudio[]>
+  remove: (paths: string[]) => Promise<void>
+}
+
+/**
+ * Voice recordings in a Supabase Storage bucket
+ */
+export class SupabaseAudioStore implements AudioStore {
+  name = 'supabase'
+
+  constructor(private client: EmmaSupabaseClient, private bucket: string) {}
+
+  async list(): Promise<StoredAudio[]> {
+    const folders = await this.listPath('')
+    const recordings: StoredAudio[] = []
+
+    for (const folder of folders.filter(entry => entry.id === null)) {
+      const files = await this.listPath(folder.name)
+      recordings.push(...files
+        .filter(file => file.id !== null && file.created_at)
+        .map(file => ({ path: `${folder.name}/${file.name}`, userId: folder.name, createdAt: new Date(file.created_at) })))
+    }
+
+    return recordings
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    for (let i = 0; i < paths.length; i += PAGE_SIZE) {
+      const { error } = await this.client.storage.from(this.bucket).remove(paths.slice(i, i + PAGE_SIZE))
+      if (error) throw error
+    }
+  }
+
+  private async listPath(path: string) {
+    const entries = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.client.storage.from(this.bucket).list(path, { limit: PAGE_SIZE, offset })
+      if (error) throw error
+      entries.push(...data)
+      if (data.length < PAGE_SIZE) return entries
+    }
+  }
+}
+
+/**
+ * In-memory store for local development, where audio is never persisted
+ */
+export class InMemoryAudioStore implements AudioStore {
+  name = 'in-memory'
+  private recordings = new Map<string, StoredAudio>()
+
+  async list(): Promise<StoredAudio[]> {
+    return Array.from(this.recordings.values()).map(recording => ({ ...recording }))
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    paths.forEach(path => this.recordings.delete(path))
+  }
+}
+
+export function createAudioStore(): AudioStore {
+  const client = getServiceClient()
+  const bucket = process.env.AUDIO_STORAGE_BUCKET
+  return client && bucket
+    ? new SupabaseAudioStore(client, bucket)
+    : new InMemoryAudioStore()
+}
@@ -0,0 +1,233 @@
+import type { EmotionData, ProsodyFeatures } from '@/types'
+
+const SAMPLE_INTERVAL_MS = 50
+const CONTOUR_POINTS = 20
+const SILENCE_RMS = 0.02
+const MIN_PITCH_HZ = 70
+const MAX_PITCH_HZ = 400
+const MIN_ASSESSED_SECONDS = 1.5
+
+// Vocal distress at or above this level is worth flagging to crisis detection
+export const VOCAL_DISTRESS_THRESHOLD = 0.65
+
+interface Frame {
+  rms: number
+  pitch: number // 0 when unvoiced
+}
+
+/**
+ * Samples an AnalyserNode while the user speaks and summarizes the
+ * utterance into prosodic features. Browser only.
+ */
+export class ProsodyTracker {
+  private frames: Frame[] = []
+  private timer: ReturnType<typeof setInterval> | null = null
+  private startedAt = 0
+  private buffer: Float32Array<ArrayBuffer>
+
+  constructor(private analyser: AnalyserNode, private sampleRate: number) {
+    this.buffer = new Float32Array(analyser.fftSize)
+  }
+
+  start(): void {
+    this.frames = []
+    this.startedAt = Date.now()
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS)
+  }
+
+  stop(): ProsodyFeatures | null {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+    return summarizeFrames(this.frames, (Date.now() - this.startedAt) / 1000)
+  }
+
+  private sample(): void {
+    this.analyser.getFloatTimeDomainData(this.buffer)
+
+    let sum = 0
+    for (let i = 0; i < this.buffer.length; i++) sum += this.buffer[i] * this.buffer[i]
+    const rms = Math.sqrt(sum / this.buffer.length)
+
+    this.frames.push({ rms, pitch: rms > SILENCE_RMS ? estimatePitch(this.buffer, this.sampleRate) : 0 })
+  }
+}
+
+/**
+ * Autocorrelation pitch estimate in Hz, or 0 when no clear period is found
+ */
+function estimatePitch(buffer: Float32Array, sampleRate: number): number {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ)
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), buffer.length - 1)
+  let bestLag = 0
+  let bestCorrelation = 0
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0
+    let energy = 0
+    for (let i = 0; i < buffer.length - lag; i++) {
+      correlation += buffer[i] * buffer[i + lag]
+      energy += buffer[i] * buffer[i] + buffer[i + lag] * buffer[i + lag]
+    }
+    const normalized = energy > 0 ? (2 * correlation) / energy : 0
+    if (normalized > bestCorrelation) {
+      bestCorrelation = normalized
+      bestLag = lag
+    }
+  }
+
+  return bestCorrelation > 0.8 && bestLag > 0 ? sampleRate / bestLag : 0
+}
+
+export function summarizeFrames(frames: Frame[], duration: number): ProsodyFeatures | null {
+  if (frames.length === 0 || duration <= 0) return null
+
+  const peak = Math.max(...frames.map(f => f.rms), SILENCE_RMS)
+  const voiced = frames.filter(f => f.rms > SILENCE_RMS)
+  const pitches = frames.map(f => f.pitch).filter(p => p > 0)
+  const pitchMean = mean(pitches)
+
+  // Syllable nuclei approximated as local loudness peaks above the silence floor
+  let nuclei = 0
+  for (let i = 1; i < frames.length - 1; i++) {
+    if (frames[i].rms > SILENCE_RMS * 2 && frames[i].rms > frames[i - 1].rms && frames[i].rms >= frames[i + 1].rms) nuclei++
+  }
+  const speechSeconds = (voiced.length * SAMPLE_INTERVAL_MS) / 1000
+
+  return {
+    duration: round(duration),
+    loudnessContour: resample(frames.map(f => f.rms / peak), CONTOUR_POINTS).map(round),
+    meanLoudness: round(mean(voiced.map(f => f.rms))),
+    speakingRate: round(speechSeconds > 0 ? nuclei / speechSeconds : 0),
+    pitchMean: round(pitchMean),
+    pitchVariance: round(pitchMean > 0 ? stdDev(pitches) / pitchMean : 0),
+    pauseRatio: round(1 - voiced.length / frames.length)
+  }
+}
+
+/**
+ * Validate prosody features sent by a client; returns null if malformed
+ */
+export function parseProsody(value: unknown): ProsodyFeatures | null {
+  let data: any = value
+  if (typeof value === 'string') {
+    try {
+      data = JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+  if (!data || typeof data !== 'object') return null
+
+  const numbers = ['duration', 'meanLoudness', 'speakingRate', 'pitchMean', 'pitchVariance', 'pauseRatio'] as const
+  if (!numbers.every(key => typeof data[key] === 'number' && isFinite(data[key]) && data[key] >= 0)) return null
+  if (!Array.isArray(data.loudnessContour) || !data.loudnessContour.every((v: unknown) => typeof v === 'number')) return null
+
+  return {
+    duration: data.duration,
+    loudnessContour: data.loudnessContour.slice(0, CONTOUR_POINTS),
+    meanLoudness: Math.min(1, data.meanLoudness),
+    speakingRate: data.speakingRate,
+    pitchMean: data.pitchMean,
+    pitchVariance: data.pitchVariance,
+    pauseRatio: Math.min(1, data.pauseRatio)
+  }
+}
+
+/**
+ * Arousal and distress read from the voice alone. Distress covers both
+ * agitation (loud, fast, erratic pitch) and withdrawal (flat, slow, halting).
+ */
+export function assessProsody(features: ProsodyFeatures): NonNullable<EmotionData['prosody']> {
+  // Too little speech to read anything into the voice
+  if (features.duration < MIN_ASSESSED_SECONDS || features.pauseRatio > 0.95) {
+    return { arousal: 0, distress: 0, cues: [] }
+  }
+
+  const loudness = scale(features.meanLoudness, 0.05, 0.3)
+  const pitchSwing = scale(features.pitchVariance, 0.1, 0.35)
+  const fast = scale(features.speakingRate, 4, 6.5)
+  const slow = 1 - scale(features.speakingRate, 2, 3.5)
+  const pauses = scale(features.pauseRatio, 0.35, 0.7)
+
+  const agitation = (loudness + pitchSwing + fast) / 3
+  const flatness = features.pitchMean > 0 ? 1 - pitchSwing : 0.5 // Unknown when no pitch was tracked
+  const withdrawal = (flatness + slow + pauses) / 3
+
+  const cues: string[] = []
+  if (loudness > 0.7) cues.push('raised volume')
+  if (pitchSwing > 0.7) cues.push('erratic pitch')
+  if (fast > 0.7) cues.push('rapid speech')
+  if (features.pitchMean > 0 && pitchSwing < 0.2) cues.push('flat pitch')
+  if (slow > 0.7) cues.push('slow speech')
+  if (pauses > 0.7) cues.push('long pauses')
+
+  return {
+    arousal: round(agitation),
+    distress: round(Math.max(agitation, withdrawal)),
+    cues
+  }
+}
+
+/**
+ * Combine the text's emotion with what the voice adds. The voice can make a
+ * calm-sounding message read as distressed, never the other way round.
+ */
+export function fuseEmotion(textEmotion: EmotionData | undefined, features: ProsodyFeatures): EmotionData {
+  const prosody = assessProsody(features)
+  const base: EmotionData = textEmotion || { sentiment: 0, magnitude: 0, emotions: {}, confidence: 0.3, timestamp: new Date() }
+  const emotions = { ...base.emotions }
+
+  if (prosody.distress >= VOCAL_DISTRESS_THRESHOLD) {
+    const agitated = prosody.arousal >= prosody.distress
+    const key = agitated ? 'anger' : 'sadness'
+    emotions[key] = round(Math.max(emotions[key] || 0, prosody.distress * 0.6))
+    if (!agitated) emotions.fear = round(Math.max(emotions.fear || 0, prosody.distress * 0.3))
+  }
+
+  return {
+    sentiment: round(Math.max(-1, base.sentiment - Math.max(0, prosody.distress - 0.4) * 0.6)),
+    magnitude: round(base.magnitude + prosody.arousal * 2),
+    emotions,
+    confidence: round(Math.min(1, (base.confidence + 0.6) / 2)),
+    timestamp: new Date(),
+    source: 'voice',
+    prosody
+  }
+}
+
+/**
+ * Crisis-detection note when the voice sounds distressed; null otherwise
+ */
+export function describeVocalDistress(emotion?: EmotionData): string | null {
+  const prosody = emotion?.prosody
+  if (!prosody || prosody.distress < VOCAL_DISTRESS_THRESHOLD) return null
+
+  const cues = prosody.cues.length > 0 ? ` (${prosody.cues.join(', ')})` : ''
+  return `Voice analysis: high vocal distress ${prosody.distress}/1${cues}. Weigh this even if the words sound calm.`
+}
+
+function resample(values: number[], points: number): number[] {
+  if (values.length <= points) return values
+  return Array.from({ length: points }, (_, i) => {
+    const start = Math.floor((i * values.length) / points)
+    const end = Math.floor(((i + 1) * values.length) / points)
+    return mean(values.slice(start, Math.max(end, start + 1)))
+  })
+}
+
+function scale(value: number, low: number, high: number): number {
+  return Math.min(1, Math.max(0, (value - low) / (high - low)))
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+function stdDev(values: number[]): number {
+  const avg = mean(values)
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)))
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
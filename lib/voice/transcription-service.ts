@@ -1,4 +1,6 @@
 import OpenAI from 'openai'
+import { findCrisisKeywords } from '@/lib/ai/crisis-resources'
+import { DEFAULT_LANGUAGE, getLanguage, normalizeLanguage } from '@/lib/ai/languages'
 import { TranscriptionResult, VoiceProcessingError } from '@/types'
 
 export interface TranscriptionProvider {
@@ -8,7 +10,7 @@ export interface TranscriptionProvider {
 }
 
 export interface TranscriptionOptions {
-  language?: string
+  language?: string // ISO 639-1 code; omit to auto-detect
   temperature?: number
   prompt?: string
   maxRetries?: number
@@ -44,7 +46,7 @@ export class OpenAITranscriptionProvider implements TranscriptionProvider {
       const transcription = await this.openai.audio.transcriptions.create({
         file: audioFile,
         model: 'whisper-1',
-        language: options.language || 'en',
+        language: options.language,
         response_format: 'verbose_json',
         temperature: options.temperature || 0.2,
         prompt: options.prompt
@@ -54,10 +56,12 @@ export class OpenAITranscriptionProvider implements TranscriptionProvider {
         throw new VoiceProcessingError('No speech detected in audio', 'NO_SPEECH_DETECTED')
       }
 
+      // Whisper reports the detected language by name ("spanish")
+      const language = normalizeLanguage(transcription.language) || options.language || DEFAULT_LANGUAGE
       const result: TranscriptionResult = {
         text: transcription.text.trim(),
         confidence: 0.9, // Whisper doesn't provide confidence
-        language: transcription.language || options.language || 'en',
+        language,
         duration: transcription.duration,
         segments: transcription.segments?.map(segment => ({
           start: segment.start,
@@ -65,7 +69,7 @@ export class OpenAITranscriptionProvider implements TranscriptionProvider {
           text: segment.text,
           confidence: 0.9
         })) || [],
-        crisisDetected: this.checkForCrisisIndicators(transcription.text),
+        crisisDetected: this.checkForCrisisIndicators(transcription.text, language),
         requiresHumanReview: false, // Will be set by crisis detection
         provider: this.name
       }
@@ -124,7 +128,7 @@ export class OpenAITranscriptionProvider implements TranscriptionProvider {
     }
   }
 
-  private checkForCrisisIndicators(text: string): boolean {
+  private checkForCrisisIndicators(text: string, language: string): boolean {
     const crisisKeywords = [
       // Immediate danger
       'kill myself', 'suicide', 'end my life', 'want to die', 'better off dead',
@@ -149,7 +153,7 @@ export class OpenAITranscriptionProvider implements TranscriptionProvider {
     return crisisKeywords.some(keyword => {
       const regex = new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i')
       return regex.test(lowerText)
-    })
+    }) || findCrisisKeywords(text, language).length > 0
   }
 }
 
@@ -173,7 +177,7 @@ export class WebSpeechAPIProvider implements TranscriptionProvider {
         
         recognition.continuous = false
         recognition.interimResults = false
-        recognition.lang = options.language || 'en-US'
+        recognition.lang = getLanguage(options.language).speechLocale
         recognition.maxAlternatives = 1
 
         recognition.onresult = (event) => {
@@ -191,7 +195,7 @@ export class WebSpeechAPIProvider implements TranscriptionProvider {
             resolve({
               text: transcript,
               confidence: result[0].confidence || 0.8,
-              language: options.language || 'en',
+              language: options.language || DEFAULT_LANGUAGE,
               duration: 0, // Web Speech API doesn't provide duration
               segments: [{
                 start: 0,
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { readSessionToken, verifySessionToken } from '@/lib/auth/session-token'
+
+// Reachable without a session: getting one, health and error reporting,
+// the scheduled jobs (which have their own secret) and checking deletion
+// receipts after an account is gone. The rest of /api/monitoring is for
+// operators and needs both a session and the admin key.
+const PUBLIC_ROUTES = [
+  '/api/auth/anonymous',
+  '/api/auth/signin',
+  '/api/monitoring/health',
+  '/api/monitoring/error',
+  '/api/monitoring/metrics',
+  '/api/retention',
+  '/api/check-ins/run',
+  '/api/account/receipts/verify'
+]
+
+/**
+ * Verifies the signed session token on every API request and passes the
+ * user on as x-user-id. A client-supplied x-user-id is always discarded,
+ * so routes can trust the header.
+ */
+export async function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers)
+  headers.delete('x-user-id')
+
+  const claims = await verifySessionToken(readSessionToken(request))
+  if (claims) {
+    headers.set('x-user-id', claims.sub)
+  } else if (!isPublicRoute(request.nextUrl.pathname)) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  return NextResponse.next({ request: { headers } })
+}
+
+function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`))
+}
+
+export const config = {
+  matcher: '/api/:path*'
+}
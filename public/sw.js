@@ -0,0 +1,26 @@
+// Service worker for check-in reminders sent by the check-in job.
+// Payloads carry a title, body and link only, never what the check-in is about.
+
+self.addEventListener('push', event => {
+  const data = event.data ? event.data.json() : {}
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Emma is checking in', {
+      body: data.body,
+      tag: data.tag,
+      data: { url: data.url || '/demo' }
+    })
+  )
+})
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  const url = event.notification.data && event.notification.data.url
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => client.url === url)
+      return open ? open.focus() : self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+
+/**
+ * Generate a VAPID key pair for web push check-in reminders.
+ * Add the output to .env.local; keep the private key secret.
+ *
+ *   npm run vapid-keys
+ */
+
+const crypto = require('crypto')
+
+const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+const jwk = privateKey.export({ format: 'jwk' })
+// Browsers take the public key as an uncompressed point: 0x04 || x || y
+const publicKey = Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x, 'base64url'), Buffer.from(jwk.y, 'base64url')])
+
+console.log(`WEB_PUSH_VAPID_PUBLIC_KEY=${publicKey.toString('base64url')}`)
+console.log(`WEB_PUSH_VAPID_PRIVATE_KEY=${jwk.d}`)
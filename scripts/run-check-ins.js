@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+
+/**
+ * Deliver reminders for due check-ins against a running Emma server.
+ * The job lives behind /api/check-ins/run so it uses the server's
+ * repositories, including the in-memory ones used without Supabase.
+ *
+ *   npm run check-ins              # one run
+ *   npm run check-ins -- --watch   # run every minute until stopped
+ *   npm run check-ins -- --watch 15   # ...or every 15 seconds
+ */
+
+const fs = require('fs')
+const path = require('path')
+
+const colors = {
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m'
+}
+
+// Fill in from .env.local without overriding the real environment
+const envPath = path.join(process.cwd(), '.env.local')
+if (fs.existsSync(envPath)) {
+  fs.readFileSync(envPath, 'utf8').split('\n').forEach(line => {
+    const [key, ...valueParts] = line.split('=')
+    if (key && !key.startsWith('#') && valueParts.length > 0 && !process.env[key.trim()]) {
+      process.env[key.trim()] = valueParts.join('=').trim().replace(/^["']|["']$/g, '')
+    }
+  })
+}
+
+const watchIndex = process.argv.indexOf('--watch')
+const watch = watchIndex >= 0
+const intervalSeconds = parseInt(process.argv[watchIndex + 1]) || 60
+const baseUrl = process.env.CHECK_IN_JOB_URL || process.env.RETENTION_JOB_URL || 'http://localhost:3000'
+const url = `${baseUrl.replace(/\/$/, '')}/api/check-ins/run`
+
+// Returns false when the run failed
+async function runOnce() {
+  const headers = process.env.CRON_SECRET ? { Authorization: `Bearer ${process.env.CRON_SECRET}` } : {}
+  const response = await fetch(url, { method: 'POST', headers })
+  const body = await response.json().catch(() => ({}))
+  const time = new Date().toLocaleTimeString()
+
+  if (!response.ok) {
+    console.log(`${colors.red}❌ [${time}] ${response.status} ${body.error || response.statusText}${colors.reset}`)
+    return false
+  }
+
+  const sent = Object.entries(body.sent).filter(([, count]) => count > 0).map(([channel, count]) => `${count} ${channel}`)
+  console.log(`  [${time}] Delivered ${body.delivered} check-in${body.delivered === 1 ? '' : 's'}${sent.length > 0 ? ` (sent: ${sent.join(', ')})` : ''}`)
+
+  const skipped = Object.entries(body.skipped).filter(([, count]) => count > 0).map(([channel, count]) => `${count} ${channel}`)
+  if (skipped.length > 0) {
+    console.log(`  ${colors.yellow}Skipped: ${skipped.join(', ')}${colors.reset}`)
+  }
+
+  if (body.errors.length > 0) {
+    console.log(`${colors.yellow}⚠️  Some reminders failed:${colors.reset}`)
+    body.errors.forEach(error => console.log(`  - ${error.checkInId} (${error.channel}): ${error.error}`))
+    return false
+  }
+  return true
+}
+
+async function main() {
+  console.log(`${colors.bold}${colors.blue}Emma AI - Check-in Reminders${watch ? ` (every ${intervalSeconds}s, Ctrl+C to stop)` : ''}${colors.reset}\n`)
+
+  if (!watch) {
+    const ok = await runOnce()
+    if (ok) console.log(`\n${colors.green}✅ Done${colors.reset}`)
+    process.exit(ok ? 0 : 1)
+  }
+
+  // Keep going through failures; the server may just be restarting
+  for (;;) {
+    await runOnce().catch(error => {
+      console.log(`${colors.red}❌ Could not reach ${url}: ${error.message}${colors.reset}`)
+    })
+    await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000))
+  }
+}
+
+main().catch(error => {
+  console.log(`${colors.red}❌ Could not reach ${url}: ${error.message}${colors.reset}`)
+  process.exit(1)
+})
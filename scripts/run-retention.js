@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Run the data retention job against a running Emma server.
+ * The job lives behind /api/retention because in-memory monitoring events
+ * only exist inside the server process.
+ *
+ *   npm run retention            # purge expired data
+ *   npm run retention -- --dry-run   # report what would be purged
+ */
+
+const fs = require('fs')
+const path = require('path')
+
+const colors = {
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  reset: '\x1b[0m',
+  bold: '\x1b[1m'
+}
+
+// Fill in from .env.local without overriding the real environment
+const envPath = path.join(process.cwd(), '.env.local')
+if (fs.existsSync(envPath)) {
+  fs.readFileSync(envPath, 'utf8').split('\n').forEach(line => {
+    const [key, ...valueParts] = line.split('=')
+    if (key && !key.startsWith('#') && valueParts.length > 0 && !process.env[key.trim()]) {
+      process.env[key.trim()] = valueParts.join('=').trim().replace(/^["']|["']$/g, '')
+    }
+  })
+}
+
+const dryRun = process.argv.includes('--dry-run')
+const baseUrl = process.env.RETENTION_JOB_URL || 'http://localhost:3000'
+const url = `${baseUrl.replace(/\/$/, '')}/api/retention${dryRun ? '?dryRun=true' : ''}`
+
+async function main() {
+  console.log(`${colors.bold}${colors.blue}Emma AI - Data Retention${dryRun ? ' (dry run)' : ''}${colors.reset}\n`)
+
+  const headers = process.env.CRON_SECRET ? { Authorization: `Bearer ${process.env.CRON_SECRET}` } : {}
+  const response = await fetch(url, { method: 'POST', headers })
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.log(`${colors.red}❌ ${response.status} ${body.error || response.statusText}${colors.reset}`)
+    process.exit(1)
+  }
+
+  const verb = dryRun ? 'Would purge' : 'Purged'
+  Object.entries(body.totals).forEach(([kind, count]) => {
+    console.log(`  ${verb} ${count} ${kind}`)
+  })
+  console.log(`  Users affected: ${Object.keys(body.users).length}`)
+
+  if (body.auditId) {
+    console.log(`\n${colors.green}✅ Audit entry ${body.auditId}${colors.reset}`)
+  }
+
+  if (body.errors.length > 0) {
+    console.log(`\n${colors.yellow}⚠️  Some steps failed:${colors.reset}`)
+    body.errors.forEach(error => console.log(`  - ${error}`))
+    process.exit(1)
+  }
+}
+
+main().catch(error => {
+  console.log(`${colors.red}❌ Could not reach ${url}: ${error.message}${colors.reset}`)
+  process.exit(1)
+})
@@ -0,0 +1,34 @@
+import type { CrisisEventRepository } from '@/lib/database/crisis-event-repository'
+import type { CrisisEvent } from '@/types/database'
+
+export function crisisEvent(id: string, sessionId: string, status: CrisisEvent['escalation_status']): CrisisEvent {
+  return {
+    id,
+    session_id: sessionId,
+    created_at: '2026-02-01T12:00:00.000Z',
+    crisis_type: 'mental_health_emergency',
+    severity_level: 3,
+    confidence_score: null,
+    detection_method: 'rule_based',
+    model_version: null,
+    trigger_phrases: null,
+    escalation_status: status,
+    human_counselor_id: null,
+    response_time_seconds: null,
+    resolution_notes: null
+  }
+}
+
+/**
+ * Crisis events are recorded by Supabase, so the in-memory repository has
+ * no way to add them; this one starts with the given events.
+ */
+export function crisisEventsOf(events: CrisisEvent[]): CrisisEventRepository & { deleted: string[] } {
+  const deleted: string[] = []
+  return {
+    name: 'test',
+    deleted,
+    listBySessions: async sessionIds => events.filter(event => sessionIds.includes(event.session_id) && !deleted.includes(event.id)),
+    delete: async ids => { deleted.push(...ids) }
+  }
+}
@@ -0,0 +1,55 @@
+import { EmmaAI } from '@/lib/ai/emma-core'
+import { InMemoryConversationStore } from '@/lib/ai/conversation-store'
+import { ScriptedLLMProvider, type LLMTask, type ScriptedReply } from '@/lib/ai/llm-provider'
+import { PromptRegistry } from '@/lib/ai/prompt-registry'
+import { CheckInScheduler } from '@/lib/coaching/check-in-scheduler'
+import { GoalTracker } from '@/lib/coaching/goal-tracker'
+import { InMemoryCoachingTemplateRepository } from '@/lib/coaching/template-repository'
+import { CoachingTemplateService } from '@/lib/coaching/template-service'
+import { InMemoryCheckInRepository } from '@/lib/database/check-in-repository'
+import { InMemoryGoalRepository } from '@/lib/database/goal-repository'
+import { InMemoryPreferencesRepository } from '@/lib/database/preferences-repository'
+import { InMemoryPromptVersionRepository } from '@/lib/database/prompt-repository'
+import { InMemorySessionRepository } from '@/lib/database/session-repository'
+
+export const COACHING_REPLY = JSON.stringify({
+  message: 'It sounds like the chores have become a real sore spot. What would help you feel heard?',
+  skill: 'active_listening',
+  confidence: 0.8
+})
+
+/**
+ * EmmaAI on in-memory stores, answering from a script. Coaching turns get
+ * COACHING_REPLY unless the script says otherwise.
+ */
+export function createEmma(script: Partial<Record<LLMTask, ScriptedReply | ScriptedReply[]>> = {}) {
+  const provider = new ScriptedLLMProvider({ coaching: COACHING_REPLY, ...script })
+  const checkIns = new InMemoryCheckInRepository()
+  const store = new InMemoryConversationStore()
+  const emma = new EmmaAI({
+    provider,
+    store,
+    sessions: new InMemorySessionRepository(),
+    preferences: new InMemoryPreferencesRepository(),
+    goals: new GoalTracker(new InMemoryGoalRepository()),
+    prompts: new PromptRegistry(new InMemoryPromptVersionRepository()),
+    templates: new CoachingTemplateService(new InMemoryCoachingTemplateRepository()),
+    checkIns: new CheckInScheduler(checkIns)
+  })
+  return { emma, provider, checkIns, store }
+}
+
+/**
+ * Crisis handling and the monitor log loudly by design; keep test output readable
+ */
+export function silenceConsole(): void {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+}
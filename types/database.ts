@@ -55,10 +55,12 @@ export interface Database {
           duration_seconds: number | null
           completed: boolean
           encrypted_transcript: string | null
+          encrypted_summary: string | null
           encryption_key_hash: string | null
           emotion_summary: Json | null
           skills_practiced: string[] | null
           coaching_effectiveness_score: number | null
+          practice_rubric: Json | null
           crisis_level: number
           crisis_indicators: string[] | null
           human_escalation_triggered: boolean
@@ -75,10 +77,12 @@ export interface Database {
           duration_seconds?: number | null
           completed?: boolean
           encrypted_transcript?: string | null
+          encrypted_summary?: string | null
           encryption_key_hash?: string | null
           emotion_summary?: Json | null
           skills_practiced?: string[] | null
           coaching_effectiveness_score?: number | null
+          practice_rubric?: Json | null
           crisis_level?: number
           crisis_indicators?: string[] | null
           human_escalation_triggered?: boolean
@@ -95,10 +99,12 @@ export interface Database {
           duration_seconds?: number | null
           completed?: boolean
           encrypted_transcript?: string | null
+          encrypted_summary?: string | null
           encryption_key_hash?: string | null
           emotion_summary?: Json | null
           skills_practiced?: string[] | null
           coaching_effectiveness_score?: number | null
+          practice_rubric?: Json | null
           crisis_level?: number
           crisis_indicators?: string[] | null
           human_escalation_triggered?: boolean
@@ -340,6 +346,8 @@ export interface Database {
           total_milestones: number | null
           status: 'active' | 'completed' | 'paused' | 'abandoned'
           completion_date: string | null
+          abandoned_date: string | null
+          abandon_reason: string | null
         }
         Insert: {
           id?: string
@@ -354,6 +362,8 @@ export interface Database {
           total_milestones?: number | null
           status?: 'active' | 'completed' | 'paused' | 'abandoned'
           completion_date?: string | null
+          abandoned_date?: string | null
+          abandon_reason?: string | null
         }
         Update: {
           id?: string
@@ -368,6 +378,8 @@ export interface Database {
           total_milestones?: number | null
           status?: 'active' | 'completed' | 'paused' | 'abandoned'
           completion_date?: string | null
+          abandoned_date?: string | null
+          abandon_reason?: string | null
         }
         Relationships: [
           {
@@ -378,6 +390,119 @@ export interface Database {
           }
         ]
       }
+      goal_milestones: {
+        Row: {
+          id: string
+          goal_id: string
+          created_at: string
+          position: number
+          title: string
+          skill: string | null
+          completed_at: string | null
+          completed_session_id: string | null
+        }
+        Insert: {
+          id?: string
+          goal_id: string
+          created_at?: string
+          position: number
+          title: string
+          skill?: string | null
+          completed_at?: string | null
+          completed_session_id?: string | null
+        }
+        Update: {
+          id?: string
+          goal_id?: string
+          created_at?: string
+          position?: number
+          title?: string
+          skill?: string | null
+          completed_at?: string | null
+          completed_session_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_milestones_goal_id_fkey"
+            columns: ["goal_id"]
+            referencedRelation: "relationship_goals"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      user_preferences: {
+        Row: {
+          user_id: string
+          created_at: string
+          updated_at: string
+          communication_style: 'direct' | 'indirect' | 'conflict_avoidant'
+          cultural_context: 'individualist' | 'collectivist' | 'hierarchical'
+          relationship_goals: string[]
+          preferred_language: string
+        }
+        Insert: {
+          user_id: string
+          created_at?: string
+          updated_at?: string
+          communication_style?: 'direct' | 'indirect' | 'conflict_avoidant'
+          cultural_context?: 'individualist' | 'collectivist' | 'hierarchical'
+          relationship_goals?: string[]
+          preferred_language?: string
+        }
+        Update: {
+          user_id?: string
+          created_at?: string
+          updated_at?: string
+          communication_style?: 'direct' | 'indirect' | 'conflict_avoidant'
+          cultural_context?: 'individualist' | 'collectivist' | 'hierarchical'
+          relationship_goals?: string[]
+          preferred_language?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_preferences_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      prompt_versions: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          prompt_key: string
+          version: string
+          prompt_text: string
+          traffic_weight: number
+          description: string | null
+          is_active: boolean
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          prompt_key?: string
+          version: string
+          prompt_text: string
+          traffic_weight?: number
+          description?: string | null
+          is_active?: boolean
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          prompt_key?: string
+          version?: string
+          prompt_text?: string
+          traffic_weight?: number
+          description?: string | null
+          is_active?: boolean
+        }
+        Relationships: []
+      }
       system_config: {
         Row: {
           id: string
@@ -414,6 +539,144 @@ export interface Database {
         }
         Relationships: []
       }
+      audit_log: {
+        Row: {
+          id: string
+          created_at: string
+          action: string
+          actor: string
+          subject_user_id: string | null
+          details: Json
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          action: string
+          actor: string
+          subject_user_id?: string | null
+          details?: Json
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          action?: string
+          actor?: string
+          subject_user_id?: string | null
+          details?: Json
+        }
+        Relationships: []
+      }
+      check_ins: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          user_id: string
+          prompt: string
+          due_at: string
+          status: 'scheduled' | 'delivered' | 'completed' | 'cancelled'
+          channels: ('in_app' | 'email' | 'push')[]
+          delivered_at: string | null
+          delivery_error: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+          prompt: string
+          due_at: string
+          status?: 'scheduled' | 'delivered' | 'completed' | 'cancelled'
+          channels?: ('in_app' | 'email' | 'push')[]
+          delivered_at?: string | null
+          delivery_error?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id?: string
+          prompt?: string
+          due_at?: string
+          status?: 'scheduled' | 'delivered' | 'completed' | 'cancelled'
+          channels?: ('in_app' | 'email' | 'push')[]
+          delivered_at?: string | null
+          delivery_error?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_ins_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          id: string
+          created_at: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          user_id?: string
+          endpoint?: string
+          p256dh?: string
+          auth?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      usage_counters: {
+        Row: {
+          user_id: string
+          metric: 'messages' | 'voice_seconds'
+          period_start: string
+          amount: number
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          metric: 'messages' | 'voice_seconds'
+          period_start: string
+          amount?: number
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          metric?: 'messages' | 'voice_seconds'
+          period_start?: string
+          amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_counters_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -423,6 +686,22 @@ export interface Database {
         Args: {}
         Returns: undefined
       }
+      increment_usage: {
+        Args: {
+          p_user_id: string
+          p_metric: string
+          p_period: string
+          p_amount: number
+        }
+        Returns: number
+      }
+      replace_goal_milestones: {
+        Args: {
+          p_goal_id: string
+          p_milestones: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -450,19 +729,35 @@ export type NewCoachingTemplate = Database['public']['Tables']['coaching_templat
 
 export type RelationshipGoal = Database['public']['Tables']['relationship_goals']['Row']
 export type NewRelationshipGoal = Database['public']['Tables']['relationship_goals']['Insert']
+export type GoalMilestoneRow = Database['public']['Tables']['goal_milestones']['Row']
+
+export type UserPreferencesRow = Database['public']['Tables']['user_preferences']['Row']
+
+export type PromptVersionRow = Database['public']['Tables']['prompt_versions']['Row']
 
 export type SystemConfig = Database['public']['Tables']['system_config']['Row']
 export type SystemMetric = Database['public']['Tables']['system_metrics']['Row']
 export type NewSystemMetric = Database['public']['Tables']['system_metrics']['Insert']
 
+export type AuditLogEntry = Database['public']['Tables']['audit_log']['Row']
+export type NewAuditLogEntry = Database['public']['Tables']['audit_log']['Insert']
+
+export type CheckInRow = Database['public']['Tables']['check_ins']['Row']
+
+export type PushSubscriptionRow = Database['public']['Tables']['push_subscriptions']['Row']
+
+export type UsageCounter = Database['public']['Tables']['usage_counters']['Row']
+
 // Emotion data structure
 export interface EmotionSummary {
   dominant: string
   intensity: number // 0-1
+  mood: number // -1 to 1, average sentiment
   progression: Array<{
     timestamp: number
     emotion: string
     intensity: number
+    sentiment: number // -1 to 1
   }>
   confidence: number // 0-1
 }
@@ -1,5 +1,7 @@
 // Emma AI Core Types - Safety-First Design
 
+import type { EmotionSummary } from '@/types/database';
+
 // Voice-related types
 export type VoiceRecorderState = 'idle' | 'requesting-permission' | 'listening' | 'processing'
 export type AudioLevel = number // 0-1 range for audio visualization
@@ -11,6 +13,9 @@ export interface VoiceMessage {
   speaker: 'user' | 'emma';
   audioUrl?: string;
   emotion?: EmotionData;
+  coaching?: CoachingResponse;
+  actions?: ToolAction[]; // Tools Emma used or proposed in this reply
+  partner?: PartnerId;
 }
 
 export interface TranscriptionResult {
@@ -22,6 +27,7 @@ export interface TranscriptionResult {
   crisisDetected: boolean;
   requiresHumanReview: boolean;
   provider?: string; // Which provider was used for transcription
+  emotion?: EmotionData; // Text emotion fused with vocal prosody, when the client sent prosody
 }
 
 export interface TranscriptionSegment {
@@ -77,6 +83,23 @@ export interface EmotionData {
   emotions: Record<string, number>;
   confidence: number; // 0-1 scale
   timestamp: Date;
+  source?: 'text' | 'voice'; // Analyzed from the message text or supplied from audio
+  prosody?: { // Voice only: what the speaker's delivery adds to the words
+    arousal: number; // 0-1
+    distress: number; // 0-1, agitation or withdrawal
+    cues: string[];
+  };
+}
+
+// Per-utterance acoustic features captured by the voice recorder
+export interface ProsodyFeatures {
+  duration: number; // seconds
+  loudnessContour: number[]; // RMS relative to the utterance peak, evenly resampled
+  meanLoudness: number; // RMS of voiced frames, 0-1
+  speakingRate: number; // Approximate syllables per second of speech
+  pitchMean: number; // Hz, 0 when no pitch was tracked
+  pitchVariance: number; // Pitch standard deviation relative to the mean
+  pauseRatio: number; // Share of the utterance that was silence, 0-1
 }
 
 // Safety-Validated Response Type
@@ -98,15 +121,82 @@ export interface ConversationTurn {
   timestamp: Date;
   audioUrl?: string;
   crisisDetected?: boolean;
+  partner?: PartnerId; // Couples sessions: which partner spoke
+  conflictLevel?: number; // User turns: session conflict level after this turn
 }
 
 export interface ConversationContext {
   turns: ConversationTurn[];
   sessionId: string;
+  userId?: string; // Owner; nobody else may continue the session
   emotionHistory: EmotionData[];
   skillsPracticed: string[];
   conflictLevel: number; // 0-10 scale
   lastActivity: Date;
+  summary?: string; // Rolling summary of turns no longer sent verbatim
+  summarizedTurnCount?: number; // Leading turns already folded into the summary; 0 once they are dropped
+  pinnedFacts?: PinnedFacts;
+  practice?: PracticeState; // Set when Emma is role-playing the user's partner
+  couples?: CouplesState; // Set when both partners take part in the session
+  language?: string; // Language of the latest user message (ISO 639-1)
+  promptVersion?: string; // System prompt variant assigned to this session
+  usage?: SessionUsage; // Running totals written to the sessions row when it closes
+  pendingActions?: ToolAction[]; // Side effects Emma proposed, waiting for the user to confirm
+  servedTemplates?: Record<string, boolean>; // Coaching templates used in replies; true once the user rated it
+}
+
+// Tool calls: Emma acting on the user's behalf
+export type ToolActionStatus = 'pending' | 'completed' | 'declined' | 'failed' | 'invalid';
+
+export interface ToolAction {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>; // Validated arguments; empty when the call was invalid
+  summary: string; // What the user is asked to confirm
+  status: ToolActionStatus;
+  result?: unknown;
+  error?: string;
+  createdAt: string; // ISO 8601
+}
+
+// Encrypted on the client before upload; the server only stores ciphertext
+export interface TranscriptEntry {
+  speaker: 'user' | 'emma';
+  text: string;
+  timestamp: string; // ISO 8601
+  partner?: PartnerId;
+}
+
+export interface SessionUsage {
+  requests: number; // Messages Emma handled, including failed ones
+  errors: number;
+  totalResponseMs: number; // Across successful requests
+  crisisLevel: number; // Highest so far: 0=none, 1=low, 2=medium, 3=high
+  crisisIndicators: string[]; // Crisis categories detected, never message text
+  escalated: boolean;
+  lastCrisisAt?: number; // Epoch ms of the latest turn detected as a crisis
+}
+
+// Couples Session Types
+export type PartnerId = 'A' | 'B'
+
+export interface PartnerPerspective {
+  label: string; // "Partner A" or a first name the couple chose
+  concerns: string[]; // Recent points this partner raised, newest last
+  emotionHistory: EmotionData[];
+  turnCount: number;
+}
+
+export interface CouplesState {
+  partners: Record<PartnerId, PartnerPerspective>;
+  nextSpeaker: PartnerId;
+}
+
+// Key facts kept in every prompt regardless of conversation length
+export interface PinnedFacts {
+  partnerName?: string;
+  coreConflict?: string;
+  goals: string[];
 }
 
 // Voice Processing Types
@@ -126,10 +216,12 @@ export interface VoiceState {
 }
 
 // Privacy-Compliant User Types (NEVER include personal identifiers)
+export type SubscriptionTier = 'free' | 'individual' | 'couples' | 'premium';
+
 export interface PrivacyCompliantUser {
   id: string; // Anonymous UUID only
   preferences: UserPreferences;
-  subscriptionTier: 'free' | 'individual' | 'couples' | 'premium';
+  subscriptionTier: SubscriptionTier;
   usageCount: number;
   // NEVER include: name, email, phone, address, real identity
 }
@@ -142,14 +234,121 @@ export interface UserPreferences {
 }
 
 // Coaching Types
+export type CoachingSkill = 'i_statements' | 'active_listening' | 'deescalation' | 'boundary_setting' | 'empathy'
+
 export interface CoachingResponse {
   message: string;
-  skill: 'i_statements' | 'active_listening' | 'deescalation' | 'boundary_setting' | 'empathy';
+  skill: CoachingSkill;
   practiceExercise?: string;
   followUpQuestion?: string;
   confidence: number;
 }
 
+// Practice Mode Types
+export interface PracticeScenario {
+  id: string;
+  title: string;
+  description: string;
+  partnerRole: string; // How Emma plays the partner
+  openingLine: string;
+  suggestedSkill: CoachingSkill;
+}
+
+export interface PracticeTurnFeedback {
+  turnId: string;
+  skill: CoachingSkill;
+  score: number; // 0-1 against the target skill
+  criteria: Record<string, number>; // 0-1 per rubric criterion
+  wentWell?: string;
+  tryNext?: string;
+  coaching: string; // Brief out-of-character tip
+}
+
+export interface PracticeRubric {
+  scenarioId: string;
+  skill: CoachingSkill;
+  turnsScored: number;
+  overallScore: number; // 0-1
+  criteria: Record<string, number>;
+  strengths: string[];
+  improvements: string[];
+  summary: string;
+  completedAt: Date;
+}
+
+export interface PracticeState {
+  scenarioId: string;
+  skill: CoachingSkill;
+  startedAt: Date;
+  feedback: PracticeTurnFeedback[];
+  rubric?: PracticeRubric;
+  userId?: string; // Owner, whose goals the rubric counts towards
+}
+
+// Session Summary Types
+export interface HomeworkExercise {
+  title: string;
+  instructions: string; // What to do before the next session
+  skill?: CoachingSkill; // The skill it builds, when it targets one
+}
+
+// Written when a coaching session ends; stored only as sessions.encrypted_summary, sealed on the client
+export interface SessionSummary {
+  themes: string[];
+  emotions: EmotionSummary | null; // null when no emotions were read in the session
+  skillsPracticed: CoachingSkill[];
+  homework: HomeworkExercise[]; // One or two
+  nextFocus: string;
+  generatedBy: 'llm' | 'heuristic';
+  generatedAt: Date;
+}
+
+// Relationship Goal Types
+export type GoalCategory = 'communication' | 'conflict_resolution' | 'intimacy' | 'trust_building'
+export type GoalStatus = 'active' | 'completed' | 'paused' | 'abandoned'
+
+export interface GoalMilestone {
+  id: string;
+  position: number; // Milestones are worked through in order
+  title: string;
+  skill?: CoachingSkill; // Practice sessions on this skill count towards it
+  completedAt?: Date;
+  completedSessionId?: string;
+}
+
+export interface Goal {
+  id: string;
+  userId: string;
+  category: GoalCategory;
+  description: string;
+  targetDate?: string; // YYYY-MM-DD
+  progress: number; // 0-1
+  status: GoalStatus;
+  milestones: GoalMilestone[];
+  createdAt: Date;
+  updatedAt: Date;
+  completedDate?: string;
+  abandonedDate?: string;
+  abandonReason?: string;
+}
+
+// scheduled -> delivered (reminders sent) -> completed (Emma opened a session with it)
+export type CheckInStatus = 'scheduled' | 'delivered' | 'completed' | 'cancelled';
+
+export type NotificationChannelName = 'in_app' | 'email' | 'push';
+
+export interface CheckIn {
+  id: string;
+  userId: string;
+  prompt: string; // What Emma will ask, e.g. "How did the talk with Sam go?"
+  dueAt: Date;
+  status: CheckInStatus;
+  channels: NotificationChannelName[]; // Where the reminder goes; in-app is always included
+  deliveredAt: Date | null;
+  deliveryError: string | null; // Channels that failed on delivery, if any
+  createdAt: Date;
+}
+
 // API Response Types
 export interface APIResponse<T> {
   success: boolean;